@@ -110,6 +110,30 @@ export default function TabsLayout() {
         }}
       />
 
+      <Tabs.Screen
+        name="group/join/[code]"
+        options={{
+          href: null,
+          title: t("groups.invite.joinTitle"),
+        }}
+      />
+
+      <Tabs.Screen
+        name="group-chat"
+        options={{
+          href: null,
+          title: t("groups.chat.title"),
+        }}
+      />
+
+      <Tabs.Screen
+        name="session-history"
+        options={{
+          href: null,
+          title: t("sessions.history.title"),
+        }}
+      />
+
       <Tabs.Screen
         name="groups"
         options={{
@@ -4,96 +4,24 @@ import { Card } from "@/components/ui/Card";
 import { SubjectBar } from "@/components/ui/SubjectBar";
 import Colors from "@/constants/Colors";
 import { INTER } from "@/constants/typography";
+import { useCalendarStats } from "@/hooks/useCalendarStats";
+import { useSubjects } from "@/hooks/useSubjects";
+import { useAuth } from "@/utils/authContext";
+import { createSubjectColorMap } from "@/utils/color";
 import { useTheme } from "@/utils/themeContext";
 import {
     isCurrentPeriod as checkIsCurrentPeriod,
     formatStatMinutes,
 } from "@/utils/time";
-import { useRouter } from "expo-router";
+import { useFocusEffect, useRouter } from "expo-router";
 import { ChevronLeft, ChevronRight } from "lucide-react-native";
-import React, { useMemo, useState } from "react";
+import React, { useCallback, useMemo, useState } from "react";
 import { useTranslation } from "react-i18next";
 import { Pressable, StyleSheet, TouchableOpacity, View } from "react-native";
 
 type SubjectSlice = { name: string; minutes: number; color: string };
 type DaySessions = { totalMinutes: number; subjects: SubjectSlice[] };
 
-const MOCK_SESSIONS: Record<string, DaySessions> = {
-  "2026-04-07": {
-    totalMinutes: 245,
-    subjects: [
-      { name: "Mathématiques", minutes: 120, color: "#4AC9CC" },
-      { name: "Physique", minutes: 80, color: "#F28C8C" },
-      { name: "Anglais", minutes: 45, color: "#7B8FF5" },
-    ],
-  },
-  "2026-04-08": {
-    totalMinutes: 420,
-    subjects: [
-      { name: "Mathématiques", minutes: 180, color: "#4AC9CC" },
-      { name: "Histoire", minutes: 120, color: "#F4A259" },
-      { name: "Philosophie", minutes: 120, color: "#9B8FD4" },
-    ],
-  },
-  "2026-04-09": {
-    totalMinutes: 130,
-    subjects: [
-      { name: "Anglais", minutes: 90, color: "#7B8FF5" },
-      { name: "SVT", minutes: 40, color: "#6BD9A4" },
-    ],
-  },
-  "2026-04-10": {
-    totalMinutes: 510,
-    subjects: [
-      { name: "Mathématiques", minutes: 240, color: "#4AC9CC" },
-      { name: "Physique", minutes: 150, color: "#F28C8C" },
-      { name: "Chimie", minutes: 120, color: "#F4A259" },
-    ],
-  },
-  "2026-04-11": {
-    totalMinutes: 680,
-    subjects: [
-      { name: "Mathématiques", minutes: 300, color: "#4AC9CC" },
-      { name: "Physique", minutes: 200, color: "#F28C8C" },
-      { name: "Philosophie", minutes: 180, color: "#9B8FD4" },
-    ],
-  },
-  "2026-04-12": {
-    totalMinutes: 90,
-    subjects: [{ name: "Anglais", minutes: 90, color: "#7B8FF5" }],
-  },
-  "2026-04-14": {
-    totalMinutes: 360,
-    subjects: [
-      { name: "Physique", minutes: 200, color: "#F28C8C" },
-      { name: "Chimie", minutes: 160, color: "#F4A259" },
-    ],
-  },
-  "2026-04-15": {
-    totalMinutes: 480,
-    subjects: [
-      { name: "Mathématiques", minutes: 240, color: "#4AC9CC" },
-      { name: "SVT", minutes: 120, color: "#6BD9A4" },
-      { name: "Anglais", minutes: 120, color: "#7B8FF5" },
-    ],
-  },
-  "2026-04-16": {
-    totalMinutes: 200,
-    subjects: [
-      { name: "Histoire", minutes: 120, color: "#F4A259" },
-      { name: "Géographie", minutes: 80, color: "#9B8FD4" },
-    ],
-  },
-  "2026-04-17": {
-    totalMinutes: 720,
-    subjects: [
-      { name: "Mathématiques", minutes: 360, color: "#4AC9CC" },
-      { name: "Physique", minutes: 240, color: "#F28C8C" },
-      { name: "Chimie", minutes: 120, color: "#F4A259" },
-    ],
-  },
-};
-
 type HeatThreshold = { label: string; min: number; bg: string };
 
 function heatThresholds(theme: typeof Colors.light): HeatThreshold[] {
@@ -190,15 +118,6 @@ function DayDetailCombined({
   );
 }
 
-function sumMonthMinutesMock(year: number, month: number): number {
-  let total = 0;
-  const daysInMonth = new Date(year, month + 1, 0).getDate();
-  for (let d = 1; d <= daysInMonth; d++) {
-    total += MOCK_SESSIONS[dateKey(year, month, d)]?.totalMinutes ?? 0;
-  }
-  return total;
-}
-
 export default function CalendarStatsScreen() {
   const theme = useTheme();
   const router = useRouter();
@@ -206,9 +125,30 @@ export default function CalendarStatsScreen() {
   const styles = useMemo(() => createStyles(theme), [theme]);
   const thresholds = useMemo(() => heatThresholds(theme), [theme]);
 
+  const { user } = useAuth();
   const today = useMemo(() => new Date(), []);
   const [focusDate, setFocusDate] = useState(() => new Date());
 
+  const { days, monthTotalMinutes, yearMonthMinutes, refetch } = useCalendarStats({
+    userId: user?.id ?? null,
+    focusDate,
+  });
+  const { subjectTree, subjectNameById } = useSubjects({
+    userId: user?.id ?? null,
+    autoLoad: true,
+  });
+  const subjectColorById = useMemo(
+    () => createSubjectColorMap(subjectTree, theme.subjectPalette, theme.primary),
+    [subjectTree, theme.subjectPalette, theme.primary]
+  );
+
+  // Sessions may have been logged since the last visit
+  useFocusEffect(
+    useCallback(() => {
+      void refetch();
+    }, [refetch])
+  );
+
   const locale = i18n.language?.startsWith("fr") ? "fr-FR" : "en-US";
 
   const viewYear = focusDate.getFullYear();
@@ -216,8 +156,6 @@ export default function CalendarStatsScreen() {
 
   const cells = useMemo(() => buildCalendar(viewYear, viewMonth), [viewYear, viewMonth]);
 
-  const monthTotal = useMemo(() => sumMonthMinutesMock(viewYear, viewMonth), [viewYear, viewMonth]);
-
   const formatNavLabel = () =>
     focusDate.toLocaleDateString(locale, {
       month: "long",
@@ -242,7 +180,18 @@ export default function CalendarStatsScreen() {
   );
 
   const selKey = dateKey(focusDate.getFullYear(), focusDate.getMonth(), focusDate.getDate());
-  const selSession = MOCK_SESSIONS[selKey];
+  const selDay = days[selKey];
+  const selSession = useMemo((): DaySessions | undefined => {
+    if (!selDay) return undefined;
+    return {
+      totalMinutes: selDay.totalMinutes,
+      subjects: selDay.subjects.map((s) => ({
+        name: subjectNameById[s.subjectId] ?? t("tasks.form.subject"),
+        minutes: s.minutes,
+        color: subjectColorById[s.subjectId] ?? theme.primary,
+      })),
+    };
+  }, [selDay, subjectNameById, subjectColorById, theme.primary, t]);
   const selDateObj = new Date(focusDate.getFullYear(), focusDate.getMonth(), focusDate.getDate());
   const selLabel = selDateObj.toLocaleDateString(locale, {
     weekday: "short",
@@ -260,12 +209,12 @@ export default function CalendarStatsScreen() {
     const rows = Array.from({ length: 12 }, (_, m) => ({
       key: m,
       label: new Date(y, m, 1).toLocaleDateString(locale, { month: "short" }),
-      minutes: sumMonthMinutesMock(y, m),
+      minutes: yearMonthMinutes[m] ?? 0,
     }));
     const maxMin = Math.max(...rows.map((r) => r.minutes), 1);
     const yearTotal = rows.reduce((a, r) => a + r.minutes, 0);
     return { rows, maxMin, yearTotal };
-  }, [focusDate, locale]);
+  }, [focusDate, locale, yearMonthMinutes]);
 
   const weekMeta = useMemo(() => {
     const anchor = new Date(focusDate.getFullYear(), focusDate.getMonth(), focusDate.getDate());
@@ -286,11 +235,11 @@ export default function CalendarStatsScreen() {
       "sun",
     ];
     const labels = dayKeys.map((k) => t(`common.days.${k}`));
-    const weekTotal = keys.reduce((a, k) => a + (MOCK_SESSIONS[k]?.totalMinutes ?? 0), 0);
-    const maxMin = Math.max(...keys.map((k) => MOCK_SESSIONS[k]?.totalMinutes ?? 0), 1);
+    const weekTotal = keys.reduce((a, k) => a + (days[k]?.totalMinutes ?? 0), 0);
+    const maxMin = Math.max(...keys.map((k) => days[k]?.totalMinutes ?? 0), 1);
     const todayKey = dateKey(today.getFullYear(), today.getMonth(), today.getDate());
     return { keys, labels, weekTotal, maxMin, todayKey };
-  }, [focusDate, t, today]);
+  }, [focusDate, t, today, days]);
 
   const calendarWeekdayLabels = useMemo(() => {
     const keys = ["mon", "tue", "wed", "thu", "fri", "sat", "sun"] as const;
@@ -348,7 +297,7 @@ export default function CalendarStatsScreen() {
               viewYear === focusDate.getFullYear() &&
               viewMonth === focusDate.getMonth();
             const k = cell.current ? dateKey(viewYear, viewMonth, cell.day) : null;
-            const mins = k ? (MOCK_SESSIONS[k]?.totalMinutes ?? 0) : 0;
+            const mins = k ? (days[k]?.totalMinutes ?? 0) : 0;
             const heat = cell.current ? getDayColor(mins, thresholds) : null;
 
             return (
@@ -416,7 +365,7 @@ export default function CalendarStatsScreen() {
           <Text variant="micro" colorName="textMuted" style={styles.monthTotal}>
             {t("calendarStats.monthTotal", {
               month: monthTitle.trim(),
-              time: formatStatMinutes(monthTotal),
+              time: formatStatMinutes(monthTotalMinutes),
             })}
           </Text>
         </View>
@@ -452,7 +401,7 @@ export default function CalendarStatsScreen() {
         </View>
         <View style={styles.weekChartRow}>
           {weekMeta.keys.map((key, idx) => {
-            const mins = MOCK_SESSIONS[key]?.totalMinutes ?? 0;
+            const mins = days[key]?.totalMinutes ?? 0;
             const pct = mins / weekMeta.maxMin;
             const isTodayBar = key === weekMeta.todayKey;
             return (
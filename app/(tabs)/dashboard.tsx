@@ -1,14 +1,20 @@
 import { TabScreen } from "@/components/layout/TabScreen";
+import { SessionFormModal } from "@/components/sessions/SessionFormModal";
 import { Text } from "@/components/Themed";
+import { Button } from "@/components/ui/Button";
 import { Card } from "@/components/ui/Card";
 import { StatCard } from "@/components/ui/StatCard";
 import { SubjectBar } from "@/components/ui/SubjectBar";
+import { PendingSyncBadge } from "@/components/ui/PendingSyncBadge";
 import { Tabs } from "@/components/ui/Tabs";
 import Colors from "@/constants/Colors";
 import { getSubjectDisplayName } from "@/constants/subjectCatalog";
 import { useDashboard } from "@/hooks/useDashboard";
+import { useStudySessions, type StudySessionInput } from "@/hooks/useStudySessions";
+import { useTasks } from "@/hooks/useTasks";
 import { useAuth } from "@/utils/authContext";
 import { createSubjectColorMap } from "@/utils/color";
+import type { StudySession } from "@/utils/queries";
 import { useTheme } from "@/utils/themeContext";
 import {
   isCurrentPeriod as checkIsCurrentPeriod,
@@ -20,7 +26,10 @@ import {
   CalendarDays,
   ChevronLeft,
   ChevronRight,
+  Brain,
   Clock,
+  History,
+  Plus,
   Target,
   Timer,
   TrendingUp,
@@ -64,11 +73,46 @@ export default function DashboardScreen() {
     subjectNameById,
     subjectGoalVsActual,
     distributionBySubject,
+    focusBySubject,
+    focusByTimeOfDay,
     histogramData,
     histogramSubjects,
     subjects,
+    refetch: refetchDashboard,
   } = useDashboard(user?.id ?? null, period, focusDate);
 
+  const {
+    sessions: recentSessions,
+    createSession,
+    updateSession,
+    deleteSession,
+  } = useStudySessions({ userId: user?.id ?? null });
+  const { tasks } = useTasks({ userId: user?.id ?? null, autoLoad: true });
+  // undefined: closed; null: new past session; otherwise the session being edited
+  const [sessionFormTarget, setSessionFormTarget] = React.useState<
+    StudySession | null | undefined
+  >(undefined);
+
+  const handleSubmitSession = async (input: StudySessionInput) => {
+    if (sessionFormTarget) {
+      await updateSession(sessionFormTarget.id, input);
+    } else {
+      await createSession(input);
+    }
+    await refetchDashboard();
+  };
+
+  const openSessionHistory = (subjectId?: string) =>
+    router.push({
+      pathname: "/(tabs)/session-history",
+      params: subjectId ? { subjectId } : {},
+    });
+
+  const handleDeleteSession = async (sessionId: string) => {
+    await deleteSession(sessionId);
+    await refetchDashboard();
+  };
+
   const subjectColorById = React.useMemo(
     () =>
       createSubjectColorMap(
@@ -163,15 +207,18 @@ export default function DashboardScreen() {
       title={t("dashboard.title")}
       gap={8}
       rightAction={
-        <TouchableOpacity
-          onPress={() => router.push("/calendar-stats")}
-          hitSlop={12}
-          accessibilityRole="button"
-          accessibilityLabel={t("dashboard.calendarViewA11y")}
-          style={styles.headerIconButton}
-        >
-          <CalendarDays size={22} color={theme.primary} />
-        </TouchableOpacity>
+        <View style={styles.headerActions}>
+          <PendingSyncBadge userId={user?.id ?? null} />
+          <TouchableOpacity
+            onPress={() => router.push("/calendar-stats")}
+            hitSlop={12}
+            accessibilityRole="button"
+            accessibilityLabel={t("dashboard.calendarViewA11y")}
+            style={styles.headerIconButton}
+          >
+            <CalendarDays size={22} color={theme.primary} />
+          </TouchableOpacity>
+        </View>
       }
     >
 
@@ -219,6 +266,75 @@ export default function DashboardScreen() {
           />
         </View>
 
+        {/* RECENT SESSIONS: log a forgotten session or fix a past one */}
+        <Card variant="border" style={styles.distributionCard}>
+          <View style={styles.distributionHeader}>
+            <History size={18} color={iconColor} />
+            <Text
+              variant="subtitle"
+              style={[styles.dashboardSectionTitle, styles.distributionTitle, styles.recentTitle]}
+            >
+              {t("sessions.recent.title")}
+            </Text>
+            <Button
+              size="xs"
+              variant="soft"
+              iconLeft={Plus}
+              title={t("sessions.recent.logPast")}
+              onPress={() => setSessionFormTarget(null)}
+            />
+          </View>
+          {recentSessions.length === 0 ? (
+            <Text variant="body" colorName="textMuted" style={styles.emptyStateText}>
+              {t("sessions.recent.empty")}
+            </Text>
+          ) : (
+            recentSessions.map((session) => {
+              const started = new Date(session.startedAt);
+              const ended = new Date(session.endedAt);
+              const timeOpts = { hour: "2-digit", minute: "2-digit" } as const;
+              return (
+                <TouchableOpacity
+                  key={session.id}
+                  style={styles.recentRow}
+                  onPress={() => setSessionFormTarget(session)}
+                  accessibilityRole="button"
+                  accessibilityLabel={t("sessions.recent.editA11y")}
+                >
+                  <View
+                    style={[
+                      styles.recentDot,
+                      { backgroundColor: subjectColorById[session.subjectId] ?? theme.primary },
+                    ]}
+                  />
+                  <View style={styles.recentBody}>
+                    <Text variant="body" numberOfLines={1}>
+                      {subjectNameById[session.subjectId] ?? t("tasks.form.subject")}
+                    </Text>
+                    <Text variant="micro" colorName="textMuted">
+                      {started.toLocaleDateString(undefined, { month: "short", day: "numeric" })}{" "}
+                      {started.toLocaleTimeString(undefined, timeOpts)} –{" "}
+                      {ended.toLocaleTimeString(undefined, timeOpts)}
+                    </Text>
+                  </View>
+                  <Text variant="caption" colorName="textMuted">
+                    {formatDurationCompact(session.durationSeconds)}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })
+          )}
+          {recentSessions.length > 0 ? (
+            <Button
+              size="xs"
+              variant="ghost"
+              title={t("sessions.history.seeAll")}
+              onPress={() => openSessionHistory()}
+              style={styles.recentSeeAll}
+            />
+          ) : null}
+        </Card>
+
         {(period === "day" || period === "week") && (
           <Card variant="border" style={styles.distributionCard}>
             <View style={styles.distributionHeader}>
@@ -258,6 +374,7 @@ export default function DashboardScreen() {
                       name={row.subjectName}
                       value={`${formatStatMinutes(row.actualMinutes)} / ${formatStatMinutes(row.goalMinutes)}`}
                       fillPercent={pctFill}
+                      onPress={() => openSessionHistory(row.subjectId)}
                     />
                   );
                 })}
@@ -293,6 +410,7 @@ export default function DashboardScreen() {
                       name={s.name}
                       value={formatDurationCompact(s.seconds)}
                       fillPercent={s.percent}
+                      onPress={() => openSessionHistory(s.subjectId)}
                     />
                   );
                 })}
@@ -305,6 +423,53 @@ export default function DashboardScreen() {
           </Card>
         )}
 
+        {/* FOCUS: average post-session reflection rating */}
+        <Card variant="border" style={styles.distributionCard}>
+          <View style={styles.distributionHeader}>
+            <Brain size={18} color={iconColor} />
+            <Text variant="subtitle" style={[styles.dashboardSectionTitle, styles.distributionTitle]}>
+              {t("dashboard.focus.title")}
+            </Text>
+          </View>
+          {focusBySubject.length === 0 ? (
+            <Text variant="body" colorName="textMuted" style={styles.emptyStateText}>
+              {t("dashboard.focus.empty")}
+            </Text>
+          ) : (
+            <>
+              <Text variant="micro" colorName="textMuted" style={styles.focusSubtitle}>
+                {t("dashboard.focus.bySubject")}
+              </Text>
+              <View style={styles.distributionBars}>
+                {focusBySubject.map((row) => (
+                  <SubjectBar
+                    key={row.key}
+                    color={subjectColorById[row.key] ?? theme.primary}
+                    name={row.label}
+                    value={t("dashboard.focus.average", { value: row.average.toFixed(1) })}
+                    fillPercent={(row.average / 5) * 100}
+                    onPress={() => openSessionHistory(row.key)}
+                  />
+                ))}
+              </View>
+              <Text variant="micro" colorName="textMuted" style={styles.focusSubtitle}>
+                {t("dashboard.focus.byTimeOfDay")}
+              </Text>
+              <View style={styles.distributionBars}>
+                {focusByTimeOfDay.map((row) => (
+                  <SubjectBar
+                    key={row.key}
+                    color={theme.secondary}
+                    name={row.label}
+                    value={t("dashboard.focus.average", { value: row.average.toFixed(1) })}
+                    fillPercent={(row.average / 5) * 100}
+                  />
+                ))}
+              </View>
+            </>
+          )}
+        </Card>
+
         {/* Progression (histogramme inutile pour la vue « Jour » : un seul jour) */}
         {period !== "day" && (
         <Card variant="border" style={styles.histogramCard}>
@@ -476,6 +641,15 @@ export default function DashboardScreen() {
         </Card>
         )}
 
+      <SessionFormModal
+        visible={sessionFormTarget !== undefined}
+        onClose={() => setSessionFormTarget(undefined)}
+        session={sessionFormTarget}
+        subjects={subjects}
+        tasks={tasks}
+        onSubmit={handleSubmitSession}
+        onDelete={handleDeleteSession}
+      />
     </TabScreen>
   );
 }
@@ -487,6 +661,8 @@ const createStyles = (theme: typeof Colors.light) =>
   StyleSheet.create({
     container: { flex: 1, backgroundColor: theme.background },
 
+    headerActions: { flexDirection: "row", alignItems: "center", gap: 10 },
+
     periodTabs: { marginBottom: 6 },
 
     dashboardSectionTitle: {
@@ -522,8 +698,22 @@ const createStyles = (theme: typeof Colors.light) =>
     },
     distributionTitle: { fontWeight: "600" },
     distributionBars: { marginTop: 6 },
+    focusSubtitle: { marginTop: 8 },
     emptyStateText: { textAlign: "center", marginTop: 8, marginBottom: 6 },
 
+    recentTitle: { flex: 1 },
+    recentSeeAll: { alignSelf: "flex-end", marginTop: 4 },
+    recentRow: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 10,
+      paddingVertical: 8,
+      borderBottomWidth: StyleSheet.hairlineWidth,
+      borderBottomColor: theme.divider,
+    },
+    recentDot: { width: 10, height: 10, borderRadius: 5 },
+    recentBody: { flex: 1, minWidth: 0 },
+
     // Histogram card
     histogramCard: { padding: 12, marginBottom: 8 },
     histogramCardHeader: {
@@ -0,0 +1,416 @@
+import { TabScreen } from "@/components/layout/TabScreen";
+import { Text } from "@/components/Themed";
+import { Button } from "@/components/ui/Button";
+import Colors from "@/constants/Colors";
+import { useGroupMessages } from "@/hooks/useGroupMessages";
+import { useAuth } from "@/utils/authContext";
+import {
+  fetchGroupMembersWithPresence,
+  type GroupMemberWithPresence,
+  type GroupMessage,
+} from "@/utils/queries";
+import { useTheme } from "@/utils/themeContext";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { ChevronLeft, Pin, Send } from "lucide-react-native";
+import React from "react";
+import { useTranslation } from "react-i18next";
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  KeyboardAvoidingView,
+  Platform,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+const MAX_MESSAGE_LENGTH = 2000;
+const MAX_MENTION_SUGGESTIONS = 5;
+
+const firstParam = (value: string | string[] | undefined) =>
+  Array.isArray(value) ? value[0] : value;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/** Trailing "@partial" being typed, or null. */
+const getMentionQuery = (text: string): string | null => {
+  const match = /(?:^|\s)@([^\s@]*)$/.exec(text);
+  return match ? match[1] : null;
+};
+
+export default function GroupChatScreen() {
+  const params = useLocalSearchParams<{ id?: string; name?: string }>();
+  const groupId = firstParam(params.id) ?? "";
+  const groupName = firstParam(params.name) ?? null;
+  const router = useRouter();
+  const theme = useTheme();
+  const styles = React.useMemo(() => createStyles(theme), [theme]);
+  const { t, i18n } = useTranslation();
+  const { user } = useAuth();
+
+  const [members, setMembers] = React.useState<GroupMemberWithPresence[]>([]);
+  const [draft, setDraft] = React.useState("");
+  const [sending, setSending] = React.useState(false);
+  const [showPinned, setShowPinned] = React.useState(true);
+
+  const {
+    messages,
+    pinned,
+    loading,
+    loadingMore,
+    error,
+    loadMore,
+    postMessage,
+    deleteMessage,
+    setPinned,
+  } = useGroupMessages({ groupId: groupId || null, userId: user?.id ?? null });
+
+  React.useEffect(() => {
+    if (!groupId) return;
+    let cancelled = false;
+    fetchGroupMembersWithPresence(groupId)
+      .then((data) => {
+        if (!cancelled) setMembers(data);
+      })
+      .catch((err) => console.error("group chat members", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [groupId]);
+
+  const memberById = React.useMemo(
+    () => new Map(members.map((m) => [m.userId, m])),
+    [members]
+  );
+  const isGroupAdmin = memberById.get(user?.id ?? "")?.role === "group_admin";
+
+  const mentionQuery = getMentionQuery(draft);
+  const mentionSuggestions = React.useMemo(() => {
+    if (mentionQuery == null) return [];
+    const query = mentionQuery.toLowerCase();
+    return members
+      .filter((m) => m.userId !== user?.id && m.username?.toLowerCase().startsWith(query))
+      .slice(0, MAX_MENTION_SUGGESTIONS);
+  }, [members, mentionQuery, user?.id]);
+
+  const insertMention = (member: GroupMemberWithPresence) => {
+    if (!member.username) return;
+    setDraft((current) => current.replace(/@([^\s@]*)$/, `@${member.username} `));
+  };
+
+  const handleSend = async () => {
+    const body = draft.trim();
+    if (!body || sending) return;
+    // Only mentions still present in the text are kept
+    const mentions = members
+      .filter((m) => m.username && new RegExp(`@${escapeRegExp(m.username)}(?![^\\s.,!?;:])`).test(body))
+      .map((m) => m.userId);
+    setSending(true);
+    try {
+      await postMessage(body, mentions);
+      setDraft("");
+    } catch (err: any) {
+      Alert.alert(t("groups.chat.errorTitle"), err?.message ?? t("groups.chat.errorSend"));
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const openMessageActions = (message: GroupMessage) => {
+    const isAuthor = message.authorId === user?.id;
+    if (!isAuthor && !isGroupAdmin) return;
+
+    const buttons: { text: string; style?: "cancel" | "destructive"; onPress?: () => void }[] = [];
+    if (isGroupAdmin) {
+      buttons.push({
+        text: message.pinnedAt ? t("groups.chat.unpin") : t("groups.chat.pin"),
+        onPress: () => {
+          setPinned(message.id, !message.pinnedAt).catch((err) =>
+            Alert.alert(t("groups.chat.errorTitle"), err?.message ?? t("groups.chat.errorPin"))
+          );
+        },
+      });
+    }
+    buttons.push({
+      text: t("common.actions.delete"),
+      style: "destructive",
+      onPress: () => {
+        deleteMessage(message.id).catch((err) =>
+          Alert.alert(t("groups.chat.errorTitle"), err?.message ?? t("groups.chat.errorDelete"))
+        );
+      },
+    });
+    buttons.push({ text: t("common.actions.cancel"), style: "cancel" });
+
+    Alert.alert(t("groups.chat.actionsTitle"), undefined, buttons);
+  };
+
+  const authorName = (authorId: string) => {
+    if (authorId === user?.id) return t("groups.chat.you");
+    return memberById.get(authorId)?.username?.trim() || t("groups.chat.formerMember");
+  };
+
+  const renderBody = (message: GroupMessage) => {
+    const names = message.mentions
+      .map((id) => memberById.get(id)?.username)
+      .filter((name): name is string => !!name);
+    if (names.length === 0) return message.body;
+
+    const pattern = new RegExp(`(@(?:${names.map(escapeRegExp).join("|")}))`, "g");
+    return message.body.split(pattern).map((part, index) =>
+      index % 2 === 1 ? (
+        <Text key={index} variant="body" style={styles.mention}>
+          {part}
+        </Text>
+      ) : (
+        part
+      )
+    );
+  };
+
+  const renderMessage = ({ item }: { item: GroupMessage }) => {
+    const isSelf = item.authorId === user?.id;
+    const mentionsMe = !!user?.id && item.mentions.includes(user.id);
+    const time = new Date(item.createdAt).toLocaleString(i18n.language, {
+      day: "numeric",
+      month: "short",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+
+    return (
+      <TouchableOpacity
+        activeOpacity={0.8}
+        onLongPress={() => openMessageActions(item)}
+        style={[
+          styles.message,
+          isSelf && styles.messageSelf,
+          mentionsMe && { borderColor: theme.primary },
+        ]}
+        accessibilityHint={isSelf || isGroupAdmin ? t("groups.chat.actionsHint") : undefined}
+      >
+        <View style={styles.messageHeader}>
+          <Text variant="caption" style={styles.author} numberOfLines={1}>
+            {authorName(item.authorId)}
+          </Text>
+          {item.pinnedAt ? <Pin size={12} color={theme.primary} /> : null}
+          <Text variant="micro" colorName="textMuted">
+            {time}
+          </Text>
+        </View>
+        <Text variant="body">{renderBody(item)}</Text>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <TabScreen
+      title={groupName ?? t("groups.chat.title")}
+      subtitle={t("groups.chat.title")}
+      scroll={false}
+      leftAction={
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <ChevronLeft size={24} color={theme.text} />
+        </TouchableOpacity>
+      }
+    >
+      <KeyboardAvoidingView
+        style={styles.flex}
+        behavior={Platform.OS === "ios" ? "padding" : undefined}
+        keyboardVerticalOffset={Platform.OS === "ios" ? 96 : 0}
+      >
+        {pinned.length > 0 ? (
+          <View style={styles.pinnedBox}>
+            <TouchableOpacity
+              style={styles.pinnedHeader}
+              onPress={() => setShowPinned((v) => !v)}
+              accessibilityRole="button"
+            >
+              <Pin size={14} color={theme.primary} />
+              <Text variant="caption" colorName="primary">
+                {t("groups.chat.pinnedCount", { count: pinned.length })}
+              </Text>
+            </TouchableOpacity>
+            {showPinned
+              ? pinned.map((message) => (
+                  <TouchableOpacity
+                    key={message.id}
+                    onLongPress={() => openMessageActions(message)}
+                    style={styles.pinnedItem}
+                  >
+                    <Text variant="micro" colorName="textMuted">
+                      {authorName(message.authorId)}
+                    </Text>
+                    <Text variant="caption" numberOfLines={2}>
+                      {message.body}
+                    </Text>
+                  </TouchableOpacity>
+                ))
+              : null}
+          </View>
+        ) : null}
+
+        {loading && messages.length === 0 ? (
+          <View style={styles.centerBox}>
+            <ActivityIndicator color={theme.primary} />
+          </View>
+        ) : error && messages.length === 0 ? (
+          <Text variant="body" colorName="textMuted" align="center" style={styles.helperText}>
+            {t("groups.chat.loadError")}
+          </Text>
+        ) : (
+          <FlatList
+            data={messages}
+            keyExtractor={(item) => item.id}
+            renderItem={renderMessage}
+            // Newest at the bottom; scrolling up loads older pages
+            inverted
+            onEndReached={() => void loadMore()}
+            onEndReachedThreshold={0.3}
+            style={styles.flex}
+            contentContainerStyle={styles.listContent}
+            keyboardShouldPersistTaps="handled"
+            ListEmptyComponent={
+              <Text variant="body" colorName="textMuted" align="center" style={styles.helperText}>
+                {t("groups.chat.empty")}
+              </Text>
+            }
+            ListFooterComponent={
+              loadingMore ? <ActivityIndicator color={theme.primary} style={styles.more} /> : null
+            }
+          />
+        )}
+
+        {mentionSuggestions.length > 0 ? (
+          <View style={styles.suggestions}>
+            {mentionSuggestions.map((member) => (
+              <TouchableOpacity
+                key={member.userId}
+                style={styles.suggestion}
+                onPress={() => insertMention(member)}
+              >
+                <Text variant="caption" numberOfLines={1}>
+                  @{member.username}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        ) : null}
+
+        <View style={styles.composer}>
+          <TextInput
+            value={draft}
+            onChangeText={setDraft}
+            placeholder={t("groups.chat.placeholder")}
+            placeholderTextColor={theme.textMuted}
+            multiline
+            maxLength={MAX_MESSAGE_LENGTH}
+            style={styles.input}
+          />
+          <Button
+            iconLeft={Send}
+            iconOnly
+            variant="primary"
+            size="sm"
+            onPress={() => void handleSend()}
+            loading={sending}
+            disabled={sending || !draft.trim()}
+            accessibilityLabel={t("groups.chat.send")}
+          />
+        </View>
+      </KeyboardAvoidingView>
+    </TabScreen>
+  );
+}
+
+const createStyles = (theme: typeof Colors.light) =>
+  StyleSheet.create({
+    flex: { flex: 1 },
+    backButton: {
+      padding: 8,
+      marginLeft: -8,
+      justifyContent: "center",
+      alignItems: "center",
+    },
+    centerBox: {
+      flex: 1,
+      paddingVertical: 48,
+      alignItems: "center",
+    },
+    helperText: {
+      paddingVertical: 20,
+      paddingHorizontal: 16,
+    },
+    listContent: {
+      gap: 8,
+      paddingVertical: 8,
+    },
+    more: { paddingVertical: 12 },
+    message: {
+      padding: 12,
+      borderRadius: 14,
+      backgroundColor: theme.surfaceElevated,
+      borderWidth: 1,
+      borderColor: "transparent",
+      gap: 4,
+      maxWidth: "88%",
+      alignSelf: "flex-start",
+    },
+    messageSelf: {
+      alignSelf: "flex-end",
+      backgroundColor: theme.primaryTint,
+    },
+    messageHeader: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 6,
+    },
+    author: { fontWeight: "600", flexShrink: 1 },
+    mention: { color: theme.primaryDark, fontWeight: "600" },
+    pinnedBox: {
+      borderRadius: 14,
+      borderWidth: StyleSheet.hairlineWidth,
+      borderColor: theme.border,
+      padding: 10,
+      gap: 6,
+      marginBottom: 8,
+    },
+    pinnedHeader: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 6,
+    },
+    pinnedItem: { gap: 2 },
+    suggestions: {
+      flexDirection: "row",
+      flexWrap: "wrap",
+      gap: 8,
+      paddingVertical: 8,
+    },
+    suggestion: {
+      paddingHorizontal: 12,
+      paddingVertical: 6,
+      borderRadius: 999,
+      backgroundColor: theme.surfaceElevated,
+      maxWidth: 200,
+    },
+    composer: {
+      flexDirection: "row",
+      alignItems: "flex-end",
+      gap: 8,
+      paddingTop: 8,
+    },
+    input: {
+      flex: 1,
+      minHeight: 40,
+      maxHeight: 120,
+      paddingHorizontal: 12,
+      paddingVertical: 10,
+      borderRadius: 14,
+      backgroundColor: theme.surfaceElevated,
+      color: theme.text,
+      fontSize: 15,
+    },
+  });
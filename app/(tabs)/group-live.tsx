@@ -1,21 +1,46 @@
+import { CreateGroupChallengeModal } from "@/components/groups/CreateGroupChallengeModal";
+import { CreateGroupEventModal } from "@/components/groups/CreateGroupEventModal";
+import { GroupChallengeCard } from "@/components/groups/GroupChallengeCard";
+import { GroupEventAttendanceModal } from "@/components/groups/GroupEventAttendanceModal";
+import { GroupEventCard } from "@/components/groups/GroupEventCard";
+import { StartStudyRoomModal } from "@/components/groups/StartStudyRoomModal";
+import { StudyRoomCard } from "@/components/groups/StudyRoomCard";
 import { TabScreen } from "@/components/layout/TabScreen";
 import { Text } from "@/components/Themed";
+import { Button } from "@/components/ui/Button";
+import { SubjectIcon } from "@/components/ui/SubjectIcon";
 import Colors from "@/constants/Colors";
+import { useGroupChallenges } from "@/hooks/useGroupChallenges";
+import { getGroupEventStatus, useGroupEvents } from "@/hooks/useGroupEvents";
+import { useGroupPresence } from "@/hooks/useGroupPresence";
+import { useStudyRoom } from "@/hooks/useStudyRoom";
 import { useAuth } from "@/utils/authContext";
 import {
+  STUDY_PRESENCE_POLL_MS,
   STUDY_PRESENCE_STALE_MS,
-  fetchGroupMembersWithPresence,
+  type GroupEvent,
+  type GroupEventRsvpStatus,
   type GroupMemberWithPresence,
+  type GroupStudyRoomSettings,
 } from "@/utils/queries";
 import { useTheme } from "@/utils/themeContext";
 import { formatTime } from "@/utils/time";
-import { supabase } from "@/utils/supabase";
 import { useLocalSearchParams, useRouter } from "expo-router";
-import { ChevronLeft, Clock, Flame, User } from "lucide-react-native";
+import {
+  CalendarCheck,
+  ChevronLeft,
+  Clock,
+  Coffee,
+  Flame,
+  MessageCircle,
+  Plus,
+  User,
+} from "lucide-react-native";
 import React from "react";
 import { useTranslation } from "react-i18next";
 import {
   ActivityIndicator,
+  Alert,
   Image,
   RefreshControl,
   ScrollView,
@@ -32,11 +57,18 @@ function isPresenceLive(m: GroupMemberWithPresence, now: number): boolean {
   return now - last < STUDY_PRESENCE_STALE_MS;
 }
 
+function isPresenceOnBreak(m: GroupMemberWithPresence, now: number): boolean {
+  return isPresenceLive(m, now) && m.pausedAt != null;
+}
+
 function liveElapsedSeconds(m: GroupMemberWithPresence, now: number): number {
   if (!isPresenceLive(m, now)) return 0;
   const start = new Date(m.studyingSince as string).getTime();
   if (Number.isNaN(start)) return 0;
-  return Math.max(0, Math.floor((now - start) / 1000));
+  // On break: active time is frozen where the pause began
+  const pausedAt = m.pausedAt ? new Date(m.pausedAt).getTime() : NaN;
+  const end = Number.isNaN(pausedAt) ? now : Math.min(now, pausedAt);
+  return Math.max(0, Math.floor((end - start) / 1000));
 }
 
 export default function GroupLiveScreen() {
@@ -51,79 +83,134 @@ export default function GroupLiveScreen() {
   const { user } = useAuth();
   const { width } = useWindowDimensions();
 
-  const [members, setMembers] = React.useState<GroupMemberWithPresence[]>([]);
-  const [loading, setLoading] = React.useState(true);
   const [refreshing, setRefreshing] = React.useState(false);
-  const [error, setError] = React.useState<string | null>(null);
   const [tick, setTick] = React.useState(0);
-  const memberIdsRef = React.useRef<Set<string>>(new Set());
+  const [challengeModalVisible, setChallengeModalVisible] = React.useState(false);
+  const [showChallengeHistory, setShowChallengeHistory] = React.useState(false);
+  const [eventModalVisible, setEventModalVisible] = React.useState(false);
+  const [showPastEvents, setShowPastEvents] = React.useState(false);
+  const [attendanceEvent, setAttendanceEvent] = React.useState<GroupEvent | null>(null);
+  const [roomModalVisible, setRoomModalVisible] = React.useState(false);
 
   const groupIdSafe = typeof groupId === "string" ? groupId : Array.isArray(groupId) ? groupId[0] : "";
   const groupTitle =
     (typeof groupNameParam === "string" ? groupNameParam : Array.isArray(groupNameParam) ? groupNameParam[0] : null) ??
     t("groups.live.title");
 
-  const load = React.useCallback(async () => {
-    if (!groupIdSafe) return;
-    setError(null);
-    try {
-      const data = await fetchGroupMembersWithPresence(groupIdSafe);
-      memberIdsRef.current = new Set(data.map((d) => d.userId));
-      setMembers(data);
-    } catch (e) {
-      console.error("group live load", e);
-      setError(t("groups.live.loadError"));
-      setMembers([]);
-    } finally {
-      setLoading(false);
-      setRefreshing(false);
-    }
-  }, [groupIdSafe, t]);
+  const {
+    current: currentChallenges,
+    history: challengeHistory,
+    createChallenge,
+    refetch: refetchChallenges,
+  } = useGroupChallenges({ groupId: groupIdSafe || null, userId: user?.id ?? null });
 
-  React.useEffect(() => {
-    if (!groupIdSafe) {
-      setLoading(false);
-      return;
-    }
-    setLoading(true);
-    void load();
-  }, [groupIdSafe, load]);
+  const {
+    current: currentEvents,
+    past: pastEvents,
+    liveRsvps,
+    createEvent,
+    deleteEvent,
+    setRsvp,
+    refetch: refetchEvents,
+  } = useGroupEvents({ groupId: groupIdSafe || null, userId: user?.id ?? null });
+
+  // Watch only: joining happens on the Focus tab, where the timer runs
+  const {
+    room: studyRoom,
+    schedule: studyRoomSchedule,
+    startRoom,
+    endRoom,
+    refetch: refetchStudyRoom,
+  } = useStudyRoom({ groupId: groupIdSafe || null, userId: user?.id ?? null });
+
+  const {
+    members,
+    loading,
+    error,
+    realtimeConnected,
+    refetch: refetchMembers,
+  } = useGroupPresence({ groupId: groupIdSafe || null });
 
   React.useEffect(() => {
     const tmr = setInterval(() => setTick((x) => x + 1), 1000);
     return () => clearInterval(tmr);
   }, []);
 
-  React.useEffect(() => {
-    if (!groupIdSafe) return;
-
-    const channel = supabase
-      .channel(`user_study_presence_group_${groupIdSafe}`)
-      .on(
-        "postgres_changes",
-        { event: "*", schema: "public", table: "user_study_presence" },
-        (payload) => {
-          const row = (payload.new as { user_id?: string } | null) ?? (payload.old as { user_id?: string } | null);
-          const uid = row?.user_id;
-          if (uid && memberIdsRef.current.has(uid)) {
-            void load();
-          }
-        }
-      )
-      .subscribe();
-
-    return () => {
-      supabase.removeChannel(channel);
-    };
-  }, [groupIdSafe, load]);
-
   const onRefresh = React.useCallback(() => {
     setRefreshing(true);
-    void load();
-  }, [load]);
+    void Promise.all([
+      refetchMembers(),
+      refetchChallenges(),
+      refetchEvents(),
+      refetchStudyRoom(),
+    ]).finally(() => setRefreshing(false));
+  }, [refetchMembers, refetchChallenges, refetchEvents, refetchStudyRoom]);
+
+  const isGroupAdmin = members.some((m) => m.userId === user?.id && m.role === "group_admin");
 
   const nowMs = React.useMemo(() => Date.now(), [members, tick]);
 
+  const hasLiveEvent = currentEvents.some((e) => getGroupEventStatus(e, nowMs) === "live");
+
+  const handleRsvp = React.useCallback(
+    (eventId: string, status: GroupEventRsvpStatus | null) => {
+      setRsvp(eventId, status).catch((err: any) => {
+        Alert.alert(t("groups.events.errorTitle"), err?.message ?? t("groups.errors.unknown"));
+      });
+    },
+    [setRsvp, t]
+  );
+
+  const confirmDeleteEvent = React.useCallback(
+    (event: GroupEvent) => {
+      Alert.alert(t("groups.events.deleteTitle"), t("groups.events.deleteMessage", { title: event.title }), [
+        { text: t("common.actions.cancel"), style: "cancel" },
+        {
+          text: t("common.actions.delete"),
+          style: "destructive",
+          onPress: () => {
+            deleteEvent(event.id).catch((err: any) => {
+              Alert.alert(t("groups.events.errorTitle"), err?.message ?? t("groups.errors.unknown"));
+            });
+          },
+        },
+      ]);
+    },
+    [deleteEvent, t]
+  );
+
+  const joinStudyRoom = React.useCallback(() => {
+    router.push({
+      pathname: "/(tabs)",
+      params: { roomGroupId: groupIdSafe, roomGroupName: groupTitle },
+    });
+  }, [router, groupIdSafe, groupTitle]);
+
+  const handleStartStudyRoom = React.useCallback(
+    async (settings: GroupStudyRoomSettings) => {
+      await startRoom(settings);
+      joinStudyRoom();
+    },
+    [startRoom, joinStudyRoom]
+  );
+
+  const confirmEndStudyRoom = React.useCallback(() => {
+    Alert.alert(t("groups.room.endTitle"), t("groups.room.endMessage"), [
+      { text: t("common.actions.cancel"), style: "cancel" },
+      {
+        text: t("groups.room.end"),
+        style: "destructive",
+        onPress: () => {
+          endRoom().catch((err: any) => {
+            Alert.alert(t("groups.room.errorTitle"), err?.message ?? t("groups.errors.unknown"));
+          });
+        },
+      },
+    ]);
+  }, [endRoom, t]);
+
+  const studyRoomHost = studyRoom ? members.find((m) => m.userId === studyRoom.hostId) : undefined;
+
   const activeCount = React.useMemo(
     () => members.filter((m) => isPresenceLive(m, nowMs)).length,
     [members, nowMs]
@@ -147,6 +234,23 @@ export default function GroupLiveScreen() {
           <ChevronLeft size={24} color={theme.text} />
         </TouchableOpacity>
       }
+      rightAction={
+        groupIdSafe ? (
+          <Button
+            iconLeft={MessageCircle}
+            iconOnly
+            variant="soft"
+            size="sm"
+            onPress={() =>
+              router.push({
+                pathname: "/(tabs)/group-chat",
+                params: { id: groupIdSafe, name: groupTitle },
+              })
+            }
+            accessibilityLabel={t("groups.chat.openA11y")}
+          />
+        ) : null
+      }
     >
       <ScrollView
         contentContainerStyle={styles.scrollContent}
@@ -154,6 +258,116 @@ export default function GroupLiveScreen() {
           <RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={theme.primary} />
         }
       >
+        {groupIdSafe ? (
+          <StudyRoomCard
+            room={studyRoom}
+            schedule={studyRoomSchedule}
+            hostName={studyRoomHost?.username?.trim() || null}
+            canEnd={isGroupAdmin || studyRoom?.hostId === user?.id}
+            onStart={() => setRoomModalVisible(true)}
+            onJoin={joinStudyRoom}
+            onEnd={confirmEndStudyRoom}
+          />
+        ) : null}
+
+        {groupIdSafe ? (
+          <View style={styles.challenges}>
+            <View style={styles.sectionHeader}>
+              <Text variant="subtitle">{t("groups.events.title")}</Text>
+              <Button
+                title={t("groups.events.new")}
+                iconLeft={Plus}
+                variant="soft"
+                size="xs"
+                onPress={() => setEventModalVisible(true)}
+              />
+            </View>
+            {currentEvents.length === 0 ? (
+              <Text variant="caption" colorName="textMuted">
+                {t("groups.events.empty")}
+              </Text>
+            ) : (
+              currentEvents.map((event) => (
+                <GroupEventCard
+                  key={event.id}
+                  event={event}
+                  canDelete={isGroupAdmin || event.createdBy === user?.id}
+                  onRsvp={(status) => handleRsvp(event.id, status)}
+                  onDelete={() => confirmDeleteEvent(event)}
+                  onOpenAttendance={() => setAttendanceEvent(event)}
+                />
+              ))
+            )}
+            {pastEvents.length > 0 ? (
+              <Button
+                title={
+                  showPastEvents
+                    ? t("groups.events.hidePast")
+                    : t("groups.events.showPast", { count: pastEvents.length })
+                }
+                variant="ghost"
+                size="xs"
+                onPress={() => setShowPastEvents((v) => !v)}
+                style={styles.historyToggle}
+              />
+            ) : null}
+            {showPastEvents
+              ? pastEvents.map((event) => (
+                  <GroupEventCard
+                    key={event.id}
+                    event={event}
+                    compact
+                    onOpenAttendance={() => setAttendanceEvent(event)}
+                  />
+                ))
+              : null}
+          </View>
+        ) : null}
+
+        {groupIdSafe ? (
+          <View style={styles.challenges}>
+            <View style={styles.sectionHeader}>
+              <Text variant="subtitle">{t("groups.challenges.title")}</Text>
+              {isGroupAdmin ? (
+                <Button
+                  title={t("groups.challenges.new")}
+                  iconLeft={Plus}
+                  variant="soft"
+                  size="xs"
+                  onPress={() => setChallengeModalVisible(true)}
+                />
+              ) : null}
+            </View>
+            {currentChallenges.length === 0 ? (
+              <Text variant="caption" colorName="textMuted">
+                {t("groups.challenges.empty")}
+              </Text>
+            ) : (
+              currentChallenges.map((challenge) => (
+                <GroupChallengeCard key={challenge.id} challenge={challenge} />
+              ))
+            )}
+            {challengeHistory.length > 0 ? (
+              <Button
+                title={
+                  showChallengeHistory
+                    ? t("groups.challenges.hideHistory")
+                    : t("groups.challenges.showHistory", { count: challengeHistory.length })
+                }
+                variant="ghost"
+                size="xs"
+                onPress={() => setShowChallengeHistory((v) => !v)}
+                style={styles.historyToggle}
+              />
+            ) : null}
+            {showChallengeHistory
+              ? challengeHistory.map((challenge) => (
+                  <GroupChallengeCard key={challenge.id} challenge={challenge} compact />
+                ))
+              : null}
+          </View>
+        ) : null}
+
         {!groupIdSafe ? (
           <Text variant="body" colorName="textMuted" align="center">
             {t("groups.live.missingGroup")}
@@ -164,59 +378,136 @@ export default function GroupLiveScreen() {
           </View>
         ) : error ? (
           <Text variant="body" colorName="textMuted" align="center">
-            {error}
+            {t("groups.live.loadError")}
           </Text>
         ) : members.length === 0 ? (
           <Text variant="body" colorName="textMuted" align="center">
             {t("groups.live.empty")}
           </Text>
         ) : (
-          <View style={styles.grid}>
-            {members.map((m) => {
-              const live = isPresenceLive(m, nowMs);
-              const secs = live ? liveElapsedSeconds(m, nowMs) : 0;
-              const ft = formatTime(secs);
-              const timeLabel = live ? `${ft.hours}:${ft.mins}:${ft.secs}` : "—";
-              const isSelf = user?.id === m.userId;
-              const displayName = m.username?.trim() || t("groups.live.anonymous");
-
-              return (
-                <View key={m.userId} style={[styles.cell, { width: cellWidth }]}>
-                  <View
-                    style={[
-                      styles.avatarWrap,
-                      {
-                        borderColor: live ? theme.primary : theme.border,
-                        backgroundColor: live ? theme.primaryTint : theme.surfaceElevated,
-                      },
-                    ]}
-                  >
-                    {m.avatarUrl ? (
-                      <Image source={{ uri: m.avatarUrl }} style={styles.avatarImg} />
-                    ) : (
-                      <User size={28} color={live ? theme.primaryDark : theme.textMuted} />
-                    )}
-                    <View style={[styles.stateIcon, { backgroundColor: theme.surface }]}>
-                      {live ? (
-                        <Flame size={14} color={theme.warning} />
+          <>
+            {!realtimeConnected ? (
+              <Text variant="micro" colorName="textMuted" style={styles.offlineHint}>
+                {t("groups.live.realtimeOffline", { seconds: STUDY_PRESENCE_POLL_MS / 1000 })}
+              </Text>
+            ) : null}
+            <View style={styles.grid}>
+              {members.map((m) => {
+                const live = isPresenceLive(m, nowMs);
+                const onBreak = isPresenceOnBreak(m, nowMs);
+                const secs = live ? liveElapsedSeconds(m, nowMs) : 0;
+                const ft = formatTime(secs);
+                const timeLabel = !live
+                  ? "—"
+                  : onBreak
+                    ? `${ft.hours}:${ft.mins}:${ft.secs} · ${t("groups.live.onBreak")}`
+                    : `${ft.hours}:${ft.mins}:${ft.secs}`;
+                const isSelf = user?.id === m.userId;
+                // Studying now and answered going / maybe to the session in progress
+                const rsvp = liveRsvps[m.userId];
+                const attending = hasLiveEvent && live && (rsvp === "going" || rsvp === "maybe");
+                const displayName = m.username?.trim() || t("groups.live.anonymous");
+
+                return (
+                  <View key={m.userId} style={[styles.cell, { width: cellWidth }]}>
+                    <View
+                      style={[
+                        styles.avatarWrap,
+                        {
+                          borderColor: attending ? theme.success : live ? theme.primary : theme.border,
+                          backgroundColor: attending
+                            ? theme.successTint
+                            : live
+                              ? theme.primaryTint
+                              : theme.surfaceElevated,
+                        },
+                      ]}
+                    >
+                      {m.avatarUrl ? (
+                        <Image source={{ uri: m.avatarUrl }} style={styles.avatarImg} />
                       ) : (
-                        <Clock size={14} color={theme.textMuted} />
+                        <User size={28} color={live ? theme.primaryDark : theme.textMuted} />
                       )}
+                      <View style={[styles.stateIcon, { backgroundColor: theme.surface }]}>
+                        {onBreak ? (
+                          <Coffee size={14} color={theme.textMuted} />
+                        ) : attending ? (
+                          <CalendarCheck size={14} color={theme.success} />
+                        ) : live ? (
+                          <Flame size={14} color={theme.warning} />
+                        ) : (
+                          <Clock size={14} color={theme.textMuted} />
+                        )}
+                      </View>
                     </View>
+                    <Text variant="caption" numberOfLines={1} style={[styles.name, live && { color: theme.primaryDark }]}>
+                      {displayName}
+                      {isSelf ? t("groups.live.youSuffix") : ""}
+                    </Text>
+                    <Text variant="micro" colorName="textMuted" numberOfLines={1} style={styles.time}>
+                      {timeLabel}
+                    </Text>
+                    {attending ? (
+                      <Text variant="micro" numberOfLines={1} style={[styles.attending, { color: theme.successDark }]}>
+                        {t("groups.events.attending")}
+                      </Text>
+                    ) : null}
+                    {live && m.activity ? (
+                      <View style={styles.activity}>
+                        {m.activity.subjectName ? (
+                          <View style={styles.activitySubject}>
+                            <SubjectIcon
+                              name={m.activity.subjectIcon}
+                              size={11}
+                              color={m.activity.subjectColor ?? theme.primary}
+                            />
+                            <Text
+                              variant="micro"
+                              numberOfLines={1}
+                              style={[styles.activityText, { color: m.activity.subjectColor ?? theme.primary }]}
+                            >
+                              {m.activity.subjectName}
+                            </Text>
+                          </View>
+                        ) : null}
+                        {m.activity.taskTitle ? (
+                          <Text variant="micro" colorName="textMuted" numberOfLines={1} style={styles.activityTask}>
+                            {m.activity.taskTitle}
+                          </Text>
+                        ) : null}
+                      </View>
+                    ) : null}
                   </View>
-                  <Text variant="caption" numberOfLines={1} style={[styles.name, live && { color: theme.primaryDark }]}>
-                    {displayName}
-                    {isSelf ? t("groups.live.youSuffix") : ""}
-                  </Text>
-                  <Text variant="micro" colorName="textMuted" numberOfLines={1} style={styles.time}>
-                    {timeLabel}
-                  </Text>
-                </View>
-              );
-            })}
-          </View>
+                );
+              })}
+            </View>
+          </>
         )}
       </ScrollView>
+
+      <CreateGroupChallengeModal
+        visible={challengeModalVisible}
+        onClose={() => setChallengeModalVisible(false)}
+        onSubmit={createChallenge}
+      />
+
+      <CreateGroupEventModal
+        visible={eventModalVisible}
+        onClose={() => setEventModalVisible(false)}
+        onSubmit={createEvent}
+      />
+
+      <StartStudyRoomModal
+        visible={roomModalVisible}
+        onClose={() => setRoomModalVisible(false)}
+        onSubmit={handleStartStudyRoom}
+      />
+
+      <GroupEventAttendanceModal
+        event={attendanceEvent}
+        userId={user?.id ?? null}
+        onClose={() => setAttendanceEvent(null)}
+      />
     </TabScreen>
   );
 }
@@ -233,10 +524,25 @@ const createStyles = (theme: typeof Colors.light) =>
       paddingHorizontal: 20,
       paddingBottom: 24,
     },
+    challenges: {
+      gap: 10,
+      marginBottom: 20,
+    },
+    sectionHeader: {
+      flexDirection: "row",
+      alignItems: "center",
+      justifyContent: "space-between",
+    },
+    historyToggle: {
+      alignSelf: "flex-start",
+    },
     centerBox: {
       paddingVertical: 48,
       alignItems: "center",
     },
+    offlineHint: {
+      marginBottom: 8,
+    },
     grid: {
       flexDirection: "row",
       flexWrap: "wrap",
@@ -283,4 +589,27 @@ const createStyles = (theme: typeof Colors.light) =>
       marginTop: 2,
       fontVariant: ["tabular-nums"],
     },
+    attending: {
+      marginTop: 2,
+      fontWeight: "600",
+    },
+    activity: {
+      marginTop: 2,
+      width: "100%",
+      alignItems: "center",
+    },
+    activitySubject: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 3,
+      maxWidth: "100%",
+    },
+    activityText: {
+      flexShrink: 1,
+      fontWeight: "600",
+    },
+    activityTask: {
+      textAlign: "center",
+      width: "100%",
+    },
   });
@@ -0,0 +1,232 @@
+import { TabScreen } from "@/components/layout/TabScreen";
+import { Text } from "@/components/Themed";
+import { Button } from "@/components/ui/Button";
+import { Card } from "@/components/ui/Card";
+import { Input } from "@/components/ui/Input";
+import {
+  fetchGroupInvitePreview,
+  joinGroupByInvite,
+  type GroupInvitePreview,
+} from "@/utils/queries";
+import { useTheme } from "@/utils/themeContext";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { ChevronLeft, Globe, Lock, Users } from "lucide-react-native";
+import React from "react";
+import { useTranslation } from "react-i18next";
+import { ActivityIndicator, StyleSheet, TouchableOpacity, View } from "react-native";
+
+const firstParam = (value: string | string[] | undefined) =>
+  Array.isArray(value) ? value[0] : value;
+
+const JOIN_ERROR_KEYS: Record<string, string> = {
+  ALREADY_MEMBER: "groups.errors.alreadyMember",
+  INVALID_PASSWORD: "groups.errors.invalidPassword",
+  INVITE_EXPIRED: "groups.invite.expired",
+  INVITE_EXHAUSTED: "groups.invite.exhausted",
+  GROUP_NOT_FOUND: "groups.errors.notFound",
+};
+
+export default function GroupJoinScreen() {
+  const params = useLocalSearchParams<{ code?: string }>();
+  const code = firstParam(params.code)?.trim() ?? "";
+  const router = useRouter();
+  const theme = useTheme();
+  const { t } = useTranslation();
+
+  const [preview, setPreview] = React.useState<GroupInvitePreview | null>(null);
+  const [loading, setLoading] = React.useState(true);
+  const [loadError, setLoadError] = React.useState(false);
+  const [password, setPassword] = React.useState("");
+  const [joining, setJoining] = React.useState(false);
+  const [joinError, setJoinError] = React.useState<string | null>(null);
+  const [requestSent, setRequestSent] = React.useState(false);
+
+  React.useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setLoadError(false);
+    setPreview(null);
+    setRequestSent(false);
+    setJoinError(null);
+    if (!code) {
+      setLoading(false);
+      return;
+    }
+    fetchGroupInvitePreview(code)
+      .then((data) => {
+        if (!cancelled) setPreview(data);
+      })
+      .catch((err) => {
+        console.error("group invite preview", err);
+        if (!cancelled) setLoadError(true);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [code]);
+
+  const openGroup = React.useCallback(
+    (group: GroupInvitePreview) => {
+      router.replace({
+        pathname: "/(tabs)/group-live",
+        params: { id: group.id, name: group.name },
+      });
+    },
+    [router]
+  );
+
+  const handleJoin = async () => {
+    if (!preview) return;
+    setJoining(true);
+    setJoinError(null);
+    try {
+      const member = await joinGroupByInvite(code, preview.hasPassword ? password : null);
+      if (member.status === "pending") {
+        setRequestSent(true);
+      } else {
+        openGroup(preview);
+      }
+    } catch (err: any) {
+      const message: string = err?.message ?? "";
+      const key = Object.keys(JOIN_ERROR_KEYS).find((k) => message.includes(k));
+      setJoinError(key ? t(JOIN_ERROR_KEYS[key]) : message || t("groups.errors.unknown"));
+    } finally {
+      setJoining(false);
+    }
+  };
+
+  const renderBody = () => {
+    if (loading) {
+      return (
+        <View style={styles.centerBox}>
+          <ActivityIndicator color={theme.primary} />
+        </View>
+      );
+    }
+    if (loadError) {
+      return (
+        <Text variant="body" colorName="textMuted" align="center">
+          {t("groups.invite.loadError")}
+        </Text>
+      );
+    }
+    if (!preview) {
+      return (
+        <Text variant="body" colorName="textMuted" align="center">
+          {t("groups.errors.notFound")}
+        </Text>
+      );
+    }
+
+    const VisibilityIcon = preview.visibility === "public" ? Globe : Lock;
+    const unavailable = preview.inviteExpired
+      ? t("groups.invite.expired")
+      : preview.inviteExhausted
+        ? t("groups.invite.exhausted")
+        : null;
+
+    return (
+      <Card variant="border" style={styles.card}>
+        <Text variant="subtitle">{preview.name}</Text>
+        {preview.description ? (
+          <Text variant="body" colorName="textMuted">
+            {preview.description}
+          </Text>
+        ) : null}
+        <View style={styles.metaRow}>
+          <VisibilityIcon size={14} color={theme.textMuted} />
+          <Text variant="caption" colorName="textMuted">
+            {preview.visibility === "public" ? t("groups.create.public") : t("groups.create.private")}
+          </Text>
+          <Users size={14} color={theme.textMuted} />
+          <Text variant="caption" colorName="textMuted">
+            {t("groups.membersCount", { count: preview.memberCount })}
+          </Text>
+        </View>
+
+        {preview.membership === "approved" ? (
+          <>
+            <Text variant="body">{t("groups.invite.alreadyMember")}</Text>
+            <Button title={t("groups.invite.openGroup")} onPress={() => openGroup(preview)} />
+          </>
+        ) : preview.membership === "pending" || requestSent ? (
+          <Text variant="body">
+            {t("groups.pendingApprovalModal.message", { name: preview.name })}
+          </Text>
+        ) : unavailable ? (
+          <Text variant="body" style={{ color: theme.danger }}>
+            {unavailable}
+          </Text>
+        ) : (
+          <>
+            {preview.requiresAdminApproval ? (
+              <Text variant="caption" colorName="textMuted">
+                {t("groups.joinModal.adminWillApprove")}
+              </Text>
+            ) : null}
+            {preview.hasPassword ? (
+              <Input
+                label={t("groups.invite.password")}
+                value={password}
+                onChangeText={setPassword}
+                placeholder={t("groups.joinModal.passwordPlaceholder")}
+                secureTextEntry
+                autoCapitalize="none"
+              />
+            ) : null}
+            {joinError ? (
+              <Text variant="caption" style={{ color: theme.danger }}>
+                {joinError}
+              </Text>
+            ) : null}
+            <Button
+              title={t("common.actions.join")}
+              onPress={() => void handleJoin()}
+              loading={joining}
+              disabled={joining || (preview.hasPassword && !password.trim())}
+            />
+          </>
+        )}
+      </Card>
+    );
+  };
+
+  return (
+    <TabScreen
+      title={t("groups.invite.joinTitle")}
+      leftAction={
+        <TouchableOpacity
+          onPress={() => router.replace("/(tabs)/groups")}
+          style={styles.backButton}
+        >
+          <ChevronLeft size={24} color={theme.text} />
+        </TouchableOpacity>
+      }
+    >
+      {renderBody()}
+    </TabScreen>
+  );
+}
+
+const styles = StyleSheet.create({
+  backButton: {
+    padding: 8,
+    marginLeft: -8,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  centerBox: {
+    paddingVertical: 48,
+    alignItems: "center",
+  },
+  card: { gap: 12 },
+  metaRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    flexWrap: "wrap",
+  },
+});
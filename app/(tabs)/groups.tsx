@@ -1,4 +1,6 @@
 import { FriendsTab } from "@/components/friends/FriendsTab";
+import { GroupInviteModal } from "@/components/groups/GroupInviteModal";
+import { GroupMembersModal } from "@/components/groups/GroupMembersModal";
 import { TabScreen } from "@/components/layout/TabScreen";
 import { Text } from "@/components/Themed";
 import { Button } from "@/components/ui/Button";
@@ -12,7 +14,7 @@ import { useAuth } from "@/utils/authContext";
 import { Group } from "@/utils/queries";
 import { useTheme } from "@/utils/themeContext";
 import { useRouter } from "expo-router";
-import { Eye, EyeOff, Globe, Lock, Pencil, Plus, Search, Trash2, Trophy, UserMinus, UserPlus, Users } from "lucide-react-native";
+import { Eye, EyeOff, Globe, Lock, Pencil, Plus, QrCode, Search, Trash2, Trophy, UserCog, UserMinus, UserPlus, Users } from "lucide-react-native";
 import { useMemo, useState } from "react";
 import { useTranslation } from "react-i18next";
 import {
@@ -41,6 +43,7 @@ export default function GroupsScreen() {
     deleteGroup: deleteGroupHook,
     leaveGroup: leaveGroupHook,
     searchGroupByCode: searchGroupByCodeHook,
+    refetch: refetchGroups,
   } = useGroups({
     userId: user?.id ?? null,
     autoLoad: true,
@@ -76,6 +79,8 @@ export default function GroupsScreen() {
   const [removingGroupId, setRemovingGroupId] = useState<string | null>(null);
   const [removeGroupTarget, setRemoveGroupTarget] = useState<Group | null>(null);
   const [pendingApprovalGroupName, setPendingApprovalGroupName] = useState<string | null>(null);
+  const [membersGroup, setMembersGroup] = useState<Group | null>(null);
+  const [inviteGroup, setInviteGroup] = useState<Group | null>(null);
 
   const pendingIdSet = useMemo(
     () => new Set(pendingGroups.map((p) => p.id)),
@@ -403,6 +408,35 @@ export default function GroupsScreen() {
               </View>
             ) : (
               <View style={styles.groupCardActionRow}>
+                <Button
+                  iconLeft={Trophy}
+                  iconOnly
+                  variant="soft"
+                  size="xs"
+                  onPress={() =>
+                    router.push({
+                      pathname: "/(tabs)/leaderboard",
+                      params: { groupId: g.id, groupName: g.name },
+                    })
+                  }
+                  accessibilityLabel={t("groups.leaderboardA11y", { name: g.name })}
+                />
+                <Button
+                  iconLeft={QrCode}
+                  iconOnly
+                  variant="soft"
+                  size="xs"
+                  onPress={() => setInviteGroup(g)}
+                  accessibilityLabel={t("groups.invite.openA11y", { name: g.name })}
+                />
+                <Button
+                  iconLeft={UserCog}
+                  iconOnly
+                  variant="soft"
+                  size="xs"
+                  onPress={() => setMembersGroup(g)}
+                  accessibilityLabel={t("groups.moderation.openA11y", { name: g.name })}
+                />
                 {isCreator ? (
                   <Button
                     iconLeft={Pencil}
@@ -735,6 +769,20 @@ export default function GroupsScreen() {
         </View>
       </Modal>
 
+      <GroupMembersModal
+        group={membersGroup}
+        userId={user?.id ?? null}
+        onClose={() => setMembersGroup(null)}
+        onChanged={() => void refetchGroups()}
+      />
+
+      <GroupInviteModal
+        group={inviteGroup}
+        userId={user?.id ?? null}
+        onClose={() => setInviteGroup(null)}
+        onChanged={() => void refetchGroups()}
+      />
+
       <Modal
         visible={!!removeGroupTarget}
         dismissible={removingGroupId !== removeGroupTarget?.id}
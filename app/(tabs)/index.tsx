@@ -3,7 +3,12 @@ import { Text } from "@/components/Themed";
 import { Button } from "@/components/ui/Button";
 import { Input } from "@/components/ui/Input";
 import { Modal } from "@/components/ui/Modal";
+import { PendingSyncBadge } from "@/components/ui/PendingSyncBadge";
 import { Tabs } from "@/components/ui/Tabs";
+import { formatStudyRoomPhase } from "@/components/groups/StudyRoomCard";
+import { IntervalSettingsModal } from "@/components/timer/IntervalSettingsModal";
+import { StudyRoomBanner } from "@/components/timer/StudyRoomBanner";
+import { SessionReflectionModal } from "@/components/sessions/SessionReflectionModal";
 import Colors from "@/constants/Colors";
 import {
   SUBJECT_CATALOG,
@@ -12,20 +17,43 @@ import {
 import { useProfile } from '@/hooks/useProfile';
 import { useSubjectGoals } from "@/hooks/useSubjectGoals";
 import { useSubjects } from "@/hooks/useSubjects";
-import { useTasks } from "@/hooks/useTasks";
+import { useTaskCountdown } from "@/hooks/useTaskCountdown";
+import { isTaskOverdue, useTasks } from "@/hooks/useTasks";
+import { useStudyPresenceSync } from "@/hooks/useStudyPresenceSync";
+import { useStudyRoom, type StudyRoomPhase } from "@/hooks/useStudyRoom";
+import { useStudyRoomTimer } from "@/hooks/useStudyRoomTimer";
+import {
+  useIntervalConfig,
+  useIntervalTimer,
+  type IntervalPhase,
+} from "@/hooks/useIntervalTimer";
 import { useTimer } from "@/hooks/useTimer";
 import { useAuth } from '@/utils/authContext';
+import { MAX_SESSION_SECONDS } from "@/utils/activeTimerSession";
 import { createSubjectColorMap, hexToRgba } from '@/utils/color';
 import {
   buildSubjectTree,
+  fetchOpenGroupStudyRoom,
   fetchSessionMinutesForDayAndSubject,
   getGoalMinutesForSubjectOnLocalDate,
+  saveSessionReflection,
   sortSubjectsForDisplay,
 } from "@/utils/queries";
 import { useTheme } from '@/utils/themeContext';
-import { formatDateLabel, getTodayIso } from '@/utils/time';
-import { useFocusEffect } from "expo-router";
-import { ChevronDown, Flame, Plus, Sparkles, Square } from "lucide-react-native";
+import { formatDateLabel, formatDurationFromMinutes, formatTime, getTodayIso } from '@/utils/time';
+import * as Haptics from "expo-haptics";
+import { useFocusEffect, useLocalSearchParams, useRouter } from "expo-router";
+import {
+  ChevronDown,
+  Flame,
+  Pause,
+  Play,
+  Plus,
+  Settings2,
+  SkipForward,
+  Sparkles,
+  Square,
+} from "lucide-react-native";
 import React, { useCallback, useEffect, useMemo, useState } from "react";
 import { useTranslation } from "react-i18next";
 import {
@@ -51,6 +79,9 @@ function foldAccents(s: string) {
   return s.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
 }
 
+const firstParam = (value: string | string[] | undefined) =>
+  Array.isArray(value) ? value[0] : value;
+
 export default function TimerScreen() {
   const { user } = useAuth();
   const theme = useTheme();
@@ -68,12 +99,19 @@ export default function TimerScreen() {
     return createStyles(safeTheme);
   }, [safeTheme]);
   const { t, i18n } = useTranslation();
+  const router = useRouter();
+  // Set by "Join" on a group's co-study room card
+  const params = useLocalSearchParams<{ roomGroupId?: string; roomGroupName?: string }>();
+  const roomGroupIdParam = firstParam(params.roomGroupId) || null;
+  const roomGroupNameParam = firstParam(params.roomGroupName) || null;
 
   // ============================================================================
   // DATA HOOKS (Supabase-related)
   // ============================================================================
   const {
     tasks,
+    orderedTasks,
+    updateTask,
     refetch: refetchTasks,
   } = useTasks({
     userId: user?.id ?? null,
@@ -139,6 +177,25 @@ export default function TimerScreen() {
   const [addSubjectError, setAddSubjectError] = useState<string | null>(null);
   const [savingSubject, setSavingSubject] = useState(false);
   const addSubjectModalWasVisible = React.useRef(false);
+  const [timerMode, setTimerMode] = useState<"stopwatch" | "interval" | "countdown">(
+    "stopwatch"
+  );
+  const [intervalSettingsVisible, setIntervalSettingsVisible] = useState(false);
+  const [intervalConfig, setIntervalConfig] = useIntervalConfig();
+  // Interval phases announce themselves; skip the per-session "finished" alert
+  const timerModeRef = React.useRef(timerMode);
+  timerModeRef.current = timerMode;
+  // Set while the user stops the timer: that session gets the reflection sheet instead of the alert
+  const promptReflectionRef = React.useRef(false);
+  // Co-study room the user joined; its phases drive the timer instead of the mode picker
+  const [studyRoomGroup, setStudyRoomGroup] = useState<{ id: string; name: string } | null>(null);
+  // Room phases announce themselves too
+  const inStudyRoomRef = React.useRef(false);
+  inStudyRoomRef.current = studyRoomGroup != null;
+  const [reflectionTarget, setReflectionTarget] = useState<{
+    sessionId: string;
+    summary: string;
+  } | null>(null);
 
   // Reset name/errors/color only when the modal opens — not on every theme
   // palette reference change while open (that was clearing the user's color choice).
@@ -150,10 +207,46 @@ export default function TimerScreen() {
     addSubjectModalWasVisible.current = addModalVisible;
   }, [addModalVisible, safeTheme.subjectPalette, safeTheme.primary]);
 
+  const selectedTask = React.useMemo(
+    () => tasks.find((task) => task.id === selectedTaskId) ?? null,
+    [tasks, selectedTaskId]
+  );
+
+  // Countdown session brought the task to its planned time: offer to close it
+  const offerMarkTaskDone = useCallback(
+    (taskId: string, title: string, message: string) => {
+      Alert.alert(
+        t("timer.sessionFinishedTitle"),
+        `${message}\n\n${t("timer.countdown.markDoneMessage", { task: title })}`,
+        [
+          { text: t("timer.countdown.notYet"), style: "cancel" },
+          {
+            text: t("timer.countdown.markDone"),
+            onPress: () => {
+              void updateTask(taskId, { status: "done" }).catch(() => {
+                Alert.alert(t("timer.errorTitle"), t("timer.errorSave"));
+              });
+            },
+          },
+        ]
+      );
+    },
+    [t, updateTask]
+  );
+
   // Memoize timer callbacks to prevent unnecessary re-renders
   const handleSessionComplete = useCallback(
-    async (_sessionId: string, sessionSeconds: number) => {
-      const subjectForLog = selectedSubject;
+    async (
+      sessionId: string,
+      sessionSeconds: number,
+      subjectId: string,
+      taskId: string | null
+    ) => {
+      const wantsReflection = promptReflectionRef.current;
+      promptReflectionRef.current = false;
+      // A restored session may belong to a subject other than the current selection
+      const subjectForLog =
+        subjects.find((s) => s.id === subjectId) ?? selectedSubject;
       const minutes = Math.floor(sessionSeconds / 60);
 
       if (subjectForLog && user?.id) {
@@ -184,13 +277,30 @@ export default function TimerScreen() {
           });
         }
 
-        Alert.alert(t("timer.sessionFinishedTitle"), message);
+        // The logged task, not the selection (a restored session can belong to another one).
+        // `tasks` still holds its logged time from before this session.
+        const loggedTask = taskId ? tasks.find((task) => task.id === taskId) : undefined;
+        const plannedSeconds = (loggedTask?.plannedMinutes ?? 0) * 60;
+        const reachedPlan =
+          timerModeRef.current === "countdown" &&
+          loggedTask != null &&
+          plannedSeconds > 0 &&
+          loggedTask.loggedSeconds + sessionSeconds >= plannedSeconds;
+
+        if (reachedPlan) {
+          offerMarkTaskDone(loggedTask.id, loggedTask.title, message);
+        } else if (wantsReflection) {
+          setReflectionTarget({ sessionId, summary: message });
+        } else if (timerModeRef.current !== "interval" && !inStudyRoomRef.current) {
+          Alert.alert(t("timer.sessionFinishedTitle"), message);
+        }
       }
 
       await refetchTasks();
       await refetchProfile();
     },
     [
+      subjects,
       selectedSubject,
       t,
       refetchTasks,
@@ -198,6 +308,8 @@ export default function TimerScreen() {
       getDisplayName,
       user?.id,
       weeklyGoals,
+      tasks,
+      offerMarkTaskDone,
     ]
   );
 
@@ -208,18 +320,254 @@ export default function TimerScreen() {
     [t]
   );
 
+  const timer = useTimer({
+    userId: user?.id ?? null,
+    onSessionComplete: handleSessionComplete,
+    onError: handleTimerError,
+  });
   const {
     isRunning,
+    isPaused,
+    activeSince,
+    activeSession,
+    pendingRestore,
     start: timerStart,
+    pause: timerPause,
+    resume: timerResume,
     stop: timerStop,
+    resolveRestore,
     formattedTime,
     seconds: timerSeconds,
-  } = useTimer({
+  } = timer;
+
+  const handleIntervalPhaseChange = useCallback(
+    (phase: IntervalPhase | "done", cycle: number) => {
+      void Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      if (phase === "done") {
+        Alert.alert(
+          t("timer.interval.doneTitle"),
+          t("timer.interval.doneMessage", { count: cycle })
+        );
+      } else if (phase === "work") {
+        Alert.alert(
+          t("timer.interval.workTitle"),
+          t("timer.interval.workMessage", { cycle, total: intervalConfig.cycles })
+        );
+      } else {
+        const minutes =
+          phase === "long_break" ? intervalConfig.longBreakMinutes : intervalConfig.breakMinutes;
+        Alert.alert(
+          t(phase === "long_break" ? "timer.interval.longBreakTitle" : "timer.interval.breakTitle"),
+          t("timer.interval.breakMessage", { minutes })
+        );
+      }
+      void refetchTasks();
+    },
+    [t, intervalConfig, refetchTasks]
+  );
+
+  const interval = useIntervalTimer({
+    timer,
+    config: intervalConfig,
+    onPhaseChange: handleIntervalPhaseChange,
+  });
+
+  // ============================================================================
+  // CO-STUDY ROOM
+  // ============================================================================
+  const studyRoomParticipant = React.useMemo(
+    () =>
+      studyRoomGroup
+        ? { username: profile?.username ?? null, avatarUrl: profile?.avatar_url ?? null }
+        : null,
+    [studyRoomGroup, profile?.username, profile?.avatar_url]
+  );
+
+  const {
+    room: studyRoom,
+    schedule: studyRoomSchedule,
+    participants: studyRoomParticipants,
+    isHost: isStudyRoomHost,
+    pauseRoom,
+    resumeRoom,
+    endRoom,
+  } = useStudyRoom({
+    groupId: studyRoomGroup?.id ?? null,
     userId: user?.id ?? null,
-    onSessionComplete: handleSessionComplete,
-    onError: handleTimerError,
+    participant: studyRoomParticipant,
+  });
+
+  const inStudyRoom = studyRoomGroup != null && studyRoom != null && studyRoomSchedule != null;
+
+  const handleStudyRoomPhaseChange = useCallback(
+    (phase: StudyRoomPhase, cycle: number) => {
+      // The end of the room is announced when it closes
+      if (!studyRoom || phase === "done") return;
+      void Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      if (phase === "work") {
+        Alert.alert(
+          t("timer.interval.workTitle"),
+          t("timer.interval.workMessage", { cycle, total: studyRoom.cycles })
+        );
+      } else {
+        const minutes =
+          phase === "long_break" ? studyRoom.longBreakMinutes : studyRoom.breakMinutes;
+        Alert.alert(
+          t(phase === "long_break" ? "timer.interval.longBreakTitle" : "timer.interval.breakTitle"),
+          t("timer.interval.breakMessage", { minutes })
+        );
+      }
+      void refetchTasks();
+    },
+    [t, studyRoom, refetchTasks]
+  );
+
+  const studyRoomTimer = useStudyRoomTimer({
+    timer,
+    schedule: inStudyRoom ? studyRoomSchedule : null,
+    subjectId: selectedSubject?.id ?? null,
+    taskId: selectedTaskId,
+    onPhaseChange: handleStudyRoomPhaseChange,
   });
 
+  const handleCountdownTimeUp = useCallback(() => {
+    void Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+    Alert.alert(
+      t("timer.countdown.timeUpTitle"),
+      t("timer.countdown.timeUpMessage", { task: selectedTask?.title ?? "" })
+    );
+  }, [t, selectedTask?.title]);
+
+  const countdown = useTaskCountdown({
+    task: selectedTask,
+    enabled: timerMode === "countdown",
+    elapsedSeconds: timerSeconds,
+    isRunning,
+    onTimeUp: handleCountdownTimeUp,
+  });
+
+  // Interval and room breaks happen between sessions; presence shows them like a paused timer
+  const sessionInProgress = isRunning || interval.isActive || inStudyRoom;
+  const isIntervalBreak = inStudyRoom
+    ? studyRoomSchedule.phase !== "work"
+    : interval.phase === "break" || interval.phase === "long_break";
+  const showPaused = inStudyRoom
+    ? studyRoomSchedule.paused
+    : interval.isActive
+      ? interval.isPaused
+      : isPaused;
+
+  // Join the room from the route params, unless a solo session is still running
+  useEffect(() => {
+    if (!roomGroupIdParam) return;
+    router.setParams({ roomGroupId: undefined, roomGroupName: undefined });
+    if (studyRoomGroup?.id === roomGroupIdParam) return;
+    if (sessionInProgress) {
+      Alert.alert(t("groups.room.errorTitle"), t("groups.room.busy"));
+      return;
+    }
+    fetchOpenGroupStudyRoom(roomGroupIdParam)
+      .then((room) => {
+        if (!room) {
+          Alert.alert(t("groups.room.errorTitle"), t("groups.room.notFound"));
+          return;
+        }
+        setTimerMode("stopwatch");
+        setStudyRoomGroup({
+          id: roomGroupIdParam,
+          name: roomGroupNameParam ?? t("groups.room.title"),
+        });
+      })
+      .catch((err: any) => {
+        Alert.alert(t("groups.room.errorTitle"), err?.message ?? t("groups.errors.unknown"));
+      });
+  }, [roomGroupIdParam, roomGroupNameParam, router, studyRoomGroup?.id, sessionInProgress, t]);
+
+  // The room closed while joined (host ended it, or the last phase finished)
+  const studyRoomSeenRef = React.useRef(false);
+  useEffect(() => {
+    if (!studyRoomGroup) {
+      studyRoomSeenRef.current = false;
+      return;
+    }
+    if (studyRoom) {
+      studyRoomSeenRef.current = true;
+      return;
+    }
+    if (!studyRoomSeenRef.current) return;
+    studyRoomSeenRef.current = false;
+    setStudyRoomGroup(null);
+    Alert.alert(
+      t("groups.room.endedTitle"),
+      t("groups.room.endedMessage", { group: studyRoomGroup.name })
+    );
+  }, [studyRoomGroup, studyRoom, t]);
+
+  // Countdown needs a task with planned minutes
+  useEffect(() => {
+    if (timerMode === "countdown" && !countdown.available && !sessionInProgress) {
+      setTimerMode("stopwatch");
+    }
+  }, [timerMode, countdown.available, sessionInProgress]);
+
+  // Session resumed from device storage: point the selection and the timer mode back at what
+  // was being studied
+  const syncedSessionStartRef = React.useRef<number | null>(null);
+  const { resumeRestored: resumeRestoredInterval } = interval;
+  useEffect(() => {
+    if (!activeSession || syncedSessionStartRef.current === activeSession.startedAt) return;
+    syncedSessionStartRef.current = activeSession.startedAt;
+    setSelectedSubjectId(activeSession.subjectId);
+    setSelectedTaskId(activeSession.taskId);
+    setTimerMode(activeSession.mode);
+    resumeRestoredInterval(activeSession);
+  }, [activeSession, setSelectedSubjectId, resumeRestoredInterval]);
+
+  // Long session left running when the app was killed: ask before logging anything
+  useEffect(() => {
+    if (!pendingRestore) return;
+    // An interval work phase is logged up to its length at most
+    const phaseSeconds = pendingRestore.session.maxSeconds ?? pendingRestore.elapsedSeconds;
+    const elapsedSeconds = Math.min(pendingRestore.elapsedSeconds, phaseSeconds);
+    const elapsedMinutes = Math.floor(elapsedSeconds / 60);
+    const trimmedMinutes = Math.floor(
+      Math.min(pendingRestore.trimmedSeconds, MAX_SESSION_SECONDS, phaseSeconds) / 60
+    );
+    // Over 24h the server would refuse the whole session: only keeping the trimmed part is offered
+    const canSaveAll = elapsedSeconds <= MAX_SESSION_SECONDS;
+    const onChoice = (choice: "save" | "trim" | "discard") => {
+      void resolveRestore(choice).then((result) => {
+        if (choice !== "discard" && !result.saved) {
+          Alert.alert(t("timer.sessionNotRecorded"), t("timer.errorSave"));
+        }
+      });
+    };
+    Alert.alert(
+      t("timer.restore.title"),
+      t("timer.restore.message", {
+        elapsed: formatDurationFromMinutes(elapsedMinutes),
+        trimmed: formatDurationFromMinutes(trimmedMinutes),
+      }),
+      [
+        {
+          text: t("timer.restore.discard"),
+          style: "destructive",
+          onPress: () => onChoice("discard"),
+        },
+        {
+          text: t("timer.restore.trim", {
+            trimmed: formatDurationFromMinutes(trimmedMinutes),
+          }),
+          onPress: () => onChoice("trim"),
+        },
+        ...(canSaveAll
+          ? [{ text: t("timer.restore.save"), onPress: () => onChoice("save") }]
+          : []),
+      ],
+      { cancelable: false }
+    );
+  }, [pendingRestore, resolveRestore, t]);
+
   // Use utility function for color mapping (moved before subjectListData)
   // Use allSubjects for consistent colors across profile and index pages
   const subjectColorById = React.useMemo(
@@ -327,7 +675,7 @@ export default function TimerScreen() {
     opacity: pulseOpacity.value,
   }));
   useEffect(() => {
-    if (isRunning) {
+    if (sessionInProgress && !showPaused) {
       pulseOpacity.value = withRepeat(
         withTiming(0.4, { duration: 1200 }),
         -1,
@@ -336,7 +684,7 @@ export default function TimerScreen() {
     } else {
       pulseOpacity.value = withTiming(0, { duration: 300 });
     }
-  }, [isRunning, pulseOpacity]);
+  }, [sessionInProgress, showPaused, pulseOpacity]);
 
   // Refresh tasks and subjects when tab comes into focus
   // This ensures data stays in sync when switching between tabs
@@ -380,7 +728,7 @@ export default function TimerScreen() {
 
   // Timer actions
   const handleStart = async () => {
-    if (isRunning) {
+    if (sessionInProgress) {
       console.warn("Timer already running");
       return;
     }
@@ -406,7 +754,10 @@ export default function TimerScreen() {
       taskId: selectedTaskId,
     });
     
-    const started = await timerStart();
+    const started =
+      timerMode === "interval"
+        ? await interval.start(selectedSubject.id, selectedTaskId)
+        : await timerStart(selectedSubject.id, selectedTaskId, { mode: timerMode });
     if (!started) {
       Alert.alert(
         t("timer.errorTitle"),
@@ -416,24 +767,68 @@ export default function TimerScreen() {
   };
 
   const handleStop = async () => {
-    if (!selectedSubject) {
+    // The session is logged against what it was started with, not the current selection
+    const session = activeSession;
+    if (!interval.isActive && !session) {
       Alert.alert(t("timer.errorTitle"), t("timer.errorSave"));
-      console.warn("Stop session aborted: missing subject");
+      console.warn("Stop session aborted: no active session");
       return;
     }
 
+    promptReflectionRef.current = true;
     try {
-      const result = await timerStop(selectedSubject.id, selectedTaskId ?? null);
+      // Stopping an interval run during a break has nothing left to log
+      const result = interval.isActive
+        ? await interval.stop()
+        : session
+          ? await timerStop(session.subjectId, session.taskId)
+          : null;
 
-      if (!result.saved) {
+      if (result?.queued) {
+        Alert.alert(t("sync.queuedTitle"), t("sync.queuedMessage"));
+      } else if (result && !result.saved) {
         Alert.alert(t("timer.sessionNotRecorded"), t("timer.errorSave"));
       }
     } catch (error: any) {
       // Error handling is done in the hook's onError callback
       console.error("Error stopping timer", error);
+    } finally {
+      promptReflectionRef.current = false;
+    }
+  };
+
+  const handleLeaveStudyRoom = async () => {
+    try {
+      const result = await studyRoomTimer.stop();
+      if (result?.queued) {
+        Alert.alert(t("sync.queuedTitle"), t("sync.queuedMessage"));
+      } else if (result && !result.saved) {
+        Alert.alert(t("timer.sessionNotRecorded"), t("timer.errorSave"));
+      }
+    } catch (error: any) {
+      console.error("Error leaving study room", error);
+    } finally {
+      setStudyRoomGroup(null);
     }
   };
 
+  const handleStudyRoomControl = (action: () => Promise<void>) => {
+    action().catch((err: any) => {
+      Alert.alert(t("groups.room.errorTitle"), err?.message ?? t("groups.errors.unknown"));
+    });
+  };
+
+  const confirmEndStudyRoom = () => {
+    Alert.alert(t("groups.room.endTitle"), t("groups.room.endMessage"), [
+      { text: t("common.actions.cancel"), style: "cancel" },
+      {
+        text: t("groups.room.end"),
+        style: "destructive",
+        onPress: () => handleStudyRoomControl(endRoom),
+      },
+    ]);
+  };
+
   const handleAddPopularBankSubject = async (key: SubjectKey) => {
     if (!user?.id) return;
     const entry = SUBJECT_CATALOG[key];
@@ -496,6 +891,24 @@ export default function TimerScreen() {
     }
   };
 
+  const displayedTime = inStudyRoom
+    ? formatTime(studyRoomSchedule.remainingSeconds ?? studyRoomSchedule.phaseElapsedSeconds)
+    : interval.isActive
+    ? formatTime(interval.remainingSeconds)
+    : countdown.active
+      ? formatTime(countdown.isOvertime ? countdown.overtimeSeconds : countdown.remainingSeconds)
+      : formattedTime;
+
+  const intervalPhaseLabel = inStudyRoom
+    ? formatStudyRoomPhase(t, studyRoom, studyRoomSchedule)
+    : !interval.isActive
+    ? null
+    : interval.phase === "work"
+      ? t("timer.interval.phaseWork", { cycle: interval.cycle, total: intervalConfig.cycles })
+      : interval.phase === "long_break"
+        ? t("timer.interval.phaseLongBreak")
+        : t("timer.interval.phaseBreak");
+
   const selectedSubjectLabel = React.useMemo(() => {
     if (!selectedSubject) return t("subjects.select.missing");
     return getDisplayName(selectedSubject);
@@ -506,6 +919,40 @@ export default function TimerScreen() {
     return subjectColorById[selectedSubjectId] ?? safeTheme.primary;
   }, [selectedSubjectId, subjectColorById, safeTheme.primary]);
 
+  // Shown on group live tiles unless the profile hides it. Describes the running session; the
+  // selection only stands in between sessions (idle, interval breaks), when it is locked anyway
+  const presenceActivity = React.useMemo(() => {
+    if (profile?.share_study_activity === false) return null;
+    const subjectId = activeSession?.subjectId ?? selectedSubjectId;
+    const taskId = activeSession ? activeSession.taskId : selectedTaskId;
+    const subject = subjects.find((s) => s.id === subjectId);
+    if (!subject) return null;
+    return {
+      subjectName: getDisplayName(subject),
+      subjectColor: subjectColorById[subject.id] ?? safeTheme.primary,
+      subjectIcon: subject.icon,
+      taskTitle: tasks.find((task) => task.id === taskId)?.title ?? null,
+    };
+  }, [
+    profile?.share_study_activity,
+    activeSession,
+    selectedSubjectId,
+    selectedTaskId,
+    subjects,
+    tasks,
+    getDisplayName,
+    subjectColorById,
+    safeTheme.primary,
+  ]);
+
+  useStudyPresenceSync(
+    user?.id ?? null,
+    sessionInProgress,
+    isPaused || isIntervalBreak,
+    activeSince,
+    presenceActivity
+  );
+
   const xpFormattedHeader = React.useMemo(
     () =>
       new Intl.NumberFormat(i18n.language?.startsWith("fr") ? "fr-FR" : "en-US").format(
@@ -517,6 +964,7 @@ export default function TimerScreen() {
   const headerBadges =
     user?.id != null ? (
       <View style={styles.headerBadgesRow}>
+        <PendingSyncBadge userId={user.id} />
         <View
           style={[styles.headerBadge, { backgroundColor: safeTheme.secondaryTint }]}
           accessibilityRole="text"
@@ -554,7 +1002,7 @@ export default function TimerScreen() {
           {/* Circular progress ring (thin track + thicker progress arc) */}
           <View style={styles.timerRingWrapper}>
             {/* Pulse ring (visible when running) */}
-            {isRunning && (
+            {sessionInProgress && !showPaused && (
               <Animated.View style={[styles.timerPulseRing, pulseAnimatedStyle]} pointerEvents="none">
                 <Svg width={236} height={236} style={styles.timerPulseSvg}>
                   <SvgCircle
@@ -581,14 +1029,39 @@ export default function TimerScreen() {
                 cx={110}
                 cy={110}
                 r={94}
-                stroke={safeTheme.primary}
+                stroke={
+                  countdown.isOvertime
+                    ? safeTheme.danger
+                    : isIntervalBreak
+                      ? safeTheme.secondary
+                      : safeTheme.primary
+                }
                 strokeWidth={15}
                 fill="none"
                 strokeLinecap="round"
                 strokeDasharray={
                   (() => {
                     const circumference = 2 * Math.PI * 94;
-                    const progress = isRunning ? Math.min(1, timerSeconds / 1500) : 0;
+                    const progress = inStudyRoom
+                      ? studyRoomSchedule.phaseSeconds
+                        ? Math.min(
+                            1,
+                            studyRoomSchedule.phaseElapsedSeconds / studyRoomSchedule.phaseSeconds
+                          )
+                        : Math.min(1, studyRoomSchedule.phaseElapsedSeconds / 1500)
+                      : interval.isActive
+                      ? Math.min(
+                          1,
+                          (interval.phaseSeconds - interval.remainingSeconds) /
+                            interval.phaseSeconds
+                        )
+                      : countdown.active && isRunning
+                        ? countdown.isOvertime || countdown.targetSeconds === 0
+                          ? 1
+                          : Math.min(1, timerSeconds / countdown.targetSeconds)
+                        : isRunning
+                        ? Math.min(1, timerSeconds / 1500)
+                        : 0;
                     return `${progress * circumference} ${circumference}`;
                   })()
                 }
@@ -617,15 +1090,39 @@ export default function TimerScreen() {
                   </Text>
                 </View>
                 <Text
-                  style={styles.timerText}
+                  style={[styles.timerText, countdown.isOvertime && { color: safeTheme.danger }]}
                   align="center"
                   numberOfLines={1}
                   adjustsFontSizeToFit
                   minimumFontScale={0.72}
                   {...(Platform.OS === "android" ? { includeFontPadding: false } : {})}
                 >
-                  {formattedTime.hours}:{formattedTime.mins}:{formattedTime.secs}
+                  {countdown.isOvertime ? "+" : ""}
+                  {displayedTime.hours}:{displayedTime.mins}:{displayedTime.secs}
                 </Text>
+                {countdown.active ? (
+                  <Text
+                    variant="micro"
+                    colorName={countdown.isOvertime ? undefined : "textMuted"}
+                    align="center"
+                    style={countdown.isOvertime ? { color: safeTheme.danger } : undefined}
+                  >
+                    {countdown.isOvertime
+                      ? t("timer.countdown.overtime")
+                      : isPaused
+                        ? t("timer.onBreak")
+                        : t("timer.countdown.remaining")}
+                  </Text>
+                ) : intervalPhaseLabel ? (
+                  <Text variant="micro" colorName="textMuted" align="center">
+                    {intervalPhaseLabel}
+                    {showPaused ? ` · ${t("timer.interval.paused")}` : ""}
+                  </Text>
+                ) : isPaused ? (
+                  <Text variant="micro" colorName="textMuted" align="center">
+                    {t("timer.onBreak")}
+                  </Text>
+                ) : null}
               </View>
             </View>
           </View>
@@ -633,22 +1130,93 @@ export default function TimerScreen() {
           <View style={styles.focusBadgeSlot}>
             {/* Messages above button (variable height) */}
             <View style={styles.buttonMessagesArea}>
-              {!isRunning && !hasValidSubject && (
+              {!sessionInProgress && !hasValidSubject && (
                 <Text variant="micro" colorName="textMuted" align="center">
                   {t("subjects.select.hint")}
                 </Text>
               )}
             </View>
-            {/* Button always in same place (Start or Stop) */}
-            {isRunning ? (
-              <Button
-                title={t("timer.stop")}
-                variant="secondary"
-                onPress={handleStop}
-                fullWidth
-                style={{ backgroundColor: safeTheme.secondary }}
-                textStyle={{ color: safeTheme.onPrimaryDark }}
+            {inStudyRoom ? (
+              <StudyRoomBanner
+                groupName={studyRoomGroup.name}
+                room={studyRoom}
+                schedule={studyRoomSchedule}
+                participants={studyRoomParticipants}
+                isHost={isStudyRoomHost}
+                needsSubject={!hasValidSubject}
+                onPause={() => handleStudyRoomControl(pauseRoom)}
+                onResume={() => handleStudyRoomControl(resumeRoom)}
+                onEnd={confirmEndStudyRoom}
+                onLeave={() => void handleLeaveStudyRoom()}
               />
+            ) : studyRoomGroup ? (
+              <ActivityIndicator color={safeTheme.primary} />
+            ) : null}
+            {!sessionInProgress && !studyRoomGroup ? (
+              <View style={styles.modeRow}>
+                <Tabs
+                  options={[
+                    { value: "stopwatch", label: t("timer.interval.modeStopwatch") },
+                    { value: "interval", label: t("timer.interval.modeInterval") },
+                    ...(countdown.available
+                      ? [{ value: "countdown" as const, label: t("timer.countdown.mode") }]
+                      : []),
+                  ]}
+                  value={timerMode}
+                  onChange={setTimerMode}
+                  style={styles.modeTabs}
+                />
+                {timerMode === "interval" ? (
+                  <Button
+                    size="xs"
+                    variant="ghost"
+                    iconLeft={Settings2}
+                    title={t("timer.interval.summary", {
+                      work: intervalConfig.workMinutes,
+                      rest: intervalConfig.breakMinutes,
+                      cycles: intervalConfig.cycles,
+                    })}
+                    onPress={() => setIntervalSettingsVisible(true)}
+                  />
+                ) : null}
+              </View>
+            ) : null}
+            {/* Button always in same place (Start or Stop) */}
+            {studyRoomGroup ? null : sessionInProgress ? (
+              <View style={styles.runningActions}>
+                <Button
+                  title={showPaused ? t("timer.resume") : t("timer.pause")}
+                  variant="outline"
+                  iconLeft={showPaused ? Play : Pause}
+                  onPress={() => {
+                    if (interval.isActive) {
+                      if (interval.isPaused) interval.resume();
+                      else interval.pause();
+                    } else if (isPaused) timerResume();
+                    else timerPause();
+                  }}
+                  style={styles.runningActionButton}
+                />
+                {interval.isActive ? (
+                  <Button
+                    iconLeft={SkipForward}
+                    iconOnly
+                    variant="outline"
+                    accessibilityLabel={t("timer.interval.skip")}
+                    onPress={() => void interval.skipPhase()}
+                  />
+                ) : null}
+                <Button
+                  title={t("timer.stop")}
+                  variant="secondary"
+                  onPress={handleStop}
+                  style={[
+                    styles.runningActionButton,
+                    { backgroundColor: safeTheme.secondary },
+                  ]}
+                  textStyle={{ color: safeTheme.onPrimaryDark }}
+                />
+              </View>
             ) : (
               <Button
                 title={t("timer.startButton")}
@@ -696,7 +1264,7 @@ export default function TimerScreen() {
                       const sub = item.sub;
                       const subjectColor = item.subjectColor;
                       const isRowActive = selectedSubjectId === sub.id;
-                      const disableRowInteraction = isRunning && !isRowActive;
+                      const disableRowInteraction = sessionInProgress && !isRowActive;
 
                       return (
                         <TouchableOpacity
@@ -711,7 +1279,7 @@ export default function TimerScreen() {
                             disableRowInteraction && { opacity: 0.45 },
                           ]}
                           onPress={() => {
-                            if (isRunning && !isRowActive) return;
+                            if (sessionInProgress && !isRowActive) return;
                             setSelectedSubjectId(sub.id);
                           }}
                           disabled={disableRowInteraction}
@@ -749,8 +1317,8 @@ export default function TimerScreen() {
                 </View>
               ) : (
                 <View style={styles.listCardStack}>
-                  {tasks
-                    .filter((t) => t.status !== "done" && t.subjectId)
+                  {orderedTasks
+                    .filter((t) => t.subjectId)
                     .map((task) => {
                       const isSelected = selectedTaskId === task.id;
                       
@@ -778,6 +1346,9 @@ export default function TimerScreen() {
                             : formatDateLabel(task.scheduledFor, todayIso))
                         : null;
                       
+                      // Same lock as the subject rows: the running session keeps its task
+                      const disableRowInteraction = sessionInProgress && !isSelected;
+
                       return (
                         <TouchableOpacity
                           key={task.id}
@@ -789,13 +1360,16 @@ export default function TimerScreen() {
                             isSelected && {
                               backgroundColor: hexToRgba(taskSubjectColor, 0.08),
                             },
+                            disableRowInteraction && { opacity: 0.45 },
                           ]}
                           onPress={() => {
+                            if (sessionInProgress) return;
                             if (task.subjectId) {
                               setSelectedSubjectId(task.subjectId);
                             }
                             setSelectedTaskId(task.id);
                           }}
+                          disabled={disableRowInteraction}
                         >
                           <View
                             style={[
@@ -826,6 +1400,11 @@ export default function TimerScreen() {
                             <Text variant="micro" colorName="textMuted" style={styles.taskMeta}>
                               {subjectName}
                               {formattedDate && ` • ${formattedDate}`}
+                              {isTaskOverdue(task) ? (
+                                <Text variant="micro" style={{ color: safeTheme.danger }}>
+                                  {` • ${t("tasks.overdueShort")}`}
+                                </Text>
+                              ) : null}
                             </Text>
                           </View>
                         </TouchableOpacity>
@@ -837,7 +1416,7 @@ export default function TimerScreen() {
         </ScrollView>
 
       {/* FLOATING ADD BUTTON (Pour aller vers Profil/Ajout) - Only in subjects tab */}
-      {!isRunning && listTab === "subjects" && (
+      {!sessionInProgress && listTab === "subjects" && (
         <Button
           iconLeft={Plus}
           iconOnly
@@ -1009,6 +1588,23 @@ export default function TimerScreen() {
         ) : null}
       </Modal>
 
+      <IntervalSettingsModal
+        visible={intervalSettingsVisible}
+        onClose={() => setIntervalSettingsVisible(false)}
+        config={intervalConfig}
+        onSave={setIntervalConfig}
+      />
+
+      <SessionReflectionModal
+        visible={reflectionTarget !== null}
+        onClose={() => setReflectionTarget(null)}
+        summary={reflectionTarget?.summary}
+        onSubmit={async (reflection) => {
+          if (!user?.id || !reflectionTarget) return;
+          await saveSessionReflection(reflectionTarget.sessionId, user.id, reflection);
+        }}
+      />
+
     </TabScreen>
   );
 }
@@ -1259,6 +1855,23 @@ function createStyles(theme: typeof Colors.light) {
       alignItems: "center",
       width: "100%",
     },
+    runningActions: {
+      flexDirection: "row",
+      gap: 10,
+      width: "100%",
+    },
+    runningActionButton: {
+      flex: 1,
+    },
+    modeRow: {
+      width: "100%",
+      alignItems: "center",
+      gap: 4,
+      marginBottom: 8,
+    },
+    modeTabs: {
+      alignSelf: "stretch",
+    },
     // SUBJECT / TASK LIST (pill cards)
     subjectColorDot: {
       width: 10,
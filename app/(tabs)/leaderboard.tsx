@@ -1,13 +1,27 @@
 import { TabScreen } from "@/components/layout/TabScreen";
 import { Text } from "@/components/Themed";
+import { Button } from "@/components/ui/Button";
 import { Tabs } from "@/components/ui/Tabs";
+import { YEARS_BY_CATEGORY } from "@/constants/academicPath";
+import type { CategoryId } from "@/constants/categories";
 import Colors from "@/constants/Colors";
+import { useSubjects } from "@/hooks/useSubjects";
 import { useAuth } from "@/utils/authContext";
-import { fetchLeaderboardByPeriod, LeaderboardEntry } from "@/utils/queries";
+import {
+  fetchFilteredLeaderboardByPeriod,
+  fetchFriendsLeaderboardByPeriod,
+  fetchGroupLeaderboardByPeriod,
+  fetchLeaderboardByPeriod,
+  fetchLeaderboardEntryForUser,
+  fetchUserProfile,
+  LeaderboardEntry,
+  LeaderboardFilters,
+  Profile,
+} from "@/utils/queries";
 import { useTheme } from "@/utils/themeContext";
 import { formatStatMinutes } from "@/utils/time";
 import AsyncStorage from "@react-native-async-storage/async-storage";
-import { useRouter } from "expo-router";
+import { useLocalSearchParams, useRouter } from "expo-router";
 import { ChevronLeft } from "lucide-react-native";
 import React from "react";
 import { useTranslation } from "react-i18next";
@@ -21,6 +35,9 @@ import {
 } from "react-native";
 
 type Period = "week" | "month" | "year";
+type Scope = "all" | "friends";
+/** Cohort filters compare with people on the viewer's own academic path. */
+type Cohort = "all" | "category" | "year";
 
 const labels = {
   week: "common.period.week",
@@ -34,20 +51,95 @@ const periodOptions: { value: Period; label: keyof typeof labels }[] = [
   { value: "year", label: "year" },
 ];
 
+const scopeOptions: { value: Scope; label: string }[] = [
+  { value: "all", label: "leaderboard.scope.all" },
+  { value: "friends", label: "leaderboard.scope.friends" },
+];
+
+const PAGE_SIZE = 50;
+
 const LAST_RANK_STORAGE_PREFIX = "@tymii/leaderboard_last_rank";
 
+const firstParam = (value: string | string[] | undefined) =>
+  Array.isArray(value) ? value[0] : value;
+
 export default function LeaderboardScreen() {
   const { user } = useAuth();
   const theme = useTheme();
   const router = useRouter();
+  const params = useLocalSearchParams<{ groupId?: string; groupName?: string }>();
+  // Without a groupId this is the global leaderboard
+  const groupId = firstParam(params.groupId) || null;
+  const groupName = firstParam(params.groupName) || null;
   const styles = React.useMemo(() => createStyles(theme), [theme]);
   const [period, setPeriod] = React.useState<Period>("week");
+  const [scope, setScope] = React.useState<Scope>("all");
   const [leaderboard, setLeaderboard] = React.useState<LeaderboardEntry[]>([]);
   const [loading, setLoading] = React.useState<boolean>(false);
   const [refreshing, setRefreshing] = React.useState<boolean>(false);
   const [error, setError] = React.useState<string | null>(null);
   const [rankDelta, setRankDelta] = React.useState<number | null>(null);
+  // Global snapshot only: paging, freshness and the viewer's row when it is not on a loaded page
+  const [hasMore, setHasMore] = React.useState<boolean>(false);
+  const [loadingMore, setLoadingMore] = React.useState<boolean>(false);
+  const [refreshedAt, setRefreshedAt] = React.useState<string | null>(null);
+  const [viewerEntry, setViewerEntry] = React.useState<LeaderboardEntry | null>(null);
+  const [cohort, setCohort] = React.useState<Cohort>("all");
+  const [bankKey, setBankKey] = React.useState<string | null>(null);
+  const [profile, setProfile] = React.useState<Profile | null>(null);
   const { t } = useTranslation();
+  const { subjects, getDisplayName } = useSubjects({
+    userId: user?.id ?? null,
+    autoLoad: true,
+  });
+
+  React.useEffect(() => {
+    if (!user?.id) {
+      setProfile(null);
+      return;
+    }
+    let cancelled = false;
+    fetchUserProfile(user.id)
+      .then((data) => {
+        if (!cancelled) setProfile(data);
+      })
+      .catch((err) => console.error("Erreur chargement profil", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [user?.id]);
+
+  // One chip per catalogue subject the viewer studies (their copies share the bank_key)
+  const subjectFilters = React.useMemo(() => {
+    const seen = new Set<string>();
+    const options: { bankKey: string; label: string }[] = [];
+    for (const subject of subjects) {
+      if (!subject.bank_key || seen.has(subject.bank_key)) continue;
+      seen.add(subject.bank_key);
+      options.push({ bankKey: subject.bank_key, label: getDisplayName(subject) });
+    }
+    return options;
+  }, [subjects, getDisplayName]);
+
+  const academicCategory = profile?.academic_category ?? null;
+  const academicYearKey = profile?.academic_year_key ?? null;
+  const yearLabelKey = academicCategory
+    ? YEARS_BY_CATEGORY[academicCategory as CategoryId]?.find((y) => y.id === academicYearKey)
+        ?.labelKey
+    : undefined;
+
+  const filters = React.useMemo<LeaderboardFilters | null>(() => {
+    if (groupId || scope !== "all") return null;
+    if (cohort === "all" && !bankKey) return null;
+    return {
+      academicCategory: cohort !== "all" ? academicCategory : null,
+      academicYearKey: cohort === "year" ? academicYearKey : null,
+      bankKey,
+    };
+  }, [groupId, scope, cohort, bankKey, academicCategory, academicYearKey]);
+  const filtersKey = filters
+    ? [filters.academicCategory ?? "", filters.academicYearKey ?? "", filters.bankKey ?? ""].join(":")
+    : null;
 
   const loadLeaderboard = React.useCallback(
     async (selectedPeriod: Period, options?: { isRefresh?: boolean }) => {
@@ -59,8 +151,27 @@ export default function LeaderboardScreen() {
       setError(null);
 
       try {
-        const data = await fetchLeaderboardByPeriod(selectedPeriod, user?.id ?? null);
+        if (!groupId && scope === "all" && !filters) {
+          const [page, viewer] = await Promise.all([
+            fetchLeaderboardByPeriod(selectedPeriod, { limit: PAGE_SIZE }),
+            user?.id ? fetchLeaderboardEntryForUser(selectedPeriod, user.id) : null,
+          ]);
+          setLeaderboard(page.entries);
+          setHasMore(page.hasMore);
+          setRefreshedAt(page.refreshedAt);
+          setViewerEntry(viewer);
+          return;
+        }
+
+        const data = groupId
+          ? await fetchGroupLeaderboardByPeriod(groupId, selectedPeriod)
+          : scope === "friends"
+            ? await fetchFriendsLeaderboardByPeriod(selectedPeriod)
+            : await fetchFilteredLeaderboardByPeriod(selectedPeriod, filters ?? {});
         setLeaderboard(data);
+        setHasMore(false);
+        setRefreshedAt(null);
+        setViewerEntry(null);
       } catch (err) {
         console.error("Erreur chargement classement", err);
         setError(t("leaderboard.errorLoading"));
@@ -72,25 +183,59 @@ export default function LeaderboardScreen() {
         }
       }
     },
-    [t, user?.id]
+    [t, user?.id, groupId, scope, filters]
   );
 
   React.useEffect(() => {
     loadLeaderboard(period);
   }, [period, loadLeaderboard]);
 
+  const handleLoadMore = React.useCallback(async () => {
+    if (loading || loadingMore || !hasMore) return;
+    setLoadingMore(true);
+    try {
+      const page = await fetchLeaderboardByPeriod(period, {
+        offset: leaderboard.length,
+        limit: PAGE_SIZE,
+      });
+      setLeaderboard((current) => {
+        // A refresh between pages can shift rows; keep the first copy of each user
+        const seen = new Set(current.map((e) => e.userId));
+        return [...current, ...page.entries.filter((e) => !seen.has(e.userId))];
+      });
+      setHasMore(page.hasMore);
+    } catch (err) {
+      console.error("Erreur chargement classement", err);
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [loading, loadingMore, hasMore, period, leaderboard.length]);
+
   React.useEffect(() => {
-    if (!user?.id || leaderboard.length === 0) {
+    if (!user?.id) {
       setRankDelta(null);
       return;
     }
     const idx = leaderboard.findIndex((e) => e.userId === user.id);
-    if (idx < 0) {
+    const self = idx >= 0 ? leaderboard[idx] : viewerEntry;
+    if (!self) {
       setRankDelta(null);
       return;
     }
-    const rank = idx + 1;
-    const storageKey = `${LAST_RANK_STORAGE_PREFIX}:${user.id}:${period}`;
+    const rank = self.rank ?? idx + 1;
+
+    // Friends rows carry last week's rank from the server
+    if (!groupId && scope === "friends") {
+      const previousRank = self.previousRank;
+      setRankDelta(previousRank != null && previousRank !== rank ? previousRank - rank : null);
+      return;
+    }
+
+    const storageKey = groupId
+      ? `${LAST_RANK_STORAGE_PREFIX}:${user.id}:group:${groupId}:${period}`
+      : filtersKey
+        ? `${LAST_RANK_STORAGE_PREFIX}:${user.id}:filtered:${filtersKey}:${period}`
+        : `${LAST_RANK_STORAGE_PREFIX}:${user.id}:${period}`;
     let cancelled = false;
     (async () => {
       try {
@@ -114,7 +259,7 @@ export default function LeaderboardScreen() {
     return () => {
       cancelled = true;
     };
-  }, [leaderboard, user?.id, period]);
+  }, [leaderboard, viewerEntry, user?.id, period, groupId, scope, filtersKey]);
 
   const handleRefresh = React.useCallback(() => {
     loadLeaderboard(period, { isRefresh: true });
@@ -124,8 +269,26 @@ export default function LeaderboardScreen() {
     router.back();
   }, [router]);
 
+  const sinceLastWeek = !groupId && scope === "friends";
+
+  const renderChip = (key: string, label: string, active: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.chip, active && styles.chipActive]}
+      onPress={onPress}
+      accessibilityState={{ selected: active }}
+    >
+      <Text variant="caption" colorName={active ? "text" : "textMuted"} numberOfLines={1}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  const showFilterBar =
+    !groupId && scope === "all" && (academicCategory != null || subjectFilters.length > 0);
+
   const renderRow = (entry: LeaderboardEntry, index: number) => {
-    const rank = index + 1;
+    const rank = entry.rank ?? index + 1;
     const isCurrentUser = user?.id === entry.userId;
     const timeStr = formatStatMinutes(Math.max(0, Math.floor(entry.totalSeconds / 60)));
 
@@ -170,11 +333,16 @@ export default function LeaderboardScreen() {
             rankDelta !== 0 &&
             (rankDelta > 0 ? (
               <Text variant="micro" colorName="textMuted" align="right" style={styles.trend}>
-                {t("leaderboard.rankUpPlaces", { count: rankDelta })}
+                {t(sinceLastWeek ? "leaderboard.rankUpSinceLastWeek" : "leaderboard.rankUpPlaces", {
+                  count: rankDelta,
+                })}
               </Text>
             ) : (
               <Text variant="micro" colorName="textMuted" align="right" style={styles.trend}>
-                {t("leaderboard.rankDownPlaces", { count: Math.abs(rankDelta) })}
+                {t(
+                  sinceLastWeek ? "leaderboard.rankDownSinceLastWeek" : "leaderboard.rankDownPlaces",
+                  { count: Math.abs(rankDelta) }
+                )}
               </Text>
             ))}
         </View>
@@ -201,7 +369,8 @@ export default function LeaderboardScreen() {
 
   return (
     <TabScreen
-      title={t("tabs.leaderboard")}
+      title={groupId ? groupName ?? t("leaderboard.groupTitle") : t("tabs.leaderboard")}
+      subtitle={groupId ? t("leaderboard.groupSubtitle") : undefined}
       leftAction={
         <TouchableOpacity onPress={handleBack} style={styles.backButton}>
           <ChevronLeft size={24} color={theme.text} />
@@ -209,6 +378,65 @@ export default function LeaderboardScreen() {
       }
     >
       <View style={{ gap: 12 }}>
+        {!groupId ? (
+          <Tabs
+            variant="underline"
+            options={scopeOptions.map((option) => ({
+              value: option.value,
+              label: t(option.label),
+            }))}
+            value={scope}
+            onChange={setScope}
+          />
+        ) : null}
+        {showFilterBar ? (
+          <View style={styles.filters}>
+            {academicCategory ? (
+              <ScrollView
+                horizontal
+                showsHorizontalScrollIndicator={false}
+                contentContainerStyle={styles.chipRow}
+              >
+                {renderChip("cohort-all", t("leaderboard.filters.everyone"), cohort === "all", () =>
+                  setCohort("all")
+                )}
+                {renderChip(
+                  "cohort-category",
+                  t(`categories.${academicCategory}`),
+                  cohort === "category",
+                  () => setCohort("category")
+                )}
+                {yearLabelKey
+                  ? renderChip(
+                      "cohort-year",
+                      t(`onboarding.years.${yearLabelKey}`),
+                      cohort === "year",
+                      () => setCohort("year")
+                    )
+                  : null}
+              </ScrollView>
+            ) : null}
+            {subjectFilters.length > 0 ? (
+              <ScrollView
+                horizontal
+                showsHorizontalScrollIndicator={false}
+                contentContainerStyle={styles.chipRow}
+              >
+                {renderChip("subject-all", t("leaderboard.filters.allSubjects"), bankKey == null, () =>
+                  setBankKey(null)
+                )}
+                {subjectFilters.map((option) =>
+                  renderChip(
+                    `subject-${option.bankKey}`,
+                    option.label,
+                    bankKey === option.bankKey,
+                    () => setBankKey(option.bankKey)
+                  )
+                )}
+              </ScrollView>
+            ) : null}
+          </View>
+        ) : null}
         <Tabs
           options={periodOptions.map((option) => ({
             value: option.value,
@@ -217,6 +445,16 @@ export default function LeaderboardScreen() {
           value={period}
           onChange={setPeriod}
         />
+        {refreshedAt ? (
+          <Text variant="micro" colorName="textMuted" align="center">
+            {t("leaderboard.updatedAt", {
+              time: new Date(refreshedAt).toLocaleTimeString([], {
+                hour: "2-digit",
+                minute: "2-digit",
+              }),
+            })}
+          </Text>
+        ) : null}
 
         <ScrollView
           contentContainerStyle={styles.listWrapper}
@@ -241,7 +479,28 @@ export default function LeaderboardScreen() {
               {t("leaderboard.empty")}
             </Text>
           ) : (
-            <View>{leaderboard.map(renderRow)}</View>
+            <View>
+              {leaderboard.map(renderRow)}
+              {sinceLastWeek && leaderboard.length === 1 ? (
+                <Text variant="micro" align="center" colorName="textMuted" style={styles.helperText}>
+                  {t("leaderboard.friendsHint")}
+                </Text>
+              ) : null}
+              {hasMore ? (
+                <Button
+                  title={t("leaderboard.showMore")}
+                  variant="ghost"
+                  size="sm"
+                  onPress={() => void handleLoadMore()}
+                  loading={loadingMore}
+                  disabled={loadingMore}
+                  style={styles.showMore}
+                />
+              ) : null}
+              {viewerEntry && !leaderboard.some((e) => e.userId === viewerEntry.userId)
+                ? renderRow(viewerEntry, leaderboard.length)
+                : null}
+            </View>
           )}
         </ScrollView>
       </View>
@@ -258,6 +517,26 @@ const createStyles = (theme: typeof Colors.light) =>
       alignItems: "center",
     },
 
+    filters: {
+      gap: 8,
+    },
+    chipRow: {
+      flexDirection: "row",
+      gap: 8,
+    },
+    chip: {
+      paddingHorizontal: 12,
+      paddingVertical: 6,
+      borderRadius: 999,
+      backgroundColor: theme.surfaceElevated,
+      maxWidth: 220,
+    },
+    chipActive: {
+      backgroundColor: theme.primaryTint,
+      borderWidth: 1,
+      borderColor: theme.primaryDark,
+    },
+
     listWrapper: {
       paddingHorizontal: 20,
       paddingBottom: 24,
@@ -320,4 +599,5 @@ const createStyles = (theme: typeof Colors.light) =>
     timeValue: { fontWeight: "400", color: theme.text },
     timeValueEmphasis: { fontWeight: "700" },
     trend: { marginTop: 4 },
+    showMore: { alignSelf: "center", marginTop: 8 },
   });
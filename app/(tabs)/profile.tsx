@@ -47,6 +47,7 @@ import {
   Moon,
   Pencil,
   Plus,
+  Radio,
   Save,
   Trash,
   User,
@@ -62,6 +63,7 @@ import {
   Pressable,
   ScrollView,
   StyleSheet,
+  Switch,
   TouchableOpacity,
   View,
 } from "react-native";
@@ -170,6 +172,7 @@ export default function ProfileScreen() {
   const [restoringHiddenId, setRestoringHiddenId] = useState<string | null>(null);
   const [academicPathModalVisible, setAcademicPathModalVisible] = useState(false);
   const [academicPathMessage, setAcademicPathMessage] = useState<string | null>(null);
+  const [savingShareActivity, setSavingShareActivity] = useState(false);
 
   const handleLanguageChange = async (lng: "en" | "fr") => {
     if (!user?.id) return;
@@ -203,6 +206,20 @@ export default function ProfileScreen() {
     }
   };
 
+  const handleShareActivityChange = async (value: boolean) => {
+    if (!user?.id) return;
+    setSavingShareActivity(true);
+    try {
+      await updateUserProfile(user.id, { share_study_activity: value });
+      await refetchProfile();
+    } catch (err: any) {
+      console.error("Error updating study activity sharing", err);
+      Alert.alert(t("timer.errorTitle"), err?.message ?? t("profile.shareActivity.error"));
+    } finally {
+      setSavingShareActivity(false);
+    }
+  };
+
   const academicPathSummary = useMemo(() => {
     const c = profile?.academic_category;
     if (!c || !ACADEMIC_CATEGORY_IDS.includes(c as CategoryId)) {
@@ -763,6 +780,26 @@ export default function ProfileScreen() {
               ) : null}
             </View>
 
+            <View style={styles.settingsCard}>
+              <View style={styles.settingsCardRow}>
+                <Radio size={22} color={theme.text} strokeWidth={2} />
+                <View style={styles.settingsCardLabelFill}>
+                  <Text variant="subtitle">{t("profile.shareActivity.label")}</Text>
+                  <Text variant="caption" colorName="textMuted">
+                    {t("profile.shareActivity.hint")}
+                  </Text>
+                </View>
+                <Switch
+                  value={profile?.share_study_activity ?? true}
+                  onValueChange={(value) => void handleShareActivityChange(value)}
+                  disabled={savingShareActivity || !profile}
+                  trackColor={{ false: theme.divider, true: theme.primary }}
+                  thumbColor={(profile?.share_study_activity ?? true) ? theme.primaryDark : "#f4f3f4"}
+                  accessibilityLabel={t("profile.shareActivity.label")}
+                />
+              </View>
+            </View>
+
             {/* FAMILY_CONTROLS_DISABLED: Study mode settings hidden for App Store submission.
                 To re-enable, restore the settingBlock with Shield/ShieldAlert icons,
                 permission button, and iOS app picker. */}
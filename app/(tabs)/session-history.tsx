@@ -0,0 +1,424 @@
+import { TabScreen } from "@/components/layout/TabScreen";
+import { SessionFormModal } from "@/components/sessions/SessionFormModal";
+import { Text } from "@/components/Themed";
+import { Input } from "@/components/ui/Input";
+import Colors from "@/constants/Colors";
+import { useSessionHistory } from "@/hooks/useSessionHistory";
+import { useSubjects } from "@/hooks/useSubjects";
+import { useTasks } from "@/hooks/useTasks";
+import { useAuth } from "@/utils/authContext";
+import { createSubjectColorMap } from "@/utils/color";
+import type { StudySession } from "@/utils/queries";
+import { useTheme } from "@/utils/themeContext";
+import { formatDurationCompact, getTodayIso } from "@/utils/time";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { ChevronLeft, X } from "lucide-react-native";
+import React from "react";
+import { useTranslation } from "react-i18next";
+import {
+  ActivityIndicator,
+  FlatList,
+  RefreshControl,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+type RangePreset = "all" | "7d" | "30d" | "custom";
+
+const RANGE_PRESETS: RangePreset[] = ["all", "7d", "30d", "custom"];
+const MIN_DURATION_OPTIONS = [0, 15, 30, 60];
+
+const firstParam = (value: string | string[] | undefined) =>
+  typeof value === "string" ? value : Array.isArray(value) ? value[0] : undefined;
+
+/** Local YYYY-MM-DD → Date at the start (or end) of that day; null when malformed. */
+function parseLocalDay(iso: string, endOfDay = false): Date | null {
+  const m = /^(\d{4})-(\d{2})-(\d{2})$/.exec(iso.trim());
+  if (!m) return null;
+  const d = endOfDay
+    ? new Date(Number(m[1]), Number(m[2]) - 1, Number(m[3]), 23, 59, 59, 999)
+    : new Date(Number(m[1]), Number(m[2]) - 1, Number(m[3]));
+  return Number.isNaN(d.getTime()) ? null : d;
+}
+
+export default function SessionHistoryScreen() {
+  const params = useLocalSearchParams<{ subjectId?: string; taskId?: string }>();
+  const router = useRouter();
+  const theme = useTheme();
+  const styles = React.useMemo(() => createStyles(theme), [theme]);
+  const { t } = useTranslation();
+  const { user } = useAuth();
+
+  const [subjectId, setSubjectId] = React.useState<string | null>(
+    firstParam(params.subjectId) ?? null
+  );
+  const [taskId, setTaskId] = React.useState<string | null>(firstParam(params.taskId) ?? null);
+  const [rangePreset, setRangePreset] = React.useState<RangePreset>("all");
+  const [customFrom, setCustomFrom] = React.useState("");
+  const [customTo, setCustomTo] = React.useState(getTodayIso());
+  const [minMinutes, setMinMinutes] = React.useState(0);
+  const [editing, setEditing] = React.useState<StudySession | null>(null);
+
+  // Re-entering from another row / task card replaces the filters
+  React.useEffect(() => {
+    setSubjectId(firstParam(params.subjectId) ?? null);
+    setTaskId(firstParam(params.taskId) ?? null);
+  }, [params.subjectId, params.taskId]);
+
+  const { subjects, subjectTree, getDisplayName } = useSubjects({
+    userId: user?.id ?? null,
+    autoLoad: true,
+  });
+  const { tasks } = useTasks({ userId: user?.id ?? null, autoLoad: true });
+
+  const subjectColorById = React.useMemo(
+    () => createSubjectColorMap(subjectTree, theme.subjectPalette, theme.primary),
+    [subjectTree, theme.subjectPalette, theme.primary]
+  );
+
+  const taskById = React.useMemo(() => new Map(tasks.map((task) => [task.id, task])), [tasks]);
+
+  const { from, to } = React.useMemo(() => {
+    if (rangePreset === "all") return { from: null, to: null };
+    if (rangePreset === "custom") {
+      return { from: parseLocalDay(customFrom), to: parseLocalDay(customTo, true) };
+    }
+    const days = rangePreset === "7d" ? 7 : 30;
+    const start = new Date();
+    start.setHours(0, 0, 0, 0);
+    start.setDate(start.getDate() - (days - 1));
+    return { from: start, to: null };
+  }, [rangePreset, customFrom, customTo]);
+
+  const filters = React.useMemo(
+    () => ({ subjectId, taskId, from, to, minDurationSeconds: minMinutes * 60 }),
+    [subjectId, taskId, from, to, minMinutes]
+  );
+
+  const {
+    sessions,
+    loading,
+    loadingMore,
+    error,
+    loadMore,
+    updateSession,
+    deleteSession,
+    refetch,
+  } = useSessionHistory({ userId: user?.id ?? null, filters });
+
+  const subjectTasks = React.useMemo(
+    () => (subjectId ? tasks.filter((task) => task.subjectId === subjectId) : []),
+    [tasks, subjectId]
+  );
+  const filteredTask = taskId ? taskById.get(taskId) : undefined;
+
+  const renderChip = (key: string, label: string, active: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.chip, active && styles.chipActive]}
+      onPress={onPress}
+      accessibilityState={{ selected: active }}
+    >
+      <Text variant="caption" colorName={active ? "text" : "textMuted"} numberOfLines={1}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  const renderSession = ({ item }: { item: StudySession }) => {
+    const subject = subjects.find((s) => s.id === item.subjectId);
+    const task = item.taskId ? taskById.get(item.taskId) : undefined;
+    const started = new Date(item.startedAt);
+    const ended = new Date(item.endedAt);
+    const timeOpts = { hour: "2-digit", minute: "2-digit" } as const;
+
+    return (
+      <TouchableOpacity
+        style={styles.row}
+        onPress={() => setEditing(item)}
+        accessibilityRole="button"
+        accessibilityLabel={t("sessions.recent.editA11y")}
+      >
+        <View
+          style={[
+            styles.dot,
+            { backgroundColor: subjectColorById[item.subjectId] ?? theme.primary },
+          ]}
+        />
+        <View style={styles.rowBody}>
+          <View style={styles.rowHeader}>
+            <Text variant="body" numberOfLines={1} style={styles.rowTitle}>
+              {subject ? getDisplayName(subject) : t("tasks.form.subject")}
+            </Text>
+            <Text variant="caption" colorName="textMuted">
+              {formatDurationCompact(item.durationSeconds)}
+            </Text>
+          </View>
+          {task ? (
+            <Text variant="caption" colorName="textMuted" numberOfLines={1}>
+              {task.title}
+            </Text>
+          ) : null}
+          <Text variant="micro" colorName="textMuted">
+            {started.toLocaleDateString(undefined, {
+              weekday: "short",
+              month: "short",
+              day: "numeric",
+            })}{" "}
+            · {started.toLocaleTimeString(undefined, timeOpts)} –{" "}
+            {ended.toLocaleTimeString(undefined, timeOpts)}
+          </Text>
+          {item.workedOn.trim() || item.focusRating != null ? (
+            <Text variant="caption" numberOfLines={2} style={styles.reflection}>
+              {[
+                item.workedOn.trim(),
+                item.focusRating != null
+                  ? t("sessions.history.focus", { value: item.focusRating })
+                  : "",
+              ]
+                .filter(Boolean)
+                .join(" · ")}
+            </Text>
+          ) : null}
+          {item.notes.trim() ? (
+            <Text variant="caption" style={styles.notes}>
+              {item.notes.trim()}
+            </Text>
+          ) : null}
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  const header = (
+    <View style={styles.filters}>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+        {renderChip("all", t("dashboard.filterAll"), subjectId === null, () => {
+          setSubjectId(null);
+          setTaskId(null);
+        })}
+        {subjects.map((s) =>
+          renderChip(s.id, getDisplayName(s), subjectId === s.id, () => {
+            setSubjectId(s.id);
+            setTaskId(null);
+          })
+        )}
+      </ScrollView>
+
+      {filteredTask && !subjectTasks.some((task) => task.id === filteredTask.id) ? (
+        <View style={styles.chipRow}>
+          <TouchableOpacity
+            style={[styles.chip, styles.chipActive, styles.chipWithIcon]}
+            onPress={() => setTaskId(null)}
+            accessibilityLabel={t("sessions.history.clearTask")}
+          >
+            <Text variant="caption" numberOfLines={1}>
+              {filteredTask.title}
+            </Text>
+            <X size={14} color={theme.text} />
+          </TouchableOpacity>
+        </View>
+      ) : subjectTasks.length > 0 ? (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+          {renderChip("all-tasks", t("sessions.history.allTasks"), taskId === null, () =>
+            setTaskId(null)
+          )}
+          {subjectTasks.map((task) =>
+            renderChip(task.id, task.title, taskId === task.id, () => setTaskId(task.id))
+          )}
+        </ScrollView>
+      ) : null}
+
+      <View style={styles.chipRow}>
+        {RANGE_PRESETS.map((preset) =>
+          renderChip(preset, t(`sessions.history.range.${preset}`), rangePreset === preset, () =>
+            setRangePreset(preset)
+          )
+        )}
+      </View>
+      {rangePreset === "custom" ? (
+        <View style={styles.customRange}>
+          <Input
+            label={t("sessions.history.from")}
+            value={customFrom}
+            onChangeText={setCustomFrom}
+            placeholder="YYYY-MM-DD"
+            autoCapitalize="none"
+            containerStyle={styles.customRangeField}
+          />
+          <Input
+            label={t("sessions.history.to")}
+            value={customTo}
+            onChangeText={setCustomTo}
+            placeholder="YYYY-MM-DD"
+            autoCapitalize="none"
+            containerStyle={styles.customRangeField}
+          />
+        </View>
+      ) : null}
+
+      <View style={styles.chipRow}>
+        {MIN_DURATION_OPTIONS.map((minutes) =>
+          renderChip(
+            `min-${minutes}`,
+            minutes === 0
+              ? t("sessions.history.anyDuration")
+              : t("sessions.history.minDuration", { minutes }),
+            minMinutes === minutes,
+            () => setMinMinutes(minutes)
+          )
+        )}
+      </View>
+    </View>
+  );
+
+  return (
+    <TabScreen
+      title={t("sessions.history.title")}
+      scroll={false}
+      leftAction={
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <ChevronLeft size={24} color={theme.text} />
+        </TouchableOpacity>
+      }
+    >
+      <FlatList
+        data={sessions}
+        keyExtractor={(item) => item.id}
+        renderItem={renderSession}
+        ListHeaderComponent={header}
+        ListEmptyComponent={
+          loading ? (
+            <View style={styles.centerBox}>
+              <ActivityIndicator color={theme.primary} />
+            </View>
+          ) : (
+            <Text variant="body" colorName="textMuted" align="center" style={styles.empty}>
+              {error ? t("sessions.history.loadError") : t("sessions.history.empty")}
+            </Text>
+          )
+        }
+        ListFooterComponent={
+          loadingMore ? <ActivityIndicator color={theme.primary} style={styles.footer} /> : null
+        }
+        onEndReached={() => void loadMore()}
+        onEndReachedThreshold={0.4}
+        refreshControl={
+          <RefreshControl
+            refreshing={loading && sessions.length > 0}
+            onRefresh={() => void refetch()}
+            tintColor={theme.primary}
+          />
+        }
+        contentContainerStyle={styles.listContent}
+      />
+
+      <SessionFormModal
+        visible={editing !== null}
+        onClose={() => setEditing(null)}
+        session={editing}
+        subjects={subjects}
+        tasks={tasks}
+        onSubmit={async (input) => {
+          if (editing) await updateSession(editing.id, input);
+        }}
+        onDelete={deleteSession}
+      />
+    </TabScreen>
+  );
+}
+
+const createStyles = (theme: typeof Colors.light) =>
+  StyleSheet.create({
+    backButton: {
+      padding: 8,
+      marginLeft: -8,
+      justifyContent: "center",
+      alignItems: "center",
+    },
+    listContent: {
+      paddingBottom: 24,
+    },
+    filters: {
+      gap: 8,
+      marginBottom: 8,
+    },
+    chipRow: {
+      flexDirection: "row",
+      flexWrap: "wrap",
+      gap: 8,
+    },
+    chip: {
+      paddingHorizontal: 12,
+      paddingVertical: 6,
+      borderRadius: 999,
+      backgroundColor: theme.surfaceElevated,
+      maxWidth: 220,
+    },
+    chipActive: {
+      backgroundColor: theme.primaryTint,
+      borderWidth: 1,
+      borderColor: theme.primaryDark,
+    },
+    chipWithIcon: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 6,
+    },
+    customRange: {
+      flexDirection: "row",
+      gap: 12,
+    },
+    customRangeField: {
+      flex: 1,
+      marginBottom: 0,
+    },
+    row: {
+      flexDirection: "row",
+      alignItems: "flex-start",
+      gap: 10,
+      paddingVertical: 10,
+      borderBottomWidth: StyleSheet.hairlineWidth,
+      borderBottomColor: theme.divider,
+    },
+    dot: {
+      width: 10,
+      height: 10,
+      borderRadius: 5,
+      marginTop: 6,
+    },
+    rowBody: {
+      flex: 1,
+      minWidth: 0,
+      gap: 2,
+    },
+    rowHeader: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 8,
+    },
+    rowTitle: {
+      flex: 1,
+      fontWeight: "600",
+    },
+    reflection: {
+      marginTop: 4,
+    },
+    notes: {
+      marginTop: 4,
+      fontStyle: "italic",
+      color: theme.text,
+    },
+    centerBox: {
+      paddingVertical: 48,
+      alignItems: "center",
+    },
+    empty: {
+      marginTop: 24,
+    },
+    footer: {
+      paddingVertical: 16,
+    },
+  });
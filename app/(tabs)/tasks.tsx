@@ -1,4 +1,25 @@
 import { TabScreen } from "@/components/layout/TabScreen";
+import {
+  cleanSubtaskDrafts,
+  SubtaskChecklistEditor,
+  subtaskDraftsChanged,
+  subtaskDraftsFrom,
+  type SubtaskDraft,
+} from "@/components/planning/SubtaskChecklistEditor";
+import {
+  EMPTY_TASK_DUE_DRAFT,
+  parseTaskDueDraft,
+  TaskDueFields,
+  taskDueDraftFromTask,
+  type TaskDueDraft,
+} from "@/components/planning/TaskDueFields";
+import {
+  EMPTY_TASK_RECURRENCE_DRAFT,
+  parseTaskRecurrenceDraft,
+  TaskRecurrenceFields,
+  taskRecurrenceDraftFrom,
+  type TaskRecurrenceDraft,
+} from "@/components/planning/TaskRecurrenceFields";
 import { WeeklyGoalsPanel } from "@/components/planning/WeeklyGoalsPanel";
 import { Text } from "@/components/Themed";
 import { SubjectPicker } from "@/components/ui";
@@ -9,13 +30,14 @@ import { Tabs } from "@/components/ui/Tabs";
 import { TaskCard } from "@/components/ui/TaskCard";
 import Colors from "@/constants/Colors";
 import { useSubjects } from "@/hooks/useSubjects";
-import { useTasks } from "@/hooks/useTasks";
+import { compareTasks, useTasks } from "@/hooks/useTasks";
 import { useAuth } from "@/utils/authContext";
 import { Task } from "@/utils/queries";
+import { requestTaskReminderPermission } from "@/utils/taskReminders";
 import { useTheme } from "@/utils/themeContext";
 import { formatDateLabel, formatMinutesCompact, getTodayIso } from "@/utils/time";
-import { useFocusEffect, useLocalSearchParams } from "expo-router";
-import { CheckCircle2, ListTodo, Plus, Save, X } from "lucide-react-native";
+import { useFocusEffect, useLocalSearchParams, useRouter } from "expo-router";
+import { CheckCircle2, ListTodo, Plus, Repeat, Save, X } from "lucide-react-native";
 import { useCallback, useEffect, useMemo, useState } from "react";
 import { useTranslation } from "react-i18next";
 import {
@@ -40,11 +62,16 @@ export default function TasksScreen() {
   const todayIso = useMemo(() => getTodayIso(), []);
 
   const { planningSection } = useLocalSearchParams<{ planningSection?: string }>();
+  const router = useRouter();
 
   const [newTaskTitle, setNewTaskTitle] = useState("");
   const [newTaskMinutes, setNewTaskMinutes] = useState("");
+  const [newTaskDue, setNewTaskDue] = useState<TaskDueDraft>(EMPTY_TASK_DUE_DRAFT);
+  const [newTaskRecurrence, setNewTaskRecurrence] = useState<TaskRecurrenceDraft>(
+    EMPTY_TASK_RECURRENCE_DRAFT
+  );
   const [planningTab, setPlanningTab] = useState<"weeklyGoals" | "tasks">("tasks");
-  const [viewMode, setViewMode] = useState<"active" | "done">("active");
+  const [viewMode, setViewMode] = useState<"active" | "recurring" | "done">("active");
   const [showAddTaskPanel, setShowAddTaskPanel] = useState(false);
   const [addTaskError, setAddTaskError] = useState<string | null>(null);
   const [creatingTask, setCreatingTask] = useState(false);
@@ -53,6 +80,11 @@ export default function TasksScreen() {
   const [editTitle, setEditTitle] = useState("");
   const [editMinutes, setEditMinutes] = useState("");
   const [editSubjectId, setEditSubjectId] = useState<string | null>(null);
+  const [editDue, setEditDue] = useState<TaskDueDraft>(EMPTY_TASK_DUE_DRAFT);
+  const [editSubtasks, setEditSubtasks] = useState<SubtaskDraft[]>([]);
+  const [editRecurrence, setEditRecurrence] = useState<TaskRecurrenceDraft>(
+    EMPTY_TASK_RECURRENCE_DRAFT
+  );
 
   useEffect(() => {
     if (planningSection === "goals") {
@@ -60,12 +92,14 @@ export default function TasksScreen() {
     }
   }, [planningSection]);
 
-  /** Add-task UI only on "Active"; closing when switching to "Done" avoids a stuck open panel. */
+  /** No add-task UI on "Done"; closing when switching there avoids a stuck open panel. */
   useEffect(() => {
     if (viewMode === "done") {
       setShowAddTaskPanel(false);
       setNewTaskTitle("");
       setNewTaskMinutes("");
+      setNewTaskDue(EMPTY_TASK_DUE_DRAFT);
+      setNewTaskRecurrence(EMPTY_TASK_RECURRENCE_DRAFT);
       setAddTaskError(null);
     }
   }, [viewMode]);
@@ -73,16 +107,19 @@ export default function TasksScreen() {
   // Use hooks for tasks and subjects
   const {
     tasks,
+    templates,
     loading: tasksLoading,
     createTask: createTaskHook,
     updateTask,
     deleteTask: deleteTaskHook,
+    setSubtasks,
     resumeTask: resumeTaskHook,
     completeTask: completeTaskHook,
     refetch: refetchTasks,
   } = useTasks({
     userId: user?.id ?? null,
     autoLoad: true,
+    syncReminders: true,
   });
 
   const {
@@ -124,11 +161,21 @@ export default function TasksScreen() {
         task.plannedMinutes != null && task.plannedMinutes > 0 ? String(task.plannedMinutes) : ""
       );
       setEditSubjectId(task.subjectId ?? null);
+      setEditDue(taskDueDraftFromTask(task));
+      setEditSubtasks(subtaskDraftsFrom(task.subtasks));
+      setEditRecurrence(taskRecurrenceDraftFrom(task.recurrence));
       setEditModalVisible(true);
     },
     []
   );
 
+  const handleShowHistory = useCallback(
+    (task: Task) => {
+      router.push({ pathname: "/(tabs)/session-history", params: { taskId: task.id } });
+    },
+    [router]
+  );
+
   // Refresh tasks when returning to this tab to reflect timer updates
   useFocusEffect(
     useCallback(() => {
@@ -136,6 +183,15 @@ export default function TasksScreen() {
     }, [refetchTasks])
   );
 
+  // Saving still goes through when notifications are off; the user is told reminders won't fire
+  const ensureReminderPermission = async (reminderMinutes: number | null | undefined) => {
+    if (reminderMinutes == null) return;
+    const granted = await requestTaskReminderPermission();
+    if (!granted) {
+      Alert.alert(t("tasks.reminders.deniedTitle"), t("tasks.reminders.deniedMessage"));
+    }
+  };
+
   const handleAddTask = async () => {
     setAddTaskError(null);
     if (!newTaskTitle.trim()) {
@@ -151,6 +207,16 @@ export default function TasksScreen() {
       parsedMinutesRaw === ""
         ? null
         : Math.max(0, parseInt(parsedMinutesRaw || "0", 10) || 0);
+    const recurrence = parseTaskRecurrenceDraft(newTaskRecurrence);
+    if (!recurrence) {
+      setAddTaskError(t("tasks.recurrence.error"));
+      return;
+    }
+    const due = parseTaskDueDraft(newTaskDue);
+    if (!due) {
+      setAddTaskError(t("tasks.form.errorDueDate"));
+      return;
+    }
 
     setCreatingTask(true);
     try {
@@ -160,10 +226,15 @@ export default function TasksScreen() {
         plannedMinutes: parsedMinutes,
         status: "planned",
         loggedSeconds: 0,
-        // scheduledFor defaults to todayIso in the hook
+        // scheduledFor defaults to todayIso in the hook (first day of a recurring task)
+        ...due,
+        ...recurrence,
       });
+      await ensureReminderPermission(due.reminderMinutes);
       setNewTaskTitle("");
       setNewTaskMinutes("");
+      setNewTaskDue(EMPTY_TASK_DUE_DRAFT);
+      setNewTaskRecurrence(EMPTY_TASK_RECURRENCE_DRAFT);
       setShowAddTaskPanel(false);
       Keyboard.dismiss();
     } catch (err) {
@@ -185,13 +256,32 @@ export default function TasksScreen() {
       parsedMinutesRaw === ""
         ? null
         : Math.max(0, parseInt(parsedMinutesRaw || "0", 10) || 0);
+    const due = parseTaskDueDraft(editDue);
+    if (!due) {
+      Alert.alert(t("timer.errorTitle"), t("tasks.form.errorDueDate"));
+      return;
+    }
+    // Only templates carry a rule; regular tasks and instances keep none
+    const recurrence = editingTask.recurrence ? parseTaskRecurrenceDraft(editRecurrence) : {};
+    if (!recurrence) {
+      Alert.alert(t("timer.errorTitle"), t("tasks.recurrence.error"));
+      return;
+    }
 
     try {
       await updateTask(editingTask.id, {
         title: editTitle.trim(),
         subjectId: editSubjectId,
         plannedMinutes: parsedMinutes,
+        ...due,
+        ...recurrence,
       });
+      if (subtaskDraftsChanged(editingTask.subtasks, editSubtasks)) {
+        await setSubtasks(editingTask.id, cleanSubtaskDrafts(editSubtasks));
+      }
+      if (due.reminderMinutes !== editingTask.reminderMinutes) {
+        await ensureReminderPermission(due.reminderMinutes);
+      }
       closeEditModal();
     } catch (err) {
       console.error("Error updating task", err);
@@ -226,15 +316,16 @@ export default function TasksScreen() {
     }
   };
 
-  // Filter tasks by view mode
+  // Filter tasks by view mode; recurring templates keep the fetch order (newest first)
   const orderedTasks = useMemo(() => {
+    if (viewMode === "recurring") return templates;
     const filtered =
       viewMode === "done"
         ? tasks.filter((t) => t.status === "done")
         : tasks.filter((t) => t.status !== "done");
-    const priority = { "in-progress": 0, planned: 1, done: 2 } as const;
-    return filtered.sort((a, b) => priority[a.status] - priority[b.status]);
-  }, [tasks, viewMode]);
+    const now = Date.now();
+    return filtered.sort((a, b) => compareTasks(a, b, now));
+  }, [tasks, templates, viewMode]);
 
   /** Minutes value in add-task panel for matching preset chips (null = empty or invalid). */
   const addTaskParsedMinutes = useMemo(() => {
@@ -272,6 +363,11 @@ export default function TasksScreen() {
                     label: t("tasks.view.active"),
                     icon: ListTodo,
                   },
+                  {
+                    value: "recurring",
+                    label: t("tasks.view.recurring"),
+                    icon: Repeat,
+                  },
                   {
                     value: "done",
                     label: t("tasks.view.done"),
@@ -282,7 +378,7 @@ export default function TasksScreen() {
                 onChange={setViewMode}
               />
 
-              {user?.id && viewMode === "active" ? (
+              {user?.id && viewMode !== "done" ? (
                 <>
                   <Pressable
                     onPress={() => {
@@ -292,6 +388,8 @@ export default function TasksScreen() {
                         if (!next) {
                           setNewTaskTitle("");
                           setNewTaskMinutes("");
+                          setNewTaskDue(EMPTY_TASK_DUE_DRAFT);
+                          setNewTaskRecurrence(EMPTY_TASK_RECURRENCE_DRAFT);
                         }
                         return next;
                       });
@@ -395,6 +493,21 @@ export default function TasksScreen() {
                           style={styles.taskMinutesInputText}
                         />
                       </View>
+                      <TaskRecurrenceFields
+                        value={newTaskRecurrence}
+                        onChange={(next) => {
+                          setNewTaskRecurrence(next);
+                          if (addTaskError) setAddTaskError(null);
+                        }}
+                      />
+                      <TaskDueFields
+                        value={newTaskDue}
+                        onChange={(next) => {
+                          setNewTaskDue(next);
+                          if (addTaskError) setAddTaskError(null);
+                        }}
+                        recurring={newTaskRecurrence.kind !== "none"}
+                      />
                       {addTaskError ? (
                         <Text variant="caption" style={{ color: theme.danger, marginTop: 4 }}>
                           {addTaskError}
@@ -422,7 +535,9 @@ export default function TasksScreen() {
                   <Text variant="micro" colorName="textMuted" style={styles.emptyText}>
                     {viewMode === "done"
                       ? t("tasks.emptyStateDone")
-                      : t("tasks.emptyState")}
+                      : viewMode === "recurring"
+                        ? t("tasks.recurrence.empty")
+                        : t("tasks.emptyState")}
                   </Text>
                 </View>
               ) : (
@@ -436,6 +551,7 @@ export default function TasksScreen() {
                       onDelete={handleDeleteTask}
                       onResume={viewMode === "done" ? handleResumeTask : undefined}
                       onComplete={viewMode === "active" ? handleCompleteTask : undefined}
+                      onShowHistory={viewMode === "recurring" ? undefined : handleShowHistory}
                       formatScheduledLabel={formatScheduledLabel}
                     />
                   ))}
@@ -501,6 +617,24 @@ export default function TasksScreen() {
               containerStyle={{ width: 110 }}
             />
           </View>
+          {editingTask?.recurrence ? (
+            <View style={styles.editSection}>
+              <TaskRecurrenceFields value={editRecurrence} onChange={setEditRecurrence} required />
+              <Text variant="micro" colorName="textMuted" style={styles.helperText}>
+                {t("tasks.recurrence.editHint")}
+              </Text>
+            </View>
+          ) : null}
+          <View style={styles.editSection}>
+            <TaskDueFields
+              value={editDue}
+              onChange={setEditDue}
+              recurring={!!editingTask?.recurrence}
+            />
+          </View>
+          <View style={styles.editSection}>
+            <SubtaskChecklistEditor value={editSubtasks} onChange={setEditSubtasks} />
+          </View>
         </Modal>
     </TabScreen>
   );
@@ -545,6 +679,9 @@ const createStyles = (theme: typeof Colors.light) =>
     marginTop: 4,
     marginLeft: 4,
   },
+  editSection: {
+    marginTop: 12,
+  },
   timeOptionsWrap: {
     flexDirection: "row",
     flexWrap: "wrap",
@@ -8,7 +8,7 @@ import {
 } from '@expo-google-fonts/inter';
 import FontAwesome from '@expo/vector-icons/FontAwesome';
 import { DarkTheme, DefaultTheme, ThemeProvider } from '@react-navigation/native';
-import { Stack, useRouter, useSegments } from 'expo-router';
+import { Stack, usePathname, useRouter, useSegments } from 'expo-router';
 import * as SplashScreen from 'expo-splash-screen';
 import { useEffect } from 'react';
 import { Text, TextInput } from 'react-native';
@@ -18,6 +18,12 @@ import { SafeAreaProvider } from 'react-native-safe-area-context';
 import { useColorScheme } from '@/components/useColorScheme';
 import i18n from '@/i18n';
 import { AuthProvider, useAuth } from '@/utils/authContext';
+import {
+  parseGroupInvitePath,
+  rememberPendingGroupInvite,
+  takePendingGroupInvite,
+} from '@/utils/groupInvites';
+import { addTaskReminderOpenListener, configureTaskReminderHandler } from '@/utils/taskReminders';
 import { AppThemeProvider } from '@/utils/themeContext';
 import { I18nextProvider } from 'react-i18next';
 
@@ -49,6 +55,7 @@ const configureGlobalFont = () => {
 };
 
 SplashScreen.preventAutoHideAsync();
+configureTaskReminderHandler();
 
 export default function RootLayout() {
   const [loaded, error] = useFonts({
@@ -94,6 +101,7 @@ function NavigationWithTheme() {
   const colorScheme = useColorScheme();
   const { user, loadingUser, profileSetupComplete } = useAuth();
   const segments = useSegments();
+  const pathname = usePathname();
   const router = useRouter();
 
   useEffect(() => {
@@ -104,6 +112,9 @@ function NavigationWithTheme() {
     const onFillProfile = inAuthGroup && routeName === "fill-profile";
 
     if (!user && !inAuthGroup) {
+      // Invite link opened while signed out: resume it after sign-in
+      const inviteCode = parseGroupInvitePath(pathname);
+      if (inviteCode) void rememberPendingGroupInvite(inviteCode);
       router.replace("/(auth)/signin");
       return;
     }
@@ -120,7 +131,22 @@ function NavigationWithTheme() {
     if (profileSetupComplete === true && onFillProfile) {
       router.replace("/");
     }
-  }, [loadingUser, user, segments, router, profileSetupComplete]);
+  }, [loadingUser, user, segments, pathname, router, profileSetupComplete]);
+
+  useEffect(() => {
+    if (!user || profileSetupComplete !== true || segments[0] === "(auth)") return;
+    void takePendingGroupInvite().then((code) => {
+      if (code) router.push({ pathname: "/group/join/[code]", params: { code } });
+    });
+  }, [user, profileSetupComplete, segments, router]);
+
+  // Tapping a task reminder opens the task list
+  useEffect(() => {
+    if (!user) return;
+    return addTaskReminderOpenListener(() => {
+      router.push({ pathname: "/(tabs)/tasks" });
+    });
+  }, [user, router]);
 
   return (
     <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
@@ -0,0 +1,196 @@
+import { Text } from "@/components/Themed";
+import { Input } from "@/components/ui/Input";
+import { Modal } from "@/components/ui/Modal";
+import { Tabs } from "@/components/ui/Tabs";
+import type { GroupChallengeInput, GroupChallengeKind } from "@/utils/queries";
+import { useTheme } from "@/utils/themeContext";
+import { getTodayIso } from "@/utils/time";
+import React, { useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { StyleSheet, View } from "react-native";
+
+const MAX_CHALLENGE_DAYS = 365;
+
+const DEFAULTS: Record<GroupChallengeKind, { target: string; days: string }> = {
+  group_total: { target: "100", days: "30" },
+  daily_minimum: { target: "30", days: "14" },
+};
+
+type Props = {
+  visible: boolean;
+  onClose: () => void;
+  onSubmit: (input: GroupChallengeInput) => Promise<void>;
+};
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+/** YYYY-MM-DD + n days, or null when the date is malformed. */
+function addDaysIso(iso: string, days: number): string | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(iso.trim());
+  if (!match) return null;
+  const [, y, m, d] = match.map(Number);
+  const date = new Date(y, m - 1, d);
+  // Reject dates JS rolled over (e.g. 2024-02-31)
+  if (date.getDate() !== d || date.getMonth() !== m - 1) return null;
+  date.setDate(date.getDate() + days);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+export function CreateGroupChallengeModal({ visible, onClose, onSubmit }: Props) {
+  const theme = useTheme();
+  const { t } = useTranslation();
+
+  const [title, setTitle] = useState("");
+  const [kind, setKind] = useState<GroupChallengeKind>("group_total");
+  const [target, setTarget] = useState(DEFAULTS.group_total.target);
+  const [startsOn, setStartsOn] = useState(getTodayIso());
+  const [days, setDays] = useState(DEFAULTS.group_total.days);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+    setTitle("");
+    setKind("group_total");
+    setTarget(DEFAULTS.group_total.target);
+    setStartsOn(getTodayIso());
+    setDays(DEFAULTS.group_total.days);
+    setError(null);
+    setSaving(false);
+  }, [visible]);
+
+  const handleKindChange = (next: GroupChallengeKind) => {
+    setKind(next);
+    setTarget(DEFAULTS[next].target);
+    setDays(DEFAULTS[next].days);
+  };
+
+  const handleSave = async () => {
+    const trimmed = title.trim();
+    const targetValue = Number(target.replace(",", "."));
+    const dayCount = parseInt(days, 10);
+
+    if (!trimmed) {
+      setError(t("groups.challenges.form.errorTitle"));
+      return;
+    }
+    if (!Number.isFinite(targetValue) || targetValue <= 0) {
+      setError(t("groups.challenges.form.errorTarget"));
+      return;
+    }
+    if (Number.isNaN(dayCount) || dayCount < 1 || dayCount > MAX_CHALLENGE_DAYS) {
+      setError(t("groups.challenges.form.errorDays", { max: MAX_CHALLENGE_DAYS }));
+      return;
+    }
+    const endsOn = addDaysIso(startsOn, dayCount - 1);
+    if (!endsOn) {
+      setError(t("groups.challenges.form.errorDate"));
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      await onSubmit({
+        title: trimmed,
+        kind,
+        // Hours for a group total, minutes per day for a daily minimum
+        targetSeconds: Math.round(targetValue * (kind === "group_total" ? 3600 : 60)),
+        startsOn: startsOn.trim(),
+        endsOn,
+      });
+      onClose();
+    } catch (err: any) {
+      setError(err?.message ?? t("groups.challenges.form.errorSave"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      onClose={onClose}
+      title={t("groups.challenges.form.title")}
+      padding={20}
+      actions={{
+        cancel: {
+          label: t("common.actions.cancel"),
+          onPress: onClose,
+          variant: "outline",
+          disabled: saving,
+        },
+        confirm: {
+          label: t("common.actions.create"),
+          onPress: () => void handleSave(),
+          loading: saving,
+          disabled: saving,
+        },
+      }}
+    >
+      <Input
+        label={t("groups.challenges.form.name")}
+        value={title}
+        onChangeText={setTitle}
+        placeholder={t("groups.challenges.form.namePlaceholder")}
+        maxLength={80}
+        containerStyle={styles.field}
+      />
+
+      <Tabs
+        options={[
+          { value: "group_total", label: t("groups.challenges.kind.group_total") },
+          { value: "daily_minimum", label: t("groups.challenges.kind.daily_minimum") },
+        ]}
+        value={kind}
+        onChange={handleKindChange}
+      />
+      <Text variant="micro" colorName="textMuted" style={styles.hint}>
+        {t(`groups.challenges.kindHint.${kind}`)}
+      </Text>
+
+      <Input
+        label={
+          kind === "group_total"
+            ? t("groups.challenges.form.targetHours")
+            : t("groups.challenges.form.targetMinutesPerDay")
+        }
+        value={target}
+        onChangeText={setTarget}
+        keyboardType="numeric"
+        containerStyle={styles.field}
+      />
+
+      <View style={styles.row}>
+        <Input
+          label={t("groups.challenges.form.startsOn")}
+          value={startsOn}
+          onChangeText={setStartsOn}
+          placeholder="YYYY-MM-DD"
+          autoCapitalize="none"
+          containerStyle={styles.rowField}
+        />
+        <Input
+          label={t("groups.challenges.form.days")}
+          value={days}
+          onChangeText={setDays}
+          keyboardType="number-pad"
+          containerStyle={styles.rowField}
+        />
+      </View>
+
+      {error ? (
+        <Text variant="caption" style={{ color: theme.danger }}>
+          {error}
+        </Text>
+      ) : null}
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  field: { marginBottom: 12 },
+  hint: { marginTop: 6, marginBottom: 12 },
+  row: { flexDirection: "row", gap: 12 },
+  rowField: { flex: 1, marginBottom: 12 },
+});
@@ -0,0 +1,187 @@
+import { Text } from "@/components/Themed";
+import { Input } from "@/components/ui/Input";
+import { Modal } from "@/components/ui/Modal";
+import type { GroupEventInput } from "@/utils/queries";
+import { useTheme } from "@/utils/themeContext";
+import { getTodayIso, parseLocalDateTime } from "@/utils/time";
+import React, { useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { StyleSheet, View } from "react-native";
+
+const MIN_DURATION_MINUTES = 5;
+const MAX_DURATION_MINUTES = 720;
+const MAX_SUBJECTS = 5;
+
+type Props = {
+  visible: boolean;
+  onClose: () => void;
+  onSubmit: (input: GroupEventInput) => Promise<void>;
+};
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+/** The next full hour, as HH:MM. */
+const nextHourLabel = () => `${pad((new Date().getHours() + 1) % 24)}:00`;
+
+export function CreateGroupEventModal({ visible, onClose, onSubmit }: Props) {
+  const theme = useTheme();
+  const { t } = useTranslation();
+
+  const [title, setTitle] = useState("");
+  const [date, setDate] = useState(getTodayIso());
+  const [time, setTime] = useState(nextHourLabel());
+  const [duration, setDuration] = useState("60");
+  const [subjects, setSubjects] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+    setTitle("");
+    setDate(getTodayIso());
+    setTime(nextHourLabel());
+    setDuration("60");
+    setSubjects("");
+    setError(null);
+    setSaving(false);
+  }, [visible]);
+
+  const handleSave = async () => {
+    const trimmed = title.trim();
+    const minutes = parseInt(duration, 10);
+    const startsAt = parseLocalDateTime(date, time);
+    const subjectList = Array.from(
+      new Set(
+        subjects
+          .split(",")
+          .map((s) => s.trim())
+          .filter(Boolean)
+      )
+    );
+
+    if (!trimmed) {
+      setError(t("groups.events.form.errorTitle"));
+      return;
+    }
+    if (!startsAt) {
+      setError(t("groups.events.form.errorDate"));
+      return;
+    }
+    if (startsAt.getTime() < Date.now()) {
+      setError(t("groups.events.form.errorPast"));
+      return;
+    }
+    if (Number.isNaN(minutes) || minutes < MIN_DURATION_MINUTES || minutes > MAX_DURATION_MINUTES) {
+      setError(
+        t("groups.events.form.errorDuration", {
+          min: MIN_DURATION_MINUTES,
+          max: MAX_DURATION_MINUTES,
+        })
+      );
+      return;
+    }
+    if (subjectList.length > MAX_SUBJECTS) {
+      setError(t("groups.events.form.errorSubjects", { max: MAX_SUBJECTS }));
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      await onSubmit({
+        title: trimmed,
+        startsAt: startsAt.toISOString(),
+        durationMinutes: minutes,
+        subjects: subjectList,
+      });
+      onClose();
+    } catch (err: any) {
+      setError(err?.message ?? t("groups.events.form.errorSave"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      onClose={onClose}
+      title={t("groups.events.form.title")}
+      padding={20}
+      actions={{
+        cancel: {
+          label: t("common.actions.cancel"),
+          onPress: onClose,
+          variant: "outline",
+          disabled: saving,
+        },
+        confirm: {
+          label: t("common.actions.create"),
+          onPress: () => void handleSave(),
+          loading: saving,
+          disabled: saving,
+        },
+      }}
+    >
+      <Input
+        label={t("groups.events.form.name")}
+        value={title}
+        onChangeText={setTitle}
+        placeholder={t("groups.events.form.namePlaceholder")}
+        maxLength={80}
+        containerStyle={styles.field}
+      />
+
+      <View style={styles.row}>
+        <Input
+          label={t("groups.events.form.date")}
+          value={date}
+          onChangeText={setDate}
+          placeholder="YYYY-MM-DD"
+          autoCapitalize="none"
+          containerStyle={styles.rowField}
+        />
+        <Input
+          label={t("groups.events.form.time")}
+          value={time}
+          onChangeText={setTime}
+          placeholder="HH:MM"
+          keyboardType="numbers-and-punctuation"
+          containerStyle={styles.rowField}
+        />
+      </View>
+
+      <Input
+        label={t("groups.events.form.duration")}
+        value={duration}
+        onChangeText={setDuration}
+        keyboardType="number-pad"
+        containerStyle={styles.field}
+      />
+
+      <Input
+        label={t("groups.events.form.subjects")}
+        value={subjects}
+        onChangeText={setSubjects}
+        placeholder={t("groups.events.form.subjectsPlaceholder")}
+        containerStyle={styles.field}
+      />
+      <Text variant="micro" colorName="textMuted" style={styles.hint}>
+        {t("groups.events.form.creditHint")}
+      </Text>
+
+      {error ? (
+        <Text variant="caption" style={{ color: theme.danger }}>
+          {error}
+        </Text>
+      ) : null}
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  field: { marginBottom: 12 },
+  hint: { marginBottom: 12 },
+  row: { flexDirection: "row", gap: 12 },
+  rowField: { flex: 1, marginBottom: 12 },
+});
@@ -0,0 +1,140 @@
+import { Text } from "@/components/Themed";
+import { Card } from "@/components/ui/Card";
+import Colors from "@/constants/Colors";
+import { getGroupChallengeStatus, type GroupChallengeStatus } from "@/hooks/useGroupChallenges";
+import type { GroupChallenge } from "@/utils/queries";
+import { useTheme } from "@/utils/themeContext";
+import { formatStatMinutes } from "@/utils/time";
+import { CheckCircle2, Target } from "lucide-react-native";
+import React, { useMemo } from "react";
+import { useTranslation } from "react-i18next";
+import { StyleSheet, View } from "react-native";
+
+type Props = {
+  challenge: GroupChallenge;
+  /** History rows drop the personal share line. */
+  compact?: boolean;
+};
+
+const parseIsoDate = (iso: string) => {
+  const [y, m, d] = iso.split("-").map((p) => parseInt(p, 10));
+  return new Date(y, m - 1, d);
+};
+
+const dayCount = (challenge: GroupChallenge) =>
+  Math.round(
+    (parseIsoDate(challenge.endsOn).getTime() - parseIsoDate(challenge.startsOn).getTime()) /
+      86_400_000
+  ) + 1;
+
+export function GroupChallengeCard({ challenge, compact = false }: Props) {
+  const theme = useTheme();
+  const { t, i18n } = useTranslation();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+
+  const status = getGroupChallengeStatus(challenge);
+  const ratio = challenge.goal > 0 ? Math.min(1, challenge.progress / challenge.goal) : 0;
+  const days = dayCount(challenge);
+  const isTotal = challenge.kind === "group_total";
+
+  const dateFormat = { day: "numeric", month: "short" } as const;
+  const range = `${parseIsoDate(challenge.startsOn).toLocaleDateString(i18n.language, dateFormat)} – ${parseIsoDate(
+    challenge.endsOn
+  ).toLocaleDateString(i18n.language, dateFormat)}`;
+
+  const targetLabel = isTotal
+    ? t("groups.challenges.targetTotal", {
+        time: formatStatMinutes(Math.round(challenge.targetSeconds / 60)),
+      })
+    : t("groups.challenges.targetDaily", {
+        time: formatStatMinutes(Math.round(challenge.targetSeconds / 60)),
+        count: days,
+      });
+
+  const progressLabel = isTotal
+    ? `${formatStatMinutes(Math.floor(challenge.progress / 60))} / ${formatStatMinutes(
+        Math.round(challenge.goal / 60)
+      )}`
+    : t("groups.challenges.memberDays", { done: challenge.progress, count: challenge.goal });
+
+  const myLabel = isTotal
+    ? t("groups.challenges.myTotal", {
+        time: formatStatMinutes(Math.floor(challenge.myProgress / 60)),
+      })
+    : t("groups.challenges.myDays", { done: challenge.myProgress, count: days });
+
+  const statusColors: Record<GroupChallengeStatus, { bg: string; fg: string }> = {
+    upcoming: { bg: theme.surfaceElevated, fg: theme.textMuted },
+    active: { bg: theme.primaryTint, fg: theme.primaryDark },
+    completed: { bg: theme.successTint, fg: theme.successDark },
+    failed: { bg: theme.surfaceElevated, fg: theme.textMuted },
+  };
+
+  return (
+    <Card variant="border" style={styles.card}>
+      <View style={styles.header}>
+        {status === "completed" ? (
+          <CheckCircle2 size={18} color={theme.success} />
+        ) : (
+          <Target size={18} color={status === "active" ? theme.primary : theme.textMuted} />
+        )}
+        <Text variant="bodyStrong" numberOfLines={1} style={styles.title}>
+          {challenge.title}
+        </Text>
+        <View style={[styles.statusPill, { backgroundColor: statusColors[status].bg }]}>
+          <Text variant="micro" style={{ color: statusColors[status].fg }}>
+            {t(`groups.challenges.status.${status}`)}
+          </Text>
+        </View>
+      </View>
+
+      <Text variant="caption" colorName="textMuted">
+        {targetLabel} · {range}
+      </Text>
+
+      <View style={styles.track}>
+        <View
+          style={[
+            styles.fill,
+            {
+              width: `${Math.round(ratio * 100)}%`,
+              backgroundColor: status === "completed" ? theme.success : theme.primary,
+            },
+          ]}
+        />
+      </View>
+
+      <View style={styles.footer}>
+        <Text variant="caption">{progressLabel}</Text>
+        <Text variant="caption" colorName="textMuted">
+          {Math.round(ratio * 100)}%
+        </Text>
+      </View>
+      {!compact ? (
+        <Text variant="micro" colorName="textMuted">
+          {myLabel}
+        </Text>
+      ) : null}
+    </Card>
+  );
+}
+
+const createStyles = (theme: typeof Colors.light) =>
+  StyleSheet.create({
+    card: { gap: 8 },
+    header: { flexDirection: "row", alignItems: "center", gap: 8 },
+    title: { flex: 1, minWidth: 0 },
+    statusPill: {
+      paddingHorizontal: 8,
+      paddingVertical: 2,
+      borderRadius: 999,
+    },
+    track: {
+      height: 8,
+      borderRadius: 4,
+      backgroundColor: theme.surfaceElevated,
+      overflow: "hidden",
+    },
+    fill: { height: "100%", borderRadius: 4 },
+    footer: { flexDirection: "row", justifyContent: "space-between" },
+  });
@@ -0,0 +1,134 @@
+import { Text } from "@/components/Themed";
+import { Modal } from "@/components/ui/Modal";
+import Colors from "@/constants/Colors";
+import { fetchGroupEventAttendance, type GroupEvent, type GroupEventAttendee } from "@/utils/queries";
+import { useTheme } from "@/utils/themeContext";
+import { formatStatMinutes } from "@/utils/time";
+import { User } from "lucide-react-native";
+import React, { useEffect, useMemo, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { ActivityIndicator, Image, StyleSheet, View } from "react-native";
+
+type Props = {
+  event: GroupEvent | null;
+  userId: string | null;
+  onClose: () => void;
+};
+
+/** Who answered the event and how long each member studied inside its window. */
+export function GroupEventAttendanceModal({ event, userId, onClose }: Props) {
+  const theme = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+  const { t } = useTranslation();
+
+  const [attendees, setAttendees] = useState<GroupEventAttendee[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setAttendees([]);
+    setError(false);
+    if (!event) return;
+
+    setLoading(true);
+    fetchGroupEventAttendance(event.id)
+      .then((rows) => {
+        if (!cancelled) setAttendees(rows);
+      })
+      .catch((err) => {
+        console.error("Error loading group event attendance", err);
+        if (!cancelled) setError(true);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [event]);
+
+  return (
+    <Modal
+      visible={!!event}
+      onClose={onClose}
+      title={t("groups.events.attendanceTitle", { title: event?.title ?? "" })}
+      padding={20}
+      actions={{
+        cancel: { label: t("common.actions.done"), onPress: onClose, variant: "outline" },
+      }}
+    >
+      {loading ? (
+        <View style={styles.centerBox}>
+          <ActivityIndicator color={theme.primary} />
+        </View>
+      ) : error ? (
+        <Text variant="body" colorName="textMuted" align="center" style={styles.hint}>
+          {t("groups.events.attendanceError")}
+        </Text>
+      ) : attendees.length === 0 ? (
+        <Text variant="body" colorName="textMuted" align="center" style={styles.hint}>
+          {t("groups.events.attendanceEmpty")}
+        </Text>
+      ) : (
+        attendees.map((attendee) => {
+          const attended = attendee.studiedSeconds > 0;
+          return (
+            <View key={attendee.userId} style={styles.row}>
+              <View style={styles.avatar}>
+                {attendee.avatarUrl ? (
+                  <Image source={{ uri: attendee.avatarUrl }} style={styles.avatarImg} />
+                ) : (
+                  <User size={18} color={theme.textMuted} />
+                )}
+              </View>
+              <View style={styles.rowMain}>
+                <Text variant="bodyStrong" numberOfLines={1}>
+                  {attendee.username?.trim() || t("groups.live.anonymous")}
+                  {attendee.userId === userId ? t("groups.live.youSuffix") : ""}
+                </Text>
+                <Text variant="micro" colorName="textMuted">
+                  {attendee.rsvp
+                    ? t(`groups.events.rsvp.${attendee.rsvp}`)
+                    : t("groups.events.noRsvp")}
+                </Text>
+              </View>
+              <Text
+                variant="caption"
+                colorName={attended ? undefined : "textMuted"}
+                style={attended ? { color: theme.primaryDark } : undefined}
+              >
+                {formatStatMinutes(Math.floor(attendee.studiedSeconds / 60))}
+              </Text>
+            </View>
+          );
+        })
+      )}
+    </Modal>
+  );
+}
+
+const createStyles = (theme: typeof Colors.light) =>
+  StyleSheet.create({
+    hint: { marginTop: 10 },
+    centerBox: { paddingVertical: 32, alignItems: "center" },
+    row: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 8,
+      paddingVertical: 10,
+      borderBottomWidth: StyleSheet.hairlineWidth,
+      borderBottomColor: theme.border,
+    },
+    rowMain: { flex: 1, minWidth: 0, gap: 2 },
+    avatar: {
+      width: 36,
+      height: 36,
+      borderRadius: 12,
+      backgroundColor: theme.surfaceElevated,
+      alignItems: "center",
+      justifyContent: "center",
+      overflow: "hidden",
+    },
+    avatarImg: { width: 36, height: 36 },
+  });
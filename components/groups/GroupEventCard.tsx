@@ -0,0 +1,177 @@
+import { Text } from "@/components/Themed";
+import { Button } from "@/components/ui/Button";
+import { Card } from "@/components/ui/Card";
+import Colors from "@/constants/Colors";
+import { getGroupEventStatus, type GroupEventStatus } from "@/hooks/useGroupEvents";
+import type { GroupEvent, GroupEventRsvpStatus } from "@/utils/queries";
+import { useTheme } from "@/utils/themeContext";
+import { formatDurationFromMinutes, formatStatMinutes } from "@/utils/time";
+import { CalendarClock, Check, HelpCircle, Trash2, Users, X } from "lucide-react-native";
+import React, { useMemo } from "react";
+import { useTranslation } from "react-i18next";
+import { Pressable, StyleSheet, View } from "react-native";
+
+type Props = {
+  event: GroupEvent;
+  /** The author or a group admin. */
+  canDelete?: boolean;
+  /** History rows drop the RSVP counts and the personal line. */
+  compact?: boolean;
+  onRsvp?: (status: GroupEventRsvpStatus | null) => void;
+  onDelete?: () => void;
+  onOpenAttendance?: () => void;
+};
+
+const RSVP_OPTIONS: { value: GroupEventRsvpStatus; icon: typeof Check }[] = [
+  { value: "going", icon: Check },
+  { value: "maybe", icon: HelpCircle },
+  { value: "declined", icon: X },
+];
+
+export function GroupEventCard({
+  event,
+  canDelete = false,
+  compact = false,
+  onRsvp,
+  onDelete,
+  onOpenAttendance,
+}: Props) {
+  const theme = useTheme();
+  const { t, i18n } = useTranslation();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+
+  const status = getGroupEventStatus(event);
+  const start = new Date(event.startsAt);
+  const when = `${start.toLocaleDateString(i18n.language, {
+    weekday: "short",
+    day: "numeric",
+    month: "short",
+  })} · ${start.toLocaleTimeString(i18n.language, { hour: "2-digit", minute: "2-digit" })}`;
+
+  const statusColors: Record<GroupEventStatus, { bg: string; fg: string }> = {
+    upcoming: { bg: theme.surfaceElevated, fg: theme.textMuted },
+    live: { bg: theme.primaryTint, fg: theme.primaryDark },
+    ended: { bg: theme.surfaceElevated, fg: theme.textMuted },
+  };
+
+  return (
+    <Card variant="border" style={styles.card}>
+      <View style={styles.header}>
+        <CalendarClock size={18} color={status === "live" ? theme.primary : theme.textMuted} />
+        <Text variant="bodyStrong" numberOfLines={1} style={styles.title}>
+          {event.title}
+        </Text>
+        <View style={[styles.statusPill, { backgroundColor: statusColors[status].bg }]}>
+          <Text variant="micro" style={{ color: statusColors[status].fg }}>
+            {t(`groups.events.status.${status}`)}
+          </Text>
+        </View>
+        {canDelete && onDelete ? (
+          <Button
+            iconLeft={Trash2}
+            iconOnly
+            variant="ghost"
+            size="xs"
+            onPress={onDelete}
+            accessibilityLabel={t("groups.events.delete")}
+          />
+        ) : null}
+      </View>
+
+      <Text variant="caption" colorName="textMuted">
+        {when} · {formatDurationFromMinutes(event.durationMinutes)}
+      </Text>
+
+      {event.subjects.length > 0 ? (
+        <View style={styles.subjects}>
+          {event.subjects.map((subject) => (
+            <View key={subject} style={styles.subjectChip}>
+              <Text variant="micro" colorName="textMuted">
+                {subject}
+              </Text>
+            </View>
+          ))}
+        </View>
+      ) : null}
+
+      {!compact ? (
+        <View style={styles.countsRow}>
+          <Users size={14} color={theme.textMuted} />
+          <Text variant="caption" colorName="textMuted">
+            {t("groups.events.rsvpCounts", { going: event.goingCount, maybe: event.maybeCount })}
+          </Text>
+        </View>
+      ) : null}
+
+      {status !== "ended" && onRsvp ? (
+        <View style={styles.rsvpRow}>
+          {RSVP_OPTIONS.map((option) => {
+            const selected = event.myRsvp === option.value;
+            return (
+              <Button
+                key={option.value}
+                title={t(`groups.events.rsvp.${option.value}`)}
+                iconLeft={option.icon}
+                variant={selected ? "primary" : "soft"}
+                size="xs"
+                // Tapping the current answer clears it
+                onPress={() => onRsvp(selected ? null : option.value)}
+              />
+            );
+          })}
+        </View>
+      ) : null}
+
+      {status !== "upcoming" ? (
+        <Pressable
+          onPress={onOpenAttendance}
+          disabled={!onOpenAttendance}
+          style={styles.attendance}
+          accessibilityRole="button"
+          accessibilityLabel={t("groups.events.attendanceA11y", { title: event.title })}
+        >
+          <Text variant="caption">
+            {t("groups.events.attendanceSummary", {
+              count: event.attendeeCount,
+              time: formatStatMinutes(Math.floor(event.studiedSeconds / 60)),
+            })}
+          </Text>
+          {!compact ? (
+            <Text variant="micro" colorName="textMuted">
+              {t("groups.events.myCredit", {
+                time: formatStatMinutes(Math.floor(event.myStudiedSeconds / 60)),
+              })}
+            </Text>
+          ) : null}
+        </Pressable>
+      ) : null}
+    </Card>
+  );
+}
+
+const createStyles = (theme: typeof Colors.light) =>
+  StyleSheet.create({
+    card: { gap: 8 },
+    header: { flexDirection: "row", alignItems: "center", gap: 8 },
+    title: { flex: 1, minWidth: 0 },
+    statusPill: {
+      paddingHorizontal: 8,
+      paddingVertical: 2,
+      borderRadius: 999,
+    },
+    subjects: { flexDirection: "row", flexWrap: "wrap", gap: 6 },
+    subjectChip: {
+      paddingHorizontal: 8,
+      paddingVertical: 2,
+      borderRadius: 999,
+      backgroundColor: theme.surfaceElevated,
+    },
+    countsRow: { flexDirection: "row", alignItems: "center", gap: 6 },
+    rsvpRow: { flexDirection: "row", flexWrap: "wrap", gap: 6 },
+    attendance: {
+      gap: 2,
+      paddingTop: 8,
+      borderTopWidth: StyleSheet.hairlineWidth,
+      borderTopColor: theme.border,
+    },
+  });
@@ -0,0 +1,296 @@
+import { Text } from "@/components/Themed";
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+import { Modal } from "@/components/ui/Modal";
+import { Tabs } from "@/components/ui/Tabs";
+import Colors from "@/constants/Colors";
+import { buildGroupInviteLinks } from "@/utils/groupInvites";
+import {
+  fetchGroupInviteSettings,
+  fetchGroupMembersWithPresence,
+  regenerateInviteCode,
+  setGroupInviteLimits,
+  type Group,
+  type GroupInviteSettings,
+} from "@/utils/queries";
+import { useTheme } from "@/utils/themeContext";
+import { RefreshCw, Share2 } from "lucide-react-native";
+import React, { useEffect, useMemo, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { ActivityIndicator, Alert, Share, StyleSheet, View } from "react-native";
+import QRCode from "react-native-qrcode-svg";
+
+type Props = {
+  group: Group | null;
+  userId: string | null;
+  onClose: () => void;
+  /** The invite code changed; the caller refreshes its group list. */
+  onChanged?: () => void;
+};
+
+type ExpiryOption = "never" | "1" | "7" | "30";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function GroupInviteModal({ group, userId, onClose, onChanged }: Props) {
+  const theme = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+  const { t, i18n } = useTranslation();
+
+  const [settings, setSettings] = useState<GroupInviteSettings | null>(null);
+  const [isAdmin, setIsAdmin] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [expiry, setExpiry] = useState<ExpiryOption>("never");
+  const [maxUses, setMaxUses] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [regenerating, setRegenerating] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setSettings(null);
+    setIsAdmin(false);
+    setExpiry("never");
+    setMaxUses("");
+    if (!group || !userId) return;
+
+    setLoading(true);
+    Promise.all([fetchGroupInviteSettings(group.id), fetchGroupMembersWithPresence(group.id)])
+      .then(([data, roster]) => {
+        if (cancelled) return;
+        setSettings(data);
+        setIsAdmin(roster.some((m) => m.userId === userId && m.role === "group_admin"));
+        setMaxUses(data.maxUses ? String(data.maxUses) : "");
+      })
+      .catch((err) => {
+        console.error("Error loading group invite", err);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [group, userId]);
+
+  const code = settings?.inviteCode ?? group?.invite_code ?? "";
+  const links = useMemo(() => buildGroupInviteLinks(code), [code]);
+  const shareUrl = links.webUrl ?? links.appUrl;
+
+  const expired = !!settings?.expiresAt && new Date(settings.expiresAt).getTime() <= Date.now();
+  const exhausted = !!settings?.maxUses && settings.useCount >= settings.maxUses;
+
+  const handleShare = async () => {
+    if (!group) return;
+    try {
+      await Share.share({
+        message: t("groups.invite.shareMessage", { name: group.name, url: shareUrl, code }),
+      });
+    } catch (err) {
+      console.error("Error sharing group invite", err);
+    }
+  };
+
+  const handleSaveLimits = async () => {
+    if (!group) return;
+    const parsedUses = maxUses.trim() ? Number.parseInt(maxUses.trim(), 10) : null;
+    if (parsedUses !== null && (!Number.isFinite(parsedUses) || parsedUses < 1)) {
+      Alert.alert(t("groups.invite.errorTitle"), t("groups.invite.maxUsesInvalid"));
+      return;
+    }
+    const expiresAt =
+      expiry === "never" ? null : new Date(Date.now() + Number(expiry) * DAY_MS).toISOString();
+
+    setSaving(true);
+    try {
+      await setGroupInviteLimits(group.id, { expiresAt, maxUses: parsedUses });
+      setSettings((current) =>
+        current ? { ...current, expiresAt, maxUses: parsedUses, useCount: 0 } : current
+      );
+    } catch (err: any) {
+      Alert.alert(t("groups.invite.errorTitle"), err?.message ?? t("groups.errors.unknown"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRegenerate = () => {
+    if (!group) return;
+    Alert.alert(t("groups.invite.regenerateTitle"), t("groups.invite.regenerateMessage"), [
+      { text: t("common.actions.cancel"), style: "cancel" },
+      {
+        text: t("groups.invite.regenerate"),
+        style: "destructive",
+        onPress: async () => {
+          setRegenerating(true);
+          try {
+            const inviteCode = await regenerateInviteCode(group.id);
+            setSettings((current) =>
+              current ? { ...current, inviteCode, useCount: 0 } : current
+            );
+            onChanged?.();
+          } catch (err: any) {
+            Alert.alert(t("groups.invite.errorTitle"), err?.message ?? t("groups.errors.unknown"));
+          } finally {
+            setRegenerating(false);
+          }
+        },
+      },
+    ]);
+  };
+
+  const statusLine = (() => {
+    if (!settings) return null;
+    if (expired) return t("groups.invite.expired");
+    if (exhausted) return t("groups.invite.exhausted");
+    const parts: string[] = [];
+    parts.push(
+      settings.maxUses
+        ? t("groups.invite.usesLimited", { count: settings.useCount, max: settings.maxUses })
+        : t("groups.invite.usesUnlimited", { count: settings.useCount })
+    );
+    parts.push(
+      settings.expiresAt
+        ? t("groups.invite.expiresOn", {
+            date: new Date(settings.expiresAt).toLocaleDateString(i18n.language, {
+              day: "numeric",
+              month: "short",
+            }),
+          })
+        : t("groups.invite.neverExpires")
+    );
+    return parts.join(" · ");
+  })();
+
+  return (
+    <Modal
+      visible={!!group}
+      onClose={onClose}
+      title={t("groups.invite.title", { name: group?.name ?? "" })}
+      padding={20}
+      actions={{
+        cancel: { label: t("common.actions.done"), onPress: onClose, variant: "outline" },
+      }}
+    >
+      {loading && !settings ? (
+        <View style={styles.centerBox}>
+          <ActivityIndicator color={theme.primary} />
+        </View>
+      ) : (
+        <>
+          <View style={styles.qrBox}>
+            {code ? (
+              <QRCode value={shareUrl} size={180} color="#000000" backgroundColor="#FFFFFF" />
+            ) : null}
+          </View>
+          <Text variant="caption" colorName="textMuted" align="center">
+            {t("groups.invite.scanHint")}
+          </Text>
+          <Text variant="subtitle" align="center" style={styles.code}>
+            {code}
+          </Text>
+          <Text variant="micro" colorName="textMuted" align="center" selectable>
+            {shareUrl}
+          </Text>
+          {statusLine ? (
+            <Text
+              variant="caption"
+              align="center"
+              colorName={expired || exhausted ? undefined : "textMuted"}
+              style={[styles.status, expired || exhausted ? { color: theme.danger } : null]}
+            >
+              {statusLine}
+            </Text>
+          ) : null}
+
+          <View style={styles.actionsRow}>
+            <Button
+              title={t("groups.invite.share")}
+              iconLeft={Share2}
+              variant="primary"
+              size="sm"
+              onPress={() => void handleShare()}
+              disabled={!code}
+            />
+            {isAdmin ? (
+              <Button
+                title={t("groups.invite.regenerate")}
+                iconLeft={RefreshCw}
+                variant="soft"
+                size="sm"
+                onPress={handleRegenerate}
+                loading={regenerating}
+                disabled={regenerating}
+              />
+            ) : null}
+          </View>
+
+          {isAdmin && settings ? (
+            <View style={styles.limits}>
+              <Text variant="bodyStrong">{t("groups.invite.limitsTitle")}</Text>
+              <Text variant="caption" colorName="textMuted">
+                {t("groups.invite.expiryLabel")}
+              </Text>
+              <Tabs
+                options={[
+                  { value: "never", label: t("groups.invite.expiryNever") },
+                  { value: "1", label: t("groups.invite.expiryDays", { count: 1 }) },
+                  { value: "7", label: t("groups.invite.expiryDays", { count: 7 }) },
+                  { value: "30", label: t("groups.invite.expiryDays", { count: 30 }) },
+                ]}
+                value={expiry}
+                onChange={setExpiry}
+              />
+              <Input
+                label={t("groups.invite.maxUsesLabel")}
+                value={maxUses}
+                onChangeText={(text) => setMaxUses(text.replace(/[^0-9]/g, ""))}
+                placeholder={t("groups.invite.maxUsesPlaceholder")}
+                keyboardType="number-pad"
+              />
+              <Text variant="micro" colorName="textMuted">
+                {t("groups.invite.limitsHint")}
+              </Text>
+              <Button
+                title={t("common.actions.save")}
+                variant="secondary"
+                size="sm"
+                onPress={() => void handleSaveLimits()}
+                loading={saving}
+                disabled={saving}
+              />
+            </View>
+          ) : null}
+        </>
+      )}
+    </Modal>
+  );
+}
+
+const createStyles = (theme: typeof Colors.light) =>
+  StyleSheet.create({
+    centerBox: { paddingVertical: 32, alignItems: "center" },
+    qrBox: {
+      alignSelf: "center",
+      padding: 12,
+      marginBottom: 10,
+      borderRadius: 16,
+      backgroundColor: "#FFFFFF",
+      borderWidth: StyleSheet.hairlineWidth,
+      borderColor: theme.border,
+    },
+    code: { marginTop: 8, letterSpacing: 2 },
+    status: { marginTop: 6 },
+    actionsRow: {
+      flexDirection: "row",
+      justifyContent: "center",
+      gap: 8,
+      marginTop: 14,
+    },
+    limits: {
+      gap: 8,
+      marginTop: 18,
+      paddingTop: 14,
+      borderTopWidth: StyleSheet.hairlineWidth,
+      borderTopColor: theme.border,
+    },
+  });
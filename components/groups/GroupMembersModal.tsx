@@ -0,0 +1,309 @@
+import { Text } from "@/components/Themed";
+import { Button } from "@/components/ui/Button";
+import { Modal } from "@/components/ui/Modal";
+import { Tabs } from "@/components/ui/Tabs";
+import Colors from "@/constants/Colors";
+import { useGroupModeration } from "@/hooks/useGroupModeration";
+import type { Group, GroupMemberWithPresence } from "@/utils/queries";
+import { useTheme } from "@/utils/themeContext";
+import { Check, Crown, Shield, ShieldMinus, ShieldPlus, User, UserMinus, X } from "lucide-react-native";
+import React, { useEffect, useMemo, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { ActivityIndicator, Alert, Image, StyleSheet, View } from "react-native";
+
+type Props = {
+  group: Group | null;
+  userId: string | null;
+  onClose: () => void;
+  /** Ownership or the roster changed; the caller refreshes its group list. */
+  onChanged?: () => void;
+};
+
+export function GroupMembersModal({ group, userId, onClose, onChanged }: Props) {
+  const theme = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+  const { t, i18n } = useTranslation();
+
+  const [tab, setTab] = useState<"members" | "requests">("members");
+  const [busyId, setBusyId] = useState<string | null>(null);
+  // created_by changes locally after a transfer, before the parent list refreshes
+  const [ownerId, setOwnerId] = useState<string | null>(group?.created_by ?? null);
+
+  const {
+    members,
+    requests,
+    isAdmin,
+    loading,
+    error,
+    approveRequest,
+    rejectRequest,
+    removeMember,
+    setRole,
+    transferOwnership,
+  } = useGroupModeration({ groupId: group?.id ?? null, userId });
+
+  useEffect(() => {
+    setTab("members");
+    setBusyId(null);
+    setOwnerId(group?.created_by ?? null);
+  }, [group?.id, group?.created_by]);
+
+  const isOwner = !!userId && ownerId === userId;
+
+  const sortedMembers = useMemo(
+    () =>
+      [...members].sort((a, b) => {
+        const rank = (m: GroupMemberWithPresence) =>
+          m.userId === ownerId ? 0 : m.role === "group_admin" ? 1 : 2;
+        return rank(a) - rank(b) || (a.username ?? "").localeCompare(b.username ?? "");
+      }),
+    [members, ownerId]
+  );
+
+  const displayName = (username: string | null) => username?.trim() || t("groups.live.anonymous");
+
+  const run = async (id: string, action: () => Promise<void>) => {
+    setBusyId(id);
+    try {
+      await action();
+      onChanged?.();
+    } catch (err: any) {
+      Alert.alert(t("groups.moderation.errorTitle"), err?.message ?? t("groups.errors.unknown"));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const confirmRemove = (member: GroupMemberWithPresence) => {
+    Alert.alert(
+      t("groups.moderation.removeTitle"),
+      t("groups.moderation.removeMessage", { name: displayName(member.username) }),
+      [
+        { text: t("common.actions.cancel"), style: "cancel" },
+        {
+          text: t("groups.moderation.remove"),
+          style: "destructive",
+          onPress: () => void run(member.userId, () => removeMember(member.userId)),
+        },
+      ]
+    );
+  };
+
+  const confirmTransfer = (member: GroupMemberWithPresence) => {
+    Alert.alert(
+      t("groups.moderation.transferTitle"),
+      t("groups.moderation.transferMessage", { name: displayName(member.username) }),
+      [
+        { text: t("common.actions.cancel"), style: "cancel" },
+        {
+          text: t("groups.moderation.transfer"),
+          onPress: () =>
+            void run(member.userId, async () => {
+              await transferOwnership(member.userId);
+              setOwnerId(member.userId);
+            }),
+        },
+      ]
+    );
+  };
+
+  const renderAvatar = (avatarUrl: string | null) => (
+    <View style={styles.avatar}>
+      {avatarUrl ? (
+        <Image source={{ uri: avatarUrl }} style={styles.avatarImg} />
+      ) : (
+        <User size={18} color={theme.textMuted} />
+      )}
+    </View>
+  );
+
+  const renderMember = (member: GroupMemberWithPresence) => {
+    const isSelf = member.userId === userId;
+    const isMemberOwner = member.userId === ownerId;
+    const isMemberAdmin = member.role === "group_admin";
+    const busy = busyId === member.userId;
+    // The owner is only managed through a transfer
+    const canModerate = isAdmin && !isSelf && !isMemberOwner;
+
+    return (
+      <View key={member.userId} style={styles.row}>
+        {renderAvatar(member.avatarUrl)}
+        <View style={styles.rowMain}>
+          <Text variant="bodyStrong" numberOfLines={1}>
+            {displayName(member.username)}
+            {isSelf ? t("groups.live.youSuffix") : ""}
+          </Text>
+          {isMemberOwner || isMemberAdmin ? (
+            <View style={styles.roleRow}>
+              {isMemberOwner ? (
+                <Crown size={12} color={theme.warning} />
+              ) : (
+                <Shield size={12} color={theme.primary} />
+              )}
+              <Text variant="micro" colorName="textMuted">
+                {isMemberOwner ? t("groups.moderation.owner") : t("groups.moderation.admin")}
+              </Text>
+            </View>
+          ) : null}
+        </View>
+        {busy ? <ActivityIndicator color={theme.primary} /> : null}
+        {!busy && canModerate ? (
+          <Button
+            iconLeft={isMemberAdmin ? ShieldMinus : ShieldPlus}
+            iconOnly
+            variant="soft"
+            size="xs"
+            onPress={() =>
+              void run(member.userId, () =>
+                setRole(member.userId, isMemberAdmin ? "group_member" : "group_admin")
+              )
+            }
+            accessibilityLabel={
+              isMemberAdmin ? t("groups.moderation.demote") : t("groups.moderation.promote")
+            }
+          />
+        ) : null}
+        {!busy && isOwner && !isSelf ? (
+          <Button
+            iconLeft={Crown}
+            iconOnly
+            variant="soft"
+            size="xs"
+            onPress={() => confirmTransfer(member)}
+            accessibilityLabel={t("groups.moderation.transfer")}
+          />
+        ) : null}
+        {!busy && canModerate ? (
+          <Button
+            iconLeft={UserMinus}
+            iconOnly
+            variant="soft"
+            size="xs"
+            onPress={() => confirmRemove(member)}
+            accessibilityLabel={t("groups.moderation.remove")}
+          />
+        ) : null}
+      </View>
+    );
+  };
+
+  return (
+    <Modal
+      visible={!!group}
+      onClose={onClose}
+      title={t("groups.moderation.title", { name: group?.name ?? "" })}
+      padding={20}
+      actions={{
+        cancel: { label: t("common.actions.done"), onPress: onClose, variant: "outline" },
+      }}
+    >
+      {isAdmin ? (
+        <Tabs
+          options={[
+            { value: "members", label: t("groups.moderation.membersTab") },
+            {
+              value: "requests",
+              label: t("groups.moderation.requestsTab", { count: requests.length }),
+            },
+          ]}
+          value={tab}
+          onChange={setTab}
+        />
+      ) : null}
+
+      {isOwner ? (
+        <Text variant="micro" colorName="textMuted" style={styles.hint}>
+          {t("groups.moderation.ownerHint")}
+        </Text>
+      ) : null}
+
+      {loading && members.length === 0 ? (
+        <View style={styles.centerBox}>
+          <ActivityIndicator color={theme.primary} />
+        </View>
+      ) : error ? (
+        <Text variant="body" colorName="textMuted" align="center" style={styles.hint}>
+          {t("groups.moderation.loadError")}
+        </Text>
+      ) : tab === "requests" && isAdmin ? (
+        requests.length === 0 ? (
+          <Text variant="body" colorName="textMuted" align="center" style={styles.hint}>
+            {t("groups.moderation.noRequests")}
+          </Text>
+        ) : (
+          requests.map((request) => {
+            const busy = busyId === request.userId;
+            return (
+              <View key={request.userId} style={styles.row}>
+                {renderAvatar(request.avatarUrl)}
+                <View style={styles.rowMain}>
+                  <Text variant="bodyStrong" numberOfLines={1}>
+                    {displayName(request.username)}
+                  </Text>
+                  <Text variant="micro" colorName="textMuted">
+                    {t("groups.moderation.requestedOn", {
+                      date: new Date(request.requestedAt).toLocaleDateString(i18n.language, {
+                        day: "numeric",
+                        month: "short",
+                      }),
+                    })}
+                  </Text>
+                </View>
+                {busy ? (
+                  <ActivityIndicator color={theme.primary} />
+                ) : (
+                  <>
+                    <Button
+                      iconLeft={Check}
+                      iconOnly
+                      variant="soft"
+                      size="xs"
+                      onPress={() => void run(request.userId, () => approveRequest(request.userId))}
+                      accessibilityLabel={t("groups.moderation.approve")}
+                    />
+                    <Button
+                      iconLeft={X}
+                      iconOnly
+                      variant="soft"
+                      size="xs"
+                      onPress={() => void run(request.userId, () => rejectRequest(request.userId))}
+                      accessibilityLabel={t("groups.moderation.reject")}
+                    />
+                  </>
+                )}
+              </View>
+            );
+          })
+        )
+      ) : (
+        sortedMembers.map(renderMember)
+      )}
+    </Modal>
+  );
+}
+
+const createStyles = (theme: typeof Colors.light) =>
+  StyleSheet.create({
+    hint: { marginTop: 10 },
+    centerBox: { paddingVertical: 32, alignItems: "center" },
+    row: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 8,
+      paddingVertical: 10,
+      borderBottomWidth: StyleSheet.hairlineWidth,
+      borderBottomColor: theme.border,
+    },
+    rowMain: { flex: 1, minWidth: 0, gap: 2 },
+    roleRow: { flexDirection: "row", alignItems: "center", gap: 4 },
+    avatar: {
+      width: 36,
+      height: 36,
+      borderRadius: 12,
+      backgroundColor: theme.surfaceElevated,
+      alignItems: "center",
+      justifyContent: "center",
+      overflow: "hidden",
+    },
+    avatarImg: { width: 36, height: 36 },
+  });
@@ -0,0 +1,121 @@
+import { Text } from "@/components/Themed";
+import { Modal } from "@/components/ui/Modal";
+import { Tabs } from "@/components/ui/Tabs";
+import {
+  INTERVAL_PRESETS,
+  useIntervalConfig,
+  type IntervalConfig,
+} from "@/hooks/useIntervalTimer";
+import type { GroupStudyRoomMode, GroupStudyRoomSettings } from "@/utils/queries";
+import { useTheme } from "@/utils/themeContext";
+import React, { useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { StyleSheet } from "react-native";
+
+type Props = {
+  visible: boolean;
+  onClose: () => void;
+  onSubmit: (settings: GroupStudyRoomSettings) => Promise<void>;
+};
+
+type PresetKey = "mine" | "0" | "1";
+
+export function StartStudyRoomModal({ visible, onClose, onSubmit }: Props) {
+  const theme = useTheme();
+  const { t } = useTranslation();
+  // The host's own Focus tab interval settings are offered first
+  const [myConfig] = useIntervalConfig();
+
+  const [mode, setMode] = useState<GroupStudyRoomMode>("pomodoro");
+  const [preset, setPreset] = useState<PresetKey>("mine");
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+    setMode("pomodoro");
+    setPreset("mine");
+    setError(null);
+    setSaving(false);
+  }, [visible]);
+
+  const config: IntervalConfig = preset === "mine" ? myConfig : INTERVAL_PRESETS[Number(preset)];
+
+  const summary = (c: IntervalConfig) =>
+    t("timer.interval.summary", { work: c.workMinutes, rest: c.breakMinutes, cycles: c.cycles });
+
+  const handleStart = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      await onSubmit({ mode, ...config });
+      onClose();
+    } catch (err: any) {
+      setError(err?.message ?? t("groups.room.errorStart"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      onClose={onClose}
+      title={t("groups.room.startTitle")}
+      padding={20}
+      actions={{
+        cancel: {
+          label: t("common.actions.cancel"),
+          onPress: onClose,
+          variant: "outline",
+          disabled: saving,
+        },
+        confirm: {
+          label: t("groups.room.start"),
+          onPress: () => void handleStart(),
+          loading: saving,
+          disabled: saving,
+        },
+      }}
+    >
+      <Tabs
+        options={[
+          { value: "pomodoro", label: t("groups.room.mode.pomodoro") },
+          { value: "focus", label: t("groups.room.mode.focus") },
+        ]}
+        value={mode}
+        onChange={setMode}
+      />
+      <Text variant="micro" colorName="textMuted" style={styles.hint}>
+        {t(`groups.room.modeHint.${mode}`)}
+      </Text>
+
+      {mode === "pomodoro" ? (
+        <>
+          <Tabs
+            options={[
+              { value: "mine", label: t("groups.room.presetMine") },
+              { value: "0", label: summary(INTERVAL_PRESETS[0]) },
+              { value: "1", label: summary(INTERVAL_PRESETS[1]) },
+            ]}
+            value={preset}
+            onChange={setPreset}
+          />
+          <Text variant="caption" colorName="textMuted" style={styles.hint}>
+            {summary(config)}
+          </Text>
+        </>
+      ) : null}
+
+      {error ? (
+        <Text variant="caption" style={{ color: theme.danger }}>
+          {error}
+        </Text>
+      ) : null}
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  hint: { marginTop: 6, marginBottom: 12 },
+});
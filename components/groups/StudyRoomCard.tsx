@@ -0,0 +1,170 @@
+import { Text } from "@/components/Themed";
+import { Button } from "@/components/ui/Button";
+import { Card } from "@/components/ui/Card";
+import Colors from "@/constants/Colors";
+import type { StudyRoomSchedule } from "@/hooks/useStudyRoom";
+import type { GroupStudyRoom } from "@/utils/queries";
+import { useTheme } from "@/utils/themeContext";
+import { formatTime } from "@/utils/time";
+import type { TFunction } from "i18next";
+import { LogIn, Square, Timer } from "lucide-react-native";
+import React, { useMemo } from "react";
+import { useTranslation } from "react-i18next";
+import { StyleSheet, View } from "react-native";
+
+/** "Focus 2/4", "Break"… as on the Focus tab interval timer. */
+export function formatStudyRoomPhase(
+  t: TFunction,
+  room: GroupStudyRoom,
+  schedule: StudyRoomSchedule
+): string {
+  if (schedule.phase === "done") return t("groups.room.finished");
+  if (room.mode === "focus") return t("groups.room.mode.focus");
+  if (schedule.phase === "break") return t("timer.interval.phaseBreak");
+  if (schedule.phase === "long_break") return t("timer.interval.phaseLongBreak");
+  return t("timer.interval.phaseWork", { cycle: schedule.cycle, total: room.cycles });
+}
+
+/** Time left in the phase for Pomodoro rooms, time since the start for focus rooms. */
+export function formatStudyRoomClock(schedule: StudyRoomSchedule): string {
+  const ft = formatTime(schedule.remainingSeconds ?? schedule.phaseElapsedSeconds);
+  return ft.hours === "00" ? `${ft.mins}:${ft.secs}` : `${ft.hours}:${ft.mins}:${ft.secs}`;
+}
+
+type Props = {
+  room: GroupStudyRoom | null;
+  schedule: StudyRoomSchedule | null;
+  hostName: string | null;
+  /** The host or a group admin. */
+  canEnd?: boolean;
+  onStart: () => void;
+  onJoin: () => void;
+  onEnd?: () => void;
+};
+
+export function StudyRoomCard({
+  room,
+  schedule,
+  hostName,
+  canEnd = false,
+  onStart,
+  onJoin,
+  onEnd,
+}: Props) {
+  const theme = useTheme();
+  const { t } = useTranslation();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+
+  if (!room || !schedule) {
+    return (
+      <Card variant="border" style={styles.card}>
+        <View style={styles.header}>
+          <Timer size={18} color={theme.textMuted} />
+          <Text variant="bodyStrong" style={styles.title}>
+            {t("groups.room.title")}
+          </Text>
+        </View>
+        <Text variant="caption" colorName="textMuted">
+          {t("groups.room.empty")}
+        </Text>
+        <Button
+          title={t("groups.room.startTitle")}
+          variant="soft"
+          size="sm"
+          onPress={onStart}
+          style={styles.action}
+        />
+      </Card>
+    );
+  }
+
+  const working = schedule.phase === "work";
+
+  return (
+    <Card variant="border" style={[styles.card, { borderColor: theme.primary }]}>
+      <View style={styles.header}>
+        <Timer size={18} color={theme.primary} />
+        <Text variant="bodyStrong" numberOfLines={1} style={styles.title}>
+          {t(`groups.room.mode.${room.mode}`)}
+        </Text>
+        <View
+          style={[
+            styles.phasePill,
+            { backgroundColor: working && !schedule.paused ? theme.primaryTint : theme.surfaceElevated },
+          ]}
+        >
+          <Text
+            variant="micro"
+            style={{ color: working && !schedule.paused ? theme.primaryDark : theme.textMuted }}
+          >
+            {schedule.paused ? t("timer.interval.paused") : formatStudyRoomPhase(t, room, schedule)}
+          </Text>
+        </View>
+        {canEnd && onEnd ? (
+          <Button
+            iconLeft={Square}
+            iconOnly
+            variant="ghost"
+            size="xs"
+            onPress={onEnd}
+            accessibilityLabel={t("groups.room.end")}
+          />
+        ) : null}
+      </View>
+
+      <Text variant="caption" colorName="textMuted">
+        {t("groups.room.hostedBy", { name: hostName ?? t("groups.live.anonymous") })}
+        {room.mode === "pomodoro"
+          ? ` · ${t("timer.interval.summary", {
+              work: room.workMinutes,
+              rest: room.breakMinutes,
+              cycles: room.cycles,
+            })}`
+          : ""}
+      </Text>
+
+      <Text variant="subtitle" style={styles.clock}>
+        {formatStudyRoomClock(schedule)}
+      </Text>
+
+      <Button
+        title={t("common.actions.join")}
+        iconLeft={LogIn}
+        variant="primary"
+        size="sm"
+        onPress={onJoin}
+        style={styles.action}
+      />
+    </Card>
+  );
+}
+
+function createStyles(theme: typeof Colors.light) {
+  return StyleSheet.create({
+    card: {
+      marginBottom: 10,
+      gap: 6,
+    },
+    header: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 8,
+    },
+    title: {
+      flex: 1,
+    },
+    phasePill: {
+      paddingHorizontal: 8,
+      paddingVertical: 3,
+      borderRadius: 999,
+    },
+    clock: {
+      fontVariant: ["tabular-nums"],
+      color: theme.text,
+    },
+    action: {
+      alignSelf: "flex-start",
+      marginTop: 4,
+    },
+  });
+}
@@ -0,0 +1,196 @@
+import { Text } from "@/components/Themed";
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+import Colors from "@/constants/Colors";
+import type { TaskSubtask } from "@/utils/queries";
+import { useTheme } from "@/utils/themeContext";
+import { CheckSquare, ChevronDown, ChevronUp, Plus, Square, X } from "lucide-react-native";
+import React, { useMemo, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Pressable, StyleSheet, View } from "react-native";
+
+/** Same cap as `replace_task_subtasks`. */
+const MAX_SUBTASKS = 50;
+
+/** Checklist row being edited; `id` is null until the row is saved. */
+export interface SubtaskDraft {
+  key: string;
+  id: string | null;
+  title: string;
+  done: boolean;
+}
+
+let draftKeySeq = 0;
+const nextDraftKey = () => `draft-${++draftKeySeq}`;
+
+export function subtaskDraftsFrom(subtasks: TaskSubtask[]): SubtaskDraft[] {
+  return subtasks.map((s) => ({ key: s.id, id: s.id, title: s.title, done: s.done }));
+}
+
+/** Non-blank rows, trimmed, in order. */
+export function cleanSubtaskDrafts(drafts: SubtaskDraft[]) {
+  return drafts
+    .map((d) => ({ id: d.id, title: d.title.trim(), done: d.done }))
+    .filter((d) => d.title !== "");
+}
+
+/** Whether saving `drafts` would change `subtasks` (skips the request otherwise). */
+export function subtaskDraftsChanged(subtasks: TaskSubtask[], drafts: SubtaskDraft[]): boolean {
+  const cleaned = cleanSubtaskDrafts(drafts);
+  if (cleaned.length !== subtasks.length) return true;
+  return cleaned.some(
+    (d, i) => d.id !== subtasks[i].id || d.title !== subtasks[i].title || d.done !== subtasks[i].done
+  );
+}
+
+type Props = {
+  value: SubtaskDraft[];
+  onChange: (next: SubtaskDraft[]) => void;
+};
+
+export function SubtaskChecklistEditor({ value, onChange }: Props) {
+  const theme = useTheme();
+  const { t } = useTranslation();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+  const [newTitle, setNewTitle] = useState("");
+
+  const update = (key: string, patch: Partial<SubtaskDraft>) =>
+    onChange(value.map((d) => (d.key === key ? { ...d, ...patch } : d)));
+
+  const move = (index: number, delta: -1 | 1) => {
+    const target = index + delta;
+    if (target < 0 || target >= value.length) return;
+    const next = [...value];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const add = () => {
+    const title = newTitle.trim();
+    if (!title || value.length >= MAX_SUBTASKS) return;
+    onChange([...value, { key: nextDraftKey(), id: null, title, done: false }]);
+    setNewTitle("");
+  };
+
+  const doneCount = value.filter((d) => d.done).length;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text variant="micro" colorName="textMuted">
+          {t("tasks.subtasks.title")}
+        </Text>
+        {value.length > 0 ? (
+          <Text variant="micro" colorName="textMuted">
+            {t("tasks.subtasks.count", { done: doneCount, total: value.length })}
+          </Text>
+        ) : null}
+      </View>
+
+      {value.map((draft, index) => (
+        <View key={draft.key} style={styles.row}>
+          <Pressable
+            onPress={() => update(draft.key, { done: !draft.done })}
+            hitSlop={8}
+            accessibilityRole="checkbox"
+            accessibilityState={{ checked: draft.done }}
+            accessibilityLabel={draft.title}
+          >
+            {draft.done ? (
+              <CheckSquare size={20} color={theme.primary} />
+            ) : (
+              <Square size={20} color={theme.textMuted} />
+            )}
+          </Pressable>
+          <Input
+            value={draft.title}
+            onChangeText={(title) => update(draft.key, { title })}
+            maxLength={200}
+            containerStyle={styles.rowInput}
+            style={draft.done ? styles.doneText : undefined}
+          />
+          <Button
+            iconLeft={ChevronUp}
+            iconOnly
+            variant="ghost"
+            size="xs"
+            disabled={index === 0}
+            onPress={() => move(index, -1)}
+            accessibilityLabel={t("tasks.subtasks.moveUp")}
+          />
+          <Button
+            iconLeft={ChevronDown}
+            iconOnly
+            variant="ghost"
+            size="xs"
+            disabled={index === value.length - 1}
+            onPress={() => move(index, 1)}
+            accessibilityLabel={t("tasks.subtasks.moveDown")}
+          />
+          <Button
+            iconLeft={X}
+            iconOnly
+            variant="ghost"
+            size="xs"
+            onPress={() => onChange(value.filter((d) => d.key !== draft.key))}
+            accessibilityLabel={t("tasks.subtasks.remove")}
+          />
+        </View>
+      ))}
+
+      {value.length < MAX_SUBTASKS ? (
+        <View style={styles.row}>
+          <Input
+            placeholder={t("tasks.subtasks.addPlaceholder")}
+            value={newTitle}
+            onChangeText={setNewTitle}
+            maxLength={200}
+            returnKeyType="done"
+            onSubmitEditing={add}
+            blurOnSubmit={false}
+            containerStyle={styles.rowInput}
+          />
+          <Button
+            iconLeft={Plus}
+            iconOnly
+            variant="soft"
+            size="sm"
+            disabled={!newTitle.trim()}
+            onPress={add}
+            accessibilityLabel={t("tasks.subtasks.add")}
+          />
+        </View>
+      ) : (
+        <Text variant="micro" colorName="textMuted">
+          {t("tasks.subtasks.limit", { max: MAX_SUBTASKS })}
+        </Text>
+      )}
+    </View>
+  );
+}
+
+function createStyles(theme: typeof Colors.light) {
+  return StyleSheet.create({
+    container: {
+      gap: 8,
+    },
+    header: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "center",
+    },
+    row: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 6,
+    },
+    rowInput: {
+      flex: 1,
+      marginBottom: 0,
+    },
+    doneText: {
+      textDecorationLine: "line-through",
+      color: theme.textMuted,
+    },
+  });
+}
@@ -0,0 +1,173 @@
+import { Text } from "@/components/Themed";
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+import { Tabs } from "@/components/ui/Tabs";
+import type { Task, TaskPriority } from "@/utils/queries";
+import { TASK_REMINDER_OPTIONS } from "@/utils/taskReminders";
+import { getDayRangeForDate, getTodayIso, parseLocalDateTime } from "@/utils/time";
+import React from "react";
+import { useTranslation } from "react-i18next";
+import { StyleSheet, View } from "react-native";
+
+/** Deadline time used when only a date is picked. */
+const DEFAULT_DUE_TIME = "18:00";
+
+/** Form state for a task's priority, deadline and reminder (date and time as typed). */
+export interface TaskDueDraft {
+  priority: TaskPriority;
+  /** YYYY-MM-DD; empty = no deadline. */
+  dueDate: string;
+  /** HH:MM */
+  dueTime: string;
+  reminderMinutes: number | null;
+}
+
+export const EMPTY_TASK_DUE_DRAFT: TaskDueDraft = {
+  priority: "medium",
+  dueDate: "",
+  dueTime: DEFAULT_DUE_TIME,
+  reminderMinutes: null,
+};
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+export function taskDueDraftFromTask(
+  task: Pick<Task, "priority" | "dueAt" | "reminderMinutes">
+): TaskDueDraft {
+  if (!task.dueAt) {
+    return { ...EMPTY_TASK_DUE_DRAFT, priority: task.priority };
+  }
+  const due = new Date(task.dueAt);
+  return {
+    priority: task.priority,
+    dueDate: getDayRangeForDate(due).fromIso,
+    dueTime: `${pad(due.getHours())}:${pad(due.getMinutes())}`,
+    reminderMinutes: task.reminderMinutes ?? null,
+  };
+}
+
+/** Draft → task fields; null when the date or time is malformed. */
+export function parseTaskDueDraft(
+  draft: TaskDueDraft
+): Pick<Task, "priority" | "dueAt" | "reminderMinutes"> | null {
+  if (!draft.dueDate.trim()) {
+    return { priority: draft.priority, dueAt: null, reminderMinutes: null };
+  }
+  const due = parseLocalDateTime(draft.dueDate, draft.dueTime || DEFAULT_DUE_TIME);
+  if (!due) return null;
+  return {
+    priority: draft.priority,
+    dueAt: due.toISOString(),
+    reminderMinutes: draft.reminderMinutes,
+  };
+}
+
+const tomorrowIso = () => {
+  const d = new Date();
+  d.setDate(d.getDate() + 1);
+  return getDayRangeForDate(d).fromIso;
+};
+
+type Props = {
+  value: TaskDueDraft;
+  onChange: (next: TaskDueDraft) => void;
+  /** Recurring task template: the deadline is the first occurrence's. */
+  recurring?: boolean;
+};
+
+export function TaskDueFields({ value, onChange, recurring = false }: Props) {
+  const { t } = useTranslation();
+  const set = (patch: Partial<TaskDueDraft>) => onChange({ ...value, ...patch });
+  const hasDate = value.dueDate.trim() !== "";
+
+  return (
+    <View style={styles.container}>
+      <Text variant="micro" colorName="textMuted">
+        {t("tasks.form.priority")}
+      </Text>
+      <Tabs
+        options={[
+          { value: "low", label: t("tasks.priority.low") },
+          { value: "medium", label: t("tasks.priority.medium") },
+          { value: "high", label: t("tasks.priority.high") },
+        ]}
+        value={value.priority}
+        onChange={(priority) => set({ priority })}
+      />
+
+      <View style={styles.row}>
+        <Input
+          label={t("tasks.form.dueDate")}
+          value={value.dueDate}
+          onChangeText={(dueDate) => set({ dueDate })}
+          placeholder="YYYY-MM-DD"
+          autoCapitalize="none"
+          containerStyle={styles.rowField}
+        />
+        <Input
+          label={t("tasks.form.dueTime")}
+          value={value.dueTime}
+          onChangeText={(dueTime) => set({ dueTime })}
+          placeholder="HH:MM"
+          keyboardType="numbers-and-punctuation"
+          editable={hasDate}
+          containerStyle={styles.rowField}
+        />
+      </View>
+      <View style={styles.quickRow}>
+        <Button
+          title={t("tasks.today")}
+          variant="soft"
+          size="xs"
+          onPress={() => set({ dueDate: getTodayIso() })}
+        />
+        <Button
+          title={t("tasks.tomorrow")}
+          variant="soft"
+          size="xs"
+          onPress={() => set({ dueDate: tomorrowIso() })}
+        />
+        {hasDate ? (
+          <Button
+            title={t("tasks.form.noDueDate")}
+            variant="ghost"
+            size="xs"
+            onPress={() => set({ dueDate: "", reminderMinutes: null })}
+          />
+        ) : null}
+      </View>
+
+      {recurring && hasDate ? (
+        <Text variant="micro" colorName="textMuted">
+          {t("tasks.recurrence.dueHint")}
+        </Text>
+      ) : null}
+
+      {hasDate ? (
+        <>
+          <Text variant="micro" colorName="textMuted">
+            {t("tasks.form.reminder")}
+          </Text>
+          <Tabs
+            options={[
+              { value: "none", label: t("tasks.reminders.none") },
+              ...TASK_REMINDER_OPTIONS.map((minutes) => ({
+                value: String(minutes),
+                label: t(`tasks.reminders.before.${minutes}`),
+              })),
+            ]}
+            value={value.reminderMinutes == null ? "none" : String(value.reminderMinutes)}
+            onChange={(v) => set({ reminderMinutes: v === "none" ? null : Number(v) })}
+          />
+        </>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { gap: 8 },
+  row: { flexDirection: "row", gap: 12 },
+  rowField: { flex: 1, marginBottom: 0 },
+  quickRow: { flexDirection: "row", flexWrap: "wrap", gap: 6 },
+});
@@ -0,0 +1,226 @@
+import { Text } from "@/components/Themed";
+import { Input } from "@/components/ui/Input";
+import { Tabs } from "@/components/ui/Tabs";
+import Colors from "@/constants/Colors";
+import type { Task, TaskRecurrence, TaskRecurrenceKind } from "@/utils/queries";
+import { useTheme } from "@/utils/themeContext";
+import { parseLocalDateTime } from "@/utils/time";
+import type { TFunction } from "i18next";
+import React, { useMemo } from "react";
+import { useTranslation } from "react-i18next";
+import { Pressable, StyleSheet, View } from "react-native";
+
+/** Same bound as `tasks_recurrence_rule_check`. */
+const MAX_INTERVAL_DAYS = 365;
+
+/** ISO weekdays, Monday first. */
+const ISO_WEEKDAYS = [1, 2, 3, 4, 5, 6, 7] as const;
+
+/** Form state for a task's recurrence (numbers and dates as typed). */
+export interface TaskRecurrenceDraft {
+  kind: "none" | TaskRecurrenceKind;
+  weekdays: number[];
+  intervalDays: string;
+  /** YYYY-MM-DD; empty = no end. */
+  until: string;
+}
+
+export const EMPTY_TASK_RECURRENCE_DRAFT: TaskRecurrenceDraft = {
+  kind: "none",
+  weekdays: [],
+  intervalDays: "2",
+  until: "",
+};
+
+export function taskRecurrenceDraftFrom(
+  recurrence: TaskRecurrence | null | undefined
+): TaskRecurrenceDraft {
+  if (!recurrence) return EMPTY_TASK_RECURRENCE_DRAFT;
+  return {
+    kind: recurrence.kind,
+    weekdays: recurrence.weekdays,
+    intervalDays: recurrence.intervalDays != null ? String(recurrence.intervalDays) : "2",
+    until: recurrence.until ?? "",
+  };
+}
+
+/** Draft → task field; null when the rule is incomplete or the end date is malformed. */
+export function parseTaskRecurrenceDraft(
+  draft: TaskRecurrenceDraft
+): Pick<Task, "recurrence"> | null {
+  if (draft.kind === "none") return { recurrence: null };
+
+  const until = draft.until.trim();
+  if (until && !parseLocalDateTime(until, "00:00")) return null;
+
+  if (draft.kind === "weekdays" && draft.weekdays.length === 0) return null;
+
+  let intervalDays: number | null = null;
+  if (draft.kind === "interval") {
+    intervalDays = parseInt(draft.intervalDays.trim(), 10);
+    if (Number.isNaN(intervalDays) || intervalDays < 1 || intervalDays > MAX_INTERVAL_DAYS) {
+      return null;
+    }
+  }
+
+  return {
+    recurrence: {
+      kind: draft.kind,
+      weekdays: draft.kind === "weekdays" ? [...draft.weekdays].sort((a, b) => a - b) : [],
+      intervalDays,
+      until: until || null,
+    },
+  };
+}
+
+/** Short weekday name of an ISO weekday (1 = Monday). */
+function weekdayLabel(isoWeekday: number, language: string) {
+  // 2024-01-01 was a Monday
+  return new Date(2024, 0, isoWeekday).toLocaleDateString(language, { weekday: "short" });
+}
+
+/** "Every day", "Mon, Wed, Fri", "Every 3 days", with the end date when there is one. */
+export function formatTaskRecurrence(t: TFunction, recurrence: TaskRecurrence, language: string) {
+  const rule =
+    recurrence.kind === "daily"
+      ? t("tasks.recurrence.summary.daily")
+      : recurrence.kind === "weekdays"
+        ? recurrence.weekdays.map((d) => weekdayLabel(d, language)).join(", ")
+        : t("tasks.recurrence.summary.interval", { count: recurrence.intervalDays ?? 1 });
+  if (!recurrence.until) return rule;
+  const until = parseLocalDateTime(recurrence.until, "00:00");
+  if (!until) return rule;
+  return t("tasks.recurrence.summary.until", {
+    rule,
+    date: until.toLocaleDateString(language, { day: "numeric", month: "short" }),
+  });
+}
+
+type Props = {
+  value: TaskRecurrenceDraft;
+  onChange: (next: TaskRecurrenceDraft) => void;
+  /** Hides "Does not repeat" (editing a template keeps it recurring). */
+  required?: boolean;
+};
+
+export function TaskRecurrenceFields({ value, onChange, required = false }: Props) {
+  const theme = useTheme();
+  const { t, i18n } = useTranslation();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+  const set = (patch: Partial<TaskRecurrenceDraft>) => onChange({ ...value, ...patch });
+
+  const toggleWeekday = (day: number) =>
+    set({
+      weekdays: value.weekdays.includes(day)
+        ? value.weekdays.filter((d) => d !== day)
+        : [...value.weekdays, day],
+    });
+
+  return (
+    <View style={styles.container}>
+      <Text variant="micro" colorName="textMuted">
+        {t("tasks.recurrence.title")}
+      </Text>
+      <Tabs
+        options={[
+          ...(required ? [] : [{ value: "none" as const, label: t("tasks.recurrence.kind.none") }]),
+          { value: "daily" as const, label: t("tasks.recurrence.kind.daily") },
+          { value: "weekdays", label: t("tasks.recurrence.kind.weekdays") },
+          { value: "interval", label: t("tasks.recurrence.kind.interval") },
+        ]}
+        value={value.kind}
+        onChange={(kind) => set({ kind })}
+      />
+
+      {value.kind === "weekdays" ? (
+        <View style={styles.weekdays}>
+          {ISO_WEEKDAYS.map((day) => {
+            const selected = value.weekdays.includes(day);
+            return (
+              <Pressable
+                key={day}
+                onPress={() => toggleWeekday(day)}
+                style={[styles.weekday, selected && styles.weekdaySelected]}
+                accessibilityRole="checkbox"
+                accessibilityState={{ checked: selected }}
+              >
+                <Text
+                  variant="micro"
+                  numberOfLines={1}
+                  style={[styles.weekdayText, selected && styles.weekdayTextSelected]}
+                >
+                  {weekdayLabel(day, i18n.language)}
+                </Text>
+              </Pressable>
+            );
+          })}
+        </View>
+      ) : null}
+
+      {value.kind !== "none" ? (
+        <View style={styles.row}>
+          {value.kind === "interval" ? (
+            <Input
+              label={t("tasks.recurrence.intervalDays")}
+              value={value.intervalDays}
+              onChangeText={(intervalDays) => set({ intervalDays })}
+              keyboardType="number-pad"
+              maxLength={3}
+              containerStyle={styles.rowField}
+            />
+          ) : null}
+          <Input
+            label={t("tasks.recurrence.until")}
+            value={value.until}
+            onChangeText={(until) => set({ until })}
+            placeholder="YYYY-MM-DD"
+            autoCapitalize="none"
+            containerStyle={styles.rowField}
+          />
+        </View>
+      ) : null}
+    </View>
+  );
+}
+
+function createStyles(theme: typeof Colors.light) {
+  return StyleSheet.create({
+    container: {
+      gap: 8,
+    },
+    row: {
+      flexDirection: "row",
+      gap: 12,
+    },
+    rowField: {
+      flex: 1,
+      marginBottom: 0,
+    },
+    weekdays: {
+      flexDirection: "row",
+      flexWrap: "wrap",
+      gap: 6,
+    },
+    weekday: {
+      minWidth: 44,
+      height: 36,
+      borderRadius: 8,
+      paddingHorizontal: 6,
+      alignItems: "center",
+      justifyContent: "center",
+      backgroundColor: theme.surfaceElevated,
+    },
+    weekdaySelected: {
+      backgroundColor: theme.primaryTint,
+      borderWidth: 1.5,
+      borderColor: theme.primaryDark,
+    },
+    weekdayText: {
+      color: theme.text,
+    },
+    weekdayTextSelected: {
+      color: theme.primaryDark,
+      fontWeight: "600",
+    },
+  });
+}
@@ -0,0 +1,362 @@
+import { Text } from "@/components/Themed";
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+import { Modal } from "@/components/ui/Modal";
+import { SubjectPicker } from "@/components/ui/SubjectPicker";
+import { Tabs } from "@/components/ui/Tabs";
+import Colors from "@/constants/Colors";
+import type { StudySessionInput } from "@/hooks/useStudySessions";
+import type { StudySession, Subject, Task } from "@/utils/queries";
+import { useTheme } from "@/utils/themeContext";
+import { getTodayIso } from "@/utils/time";
+import { Trash2 } from "lucide-react-native";
+import React, { useEffect, useMemo, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Alert, StyleSheet, TouchableOpacity, View } from "react-native";
+
+const MAX_SESSION_HOURS = 24;
+
+type TimeMode = "range" | "duration";
+
+type Props = {
+  visible: boolean;
+  onClose: () => void;
+  /** Session being edited; null/undefined logs a new past session. */
+  session?: StudySession | null;
+  subjects: Subject[];
+  tasks: Task[];
+  onSubmit: (input: StudySessionInput) => Promise<void>;
+  onDelete?: (sessionId: string) => Promise<void>;
+};
+
+const pad = (n: number) => String(n).padStart(2, "0");
+const toLocalDateIso = (d: Date) => `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+const toLocalTime = (d: Date) => `${pad(d.getHours())}:${pad(d.getMinutes())}`;
+
+function shiftDateIso(iso: string, days: number): string {
+  const [y, m, d] = iso.split("-").map((p) => parseInt(p, 10));
+  return toLocalDateIso(new Date(y, m - 1, d + days));
+}
+
+/** Local date (YYYY-MM-DD) + time (HH:MM) → Date, or null when malformed. */
+function parseLocalDateTime(dateIso: string, time: string): Date | null {
+  const dm = /^(\d{4})-(\d{2})-(\d{2})$/.exec(dateIso.trim());
+  const tm = /^(\d{1,2}):(\d{2})$/.exec(time.trim());
+  if (!dm || !tm) return null;
+  const [, y, m, d] = dm.map(Number);
+  const [, hh, mm] = tm.map(Number);
+  if (m < 1 || m > 12 || d < 1 || d > 31 || hh > 23 || mm > 59) return null;
+  const result = new Date(y, m - 1, d, hh, mm, 0, 0);
+  // Reject dates JS rolled over (e.g. 2024-02-31)
+  return result.getDate() === d ? result : null;
+}
+
+export function SessionFormModal({
+  visible,
+  onClose,
+  session,
+  subjects,
+  tasks,
+  onSubmit,
+  onDelete,
+}: Props) {
+  const theme = useTheme();
+  const { t } = useTranslation();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+  const isEdit = !!session;
+
+  const [subjectId, setSubjectId] = useState<string | null>(null);
+  const [taskId, setTaskId] = useState<string | null>(null);
+  const [dateIso, setDateIso] = useState(getTodayIso());
+  const [startTime, setStartTime] = useState("");
+  const [endTime, setEndTime] = useState("");
+  const [durationMinutes, setDurationMinutes] = useState("");
+  const [timeMode, setTimeMode] = useState<TimeMode>("range");
+  const [notes, setNotes] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  // Prefill when the modal opens
+  useEffect(() => {
+    if (!visible) return;
+    setError(null);
+    setSaving(false);
+    if (session) {
+      const start = new Date(session.startedAt);
+      const end = new Date(session.endedAt);
+      setSubjectId(session.subjectId);
+      setTaskId(session.taskId);
+      setDateIso(toLocalDateIso(start));
+      setStartTime(toLocalTime(start));
+      setEndTime(toLocalTime(end));
+      setDurationMinutes(String(Math.round(session.durationSeconds / 60)));
+      setNotes(session.notes);
+    } else {
+      setSubjectId(subjects[0]?.id ?? null);
+      setTaskId(null);
+      setDateIso(getTodayIso());
+      setStartTime("");
+      setEndTime("");
+      setDurationMinutes("");
+      setNotes("");
+    }
+    setTimeMode("range");
+  }, [visible, session, subjects]);
+
+  const subjectTasks = useMemo(
+    () =>
+      tasks.filter(
+        (task) =>
+          task.subjectId === subjectId && (task.status !== "done" || task.id === taskId)
+      ),
+    [tasks, subjectId, taskId]
+  );
+
+  const todayIso = getTodayIso();
+  const yesterdayIso = shiftDateIso(todayIso, -1);
+
+  const buildInput = (): StudySessionInput | string => {
+    if (!subjectId) return t("subjects.select.required");
+
+    const start = parseLocalDateTime(dateIso, startTime);
+    if (!start) return t("sessions.form.errors.invalidStart");
+
+    let end: Date | null;
+    if (timeMode === "duration") {
+      const minutes = parseInt(durationMinutes, 10);
+      if (!Number.isFinite(minutes) || minutes <= 0) {
+        return t("sessions.form.errors.invalidDuration");
+      }
+      end = new Date(start.getTime() + minutes * 60_000);
+    } else {
+      end = parseLocalDateTime(dateIso, endTime);
+      if (!end) return t("sessions.form.errors.invalidEnd");
+      // "23:00 → 01:00" means the session ran past midnight
+      if (end <= start) end = new Date(end.getTime() + 24 * 3600_000);
+    }
+
+    if (end.getTime() - start.getTime() > MAX_SESSION_HOURS * 3600_000) {
+      return t("sessions.form.errors.tooLong", { hours: MAX_SESSION_HOURS });
+    }
+    if (end.getTime() > Date.now()) return t("sessions.form.errors.future");
+
+    return {
+      subjectId,
+      taskId: subjectTasks.some((task) => task.id === taskId) ? taskId : null,
+      startedAt: start,
+      endedAt: end,
+      notes: notes.trim(),
+    };
+  };
+
+  const handleSave = async () => {
+    const input = buildInput();
+    if (typeof input === "string") {
+      setError(input);
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      await onSubmit(input);
+      onClose();
+    } catch (err: any) {
+      setError(err?.message ?? t("timer.errorSave"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!session || !onDelete) return;
+    Alert.alert(t("sessions.delete.title"), t("sessions.delete.message"), [
+      { text: t("common.actions.cancel"), style: "cancel" },
+      {
+        text: t("common.actions.delete"),
+        style: "destructive",
+        onPress: () => {
+          setSaving(true);
+          onDelete(session.id)
+            .then(onClose)
+            .catch((err: any) => setError(err?.message ?? t("timer.errorSave")))
+            .finally(() => setSaving(false));
+        },
+      },
+    ]);
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      onClose={onClose}
+      title={isEdit ? t("sessions.form.editTitle") : t("sessions.form.addTitle")}
+      padding={20}
+      actions={{
+        cancel: {
+          label: t("common.actions.cancel"),
+          onPress: onClose,
+          variant: "outline",
+          disabled: saving,
+        },
+        confirm: {
+          label: t("common.actions.save"),
+          onPress: () => void handleSave(),
+          loading: saving,
+          disabled: saving,
+        },
+      }}
+    >
+      <SubjectPicker
+        subjects={subjects}
+        selectedSubjectId={subjectId}
+        onSelect={(id) => {
+          setSubjectId(id);
+          setTaskId(null);
+        }}
+        placeholder={t("subjects.select.placeholder")}
+        containerStyle={styles.field}
+      />
+
+      {subjectTasks.length > 0 ? (
+        <View style={styles.chipRow}>
+          <TouchableOpacity
+            style={[styles.chip, taskId === null && styles.chipActive]}
+            onPress={() => setTaskId(null)}
+          >
+            <Text variant="caption" colorName={taskId === null ? "text" : "textMuted"}>
+              {t("sessions.form.noTask")}
+            </Text>
+          </TouchableOpacity>
+          {subjectTasks.map((task) => (
+            <TouchableOpacity
+              key={task.id}
+              style={[styles.chip, taskId === task.id && styles.chipActive]}
+              onPress={() => setTaskId(task.id)}
+            >
+              <Text
+                variant="caption"
+                colorName={taskId === task.id ? "text" : "textMuted"}
+                numberOfLines={1}
+              >
+                {task.title}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      ) : null}
+
+      <View style={styles.chipRow}>
+        {[
+          { iso: todayIso, label: t("tasks.today") },
+          { iso: yesterdayIso, label: t("sessions.form.yesterday") },
+        ].map((option) => (
+          <TouchableOpacity
+            key={option.iso}
+            style={[styles.chip, dateIso === option.iso && styles.chipActive]}
+            onPress={() => setDateIso(option.iso)}
+          >
+            <Text variant="caption" colorName={dateIso === option.iso ? "text" : "textMuted"}>
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+      <Input
+        label={t("sessions.form.date")}
+        value={dateIso}
+        onChangeText={setDateIso}
+        placeholder="YYYY-MM-DD"
+        autoCapitalize="none"
+        autoCorrect={false}
+        containerStyle={styles.field}
+      />
+
+      <Tabs
+        options={[
+          { value: "range", label: t("sessions.form.modeRange") },
+          { value: "duration", label: t("sessions.form.modeDuration") },
+        ]}
+        value={timeMode}
+        onChange={setTimeMode}
+        style={styles.field}
+      />
+
+      <View style={styles.timeRow}>
+        <Input
+          label={t("sessions.form.start")}
+          value={startTime}
+          onChangeText={setStartTime}
+          placeholder="HH:MM"
+          keyboardType="numbers-and-punctuation"
+          containerStyle={styles.timeField}
+        />
+        {timeMode === "range" ? (
+          <Input
+            label={t("sessions.form.end")}
+            value={endTime}
+            onChangeText={setEndTime}
+            placeholder="HH:MM"
+            keyboardType="numbers-and-punctuation"
+            containerStyle={styles.timeField}
+          />
+        ) : (
+          <Input
+            label={t("sessions.form.durationMinutes")}
+            value={durationMinutes}
+            onChangeText={(text) => setDurationMinutes(text.replace(/[^0-9]/g, ""))}
+            keyboardType="number-pad"
+            containerStyle={styles.timeField}
+          />
+        )}
+      </View>
+
+      <Input
+        label={t("sessions.form.notes")}
+        value={notes}
+        onChangeText={setNotes}
+        multiline
+        containerStyle={styles.field}
+      />
+
+      {error ? (
+        <Text variant="caption" style={{ color: theme.danger }}>
+          {error}
+        </Text>
+      ) : null}
+
+      {isEdit && onDelete ? (
+        <Button
+          title={t("sessions.delete.action")}
+          variant="ghost"
+          size="sm"
+          iconLeft={Trash2}
+          onPress={handleDelete}
+          disabled={saving}
+          style={styles.deleteButton}
+          textStyle={{ color: theme.danger }}
+        />
+      ) : null}
+    </Modal>
+  );
+}
+
+const createStyles = (theme: typeof Colors.light) =>
+  StyleSheet.create({
+    field: { marginBottom: 12 },
+    chipRow: { flexDirection: "row", flexWrap: "wrap", gap: 8, marginBottom: 12 },
+    chip: {
+      paddingHorizontal: 12,
+      paddingVertical: 6,
+      borderRadius: 999,
+      backgroundColor: theme.surfaceElevated,
+      maxWidth: "100%",
+    },
+    chipActive: {
+      backgroundColor: theme.primaryTint,
+      borderWidth: 1,
+      borderColor: theme.primaryDark,
+    },
+    timeRow: { flexDirection: "row", gap: 12 },
+    timeField: { flex: 1, marginBottom: 12 },
+    deleteButton: { alignSelf: "flex-start", marginTop: 8 },
+  });
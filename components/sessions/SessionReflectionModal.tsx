@@ -0,0 +1,170 @@
+import { Text } from "@/components/Themed";
+import { Input } from "@/components/ui/Input";
+import { Modal } from "@/components/ui/Modal";
+import Colors from "@/constants/Colors";
+import type { SessionReflection } from "@/utils/queries";
+import { useTheme } from "@/utils/themeContext";
+import React, { useEffect, useMemo, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { StyleSheet, TouchableOpacity, View } from "react-native";
+
+const FOCUS_RATINGS = [1, 2, 3, 4, 5];
+
+type Props = {
+  visible: boolean;
+  /** Closing without saving skips the reflection; the session itself is already logged. */
+  onClose: () => void;
+  /** Session recap shown above the form (minutes, subject, daily goal…). */
+  summary?: string | null;
+  onSubmit: (reflection: SessionReflection) => Promise<void>;
+};
+
+export function SessionReflectionModal({ visible, onClose, summary, onSubmit }: Props) {
+  const theme = useTheme();
+  const { t } = useTranslation();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+
+  const [workedOn, setWorkedOn] = useState("");
+  const [focusRating, setFocusRating] = useState<number | null>(null);
+  const [notes, setNotes] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  // Fresh form for every session
+  useEffect(() => {
+    if (!visible) return;
+    setWorkedOn("");
+    setFocusRating(null);
+    setNotes("");
+    setError(null);
+    setSaving(false);
+  }, [visible]);
+
+  const isEmpty = !workedOn.trim() && focusRating == null && !notes.trim();
+
+  const handleSave = async () => {
+    if (isEmpty) {
+      onClose();
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      await onSubmit({ workedOn, focusRating, notes });
+      onClose();
+    } catch (err: any) {
+      setError(err?.message ?? t("sessions.reflection.errorSave"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      onClose={onClose}
+      title={t("sessions.reflection.title")}
+      padding={20}
+      actions={{
+        cancel: {
+          label: t("sessions.reflection.skip"),
+          onPress: onClose,
+          variant: "outline",
+          disabled: saving,
+        },
+        confirm: {
+          label: t("common.actions.save"),
+          onPress: () => void handleSave(),
+          loading: saving,
+          disabled: saving,
+        },
+      }}
+    >
+      {summary ? (
+        <Text variant="body" colorName="textMuted" style={styles.summary}>
+          {summary}
+        </Text>
+      ) : null}
+
+      <Input
+        label={t("sessions.reflection.workedOn")}
+        value={workedOn}
+        onChangeText={setWorkedOn}
+        placeholder={t("sessions.reflection.workedOnPlaceholder")}
+        containerStyle={styles.field}
+      />
+
+      <Text variant="caption" colorName="textMuted" style={styles.ratingLabel}>
+        {t("sessions.reflection.focus")}
+      </Text>
+      <View style={styles.ratingRow}>
+        {FOCUS_RATINGS.map((value) => {
+          const active = focusRating === value;
+          return (
+            <TouchableOpacity
+              key={value}
+              style={[styles.ratingButton, active && styles.ratingButtonActive]}
+              // Tapping the selected value again clears the rating
+              onPress={() => setFocusRating(active ? null : value)}
+              accessibilityRole="button"
+              accessibilityState={{ selected: active }}
+              accessibilityLabel={t("sessions.reflection.focusA11y", { value })}
+            >
+              <Text variant="bodyStrong" colorName={active ? "text" : "textMuted"}>
+                {value}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+      <View style={styles.ratingHints}>
+        <Text variant="micro" colorName="textMuted">
+          {t("sessions.reflection.focusLow")}
+        </Text>
+        <Text variant="micro" colorName="textMuted">
+          {t("sessions.reflection.focusHigh")}
+        </Text>
+      </View>
+
+      <Input
+        label={t("sessions.form.notes")}
+        value={notes}
+        onChangeText={setNotes}
+        multiline
+        containerStyle={styles.field}
+      />
+
+      {error ? (
+        <Text variant="caption" style={{ color: theme.danger }}>
+          {error}
+        </Text>
+      ) : null}
+    </Modal>
+  );
+}
+
+const createStyles = (theme: typeof Colors.light) =>
+  StyleSheet.create({
+    summary: { marginBottom: 16 },
+    field: { marginBottom: 12 },
+    ratingLabel: { marginBottom: 8 },
+    ratingRow: { flexDirection: "row", gap: 8 },
+    ratingButton: {
+      flex: 1,
+      alignItems: "center",
+      paddingVertical: 10,
+      borderRadius: 12,
+      backgroundColor: theme.surfaceElevated,
+    },
+    ratingButtonActive: {
+      backgroundColor: theme.primaryTint,
+      borderWidth: 1,
+      borderColor: theme.primaryDark,
+    },
+    ratingHints: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      marginTop: 4,
+      marginBottom: 12,
+    },
+  });
@@ -0,0 +1,118 @@
+import { Text } from "@/components/Themed";
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+import { Modal } from "@/components/ui/Modal";
+import Colors from "@/constants/Colors";
+import { INTERVAL_PRESETS, type IntervalConfig } from "@/hooks/useIntervalTimer";
+import { useTheme } from "@/utils/themeContext";
+import React, { useEffect, useMemo, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { StyleSheet, View } from "react-native";
+
+type Props = {
+  visible: boolean;
+  onClose: () => void;
+  config: IntervalConfig;
+  onSave: (config: IntervalConfig) => void;
+};
+
+type Draft = Record<keyof IntervalConfig, string>;
+
+const FIELDS: (keyof IntervalConfig)[] = [
+  "workMinutes",
+  "breakMinutes",
+  "longBreakMinutes",
+  "cycles",
+  "longBreakEvery",
+];
+
+const toDraft = (config: IntervalConfig): Draft => ({
+  workMinutes: String(config.workMinutes),
+  breakMinutes: String(config.breakMinutes),
+  longBreakMinutes: String(config.longBreakMinutes),
+  cycles: String(config.cycles),
+  longBreakEvery: String(config.longBreakEvery),
+});
+
+export function IntervalSettingsModal({ visible, onClose, config, onSave }: Props) {
+  const theme = useTheme();
+  const { t } = useTranslation();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+  const [draft, setDraft] = useState<Draft>(() => toDraft(config));
+
+  useEffect(() => {
+    if (visible) setDraft(toDraft(config));
+  }, [visible, config]);
+
+  const handleSave = () => {
+    const parsed = FIELDS.reduce((acc, key) => {
+      const n = parseInt(draft[key], 10);
+      acc[key] = Number.isFinite(n) ? n : config[key];
+      return acc;
+    }, {} as IntervalConfig);
+    onSave(parsed);
+    onClose();
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      onClose={onClose}
+      title={t("timer.interval.settingsTitle")}
+      padding={20}
+      actions={{
+        cancel: {
+          label: t("common.actions.cancel"),
+          onPress: onClose,
+          variant: "outline",
+        },
+        confirm: {
+          label: t("common.actions.save"),
+          onPress: handleSave,
+        },
+      }}
+    >
+      <Text variant="caption" colorName="textMuted" style={styles.sectionLabel}>
+        {t("timer.interval.presets")}
+      </Text>
+      <View style={styles.presets}>
+        {INTERVAL_PRESETS.map((preset) => (
+          <Button
+            key={`${preset.workMinutes}-${preset.breakMinutes}`}
+            size="xs"
+            variant="soft"
+            title={t("timer.interval.presetLabel", {
+              work: preset.workMinutes,
+              rest: preset.breakMinutes,
+            })}
+            onPress={() => setDraft(toDraft(preset))}
+          />
+        ))}
+      </View>
+
+      <View style={styles.fields}>
+        {FIELDS.map((key) => (
+          <Input
+            key={key}
+            label={t(`timer.interval.fields.${key}`)}
+            value={draft[key]}
+            onChangeText={(text) => setDraft((d) => ({ ...d, [key]: text.replace(/[^0-9]/g, "") }))}
+            keyboardType="number-pad"
+            containerStyle={styles.field}
+          />
+        ))}
+      </View>
+      <Text variant="micro" colorName="textMuted">
+        {t("timer.interval.longBreakHint")}
+      </Text>
+    </Modal>
+  );
+}
+
+const createStyles = (_theme: typeof Colors.light) =>
+  StyleSheet.create({
+    sectionLabel: { fontWeight: "600", marginBottom: 8 },
+    presets: { flexDirection: "row", flexWrap: "wrap", gap: 8, marginBottom: 16 },
+    fields: { gap: 4 },
+    field: { marginBottom: 8 },
+  });
@@ -0,0 +1,171 @@
+import { Text } from "@/components/Themed";
+import { Button } from "@/components/ui/Button";
+import { formatStudyRoomPhase } from "@/components/groups/StudyRoomCard";
+import Colors from "@/constants/Colors";
+import type { StudyRoomParticipant, StudyRoomSchedule } from "@/hooks/useStudyRoom";
+import type { GroupStudyRoom } from "@/utils/queries";
+import { useTheme } from "@/utils/themeContext";
+import { LogOut, Pause, Play, Square, User, Users } from "lucide-react-native";
+import React, { useMemo } from "react";
+import { useTranslation } from "react-i18next";
+import { Image, StyleSheet, View } from "react-native";
+
+const MAX_AVATARS = 6;
+
+type Props = {
+  groupName: string;
+  room: GroupStudyRoom;
+  schedule: StudyRoomSchedule;
+  participants: StudyRoomParticipant[];
+  isHost: boolean;
+  /** No subject selected: work phases cannot be logged until one is picked. */
+  needsSubject?: boolean;
+  onPause: () => void;
+  onResume: () => void;
+  onEnd: () => void;
+  onLeave: () => void;
+};
+
+/** Replaces the Focus tab mode picker and start / stop buttons while in a co-study room. */
+export function StudyRoomBanner({
+  groupName,
+  room,
+  schedule,
+  participants,
+  isHost,
+  needsSubject = false,
+  onPause,
+  onResume,
+  onEnd,
+  onLeave,
+}: Props) {
+  const theme = useTheme();
+  const { t } = useTranslation();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+
+  const shown = participants.slice(0, MAX_AVATARS);
+  const hiddenCount = participants.length - shown.length;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Users size={16} color={theme.primary} />
+        <Text variant="bodyStrong" numberOfLines={1} style={styles.title}>
+          {t("groups.room.bannerTitle", { group: groupName })}
+        </Text>
+        <Text variant="micro" colorName="textMuted">
+          {t(`groups.room.mode.${room.mode}`)} · {formatStudyRoomPhase(t, room, schedule)}
+        </Text>
+      </View>
+
+      <View style={styles.avatars}>
+        {shown.map((p) => (
+          <View key={p.userId} style={styles.avatar}>
+            {p.avatarUrl ? (
+              <Image source={{ uri: p.avatarUrl }} style={styles.avatarImg} />
+            ) : (
+              <User size={14} color={theme.textMuted} />
+            )}
+          </View>
+        ))}
+        {hiddenCount > 0 ? (
+          <Text variant="micro" colorName="textMuted">
+            +{hiddenCount}
+          </Text>
+        ) : null}
+        <Text variant="micro" colorName="textMuted" style={styles.count}>
+          {t("groups.room.participants", { count: participants.length })}
+        </Text>
+      </View>
+
+      {needsSubject ? (
+        <Text variant="micro" colorName="textMuted" align="center">
+          {t("groups.room.pickSubject")}
+        </Text>
+      ) : !isHost && schedule.paused ? (
+        <Text variant="micro" colorName="textMuted" align="center">
+          {t("groups.room.pausedByHost")}
+        </Text>
+      ) : null}
+
+      <View style={styles.actions}>
+        {isHost ? (
+          <>
+            <Button
+              title={schedule.paused ? t("timer.resume") : t("timer.pause")}
+              variant="outline"
+              size="sm"
+              iconLeft={schedule.paused ? Play : Pause}
+              onPress={schedule.paused ? onResume : onPause}
+              style={styles.actionButton}
+            />
+            <Button
+              iconLeft={Square}
+              iconOnly
+              variant="outline"
+              size="sm"
+              accessibilityLabel={t("groups.room.end")}
+              onPress={onEnd}
+            />
+          </>
+        ) : null}
+        <Button
+          title={t("groups.room.leave")}
+          variant="secondary"
+          size="sm"
+          iconLeft={LogOut}
+          onPress={onLeave}
+          style={styles.actionButton}
+        />
+      </View>
+    </View>
+  );
+}
+
+function createStyles(theme: typeof Colors.light) {
+  return StyleSheet.create({
+    container: {
+      width: "100%",
+      gap: 8,
+      marginBottom: 8,
+    },
+    header: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 6,
+    },
+    title: {
+      flex: 1,
+    },
+    avatars: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 4,
+    },
+    avatar: {
+      width: 26,
+      height: 26,
+      borderRadius: 13,
+      borderWidth: 1,
+      borderColor: theme.primary,
+      backgroundColor: theme.primaryTint,
+      alignItems: "center",
+      justifyContent: "center",
+      overflow: "hidden",
+    },
+    avatarImg: {
+      width: 26,
+      height: 26,
+    },
+    count: {
+      marginLeft: 4,
+    },
+    actions: {
+      flexDirection: "row",
+      gap: 10,
+    },
+    actionButton: {
+      flex: 1,
+    },
+  });
+}
@@ -0,0 +1,50 @@
+import { Text } from "@/components/Themed";
+import { useSessionOutbox } from "@/hooks/useSessionOutbox";
+import { useTheme } from "@/utils/themeContext";
+import { CloudOff } from "lucide-react-native";
+import React from "react";
+import { useTranslation } from "react-i18next";
+import { StyleSheet, TouchableOpacity } from "react-native";
+
+type Props = {
+  userId: string | null;
+};
+
+/** Header pill shown while sessions wait in the offline outbox; tap retries now. */
+export function PendingSyncBadge({ userId }: Props) {
+  const theme = useTheme();
+  const { t } = useTranslation();
+  const { pendingCount, flush } = useSessionOutbox(userId);
+
+  if (pendingCount === 0) return null;
+
+  return (
+    <TouchableOpacity
+      onPress={() => void flush(true)}
+      hitSlop={8}
+      style={[styles.badge, { backgroundColor: theme.warningTint }]}
+      accessibilityRole="button"
+      accessibilityLabel={t("sync.pendingA11y", { count: pendingCount })}
+    >
+      <CloudOff size={14} color={theme.warningDark} />
+      <Text style={[styles.text, { color: theme.warningDark }]}>
+        {t("sync.pending", { count: pendingCount })}
+      </Text>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  badge: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 5,
+    borderRadius: 999,
+  },
+  text: {
+    fontSize: 11,
+    fontWeight: "700",
+  },
+});
@@ -1,7 +1,7 @@
 import { Text } from "@/components/Themed";
 import { useTheme } from "@/utils/themeContext";
 import React from "react";
-import { StyleSheet, View } from "react-native";
+import { StyleSheet, TouchableOpacity, View } from "react-native";
 
 export type SubjectBarProps = {
   color: string;
@@ -10,14 +10,20 @@ export type SubjectBarProps = {
   value: string;
   /** Fill width of the bar, 0–100 (clamped). */
   fillPercent: number;
+  /** Makes the whole row tappable (e.g. to open the subject's session history). */
+  onPress?: () => void;
 };
 
-export function SubjectBar({ color, name, value, fillPercent }: SubjectBarProps) {
+export function SubjectBar({ color, name, value, fillPercent, onPress }: SubjectBarProps) {
   const theme = useTheme();
   const pct = Math.min(100, Math.max(0, fillPercent));
+  const Row = onPress ? TouchableOpacity : View;
 
   return (
-    <View style={styles.row}>
+    <Row
+      style={styles.row}
+      {...(onPress ? { onPress, accessibilityRole: "button" as const, accessibilityLabel: name } : {})}
+    >
       <View style={styles.header}>
         <View style={styles.labelWithDot}>
           <View style={[styles.dot, { backgroundColor: color }]} />
@@ -32,7 +38,7 @@ export function SubjectBar({ color, name, value, fillPercent }: SubjectBarProps)
       <View style={[styles.track, { backgroundColor: theme.border }]}>
         <View style={[styles.fill, { width: `${pct}%`, backgroundColor: color }]} />
       </View>
-    </View>
+    </Row>
   );
 }
 
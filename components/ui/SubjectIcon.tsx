@@ -0,0 +1,64 @@
+import {
+  Atom,
+  BookOpen,
+  Brain,
+  Briefcase,
+  Calculator,
+  Code,
+  Cpu,
+  Database,
+  Dumbbell,
+  FlaskConical,
+  Globe,
+  HeartPulse,
+  Landmark,
+  Languages,
+  Leaf,
+  LucideIcon,
+  Megaphone,
+  Music,
+  Palette,
+  Scale,
+  TrendingUp,
+  Users,
+  Wrench,
+  Zap,
+} from "lucide-react-native";
+import React from "react";
+
+import { Icon } from "@/components/ui/Icon";
+
+// Icon names used by SUBJECT_CATALOG; custom subjects fall back to a book
+const SUBJECT_ICONS: Record<string, LucideIcon> = {
+  atom: Atom,
+  "book-open": BookOpen,
+  brain: Brain,
+  briefcase: Briefcase,
+  calculator: Calculator,
+  code: Code,
+  cpu: Cpu,
+  database: Database,
+  dumbbell: Dumbbell,
+  "flask-conical": FlaskConical,
+  globe: Globe,
+  "heart-pulse": HeartPulse,
+  landmark: Landmark,
+  languages: Languages,
+  leaf: Leaf,
+  megaphone: Megaphone,
+  music: Music,
+  palette: Palette,
+  scale: Scale,
+  "trending-up": TrendingUp,
+  users: Users,
+  wrench: Wrench,
+  zap: Zap,
+};
+
+type SubjectIconProps = Omit<React.ComponentProps<typeof Icon>, "as"> & {
+  name: string | null | undefined;
+};
+
+export function SubjectIcon({ name, ...rest }: SubjectIconProps) {
+  return <Icon as={(name && SUBJECT_ICONS[name]) || BookOpen} {...rest} />;
+}
@@ -1,11 +1,23 @@
+import { formatTaskRecurrence } from "@/components/planning/TaskRecurrenceFields";
 import { Text } from "@/components/Themed";
 import { Button } from "@/components/ui/Button";
 import { Card } from "@/components/ui/Card";
 import { getSubjectDisplayName } from "@/constants/subjectCatalog";
+import { getTaskProgress, isTaskOverdue } from "@/hooks/useTasks";
 import { Subject, Task } from "@/utils/queries";
 import { useTheme } from "@/utils/themeContext";
 import { formatDateLabel, getTodayIso } from "@/utils/time";
-import { Check, Pencil, RotateCcw, Trash2 } from "lucide-react-native";
+import {
+  AlarmClock,
+  Check,
+  CheckSquare,
+  Flag,
+  History,
+  Pencil,
+  Repeat,
+  RotateCcw,
+  Trash2,
+} from "lucide-react-native";
 import { useMemo } from "react";
 import { useTranslation } from "react-i18next";
 import { StyleSheet, View } from "react-native";
@@ -17,6 +29,7 @@ export interface TaskCardProps {
   onDelete?: (taskId: string) => void;
   onResume?: (task: Task) => void;
   onComplete?: (task: Task) => void;
+  onShowHistory?: (task: Task) => void;
   showActions?: boolean;
   formatScheduledLabel?: (value?: string | null) => string;
 }
@@ -28,17 +41,37 @@ export function TaskCard({
   onDelete,
   onResume,
   onComplete,
+  onShowHistory,
   showActions = true,
   formatScheduledLabel,
 }: TaskCardProps) {
   const theme = useTheme();
-  const { t } = useTranslation();
+  const { t, i18n } = useTranslation();
   const todayIso = useMemo(() => getTodayIso(), []);
+  const overdue = isTaskOverdue(task);
+
+  const dueLabel = useMemo(() => {
+    if (!task.dueAt) return null;
+    const due = new Date(task.dueAt);
+    return `${due.toLocaleDateString(i18n.language, {
+      weekday: "short",
+      day: "numeric",
+      month: "short",
+    })} · ${due.toLocaleTimeString(i18n.language, { hour: "2-digit", minute: "2-digit" })}`;
+  }, [task.dueAt, i18n.language]);
+
+  const recurrenceLabel = useMemo(
+    () => (task.recurrence ? formatTaskRecurrence(t, task.recurrence, i18n.language) : null),
+    [task.recurrence, t, i18n.language]
+  );
+  // Instances are worked on like any task; the template itself only holds the rule
+  const isTemplate = recurrenceLabel != null;
 
   const planned = task.plannedMinutes ?? 0;
-  const progress = useMemo(
-    () => (planned > 0 ? Math.min(1, task.loggedSeconds / (planned * 60)) : 0),
-    [planned, task.loggedSeconds]
+  // Checklist and logged time both count
+  const { ratio: progress, checklistDone, checklistTotal } = useMemo(
+    () => getTaskProgress(task),
+    [task]
   );
 
   // Prefer resolved subject (bank_key → i18n); else string from API/query (no catalog key).
@@ -96,22 +129,91 @@ export function TaskCard({
     actionRowWrapper: {
       alignSelf: "flex-start",
     },
+    checklistCount: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 3,
+    },
+    metaRow: {
+      flexDirection: "row",
+      alignItems: "center",
+      flexWrap: "wrap",
+      gap: 4,
+      marginTop: 2,
+    },
   });
 
   return (
-    <Card variant="border">
-      <View style={styles.titleBlock}>
+    <Card variant="border" style={overdue ? { borderColor: theme.danger } : undefined}>
+      <View style={[styles.titleBlock, isTemplate && { marginBottom: 0 }]}>
         <View style={styles.titleColumn}>
           <Text variant="subtitle" style={{ fontWeight: "600" }}>
             {task.title}
           </Text>
           <Text variant="micro" colorName="textMuted">
             {subjectLabel}
-            {task.scheduledFor ? ` • ${formatLabel(task.scheduledFor)}` : ""}
+            {task.scheduledFor
+              ? ` • ${
+                  isTemplate
+                    ? t("tasks.recurrence.startsOn", { date: formatLabel(task.scheduledFor) })
+                    : formatLabel(task.scheduledFor)
+                }`
+              : ""}
           </Text>
+          {dueLabel || task.priority !== "medium" || recurrenceLabel || task.parentTaskId ? (
+            <View style={styles.metaRow}>
+              {recurrenceLabel || task.parentTaskId ? (
+                <>
+                  <Repeat size={12} color={theme.textMuted} />
+                  <Text variant="micro" colorName="textMuted">
+                    {recurrenceLabel ?? t("tasks.recurrence.instance")}
+                  </Text>
+                </>
+              ) : null}
+              {task.priority !== "medium" ? (
+                <>
+                  <Flag
+                    size={12}
+                    color={task.priority === "high" ? theme.danger : theme.textMuted}
+                  />
+                  <Text
+                    variant="micro"
+                    colorName={task.priority === "high" ? undefined : "textMuted"}
+                    style={task.priority === "high" ? { color: theme.danger } : undefined}
+                  >
+                    {t(`tasks.priority.${task.priority}`)}
+                  </Text>
+                </>
+              ) : null}
+              {dueLabel ? (
+                <>
+                  <AlarmClock size={12} color={overdue ? theme.danger : theme.textMuted} />
+                  <Text
+                    variant="micro"
+                    colorName={overdue ? undefined : "textMuted"}
+                    style={overdue ? { color: theme.danger, fontWeight: "600" } : undefined}
+                  >
+                    {overdue
+                      ? t("tasks.overdue", { date: dueLabel })
+                      : t("tasks.due", { date: dueLabel })}
+                  </Text>
+                </>
+              ) : null}
+            </View>
+          ) : null}
         </View>
-        {(onEdit || onDelete || onResume || onComplete) && (
+        {(onEdit || onDelete || onResume || onComplete || onShowHistory) && (
           <View style={[styles.actionRow, styles.actionRowWrapper]}>
+            {onShowHistory ? (
+              <Button
+                iconLeft={History}
+                iconOnly
+                variant="soft"
+                size="xs"
+                onPress={() => onShowHistory(task)}
+                accessibilityLabel={t("sessions.history.taskA11y")}
+              />
+            ) : null}
             {onEdit ? (
               <Button
                 iconLeft={Pencil}
@@ -154,27 +256,37 @@ export function TaskCard({
           </View>
         )}
       </View>
-      <View style={styles.progressRow}>
-        <View style={styles.progressBar}>
-          <View
-            style={[
-              styles.progressFill,
-              {
-                backgroundColor: theme.primary,
-                width: `${progress * 100}%`,
-              },
-            ]}
-          />
+      {isTemplate ? null : (
+        <View style={styles.progressRow}>
+          <View style={styles.progressBar}>
+            <View
+              style={[
+                styles.progressFill,
+                {
+                  backgroundColor: theme.primary,
+                  width: `${progress * 100}%`,
+                },
+              ]}
+            />
+          </View>
+          {showActions && checklistTotal > 0 ? (
+            <View style={styles.checklistCount}>
+              <CheckSquare size={12} color={theme.textMuted} />
+              <Text variant="micro" colorName="textMuted">
+                {t("tasks.subtasks.count", { done: checklistDone, total: checklistTotal })}
+              </Text>
+            </View>
+          ) : null}
+          {showActions && (
+            <Text variant="micro" colorName="textMuted">
+              {t("tasks.progress", {
+                current: Math.round(task.loggedSeconds / 60),
+                target: planned || "—",
+              })}
+            </Text>
+          )}
         </View>
-        {showActions && (
-          <Text variant="micro" colorName="textMuted">
-            {t("tasks.progress", {
-              current: Math.round(task.loggedSeconds / 60),
-              target: planned || "—",
-            })}
-          </Text>
-        )}
-      </View>
+      )}
     </Card>
   );
 }
@@ -0,0 +1,190 @@
+import { fetchDailySummariesInRange, fetchSessionsInRange } from "@/utils/queries";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+
+export interface CalendarDaySubject {
+  subjectId: string;
+  minutes: number;
+}
+
+export interface CalendarDay {
+  totalMinutes: number;
+  /** Largest first. */
+  subjects: CalendarDaySubject[];
+}
+
+type MonthDays = Record<string, CalendarDay>;
+
+interface UseCalendarStatsOptions {
+  userId: string | null;
+  /** Day the screen is focused on; its month, week and year are loaded. */
+  focusDate: Date;
+}
+
+const pad = (n: number) => String(n).padStart(2, "0");
+const dayKey = (d: Date) => `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+const monthKey = (year: number, month: number) => `${year}-${pad(month + 1)}`;
+
+async function loadMonthDays(userId: string, year: number, month: number): Promise<MonthDays> {
+  const fromIso = dayKey(new Date(year, month, 1));
+  const toIso = dayKey(new Date(year, month + 1, 0));
+
+  const [totals, sessions] = await Promise.all([
+    fetchDailySummariesInRange(userId, fromIso, toIso),
+    fetchSessionsInRange(userId, fromIso, toIso),
+  ]);
+
+  // Per-subject seconds by local day (sessions past midnight are already split)
+  const bySubject = new Map<string, Map<string, number>>();
+  for (const row of sessions) {
+    const key = dayKey(new Date(row.started_at));
+    const subjects = bySubject.get(key) ?? new Map<string, number>();
+    subjects.set(row.subject_id, (subjects.get(row.subject_id) ?? 0) + (row.duration_seconds ?? 0));
+    bySubject.set(key, subjects);
+  }
+
+  const days: MonthDays = {};
+  for (const key of new Set([...Object.keys(totals), ...bySubject.keys()])) {
+    const subjects = [...(bySubject.get(key) ?? new Map<string, number>()).entries()]
+      .map(([subjectId, seconds]) => ({ subjectId, minutes: Math.round(seconds / 60) }))
+      .filter((s) => s.minutes > 0)
+      .sort((a, b) => b.minutes - a.minutes);
+    // Day totals come from daily_summaries; sessions only fill days it does not have yet
+    const totalMinutes =
+      totals[key] != null
+        ? Math.round(totals[key] / 60)
+        : subjects.reduce((sum, s) => sum + s.minutes, 0);
+    if (totalMinutes > 0) days[key] = { totalMinutes, subjects };
+  }
+  return days;
+}
+
+async function loadYearMonthMinutes(userId: string, year: number): Promise<number[]> {
+  const totals = await fetchDailySummariesInRange(userId, `${year}-01-01`, `${year}-12-31`);
+  const months = Array.from({ length: 12 }, () => 0);
+  for (const [date, seconds] of Object.entries(totals)) {
+    const month = Number(date.slice(5, 7)) - 1;
+    if (month >= 0 && month < 12) months[month] += seconds;
+  }
+  return months.map((seconds) => Math.round(seconds / 60));
+}
+
+/**
+ * Calendar heatmap data from `daily_summaries` / `study_sessions`. Each month is fetched once
+ * and kept while the screen is mounted, so paging back and forth does not refetch.
+ */
+export function useCalendarStats({ userId, focusDate }: UseCalendarStatsOptions) {
+  const monthCache = useRef(new Map<string, MonthDays>());
+  const yearCache = useRef(new Map<number, number[]>());
+  const inFlight = useRef(new Map<string, Promise<void>>());
+  const cacheUserId = useRef(userId);
+  // Bumped when a cache entry lands; the caches are refs, so this is what re-renders
+  const [, setCacheVersion] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const year = focusDate.getFullYear();
+  const month = focusDate.getMonth();
+  const date = focusDate.getDate();
+
+  // The week can straddle two months (and two years)
+  const weekMonths = useMemo(() => {
+    const day = new Date(year, month, date).getDay();
+    const monday = new Date(year, month, date + (day === 0 ? -6 : 1 - day));
+    const sunday = new Date(monday.getFullYear(), monday.getMonth(), monday.getDate() + 6);
+    return [monday, sunday].map((d) => ({ year: d.getFullYear(), month: d.getMonth() }));
+  }, [year, month, date]);
+
+  const ensureLoaded = useCallback(
+    (key: string, load: () => Promise<void>): Promise<void> => {
+      const running = inFlight.current.get(key);
+      if (running) return running;
+      const run = load().finally(() => {
+        inFlight.current.delete(key);
+      });
+      inFlight.current.set(key, run);
+      return run;
+    },
+    []
+  );
+
+  const loadVisible = useCallback(async () => {
+    if (!userId) return;
+    // A different account must not see the previous one's months
+    if (cacheUserId.current !== userId) {
+      monthCache.current.clear();
+      yearCache.current.clear();
+      cacheUserId.current = userId;
+    }
+
+    const tasks: Promise<void>[] = [];
+    const months = [{ year, month }, ...weekMonths];
+    for (const m of months) {
+      const key = monthKey(m.year, m.month);
+      if (monthCache.current.has(key)) continue;
+      tasks.push(
+        ensureLoaded(`month:${key}`, async () => {
+          monthCache.current.set(key, await loadMonthDays(userId, m.year, m.month));
+        })
+      );
+    }
+    if (!yearCache.current.has(year)) {
+      tasks.push(
+        ensureLoaded(`year:${year}`, async () => {
+          yearCache.current.set(year, await loadYearMonthMinutes(userId, year));
+        })
+      );
+    }
+    if (tasks.length === 0) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      await Promise.all(tasks);
+    } catch (err) {
+      console.error("Error loading calendar stats", err);
+      setError(err instanceof Error ? err : new Error(String(err)));
+    } finally {
+      setLoading(false);
+      setCacheVersion((v) => v + 1);
+    }
+  }, [userId, year, month, weekMonths, ensureLoaded]);
+
+  useEffect(() => {
+    void loadVisible();
+  }, [loadVisible]);
+
+  // `refetch` keeps one identity while the user pages through months (focus callbacks depend on it)
+  const loadVisibleRef = useRef(loadVisible);
+  useEffect(() => {
+    loadVisibleRef.current = loadVisible;
+  }, [loadVisible]);
+
+  /** Drops every cached month (e.g. after a session was logged) and reloads what is on screen. */
+  const refetch = useCallback(async () => {
+    monthCache.current.clear();
+    yearCache.current.clear();
+    await loadVisibleRef.current();
+  }, []);
+
+  const days: MonthDays = {};
+  for (const m of [{ year, month }, ...weekMonths]) {
+    Object.assign(days, monthCache.current.get(monthKey(m.year, m.month)));
+  }
+
+  const monthPrefix = `${monthKey(year, month)}-`;
+  const monthTotalMinutes = Object.entries(days).reduce(
+    (sum, [key, day]) => (key.startsWith(monthPrefix) ? sum + day.totalMinutes : sum),
+    0
+  );
+
+  const yearMonthMinutes = yearCache.current.get(year) ?? Array.from({ length: 12 }, () => 0);
+
+  return {
+    days,
+    monthTotalMinutes,
+    yearMonthMinutes,
+    loading,
+    error,
+    refetch,
+  };
+}
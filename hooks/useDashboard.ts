@@ -8,6 +8,7 @@ import {
     fetchSessionsInRange,
     getGoalMinutesForSubjectOnLocalDate,
     sumWeeklyGoalMinutes,
+    type WeeklySessionRow,
 } from "@/utils/queries";
 import {
     getDayRangeForDate,
@@ -49,6 +50,28 @@ export interface DistributionRow {
   percent: number;
 }
 
+export type TimeOfDay = "morning" | "afternoon" | "evening" | "night";
+
+export interface FocusAverageRow {
+  /** Subject id, or time-of-day bucket. */
+  key: string;
+  label: string;
+  /** Mean focus rating, 1–5. */
+  average: number;
+  ratedSessions: number;
+}
+
+const TIME_OF_DAY_ORDER: TimeOfDay[] = ["morning", "afternoon", "evening", "night"];
+
+/** Local start hour decides the bucket: 5–12 morning, 12–17 afternoon, 17–22 evening. */
+function getTimeOfDay(date: Date): TimeOfDay {
+  const hour = date.getHours();
+  if (hour >= 5 && hour < 12) return "morning";
+  if (hour >= 12 && hour < 17) return "afternoon";
+  if (hour >= 17 && hour < 22) return "evening";
+  return "night";
+}
+
 export function useDashboard(
   userId: string | null,
   period: DashboardPeriod = "week",
@@ -59,9 +82,7 @@ export function useDashboard(
     useProfile({ userId, autoLoad: true });
   const { goals, loading: goalsLoading } = useSubjectGoals(userId);
 
-  const [weeklySessions, setWeeklySessions] = useState<
-    { subject_id: string; duration_seconds: number; ended_at: string }[]
-  >([]);
+  const [weeklySessions, setWeeklySessions] = useState<WeeklySessionRow[]>([]);
   const [sessionsLoading, setSessionsLoading] = useState(false);
 
   const dateRange = useMemo(() => {
@@ -151,6 +172,54 @@ export function useDashboard(
       .sort((a, b) => b.seconds - a.seconds);
   }, [weeklySessions, allSubjects, weeklyTotalSeconds, t]);
 
+  /** Average reflection rating per subject for the selected period (rated sessions only). */
+  const focusBySubject = useMemo((): FocusAverageRow[] => {
+    const byId = new Map(allSubjects.map((s) => [s.id, s]));
+    const sums = new Map<string, { total: number; count: number }>();
+    for (const row of weeklySessions) {
+      if (row.focus_rating == null || !byId.has(row.subject_id)) continue;
+      const acc = sums.get(row.subject_id) ?? { total: 0, count: 0 };
+      acc.total += row.focus_rating;
+      acc.count += 1;
+      sums.set(row.subject_id, acc);
+    }
+
+    return [...sums.entries()]
+      .map(([subjectId, { total, count }]) => {
+        const subj = byId.get(subjectId);
+        return {
+          key: subjectId,
+          label: subj ? getSubjectDisplayName(subj, t) : "",
+          average: total / count,
+          ratedSessions: count,
+        };
+      })
+      .sort((a, b) => b.average - a.average);
+  }, [weeklySessions, allSubjects, t]);
+
+  /** Average reflection rating per time of day (local start time), in day order. */
+  const focusByTimeOfDay = useMemo((): FocusAverageRow[] => {
+    const sums = new Map<TimeOfDay, { total: number; count: number }>();
+    for (const row of weeklySessions) {
+      if (row.focus_rating == null || !row.started_at) continue;
+      const bucket = getTimeOfDay(new Date(row.started_at));
+      const acc = sums.get(bucket) ?? { total: 0, count: 0 };
+      acc.total += row.focus_rating;
+      acc.count += 1;
+      sums.set(bucket, acc);
+    }
+
+    return TIME_OF_DAY_ORDER.filter((bucket) => sums.has(bucket)).map((bucket) => {
+      const { total, count } = sums.get(bucket)!;
+      return {
+        key: bucket,
+        label: t(`dashboard.focus.timeOfDay.${bucket}`),
+        average: total / count,
+        ratedSessions: count,
+      };
+    });
+  }, [weeklySessions, t]);
+
   const weeklyGoalMinutes = useMemo(() => {
     const fromGoals = sumWeeklyGoalMinutes(goals);
     if (fromGoals > 0) return fromGoals;
@@ -230,8 +299,8 @@ export function useDashboard(
       1: {}, 2: {}, 3: {}, 4: {}, 5: {}, 6: {}, 7: {},
     };
     weeklySessions.forEach((s) => {
-      if (!s.ended_at || !s.subject_id) return;
-      const d = new Date(s.ended_at);
+      if (!s.started_at || !s.subject_id) return;
+      const d = new Date(s.started_at);
       const dow = d.getDay();
       const dayNum = dow === 0 ? 7 : dow;
       const sid = s.subject_id;
@@ -244,8 +313,8 @@ export function useDashboard(
   const actualByDayOfMonthBySubject = useMemo(() => {
     const byDay: Record<number, Record<string, number>> = {};
     weeklySessions.forEach((s) => {
-      if (!s.ended_at || !s.subject_id) return;
-      const d = new Date(s.ended_at);
+      if (!s.started_at || !s.subject_id) return;
+      const d = new Date(s.started_at);
       const dayOfMonth = d.getDate();
       if (!byDay[dayOfMonth]) byDay[dayOfMonth] = {};
       const sid = s.subject_id;
@@ -261,8 +330,8 @@ export function useDashboard(
       7: {}, 8: {}, 9: {}, 10: {}, 11: {}, 12: {},
     };
     weeklySessions.forEach((s) => {
-      if (!s.ended_at || !s.subject_id) return;
-      const d = new Date(s.ended_at);
+      if (!s.started_at || !s.subject_id) return;
+      const d = new Date(s.started_at);
       const month = d.getMonth() + 1;
       const sid = s.subject_id;
       const mins = Math.round((s.duration_seconds ?? 0) / 60);
@@ -364,8 +433,8 @@ export function useDashboard(
   const dailyGoalVsActual: DayGoalVsActual[] = useMemo(() => {
     const actualByDay: Record<number, number> = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0, 6: 0, 7: 0 };
     weeklySessions.forEach((s) => {
-      if (!s.ended_at) return;
-      const d = new Date(s.ended_at);
+      if (!s.started_at) return;
+      const d = new Date(s.started_at);
       const dow = d.getDay();
       const dayNum = dow === 0 ? 7 : dow;
       const mins = Math.round((s.duration_seconds ?? 0) / 60);
@@ -400,6 +469,8 @@ export function useDashboard(
     longestSessionSeconds,
     bestSubjectName,
     distributionBySubject,
+    focusBySubject,
+    focusByTimeOfDay,
     subjectNameById,
     histogramData,
     histogramSubjects,
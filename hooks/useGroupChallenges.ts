@@ -0,0 +1,101 @@
+import {
+  createGroupChallenge,
+  fetchGroupChallenges,
+  type GroupChallenge,
+  type GroupChallengeInput,
+} from "@/utils/queries";
+import { getTodayIso } from "@/utils/time";
+import { useCallback, useEffect, useMemo, useState } from "react";
+
+export type GroupChallengeStatus = "upcoming" | "active" | "completed" | "failed";
+
+/** Completion wins over dates: a challenge reached early stays completed. */
+export function getGroupChallengeStatus(
+  challenge: GroupChallenge,
+  todayIso: string = getTodayIso()
+): GroupChallengeStatus {
+  if (challenge.completedAt) return "completed";
+  if (todayIso < challenge.startsOn) return "upcoming";
+  if (todayIso > challenge.endsOn) return "failed";
+  return "active";
+}
+
+interface UseGroupChallengesOptions {
+  groupId: string | null;
+  userId: string | null;
+}
+
+/** Challenges of one group: current ones (active / upcoming) and the finished history. */
+export function useGroupChallenges({ groupId, userId }: UseGroupChallengesOptions) {
+  const [challenges, setChallenges] = useState<GroupChallenge[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const loadChallenges = useCallback(async () => {
+    if (!groupId || !userId) {
+      setChallenges([]);
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    try {
+      setChallenges(await fetchGroupChallenges(groupId));
+    } catch (err) {
+      console.error("Error loading group challenges", err);
+      setError(err instanceof Error ? err : new Error(String(err)));
+    } finally {
+      setLoading(false);
+    }
+  }, [groupId, userId]);
+
+  useEffect(() => {
+    void loadChallenges();
+  }, [loadChallenges]);
+
+  const { current, history } = useMemo(() => {
+    const todayIso = getTodayIso();
+    const currentList: GroupChallenge[] = [];
+    const historyList: GroupChallenge[] = [];
+    for (const challenge of challenges) {
+      // A challenge completed early stays on top until its window closes
+      if (todayIso <= challenge.endsOn) {
+        currentList.push(challenge);
+      } else {
+        historyList.push(challenge);
+      }
+    }
+    // Soonest deadline first for what is still running
+    currentList.sort((a, b) => a.endsOn.localeCompare(b.endsOn));
+    return { current: currentList, history: historyList };
+  }, [challenges]);
+
+  const handleCreateChallenge = useCallback(
+    async (input: GroupChallengeInput): Promise<void> => {
+      if (!userId) {
+        throw new Error("User not authenticated");
+      }
+      if (!groupId) {
+        throw new Error("Group is required");
+      }
+
+      try {
+        await createGroupChallenge(groupId, userId, input);
+        await loadChallenges();
+      } catch (err) {
+        console.error("Error creating group challenge", err);
+        throw err;
+      }
+    },
+    [groupId, userId, loadChallenges]
+  );
+
+  return {
+    challenges,
+    current,
+    history,
+    loading,
+    error,
+    createChallenge: handleCreateChallenge,
+    refetch: loadChallenges,
+  };
+}
@@ -0,0 +1,206 @@
+import {
+  createGroupEvent,
+  deleteGroupEvent,
+  fetchGroupEventRsvps,
+  fetchGroupEvents,
+  setGroupEventRsvp,
+  type GroupEvent,
+  type GroupEventInput,
+  type GroupEventRsvpStatus,
+} from "@/utils/queries";
+import { useCallback, useEffect, useMemo, useState } from "react";
+
+export type GroupEventStatus = "upcoming" | "live" | "ended";
+
+export const groupEventEndMs = (event: GroupEvent) =>
+  new Date(event.startsAt).getTime() + event.durationMinutes * 60_000;
+
+export function getGroupEventStatus(event: GroupEvent, now: number = Date.now()): GroupEventStatus {
+  if (now < new Date(event.startsAt).getTime()) return "upcoming";
+  if (now < groupEventEndMs(event)) return "live";
+  return "ended";
+}
+
+interface UseGroupEventsOptions {
+  groupId: string | null;
+  userId: string | null;
+}
+
+/**
+ * Scheduled sessions of one group: upcoming / live ones and the past ones with their attendance.
+ * RSVPs of live events are loaded too so the roster can highlight attendees.
+ */
+export function useGroupEvents({ groupId, userId }: UseGroupEventsOptions) {
+  const [events, setEvents] = useState<GroupEvent[]>([]);
+  const [liveRsvps, setLiveRsvps] = useState<Record<string, GroupEventRsvpStatus>>({});
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const loadEvents = useCallback(async () => {
+    if (!groupId || !userId) {
+      setEvents([]);
+      setLiveRsvps({});
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    try {
+      const list = await fetchGroupEvents(groupId);
+      const now = Date.now();
+      const live = list.filter((e) => getGroupEventStatus(e, now) === "live");
+      const answers = await Promise.all(live.map((e) => fetchGroupEventRsvps(e.id)));
+      setEvents(list);
+      // A member attending any of the overlapping events counts; "going" wins over "maybe"
+      const merged: Record<string, GroupEventRsvpStatus> = {};
+      for (const byUser of answers) {
+        for (const [memberId, status] of Object.entries(byUser)) {
+          if (merged[memberId] !== "going") merged[memberId] = status;
+        }
+      }
+      setLiveRsvps(merged);
+    } catch (err) {
+      console.error("Error loading group events", err);
+      setError(err instanceof Error ? err : new Error(String(err)));
+    } finally {
+      setLoading(false);
+    }
+  }, [groupId, userId]);
+
+  useEffect(() => {
+    void loadEvents();
+  }, [loadEvents]);
+
+  // Reload when the next event starts or ends so live RSVPs and credited time follow
+  useEffect(() => {
+    const now = Date.now();
+    const boundaries = events
+      .flatMap((e) => [new Date(e.startsAt).getTime(), groupEventEndMs(e)])
+      .filter((ms) => ms > now);
+    if (boundaries.length === 0) return;
+    const delay = Math.min(...boundaries) - now + 1000;
+    // setTimeout overflows past ~24.8 days; the list is reloaded long before that anyway
+    if (delay > 2 ** 31 - 1) return;
+    const timer = setTimeout(() => void loadEvents(), delay);
+    return () => clearTimeout(timer);
+  }, [events, loadEvents]);
+
+  const { current, past } = useMemo(() => {
+    const now = Date.now();
+    const currentList: GroupEvent[] = [];
+    const pastList: GroupEvent[] = [];
+    for (const event of events) {
+      if (getGroupEventStatus(event, now) === "ended") {
+        pastList.push(event);
+      } else {
+        currentList.push(event);
+      }
+    }
+    // Soonest first for what is still ahead; the RPC already returns the past newest first
+    currentList.sort((a, b) => a.startsAt.localeCompare(b.startsAt));
+    return { current: currentList, past: pastList };
+  }, [events]);
+
+  const handleCreateEvent = useCallback(
+    async (input: GroupEventInput): Promise<void> => {
+      if (!userId) {
+        throw new Error("User not authenticated");
+      }
+      if (!groupId) {
+        throw new Error("Group is required");
+      }
+
+      try {
+        await createGroupEvent(groupId, userId, input);
+        await loadEvents();
+      } catch (err) {
+        console.error("Error creating group event", err);
+        throw err;
+      }
+    },
+    [groupId, userId, loadEvents]
+  );
+
+  const handleDeleteEvent = useCallback(
+    async (eventId: string): Promise<void> => {
+      if (!userId) {
+        throw new Error("User not authenticated");
+      }
+
+      let previous: GroupEvent[] = [];
+      setEvents((list) => {
+        previous = list; // Capture for rollback
+        return list.filter((e) => e.id !== eventId);
+      });
+
+      try {
+        await deleteGroupEvent(eventId);
+      } catch (err) {
+        console.error("Error deleting group event", err);
+        setEvents(previous);
+        throw err;
+      }
+    },
+    [userId]
+  );
+
+  const handleSetRsvp = useCallback(
+    async (eventId: string, status: GroupEventRsvpStatus | null): Promise<void> => {
+      if (!userId) {
+        throw new Error("User not authenticated");
+      }
+
+      const count = (value: GroupEventRsvpStatus | null, target: GroupEventRsvpStatus) =>
+        value === target ? 1 : 0;
+
+      let previous: GroupEvent[] = [];
+      let previousLive: Record<string, GroupEventRsvpStatus> = {};
+      setEvents((list) => {
+        previous = list; // Capture for rollback
+        return list.map((e) =>
+          e.id === eventId
+            ? {
+                ...e,
+                myRsvp: status,
+                goingCount: e.goingCount - count(e.myRsvp, "going") + count(status, "going"),
+                maybeCount: e.maybeCount - count(e.myRsvp, "maybe") + count(status, "maybe"),
+              }
+            : e
+        );
+      });
+      const event = events.find((e) => e.id === eventId);
+      const isLive = !!event && getGroupEventStatus(event) === "live";
+      if (isLive) {
+        setLiveRsvps((current) => {
+          previousLive = current; // Capture for rollback
+          const next = { ...current };
+          if (status) next[userId] = status;
+          else delete next[userId];
+          return next;
+        });
+      }
+
+      try {
+        await setGroupEventRsvp(eventId, status);
+      } catch (err) {
+        console.error("Error answering group event", err);
+        setEvents(previous);
+        if (isLive) setLiveRsvps(previousLive);
+        throw err;
+      }
+    },
+    [userId, events]
+  );
+
+  return {
+    events,
+    current,
+    past,
+    liveRsvps,
+    loading,
+    error,
+    createEvent: handleCreateEvent,
+    deleteEvent: handleDeleteEvent,
+    setRsvp: handleSetRsvp,
+    refetch: loadEvents,
+  };
+}
@@ -0,0 +1,248 @@
+import {
+  deleteGroupMessage,
+  fetchGroupMessages,
+  fetchPinnedGroupMessages,
+  mapGroupMessageRow,
+  postGroupMessage,
+  setGroupMessagePinned,
+  type GroupMessage,
+} from "@/utils/queries";
+import { supabase } from "@/utils/supabase";
+import { useCallback, useEffect, useRef, useState } from "react";
+
+const PAGE_SIZE = 30;
+
+interface UseGroupMessagesOptions {
+  groupId: string | null;
+  userId: string | null;
+}
+
+/** Adds or replaces by id, newest first (same order as `fetchGroupMessages`). */
+function upsertMessage(list: GroupMessage[], message: GroupMessage): GroupMessage[] {
+  const rest = list.filter((m) => m.id !== message.id);
+  return [...rest, message].sort(
+    (a, b) => b.createdAt.localeCompare(a.createdAt) || b.id.localeCompare(a.id)
+  );
+}
+
+/**
+ * Message wall of one group: newest page first, older pages on demand, pinned posts apart.
+ * Inserts, pins and deletes from other members arrive through Supabase Realtime.
+ */
+export function useGroupMessages({ groupId, userId }: UseGroupMessagesOptions) {
+  const [messages, setMessages] = useState<GroupMessage[]>([]);
+  const [pinned, setPinned] = useState<GroupMessage[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+  // Ignore pages that arrive after switching groups
+  const requestIdRef = useRef(0);
+
+  const loadMessages = useCallback(async () => {
+    const requestId = ++requestIdRef.current;
+    if (!groupId || !userId) {
+      setMessages([]);
+      setPinned([]);
+      setHasMore(false);
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    try {
+      const [page, pinnedList] = await Promise.all([
+        fetchGroupMessages(groupId, { limit: PAGE_SIZE }),
+        fetchPinnedGroupMessages(groupId),
+      ]);
+      if (requestId !== requestIdRef.current) return;
+      setMessages(page);
+      setPinned(pinnedList);
+      setHasMore(page.length === PAGE_SIZE);
+    } catch (err) {
+      if (requestId !== requestIdRef.current) return;
+      console.error("Error loading group messages", err);
+      setError(err instanceof Error ? err : new Error(String(err)));
+    } finally {
+      if (requestId === requestIdRef.current) setLoading(false);
+    }
+  }, [groupId, userId]);
+
+  useEffect(() => {
+    void loadMessages();
+  }, [loadMessages]);
+
+  const loadMore = useCallback(async () => {
+    if (!groupId || loading || loadingMore || !hasMore || messages.length === 0) return;
+    const requestId = requestIdRef.current;
+    const oldest = messages[messages.length - 1];
+    setLoadingMore(true);
+    try {
+      const page = await fetchGroupMessages(groupId, {
+        before: { createdAt: oldest.createdAt, id: oldest.id },
+        limit: PAGE_SIZE,
+      });
+      if (requestId !== requestIdRef.current) return;
+      setMessages((current) => page.reduce(upsertMessage, current));
+      setHasMore(page.length === PAGE_SIZE);
+    } catch (err) {
+      console.error("Error loading older group messages", err);
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [groupId, loading, loadingMore, hasMore, messages]);
+
+  useEffect(() => {
+    if (!groupId || !userId) return;
+
+    const applyPinned = (message: GroupMessage) =>
+      setPinned((current) => {
+        const rest = current.filter((m) => m.id !== message.id);
+        return message.pinnedAt
+          ? [message, ...rest].sort((a, b) => (b.pinnedAt ?? "").localeCompare(a.pinnedAt ?? ""))
+          : rest;
+      });
+
+    const applyInsert = (message: GroupMessage) => {
+      setMessages((current) => upsertMessage(current, message));
+      applyPinned(message);
+    };
+
+    // Pinning an old post must not pull it into the pages: `loadMore` pages from the oldest loaded
+    // message, so an out-of-range row would skip everything between it and the current page
+    const applyUpdate = (message: GroupMessage) => {
+      setMessages((current) =>
+        current.some((m) => m.id === message.id)
+          ? current.map((m) => (m.id === message.id ? message : m))
+          : current
+      );
+      applyPinned(message);
+    };
+
+    const channel = supabase
+      .channel(`group_messages_${groupId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "INSERT",
+          schema: "public",
+          table: "group_messages",
+          filter: `group_id=eq.${groupId}`,
+        },
+        (payload) => applyInsert(mapGroupMessageRow(payload.new))
+      )
+      .on(
+        "postgres_changes",
+        {
+          event: "UPDATE",
+          schema: "public",
+          table: "group_messages",
+          filter: `group_id=eq.${groupId}`,
+        },
+        (payload) => applyUpdate(mapGroupMessageRow(payload.new))
+      )
+      // Delete payloads only carry the id and cannot be filtered; unknown ids are no-ops
+      .on(
+        "postgres_changes",
+        { event: "DELETE", schema: "public", table: "group_messages" },
+        (payload) => {
+          const id = (payload.old as { id?: string } | null)?.id;
+          if (!id) return;
+          setMessages((current) => current.filter((m) => m.id !== id));
+          setPinned((current) => current.filter((m) => m.id !== id));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [groupId, userId]);
+
+  const handlePostMessage = useCallback(
+    async (body: string, mentions: string[]): Promise<void> => {
+      if (!userId) {
+        throw new Error("User not authenticated");
+      }
+      if (!groupId) {
+        throw new Error("Group is required");
+      }
+
+      try {
+        const saved = await postGroupMessage(groupId, userId, body, mentions);
+        // Realtime delivers the same row; upsert keeps a single copy
+        setMessages((current) => upsertMessage(current, saved));
+      } catch (err) {
+        console.error("Error posting group message", err);
+        throw err;
+      }
+    },
+    [groupId, userId]
+  );
+
+  const handleDeleteMessage = useCallback(
+    async (messageId: string): Promise<void> => {
+      if (!userId) {
+        throw new Error("User not authenticated");
+      }
+
+      let previous: GroupMessage[] = [];
+      let previousPinned: GroupMessage[] = [];
+      setMessages((current) => {
+        previous = current; // Capture for rollback
+        return current.filter((m) => m.id !== messageId);
+      });
+      setPinned((current) => {
+        previousPinned = current;
+        return current.filter((m) => m.id !== messageId);
+      });
+
+      try {
+        await deleteGroupMessage(messageId);
+      } catch (err) {
+        console.error("Error deleting group message", err);
+        setMessages(previous);
+        setPinned(previousPinned);
+        throw err;
+      }
+    },
+    [userId]
+  );
+
+  const handleSetPinned = useCallback(
+    async (messageId: string, isPinned: boolean): Promise<void> => {
+      if (!userId) {
+        throw new Error("User not authenticated");
+      }
+      if (!groupId) {
+        throw new Error("Group is required");
+      }
+
+      try {
+        await setGroupMessagePinned(messageId, isPinned);
+        // Realtime sends the same UPDATE to other members; refresh here in case it is down
+        const pinnedList = await fetchPinnedGroupMessages(groupId);
+        const pinnedAt = pinnedList.find((m) => m.id === messageId)?.pinnedAt ?? null;
+        setPinned(pinnedList);
+        setMessages((current) => current.map((m) => (m.id === messageId ? { ...m, pinnedAt } : m)));
+      } catch (err) {
+        console.error("Error pinning group message", err);
+        throw err;
+      }
+    },
+    [groupId, userId]
+  );
+
+  return {
+    messages,
+    pinned,
+    loading,
+    loadingMore,
+    hasMore,
+    error,
+    loadMore,
+    postMessage: handlePostMessage,
+    deleteMessage: handleDeleteMessage,
+    setPinned: handleSetPinned,
+    refetch: loadMessages,
+  };
+}
@@ -0,0 +1,180 @@
+import {
+  fetchGroupJoinRequests,
+  fetchGroupMembersWithPresence,
+  removeGroupMember,
+  respondToGroupJoinRequest,
+  setGroupMemberRole,
+  transferGroupOwnership,
+  type GroupJoinRequest,
+  type GroupMemberWithPresence,
+  type GroupRole,
+} from "@/utils/queries";
+import { useCallback, useEffect, useRef, useState } from "react";
+
+interface UseGroupModerationOptions {
+  groupId: string | null;
+  userId: string | null;
+}
+
+/**
+ * Roster and pending join requests of one group, with the admin actions.
+ * Requests are only loaded for admins (the RPC rejects everyone else).
+ */
+export function useGroupModeration({ groupId, userId }: UseGroupModerationOptions) {
+  const [members, setMembers] = useState<GroupMemberWithPresence[]>([]);
+  const [requests, setRequests] = useState<GroupJoinRequest[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+  // Ignore responses that arrive after switching groups
+  const requestIdRef = useRef(0);
+
+  const isAdmin = members.some((m) => m.userId === userId && m.role === "group_admin");
+
+  const loadModeration = useCallback(async () => {
+    const requestId = ++requestIdRef.current;
+    if (!groupId || !userId) {
+      setMembers([]);
+      setRequests([]);
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    try {
+      const roster = await fetchGroupMembersWithPresence(groupId);
+      const admin = roster.some((m) => m.userId === userId && m.role === "group_admin");
+      const pending = admin ? await fetchGroupJoinRequests(groupId) : [];
+      if (requestId !== requestIdRef.current) return;
+      setMembers(roster);
+      setRequests(pending);
+    } catch (err) {
+      if (requestId !== requestIdRef.current) return;
+      console.error("Error loading group moderation", err);
+      setError(err instanceof Error ? err : new Error(String(err)));
+    } finally {
+      if (requestId === requestIdRef.current) setLoading(false);
+    }
+  }, [groupId, userId]);
+
+  useEffect(() => {
+    void loadModeration();
+  }, [loadModeration]);
+
+  const respond = useCallback(
+    async (memberId: string, approve: boolean): Promise<void> => {
+      if (!userId) {
+        throw new Error("User not authenticated");
+      }
+      if (!groupId) {
+        throw new Error("Group is required");
+      }
+
+      let previous: GroupJoinRequest[] = [];
+      setRequests((current) => {
+        previous = current; // Capture for rollback
+        return current.filter((r) => r.userId !== memberId);
+      });
+
+      try {
+        await respondToGroupJoinRequest(groupId, memberId, approve);
+        if (approve) {
+          setMembers(await fetchGroupMembersWithPresence(groupId));
+        }
+      } catch (err) {
+        console.error("Error responding to join request", err);
+        setRequests(previous);
+        throw err;
+      }
+    },
+    [groupId, userId]
+  );
+
+  const handleApproveRequest = useCallback(
+    (memberId: string) => respond(memberId, true),
+    [respond]
+  );
+
+  const handleRejectRequest = useCallback(
+    (memberId: string) => respond(memberId, false),
+    [respond]
+  );
+
+  const handleRemoveMember = useCallback(
+    async (memberId: string): Promise<void> => {
+      if (!userId) {
+        throw new Error("User not authenticated");
+      }
+      if (!groupId) {
+        throw new Error("Group is required");
+      }
+
+      let previous: GroupMemberWithPresence[] = [];
+      setMembers((current) => {
+        previous = current; // Capture for rollback
+        return current.filter((m) => m.userId !== memberId);
+      });
+
+      try {
+        await removeGroupMember(groupId, memberId);
+      } catch (err) {
+        console.error("Error removing group member", err);
+        setMembers(previous);
+        throw err;
+      }
+    },
+    [groupId, userId]
+  );
+
+  const handleSetRole = useCallback(
+    async (memberId: string, role: GroupRole): Promise<void> => {
+      if (!userId) {
+        throw new Error("User not authenticated");
+      }
+      if (!groupId) {
+        throw new Error("Group is required");
+      }
+
+      try {
+        await setGroupMemberRole(groupId, memberId, role);
+        await loadModeration();
+      } catch (err) {
+        console.error("Error changing group member role", err);
+        throw err;
+      }
+    },
+    [groupId, userId, loadModeration]
+  );
+
+  const handleTransferOwnership = useCallback(
+    async (newOwnerId: string): Promise<void> => {
+      if (!userId) {
+        throw new Error("User not authenticated");
+      }
+      if (!groupId) {
+        throw new Error("Group is required");
+      }
+
+      try {
+        await transferGroupOwnership(groupId, newOwnerId);
+        await loadModeration();
+      } catch (err) {
+        console.error("Error transferring group ownership", err);
+        throw err;
+      }
+    },
+    [groupId, userId, loadModeration]
+  );
+
+  return {
+    members,
+    requests,
+    isAdmin,
+    loading,
+    error,
+    approveRequest: handleApproveRequest,
+    rejectRequest: handleRejectRequest,
+    removeMember: handleRemoveMember,
+    setRole: handleSetRole,
+    transferOwnership: handleTransferOwnership,
+    refetch: loadModeration,
+  };
+}
@@ -0,0 +1,141 @@
+import {
+  STUDY_PRESENCE_POLL_MS,
+  fetchGroupMembersWithPresence,
+  mapStudyPresenceRow,
+  type GroupMemberWithPresence,
+} from "@/utils/queries";
+import { supabase } from "@/utils/supabase";
+import { REALTIME_SUBSCRIBE_STATES } from "@supabase/supabase-js";
+import { useCallback, useEffect, useRef, useState } from "react";
+
+interface UseGroupPresenceOptions {
+  groupId: string | null;
+}
+
+/**
+ * Roster and timer presence of one group for the live view.
+ * Presence rows stream in through Supabase Realtime and are patched in place; roster changes
+ * trigger a refetch. While the channel is down the list is polled instead, and it is refetched
+ * once the channel reconnects to pick up anything missed.
+ */
+export function useGroupPresence({ groupId }: UseGroupPresenceOptions) {
+  const [members, setMembers] = useState<GroupMemberWithPresence[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+  const [realtimeConnected, setRealtimeConnected] = useState(false);
+  const memberIdsRef = useRef<Set<string>>(new Set());
+  const membershipIdsRef = useRef<Set<string>>(new Set());
+  // Ignore lists that arrive after switching groups
+  const requestIdRef = useRef(0);
+
+  const loadMembers = useCallback(async () => {
+    const requestId = ++requestIdRef.current;
+    if (!groupId) {
+      memberIdsRef.current = new Set();
+      membershipIdsRef.current = new Set();
+      setMembers([]);
+      setLoading(false);
+      return;
+    }
+    setError(null);
+    try {
+      const data = await fetchGroupMembersWithPresence(groupId);
+      if (requestId !== requestIdRef.current) return;
+      memberIdsRef.current = new Set(data.map((d) => d.userId));
+      membershipIdsRef.current = new Set(data.map((d) => d.membershipId));
+      setMembers(data);
+    } catch (err) {
+      if (requestId !== requestIdRef.current) return;
+      console.error("Error loading group presence", err);
+      setError(err instanceof Error ? err : new Error(String(err)));
+      setMembers([]);
+    } finally {
+      if (requestId === requestIdRef.current) setLoading(false);
+    }
+  }, [groupId]);
+
+  useEffect(() => {
+    setLoading(true);
+    void loadMembers();
+  }, [loadMembers]);
+
+  useEffect(() => {
+    if (!groupId) return;
+
+    let hasSubscribed = false;
+
+    const channel = supabase
+      .channel(`group_presence_${groupId}`)
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "user_study_presence" },
+        (payload) => {
+          const row =
+            payload.eventType === "DELETE"
+              ? (payload.old as { user_id?: string } | null)
+              : (payload.new as { user_id?: string } | null);
+          const uid = row?.user_id;
+          if (!uid || !memberIdsRef.current.has(uid)) return;
+          // A deleted row means the member is no longer in a session
+          const presence = mapStudyPresenceRow(payload.eventType === "DELETE" ? null : row);
+          setMembers((current) =>
+            current.map((m) => (m.userId === uid ? { ...m, ...presence } : m))
+          );
+        }
+      )
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "group_members",
+          filter: `group_id=eq.${groupId}`,
+        },
+        (payload) => {
+          // Deletes are handled below
+          if (payload.eventType !== "DELETE") void loadMembers();
+        }
+      )
+      .on(
+        "postgres_changes",
+        // Realtime cannot filter deletes and their payload only carries the row id
+        { event: "DELETE", schema: "public", table: "group_members" },
+        (payload) => {
+          const id = (payload.old as { id?: string } | null)?.id;
+          if (id && membershipIdsRef.current.has(id)) void loadMembers();
+        }
+      )
+      .subscribe((status) => {
+        if (status === REALTIME_SUBSCRIBE_STATES.SUBSCRIBED) {
+          setRealtimeConnected(true);
+          // Catch up on changes missed while the channel was down
+          if (hasSubscribed) void loadMembers();
+          hasSubscribed = true;
+        } else {
+          setRealtimeConnected(false);
+        }
+      });
+
+    return () => {
+      setRealtimeConnected(false);
+      supabase.removeChannel(channel);
+    };
+  }, [groupId, loadMembers]);
+
+  // Fallback polling, only while Realtime is unavailable
+  useEffect(() => {
+    if (!groupId || realtimeConnected) return;
+    const interval = setInterval(() => {
+      void loadMembers();
+    }, STUDY_PRESENCE_POLL_MS);
+    return () => clearInterval(interval);
+  }, [groupId, realtimeConnected, loadMembers]);
+
+  return {
+    members,
+    loading,
+    error,
+    realtimeConnected,
+    refetch: loadMembers,
+  };
+}
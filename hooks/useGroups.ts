@@ -197,7 +197,7 @@ export function useGroups({
       if (!userId) {
         throw new Error("User not authenticated");
       }
-      await leaveGroupQuery(userId, groupId);
+      await leaveGroupQuery(groupId);
       await loadGroups();
     },
     [userId, loadGroups]
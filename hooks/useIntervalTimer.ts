@@ -0,0 +1,301 @@
+import type { TimerStopResult, UseTimerReturn } from "@/hooks/useTimer";
+import type { PersistedTimerSession } from "@/utils/activeTimerSession";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { useCallback, useEffect, useRef, useState } from "react";
+
+const CONFIG_STORAGE_KEY = "@tymii/interval_config";
+
+export interface IntervalConfig {
+  workMinutes: number;
+  breakMinutes: number;
+  longBreakMinutes: number;
+  /** Number of work phases before the run ends. */
+  cycles: number;
+  /** A long break replaces the short one after every N work phases (0 = never). */
+  longBreakEvery: number;
+}
+
+export const DEFAULT_INTERVAL_CONFIG: IntervalConfig = {
+  workMinutes: 25,
+  breakMinutes: 5,
+  longBreakMinutes: 15,
+  cycles: 4,
+  longBreakEvery: 4,
+};
+
+/** Quick picks shown in the settings modal (25/5 and 50/10 cycles). */
+export const INTERVAL_PRESETS: IntervalConfig[] = [
+  DEFAULT_INTERVAL_CONFIG,
+  {
+    workMinutes: 50,
+    breakMinutes: 10,
+    longBreakMinutes: 20,
+    cycles: 3,
+    longBreakEvery: 0,
+  },
+];
+
+export type IntervalPhase = "work" | "break" | "long_break";
+
+function sanitizeIntervalConfig(value: Partial<IntervalConfig>): IntervalConfig {
+  const int = (v: unknown, fallback: number, min: number, max: number) => {
+    const n = typeof v === "number" && Number.isFinite(v) ? Math.round(v) : fallback;
+    return Math.min(max, Math.max(min, n));
+  };
+  return {
+    workMinutes: int(value.workMinutes, DEFAULT_INTERVAL_CONFIG.workMinutes, 1, 240),
+    breakMinutes: int(value.breakMinutes, DEFAULT_INTERVAL_CONFIG.breakMinutes, 1, 120),
+    longBreakMinutes: int(value.longBreakMinutes, DEFAULT_INTERVAL_CONFIG.longBreakMinutes, 1, 120),
+    cycles: int(value.cycles, DEFAULT_INTERVAL_CONFIG.cycles, 1, 24),
+    longBreakEvery: int(value.longBreakEvery, DEFAULT_INTERVAL_CONFIG.longBreakEvery, 0, 24),
+  };
+}
+
+/** Interval settings, remembered on device between launches. */
+export function useIntervalConfig(): [IntervalConfig, (next: IntervalConfig) => void] {
+  const [config, setConfigState] = useState<IntervalConfig>(DEFAULT_INTERVAL_CONFIG);
+
+  useEffect(() => {
+    AsyncStorage.getItem(CONFIG_STORAGE_KEY)
+      .then((stored) => {
+        if (stored) setConfigState(sanitizeIntervalConfig(JSON.parse(stored)));
+      })
+      .catch(() => {});
+  }, []);
+
+  const setConfig = useCallback((next: IntervalConfig) => {
+    const clean = sanitizeIntervalConfig(next);
+    setConfigState(clean);
+    AsyncStorage.setItem(CONFIG_STORAGE_KEY, JSON.stringify(clean)).catch(() => {});
+  }, []);
+
+  return [config, setConfig];
+}
+
+export interface UseIntervalTimerOptions {
+  /** The screen's `useTimer`; work phases run (and are logged) through it. */
+  timer: UseTimerReturn;
+  config: IntervalConfig;
+  /** Fired on automatic and skipped phase changes; `"done"` after the last work phase. */
+  onPhaseChange?: (phase: IntervalPhase | "done", cycle: number) => void;
+}
+
+export interface UseIntervalTimerReturn {
+  phase: IntervalPhase | null;
+  /** 1-based index of the current (or last) work phase. */
+  cycle: number;
+  isActive: boolean;
+  isPaused: boolean;
+  phaseSeconds: number;
+  remainingSeconds: number;
+  start: (subjectId: string, taskId?: string | null) => Promise<boolean>;
+  pause: () => void;
+  resume: () => void;
+  skipPhase: () => Promise<void>;
+  stop: () => Promise<TimerStopResult | null>;
+  /** Picks up the work phase of an interval session restored from device storage. */
+  resumeRestored: (session: PersistedTimerSession) => void;
+}
+
+/**
+ * Pomodoro-style cycles on top of `useTimer`: each work phase is a normal timer session
+ * (logged on its own against the selected subject/task); breaks are counted locally.
+ */
+export function useIntervalTimer({
+  timer,
+  config,
+  onPhaseChange,
+}: UseIntervalTimerOptions): UseIntervalTimerReturn {
+  const [phase, setPhase] = useState<IntervalPhase | null>(null);
+  const [cycle, setCycle] = useState(1);
+  const [breakEndsAt, setBreakEndsAt] = useState<number | null>(null);
+  const [breakRemainingMs, setBreakRemainingMs] = useState<number | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const targetRef = useRef<{ subjectId: string; taskId: string | null } | null>(null);
+  const transitioningRef = useRef(false);
+
+  const workSeconds = config.workMinutes * 60;
+  const breakSecondsFor = useCallback(
+    (p: IntervalPhase) =>
+      (p === "long_break" ? config.longBreakMinutes : config.breakMinutes) * 60,
+    [config.longBreakMinutes, config.breakMinutes]
+  );
+
+  const resetState = useCallback(() => {
+    setPhase(null);
+    setCycle(1);
+    setBreakEndsAt(null);
+    setBreakRemainingMs(null);
+    targetRef.current = null;
+  }, []);
+
+  const { start: timerStart, stop: timerStop, pause: timerPause, resume: timerResume } = timer;
+
+  const finishWorkPhase = useCallback(async () => {
+    const target = targetRef.current;
+    if (!target || transitioningRef.current) return;
+    transitioningRef.current = true;
+
+    try {
+      const isLast = cycle >= config.cycles;
+      const next: IntervalPhase | "done" = isLast
+        ? "done"
+        : config.longBreakEvery > 0 && cycle % config.longBreakEvery === 0
+          ? "long_break"
+          : "break";
+
+      if (next === "done") {
+        setPhase(null);
+        targetRef.current = null;
+      } else {
+        // Set before stopping so presence goes straight from studying to on break
+        const now = Date.now();
+        setPhase(next);
+        setBreakEndsAt(now + breakSecondsFor(next) * 1000);
+        setBreakRemainingMs(null);
+        setNow(now);
+      }
+
+      await timerStop(target.subjectId, target.taskId, { maxSeconds: workSeconds });
+      onPhaseChange?.(next, cycle);
+    } finally {
+      transitioningRef.current = false;
+    }
+  }, [cycle, config, workSeconds, breakSecondsFor, timerStop, onPhaseChange]);
+
+  const startNextWorkPhase = useCallback(async () => {
+    const target = targetRef.current;
+    if (!target || transitioningRef.current) return;
+    transitioningRef.current = true;
+
+    try {
+      const nextCycle = cycle + 1;
+      setBreakEndsAt(null);
+      setBreakRemainingMs(null);
+      setCycle(nextCycle);
+      setPhase("work");
+      await timerStart(target.subjectId, target.taskId, {
+        mode: "interval",
+        intervalCycle: nextCycle,
+        maxSeconds: workSeconds,
+      });
+      onPhaseChange?.("work", nextCycle);
+    } finally {
+      transitioningRef.current = false;
+    }
+  }, [cycle, workSeconds, timerStart, onPhaseChange]);
+
+  // Work phase ends when the underlying timer reaches the configured length
+  useEffect(() => {
+    if (phase !== "work" || !timer.isRunning || timer.isPaused) return;
+    if (timer.seconds >= workSeconds) {
+      void finishWorkPhase();
+    }
+  }, [phase, timer.isRunning, timer.isPaused, timer.seconds, workSeconds, finishWorkPhase]);
+
+  // Break countdown
+  useEffect(() => {
+    if ((phase !== "break" && phase !== "long_break") || breakEndsAt == null) return;
+    const tick = () => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= breakEndsAt) {
+        void startNextWorkPhase();
+      }
+    };
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [phase, breakEndsAt, startNextWorkPhase]);
+
+  const start = useCallback(
+    async (subjectId: string, taskId?: string | null): Promise<boolean> => {
+      if (phase || timer.isRunning) return false;
+      targetRef.current = { subjectId, taskId: taskId ?? null };
+      setCycle(1);
+      setPhase("work");
+      const started = await timerStart(subjectId, taskId, {
+        mode: "interval",
+        intervalCycle: 1,
+        maxSeconds: workSeconds,
+      });
+      if (!started) resetState();
+      return started;
+    },
+    [phase, timer.isRunning, workSeconds, timerStart, resetState]
+  );
+
+  // Breaks are not persisted: a restore always lands in a work phase
+  const resumeRestored = useCallback((session: PersistedTimerSession) => {
+    if (targetRef.current || session.mode !== "interval") return;
+    targetRef.current = { subjectId: session.subjectId, taskId: session.taskId };
+    setCycle(session.intervalCycle ?? 1);
+    setPhase("work");
+  }, []);
+
+  const pause = useCallback(() => {
+    if (phase === "work") {
+      timerPause();
+      return;
+    }
+    if (breakEndsAt != null) {
+      setBreakRemainingMs(Math.max(0, breakEndsAt - Date.now()));
+      setBreakEndsAt(null);
+    }
+  }, [phase, breakEndsAt, timerPause]);
+
+  const resume = useCallback(() => {
+    if (phase === "work") {
+      timerResume();
+      return;
+    }
+    if (breakRemainingMs != null) {
+      setBreakEndsAt(Date.now() + breakRemainingMs);
+      setBreakRemainingMs(null);
+    }
+  }, [phase, breakRemainingMs, timerResume]);
+
+  const skipPhase = useCallback(async () => {
+    if (phase === "work") {
+      if (timer.isPaused) timerResume();
+      await finishWorkPhase();
+    } else if (phase) {
+      await startNextWorkPhase();
+    }
+  }, [phase, timer.isPaused, timerResume, finishWorkPhase, startNextWorkPhase]);
+
+  const stop = useCallback(async (): Promise<TimerStopResult | null> => {
+    const target = targetRef.current;
+    const wasWorking = phase === "work" && timer.isRunning;
+    resetState();
+    if (!wasWorking || !target) return null;
+    return timerStop(target.subjectId, target.taskId, { maxSeconds: workSeconds });
+  }, [phase, timer.isRunning, timerStop, resetState, workSeconds]);
+
+  const isBreak = phase === "break" || phase === "long_break";
+  const phaseSeconds = phase === "work" ? workSeconds : phase ? breakSecondsFor(phase) : workSeconds;
+  const remainingSeconds =
+    phase === "work"
+      ? Math.max(0, workSeconds - timer.seconds)
+      : isBreak
+        ? Math.max(
+            0,
+            Math.ceil((breakRemainingMs ?? (breakEndsAt != null ? breakEndsAt - now : 0)) / 1000)
+          )
+        : workSeconds;
+
+  return {
+    phase,
+    cycle,
+    isActive: phase != null,
+    isPaused: phase === "work" ? timer.isPaused : isBreak && breakRemainingMs != null,
+    phaseSeconds,
+    remainingSeconds,
+    start,
+    pause,
+    resume,
+    skipPhase,
+    stop,
+    resumeRestored,
+  };
+}
@@ -6,7 +6,9 @@ import {
   SessionTotals,
   Subject,
   SubjectAggregate,
+  syncMyTimezone,
 } from "@/utils/queries";
+import { getDeviceTimeZone } from "@/utils/time";
 
 export interface UseProfileOptions {
   userId: string | null;
@@ -66,6 +68,8 @@ export function useProfile({
     setLoading(true);
     setError(null);
     try {
+      // Streak expiry and day totals use the profile zone: keep it in step with the device
+      await syncMyTimezone(userId, getDeviceTimeZone());
       await applyStreakExpiryForCurrentUser();
       const overview = await fetchProfileOverview(userId);
       setProfile(overview.profile);
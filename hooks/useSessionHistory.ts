@@ -0,0 +1,160 @@
+import type { StudySessionInput } from "@/hooks/useStudySessions";
+import {
+  deleteStudySession,
+  fetchSessionHistory,
+  updateStudySession,
+  type SessionHistoryFilters,
+  type StudySession,
+} from "@/utils/queries";
+import { useCallback, useEffect, useRef, useState } from "react";
+
+const PAGE_SIZE = 20;
+
+interface UseSessionHistoryOptions {
+  userId: string | null;
+  filters: SessionHistoryFilters;
+}
+
+/** Paginated session list for the history screen; reloads from the top when filters change. */
+export function useSessionHistory({ userId, filters }: UseSessionHistoryOptions) {
+  const [sessions, setSessions] = useState<StudySession[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+  // Ignore pages that arrive after the filters changed
+  const requestIdRef = useRef(0);
+
+  const { subjectId, taskId, from, to, minDurationSeconds } = filters;
+  const fromMs = from?.getTime() ?? null;
+  const toMs = to?.getTime() ?? null;
+
+  const loadFirstPage = useCallback(async () => {
+    const requestId = ++requestIdRef.current;
+    if (!userId) {
+      setSessions([]);
+      setHasMore(false);
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    try {
+      const page = await fetchSessionHistory(
+        userId,
+        {
+          subjectId,
+          taskId,
+          from: fromMs != null ? new Date(fromMs) : null,
+          to: toMs != null ? new Date(toMs) : null,
+          minDurationSeconds,
+        },
+        { limit: PAGE_SIZE }
+      );
+      if (requestId !== requestIdRef.current) return;
+      setSessions(page);
+      setHasMore(page.length === PAGE_SIZE);
+    } catch (err) {
+      if (requestId !== requestIdRef.current) return;
+      console.error("Error loading session history", err);
+      setError(err instanceof Error ? err : new Error(String(err)));
+    } finally {
+      if (requestId === requestIdRef.current) setLoading(false);
+    }
+  }, [userId, subjectId, taskId, fromMs, toMs, minDurationSeconds]);
+
+  useEffect(() => {
+    void loadFirstPage();
+  }, [loadFirstPage]);
+
+  const loadMore = useCallback(async () => {
+    if (!userId || loading || loadingMore || !hasMore || sessions.length === 0) return;
+    const requestId = requestIdRef.current;
+    const last = sessions[sessions.length - 1];
+    setLoadingMore(true);
+    try {
+      const page = await fetchSessionHistory(
+        userId,
+        {
+          subjectId,
+          taskId,
+          from: fromMs != null ? new Date(fromMs) : null,
+          to: toMs != null ? new Date(toMs) : null,
+          minDurationSeconds,
+        },
+        { before: { startedAt: last.startedAt, id: last.id }, limit: PAGE_SIZE }
+      );
+      if (requestId !== requestIdRef.current) return;
+      setSessions((current) => [...current, ...page]);
+      setHasMore(page.length === PAGE_SIZE);
+    } catch (err) {
+      console.error("Error loading more sessions", err);
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [
+    userId,
+    loading,
+    loadingMore,
+    hasMore,
+    sessions,
+    subjectId,
+    taskId,
+    fromMs,
+    toMs,
+    minDurationSeconds,
+  ]);
+
+  const handleUpdateSession = useCallback(
+    async (sessionId: string, input: StudySessionInput): Promise<void> => {
+      if (!userId) {
+        throw new Error("User not authenticated");
+      }
+
+      try {
+        const saved = await updateStudySession(sessionId, userId, input);
+        if (saved) {
+          setSessions((current) => current.map((s) => (s.id === sessionId ? saved : s)));
+        }
+      } catch (err) {
+        console.error("Error updating session", err);
+        throw err;
+      }
+    },
+    [userId]
+  );
+
+  const handleDeleteSession = useCallback(
+    async (sessionId: string): Promise<void> => {
+      if (!userId) {
+        throw new Error("User not authenticated");
+      }
+
+      let previous: StudySession[] = [];
+      setSessions((current) => {
+        previous = current; // Capture for rollback
+        return current.filter((s) => s.id !== sessionId);
+      });
+
+      try {
+        await deleteStudySession(sessionId, userId);
+      } catch (err) {
+        console.error("Error deleting session", err);
+        setSessions(previous);
+        throw err;
+      }
+    },
+    [userId]
+  );
+
+  return {
+    sessions,
+    loading,
+    loadingMore,
+    hasMore,
+    error,
+    loadMore,
+    updateSession: handleUpdateSession,
+    deleteSession: handleDeleteSession,
+    refetch: loadFirstPage,
+  };
+}
@@ -0,0 +1,63 @@
+import {
+  flushSessionOutbox,
+  loadSessionOutbox,
+  subscribeSessionOutbox,
+} from "@/utils/sessionOutbox";
+import { useCallback, useEffect, useState } from "react";
+import { AppState } from "react-native";
+
+/**
+ * Pending offline sessions for the "pending sync" badge. Retries queued sessions on mount,
+ * when the app returns to the foreground, and when the earliest backoff delay expires.
+ */
+export function useSessionOutbox(userId: string | null) {
+  const [pendingCount, setPendingCount] = useState(0);
+  const [nextAttemptAt, setNextAttemptAt] = useState<number | null>(null);
+
+  const refreshSchedule = useCallback(async (uid: string) => {
+    const queue = await loadSessionOutbox(uid);
+    setPendingCount(queue.length);
+    setNextAttemptAt(
+      queue.length > 0 ? Math.min(...queue.map((q) => q.nextAttemptAt)) : null
+    );
+  }, []);
+
+  const flush = useCallback(
+    async (force = false) => {
+      if (!userId) return;
+      await flushSessionOutbox(userId, { force });
+      await refreshSchedule(userId);
+    },
+    [userId, refreshSchedule]
+  );
+
+  useEffect(() => {
+    if (!userId) {
+      setPendingCount(0);
+      setNextAttemptAt(null);
+      return;
+    }
+
+    void flush();
+    const unsubscribe = subscribeSessionOutbox((uid) => {
+      if (uid === userId) void refreshSchedule(uid);
+    });
+    const subscription = AppState.addEventListener("change", (nextState) => {
+      if (nextState === "active") void flush(true);
+    });
+
+    return () => {
+      unsubscribe();
+      subscription.remove();
+    };
+  }, [userId, flush, refreshSchedule]);
+
+  // Backoff timer for the next due entry
+  useEffect(() => {
+    if (nextAttemptAt == null) return;
+    const timeout = setTimeout(() => void flush(), Math.max(1_000, nextAttemptAt - Date.now()));
+    return () => clearTimeout(timeout);
+  }, [nextAttemptAt, flush]);
+
+  return { pendingCount, flush };
+}
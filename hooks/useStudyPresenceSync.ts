@@ -1,7 +1,9 @@
 import {
   markStudySessionActive,
   markStudySessionIdle,
+  markStudySessionPaused,
   touchStudyPresence,
+  type StudyPresenceActivity,
 } from "@/utils/queries";
 import { useEffect, useRef } from "react";
 
@@ -9,12 +11,27 @@ const HEARTBEAT_MS = 45_000;
 
 /**
  * Publishes timer "studying" state for group live view (Supabase `user_study_presence`).
- * Clears when the timer stops; heartbeat keeps rows fresh while the app stays open.
+ * A paused timer shows as "on break"; clears when the timer stops; heartbeat keeps rows
+ * fresh while the app stays open.
+ *
+ * @param activeSince - From `useTimer`: start shifted by breaks already taken.
+ * @param activity - Subject and task shown to peers; the server drops it when the profile hides it.
  */
-export function useStudyPresenceSync(userId: string | null, isRunning: boolean) {
+export function useStudyPresenceSync(
+  userId: string | null,
+  isRunning: boolean,
+  isPaused: boolean = false,
+  activeSince: number | null = null,
+  activity: StudyPresenceActivity | null = null
+) {
   const userIdRef = useRef(userId);
   userIdRef.current = userId;
 
+  const subjectName = activity?.subjectName ?? null;
+  const subjectColor = activity?.subjectColor ?? null;
+  const subjectIcon = activity?.subjectIcon ?? null;
+  const taskTitle = activity?.taskTitle ?? null;
+
   useEffect(() => {
     if (!userId) return;
 
@@ -25,9 +42,19 @@ export function useStudyPresenceSync(userId: string | null, isRunning: boolean)
       return;
     }
 
-    void markStudySessionActive(userId).catch((err) => {
-      console.warn("study presence: start failed", err);
-    });
+    if (isPaused) {
+      void markStudySessionPaused(userId).catch((err) => {
+        console.warn("study presence: pause failed", err);
+      });
+    } else {
+      const since = activeSince != null ? new Date(activeSince) : undefined;
+      const current = subjectName || taskTitle
+        ? { subjectName, subjectColor, subjectIcon, taskTitle }
+        : null;
+      void markStudySessionActive(userId, since, current).catch((err) => {
+        console.warn("study presence: start failed", err);
+      });
+    }
 
     const interval = setInterval(() => {
       const u = userIdRef.current;
@@ -40,7 +67,7 @@ export function useStudyPresenceSync(userId: string | null, isRunning: boolean)
     return () => {
       clearInterval(interval);
     };
-  }, [userId, isRunning]);
+  }, [userId, isRunning, isPaused, activeSince, subjectName, subjectColor, subjectIcon, taskTitle]);
 
   useEffect(() => {
     const captured = userId;
@@ -0,0 +1,305 @@
+import type { IntervalPhase } from "@/hooks/useIntervalTimer";
+import {
+  endGroupStudyRoom,
+  fetchOpenGroupStudyRoom,
+  mapGroupStudyRoomRow,
+  setGroupStudyRoomPaused,
+  startGroupStudyRoom,
+  type GroupStudyRoom,
+  type GroupStudyRoomSettings,
+} from "@/utils/queries";
+import { supabase } from "@/utils/supabase";
+import { REALTIME_SUBSCRIBE_STATES } from "@supabase/supabase-js";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+
+export type StudyRoomPhase = IntervalPhase | "done";
+
+export interface StudyRoomSchedule {
+  phase: StudyRoomPhase;
+  /** 1-based index of the current (or last) work phase. */
+  cycle: number;
+  /** Length of the current phase; null for the open-ended focus phase and once done. */
+  phaseSeconds: number | null;
+  /** Schedule seconds since the current phase began. */
+  phaseElapsedSeconds: number;
+  remainingSeconds: number | null;
+  /** The host paused the room; the schedule clock is frozen. */
+  paused: boolean;
+}
+
+/**
+ * Where the room's shared clock is. Every client computes it from the same row, so phase
+ * boundaries line up without exchanging ticks.
+ */
+export function getStudyRoomSchedule(
+  room: GroupStudyRoom,
+  now: number = Date.now()
+): StudyRoomSchedule {
+  const clockEnd = room.pausedAt ? new Date(room.pausedAt).getTime() : now;
+  const elapsed = Math.max(
+    0,
+    Math.floor((clockEnd - new Date(room.startedAt).getTime()) / 1000) - room.pausedSeconds
+  );
+  const paused = room.pausedAt != null;
+
+  if (room.mode === "focus") {
+    return {
+      phase: "work",
+      cycle: 1,
+      phaseSeconds: null,
+      phaseElapsedSeconds: elapsed,
+      remainingSeconds: null,
+      paused,
+    };
+  }
+
+  const work = room.workMinutes * 60;
+  let offset = 0;
+  for (let cycle = 1; cycle <= room.cycles; cycle++) {
+    if (elapsed < offset + work) {
+      return {
+        phase: "work",
+        cycle,
+        phaseSeconds: work,
+        phaseElapsedSeconds: elapsed - offset,
+        remainingSeconds: offset + work - elapsed,
+        paused,
+      };
+    }
+    offset += work;
+    // No break after the last work phase
+    if (cycle === room.cycles) break;
+
+    const phase: IntervalPhase =
+      room.longBreakEvery > 0 && cycle % room.longBreakEvery === 0 ? "long_break" : "break";
+    const rest = (phase === "long_break" ? room.longBreakMinutes : room.breakMinutes) * 60;
+    if (elapsed < offset + rest) {
+      return {
+        phase,
+        cycle,
+        phaseSeconds: rest,
+        phaseElapsedSeconds: elapsed - offset,
+        remainingSeconds: offset + rest - elapsed,
+        paused,
+      };
+    }
+    offset += rest;
+  }
+
+  return {
+    phase: "done",
+    cycle: room.cycles,
+    phaseSeconds: null,
+    phaseElapsedSeconds: elapsed - offset,
+    remainingSeconds: null,
+    paused,
+  };
+}
+
+export interface StudyRoomParticipant {
+  userId: string;
+  username: string | null;
+  avatarUrl: string | null;
+}
+
+interface UseStudyRoomOptions {
+  groupId: string | null;
+  userId: string | null;
+  /** Set once the user joins: they are tracked in the room's Realtime presence. */
+  participant?: { username: string | null; avatarUrl: string | null } | null;
+}
+
+/**
+ * The open co-study room of one group. The row streams over Realtime (start, host pause /
+ * resume, end); participants are the Realtime presence of the joined clients.
+ */
+export function useStudyRoom({ groupId, userId, participant = null }: UseStudyRoomOptions) {
+  const [room, setRoom] = useState<GroupStudyRoom | null>(null);
+  const [participants, setParticipants] = useState<StudyRoomParticipant[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+  const [realtimeConnected, setRealtimeConnected] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+  // Ignore rooms that arrive after switching groups
+  const requestIdRef = useRef(0);
+
+  const joined = participant != null;
+  const participantRef = useRef(participant);
+  participantRef.current = participant;
+
+  const loadRoom = useCallback(async () => {
+    const requestId = ++requestIdRef.current;
+    if (!groupId || !userId) {
+      setRoom(null);
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await fetchOpenGroupStudyRoom(groupId);
+      if (requestId !== requestIdRef.current) return;
+      setRoom(data);
+    } catch (err) {
+      if (requestId !== requestIdRef.current) return;
+      console.error("Error loading study room", err);
+      setError(err instanceof Error ? err : new Error(String(err)));
+    } finally {
+      if (requestId === requestIdRef.current) setLoading(false);
+    }
+  }, [groupId, userId]);
+
+  useEffect(() => {
+    void loadRoom();
+  }, [loadRoom]);
+
+  useEffect(() => {
+    if (!groupId || !userId) return;
+
+    let hasSubscribed = false;
+
+    // Joined clients and onlookers (group live view) use separate topics: a topic maps to a
+    // single channel per client, and only joined clients publish presence
+    const channel = supabase
+      .channel(joined ? `study_room_${groupId}` : `study_room_watch_${groupId}`, {
+        config: { presence: { key: userId } },
+      })
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "group_study_rooms",
+          filter: `group_id=eq.${groupId}`,
+        },
+        (payload) => {
+          if (payload.eventType === "DELETE") return;
+          const next = mapGroupStudyRoomRow(payload.new);
+          setRoom((current) => {
+            if (next.endedAt) return current?.id === next.id ? null : current;
+            return next;
+          });
+        }
+      );
+
+    if (joined) {
+      channel.on("presence", { event: "sync" }, () => {
+        const state = channel.presenceState<{ username: string | null; avatar_url: string | null }>();
+        setParticipants(
+          Object.entries(state).map(([key, metas]) => ({
+            userId: key,
+            username: metas[0]?.username ?? null,
+            avatarUrl: metas[0]?.avatar_url ?? null,
+          }))
+        );
+      });
+    }
+
+    channel.subscribe((status) => {
+      if (status === REALTIME_SUBSCRIBE_STATES.SUBSCRIBED) {
+        setRealtimeConnected(true);
+        if (joined) {
+          void channel.track({
+            username: participantRef.current?.username ?? null,
+            avatar_url: participantRef.current?.avatarUrl ?? null,
+          });
+        }
+        // Catch up on changes missed while the channel was down
+        if (hasSubscribed) void loadRoom();
+        hasSubscribed = true;
+      } else {
+        setRealtimeConnected(false);
+      }
+    });
+
+    return () => {
+      setRealtimeConnected(false);
+      setParticipants([]);
+      supabase.removeChannel(channel);
+    };
+  }, [groupId, userId, joined, loadRoom]);
+
+  // Schedule clock; nothing moves while there is no room or the host paused it
+  useEffect(() => {
+    setNow(Date.now());
+    if (!room || room.pausedAt) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [room]);
+
+  const schedule = useMemo(
+    () => (room ? getStudyRoomSchedule(room, now) : null),
+    [room, now]
+  );
+
+  const isHost = !!room && !!userId && room.hostId === userId;
+
+  const handleStartRoom = useCallback(
+    async (settings: GroupStudyRoomSettings): Promise<GroupStudyRoom> => {
+      if (!userId) {
+        throw new Error("User not authenticated");
+      }
+      if (!groupId) {
+        throw new Error("Group is required");
+      }
+
+      try {
+        const created = await startGroupStudyRoom(groupId, settings);
+        setRoom(created);
+        return created;
+      } catch (err) {
+        console.error("Error starting study room", err);
+        throw err;
+      }
+    },
+    [groupId, userId]
+  );
+
+  const handleSetPaused = useCallback(
+    async (paused: boolean): Promise<void> => {
+      if (!room) return;
+      try {
+        setRoom(await setGroupStudyRoomPaused(room.id, paused));
+      } catch (err) {
+        console.error("Error pausing study room", err);
+        throw err;
+      }
+    },
+    [room]
+  );
+
+  const handlePauseRoom = useCallback(() => handleSetPaused(true), [handleSetPaused]);
+
+  const handleResumeRoom = useCallback(() => handleSetPaused(false), [handleSetPaused]);
+
+  const handleEndRoom = useCallback(async (): Promise<void> => {
+    if (!room) return;
+    try {
+      await endGroupStudyRoom(room.id);
+      setRoom(null);
+    } catch (err) {
+      console.error("Error ending study room", err);
+      throw err;
+    }
+  }, [room]);
+
+  // The host closes a finished Pomodoro room for everyone
+  useEffect(() => {
+    if (!isHost || schedule?.phase !== "done") return;
+    handleEndRoom().catch(() => {});
+  }, [isHost, schedule?.phase, handleEndRoom]);
+
+  return {
+    room,
+    schedule,
+    participants,
+    isHost,
+    loading,
+    error,
+    realtimeConnected,
+    startRoom: handleStartRoom,
+    pauseRoom: handlePauseRoom,
+    resumeRoom: handleResumeRoom,
+    endRoom: handleEndRoom,
+    refetch: loadRoom,
+  };
+}
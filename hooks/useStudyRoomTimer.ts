@@ -0,0 +1,133 @@
+import type { StudyRoomPhase, StudyRoomSchedule } from "@/hooks/useStudyRoom";
+import type { TimerStopResult, UseTimerReturn } from "@/hooks/useTimer";
+import { useCallback, useEffect, useRef } from "react";
+
+export interface UseStudyRoomTimerOptions {
+  /** The screen's `useTimer`; work phases run (and are logged) through it. */
+  timer: UseTimerReturn;
+  /** Shared schedule of the joined room; null when not in a room or once it closed. */
+  schedule: StudyRoomSchedule | null;
+  /** The participant's own subject / task for the sessions logged during work phases. */
+  subjectId: string | null;
+  taskId: string | null;
+  /** Fired when the room moves to another phase while joined (not on join). */
+  onPhaseChange?: (phase: StudyRoomPhase, cycle: number) => void;
+}
+
+/**
+ * Makes `useTimer` follow a co-study room: a session runs during each work phase, pauses with
+ * the host and is logged when the phase (or the room) ends. Breaks are not logged.
+ */
+export function useStudyRoomTimer({
+  timer,
+  schedule,
+  subjectId,
+  taskId,
+  onPhaseChange,
+}: UseStudyRoomTimerOptions) {
+  const {
+    isRunning,
+    isPaused,
+    activeSession,
+    start: timerStart,
+    stop: timerStop,
+    pause: timerPause,
+    resume: timerResume,
+  } = timer;
+  const busyRef = useRef(false);
+  // Only sessions this hook started are stopped by it
+  const drivingRef = useRef(false);
+  // Work phase the driven session belongs to, and the active seconds left in it at start
+  const drivenCycleRef = useRef<number | null>(null);
+  const drivenMaxSecondsRef = useRef<number | null>(null);
+  const phaseKeyRef = useRef<string | null>(null);
+
+  const stopDriven = useCallback(async (): Promise<TimerStopResult | null> => {
+    if (!drivingRef.current || !activeSession) return null;
+    drivingRef.current = false;
+    busyRef.current = true;
+    try {
+      // The phase may have ended while the app was in background: log up to its end only
+      return await timerStop(activeSession.subjectId, activeSession.taskId, {
+        maxSeconds: drivenMaxSecondsRef.current ?? undefined,
+      });
+    } finally {
+      busyRef.current = false;
+    }
+  }, [activeSession, timerStop]);
+
+  const phase = schedule?.phase ?? null;
+  const cycle = schedule?.cycle ?? null;
+
+  // Keyed on phase + cycle so it fires once per phase, not on every clock tick
+  useEffect(() => {
+    const key = phase ? `${phase}:${cycle}` : null;
+    const previous = phaseKeyRef.current;
+    phaseKeyRef.current = key;
+    if (phase && cycle != null && previous && key !== previous) {
+      onPhaseChange?.(phase, cycle);
+    }
+  }, [phase, cycle, onPhaseChange]);
+
+  useEffect(() => {
+    if (busyRef.current) return;
+
+    if (!schedule) {
+      // Left the room or it was closed: log what was studied so far
+      if (isRunning) void stopDriven();
+      return;
+    }
+
+    const working = schedule.phase === "work";
+
+    if (working && !isRunning) {
+      if (!subjectId || schedule.paused) return;
+      const maxSeconds =
+        schedule.phaseSeconds != null
+          ? Math.max(1, schedule.phaseSeconds - schedule.phaseElapsedSeconds)
+          : null;
+      busyRef.current = true;
+      void timerStart(subjectId, taskId, { maxSeconds })
+        .then((started) => {
+          drivingRef.current = started;
+          drivenCycleRef.current = schedule.cycle;
+          drivenMaxSecondsRef.current = maxSeconds;
+        })
+        .finally(() => {
+          busyRef.current = false;
+        });
+      return;
+    }
+
+    if (working && isRunning && drivingRef.current) {
+      // A whole break went by in background: log the earlier work phase, the next pass
+      // starts a session for this one
+      if (drivenCycleRef.current !== schedule.cycle) {
+        void stopDriven();
+        return;
+      }
+      if (schedule.paused && !isPaused) timerPause();
+      else if (!schedule.paused && isPaused) timerResume();
+      return;
+    }
+
+    if (!working && isRunning) {
+      void stopDriven();
+    }
+  }, [
+    schedule,
+    isRunning,
+    isPaused,
+    subjectId,
+    taskId,
+    timerStart,
+    timerPause,
+    timerResume,
+    stopDriven,
+  ]);
+
+  return {
+    /** Stops and logs the running room session, e.g. when leaving. */
+    stop: stopDriven,
+  };
+}
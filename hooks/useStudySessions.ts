@@ -0,0 +1,128 @@
+import {
+  deleteStudySession,
+  fetchRecentSessions,
+  logSession,
+  updateStudySession,
+  type StudySession,
+} from "@/utils/queries";
+import { generateClientId } from "@/utils/sessionOutbox";
+import { useCallback, useEffect, useState } from "react";
+
+export interface StudySessionInput {
+  subjectId: string;
+  taskId: string | null;
+  startedAt: Date;
+  endedAt: Date;
+  notes: string;
+}
+
+interface UseStudySessionsOptions {
+  userId: string | null;
+  limit?: number;
+  autoLoad?: boolean;
+}
+
+/** Recent sessions plus manual add / edit / delete of past sessions. */
+export function useStudySessions({
+  userId,
+  limit = 5,
+  autoLoad = true,
+}: UseStudySessionsOptions) {
+  const [sessions, setSessions] = useState<StudySession[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const loadSessions = useCallback(async () => {
+    if (!userId) {
+      setSessions([]);
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    try {
+      setSessions(await fetchRecentSessions(userId, limit));
+    } catch (err) {
+      console.error("Error loading sessions", err);
+      setError(err instanceof Error ? err : new Error(String(err)));
+    } finally {
+      setLoading(false);
+    }
+  }, [userId, limit]);
+
+  useEffect(() => {
+    if (autoLoad) void loadSessions();
+  }, [autoLoad, loadSessions]);
+
+  const handleCreateSession = useCallback(
+    async (input: StudySessionInput): Promise<void> => {
+      if (!userId) {
+        throw new Error("User not authenticated");
+      }
+
+      try {
+        await logSession(userId, input.subjectId, input.startedAt, input.endedAt, {
+          clientId: generateClientId(),
+          taskId: input.taskId,
+          notes: input.notes,
+        });
+        await loadSessions();
+      } catch (err) {
+        console.error("Error logging past session", err);
+        throw err;
+      }
+    },
+    [userId, loadSessions]
+  );
+
+  const handleUpdateSession = useCallback(
+    async (sessionId: string, input: StudySessionInput): Promise<void> => {
+      if (!userId) {
+        throw new Error("User not authenticated");
+      }
+
+      try {
+        const saved = await updateStudySession(sessionId, userId, input);
+        if (saved) {
+          setSessions((current) => current.map((s) => (s.id === sessionId ? saved : s)));
+        }
+      } catch (err) {
+        console.error("Error updating session", err);
+        throw err;
+      }
+    },
+    [userId]
+  );
+
+  const handleDeleteSession = useCallback(
+    async (sessionId: string): Promise<void> => {
+      if (!userId) {
+        throw new Error("User not authenticated");
+      }
+
+      let previous: StudySession[] = [];
+      setSessions((current) => {
+        previous = current; // Capture for rollback
+        return current.filter((s) => s.id !== sessionId);
+      });
+
+      try {
+        await deleteStudySession(sessionId, userId);
+      } catch (err) {
+        console.error("Error deleting session", err);
+        setSessions(previous);
+        throw err;
+      }
+    },
+    [userId]
+  );
+
+  return {
+    sessions,
+    loading,
+    error,
+    createSession: handleCreateSession,
+    updateSession: handleUpdateSession,
+    deleteSession: handleDeleteSession,
+    refetch: loadSessions,
+  };
+}
@@ -0,0 +1,83 @@
+import type { Task } from "@/utils/queries";
+import { useEffect, useRef, useState } from "react";
+
+export interface UseTaskCountdownOptions {
+  /** Task selected on the Focus screen; countdown is only available when it has planned minutes. */
+  task: Task | null;
+  enabled: boolean;
+  /** Active seconds of the running session (from `useTimer`). */
+  elapsedSeconds: number;
+  isRunning: boolean;
+  /** Fired once per session when the remaining planned time reaches zero. */
+  onTimeUp?: () => void;
+}
+
+export interface UseTaskCountdownReturn {
+  /** The task has planned minutes, so the countdown mode can be offered. */
+  available: boolean;
+  active: boolean;
+  /** Planned time left when the session started. */
+  targetSeconds: number;
+  /** Seconds left; 0 once in overtime. */
+  remainingSeconds: number;
+  overtimeSeconds: number;
+  isOvertime: boolean;
+}
+
+const remainingPlannedSeconds = (task: Task | null): number =>
+  task?.plannedMinutes ? Math.max(0, task.plannedMinutes * 60 - task.loggedSeconds) : 0;
+
+/**
+ * Counts down from the selected task's remaining planned time (`plannedMinutes*60 - loggedSeconds`)
+ * on top of the regular timer, then keeps going as overtime.
+ */
+export function useTaskCountdown({
+  task,
+  enabled,
+  elapsedSeconds,
+  isRunning,
+  onTimeUp,
+}: UseTaskCountdownOptions): UseTaskCountdownReturn {
+  const available = !!task?.plannedMinutes && task.plannedMinutes > 0;
+  const active = enabled && available;
+
+  // Freeze the target when the session starts: task rows are refetched while the timer runs
+  const [startTarget, setStartTarget] = useState<number | null>(null);
+  const warnedRef = useRef(false);
+  const onTimeUpRef = useRef(onTimeUp);
+  onTimeUpRef.current = onTimeUp;
+
+  useEffect(() => {
+    if (isRunning && active) {
+      setStartTarget((prev) => {
+        if (prev != null) return prev;
+        const target = remainingPlannedSeconds(task);
+        // Task already over its plan: start in overtime without a warning
+        warnedRef.current = target === 0;
+        return target;
+      });
+    } else if (!isRunning) {
+      setStartTarget(null);
+      warnedRef.current = false;
+    }
+  }, [isRunning, active, task]);
+
+  const targetSeconds = startTarget ?? remainingPlannedSeconds(task);
+  const delta = targetSeconds - (isRunning ? elapsedSeconds : 0);
+  const isOvertime = active && isRunning && delta <= 0;
+
+  useEffect(() => {
+    if (!isOvertime || warnedRef.current) return;
+    warnedRef.current = true;
+    onTimeUpRef.current?.();
+  }, [isOvertime]);
+
+  return {
+    available,
+    active,
+    targetSeconds,
+    remainingSeconds: Math.max(0, delta),
+    overtimeSeconds: Math.max(0, -delta),
+    isOvertime,
+  };
+}
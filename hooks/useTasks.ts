@@ -3,20 +3,113 @@ import {
   createTask,
   deleteTask,
   fetchTasks,
+  generateRecurringTaskInstances,
+  replaceTaskSubtasks,
   Task,
+  TaskPriority,
+  TaskRecurrence,
   TaskStatus,
+  TaskSubtask,
   updateTask,
 } from "@/utils/queries";
+import { cancelTaskReminder, syncTaskReminders } from "@/utils/taskReminders";
 import { getTodayIso } from "@/utils/time";
 
+const STATUS_ORDER: Record<TaskStatus, number> = {
+  "in-progress": 0,
+  planned: 1,
+  done: 2,
+};
+
+const PRIORITY_ORDER: Record<TaskPriority, number> = {
+  high: 0,
+  medium: 1,
+  low: 2,
+};
+
+/** Not done and past its deadline (a template's deadline belongs to its instances). */
+export function isTaskOverdue(
+  task: Pick<Task, "status" | "dueAt" | "recurrence">,
+  now: number = Date.now()
+): boolean {
+  return (
+    task.status !== "done" &&
+    !task.recurrence &&
+    !!task.dueAt &&
+    new Date(task.dueAt).getTime() < now
+  );
+}
+
+export interface TaskProgress {
+  /** 0..1, shown by the task card bar. */
+  ratio: number;
+  checklistDone: number;
+  checklistTotal: number;
+  /** Logged time against `plannedMinutes`; null without a plan. */
+  timeRatio: number | null;
+}
+
+/**
+ * Progress from the checklist and the logged time: the average of both when the task has
+ * steps and a planned duration, otherwise whichever of the two it has.
+ */
+export function getTaskProgress(
+  task: Pick<Task, "loggedSeconds" | "plannedMinutes" | "subtasks">
+): TaskProgress {
+  const checklistTotal = task.subtasks.length;
+  const checklistDone = task.subtasks.filter((s) => s.done).length;
+  const planned = task.plannedMinutes ?? 0;
+  const timeRatio = planned > 0 ? Math.min(1, task.loggedSeconds / (planned * 60)) : null;
+  const checklistRatio = checklistTotal > 0 ? checklistDone / checklistTotal : null;
+
+  const ratio =
+    checklistRatio != null && timeRatio != null
+      ? (checklistRatio + timeRatio) / 2
+      : (checklistRatio ?? timeRatio ?? 0);
+
+  return { ratio, checklistDone, checklistTotal, timeRatio };
+}
+
+/**
+ * To-do list order: done tasks last, overdue ones first, then priority (high first), nearest
+ * deadline (tasks without one after), in-progress before planned and newest first.
+ */
+export function compareTasks(a: Task, b: Task, now: number = Date.now()): number {
+  const done = Number(a.status === "done") - Number(b.status === "done");
+  if (done !== 0) return done;
+
+  const overdue = Number(isTaskOverdue(b, now)) - Number(isTaskOverdue(a, now));
+  if (overdue !== 0) return overdue;
+
+  const priority = PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority];
+  if (priority !== 0) return priority;
+
+  const aDue = a.dueAt ? new Date(a.dueAt).getTime() : Infinity;
+  const bDue = b.dueAt ? new Date(b.dueAt).getTime() : Infinity;
+  if (aDue !== bDue) return aDue < bDue ? -1 : 1;
+
+  const status = STATUS_ORDER[a.status] - STATUS_ORDER[b.status];
+  if (status !== 0) return status;
+
+  return (b.createdAt ?? "").localeCompare(a.createdAt ?? "");
+}
+
 export interface UseTasksOptions {
   userId: string | null;
   autoLoad?: boolean; // Whether to automatically load tasks on mount
   filterStatus?: TaskStatus[]; // Filter tasks by status
+  /**
+   * Schedules the device reminders from this list. Only one screen passes it (the tasks tab, which
+   * refetches on focus): other lists can be stale and would cancel reminders they do not know.
+   */
+  syncReminders?: boolean;
 }
 
 export interface UseTasksReturn {
+  /** Tasks to work on, recurring instances included; templates are in `templates`. */
   tasks: Task[];
+  /** Recurring task templates (`recurrence` set). */
+  templates: Task[];
   loading: boolean;
   error: Error | null;
   createTask: (payload: {
@@ -26,6 +119,10 @@ export interface UseTasksReturn {
     status?: TaskStatus;
     loggedSeconds?: number;
     scheduledFor?: string | null;
+    dueAt?: string | null;
+    priority?: TaskPriority;
+    reminderMinutes?: number | null;
+    recurrence?: TaskRecurrence | null;
   }) => Promise<Task | null>;
   updateTask: (
     taskId: string,
@@ -36,9 +133,17 @@ export interface UseTasksReturn {
       status: TaskStatus;
       loggedSeconds: number;
       scheduledFor: string | null;
+      dueAt: string | null;
+      priority: TaskPriority;
+      reminderMinutes: number | null;
+      recurrence: TaskRecurrence | null;
     }>
   ) => Promise<Task | null>;
   deleteTask: (taskId: string) => Promise<void>;
+  setSubtasks: (
+    taskId: string,
+    subtasks: { id?: string | null; title: string; done: boolean }[]
+  ) => Promise<TaskSubtask[]>;
   resumeTask: (task: Task) => Promise<void>;
   completeTask: (task: Task, minutesOverride?: number) => Promise<void>;
   refetch: () => Promise<void>;
@@ -50,11 +155,14 @@ export function useTasks({
   userId,
   autoLoad = true,
   filterStatus,
+  syncReminders = false,
 }: UseTasksOptions): UseTasksReturn {
   const [tasks, setTasks] = useState<Task[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<Error | null>(null);
   const lastTasksRef = useRef<Task[]>([]);
+  // Reminders are only synced from a list loaded for this user, never the initial empty one
+  const loadedUserIdRef = useRef<string | null>(null);
 
   const loadTasks = useCallback(async () => {
     if (!userId) {
@@ -66,7 +174,12 @@ export function useTasks({
     setLoading(true);
     setError(null);
     try {
+      // A failed generation still shows the list; the instances come with the next load
+      await generateRecurringTaskInstances(getTodayIso()).catch((err) => {
+        console.error("Error generating recurring tasks", err);
+      });
       const data = await fetchTasks(userId);
+      loadedUserIdRef.current = userId;
       setTasks(data ?? []);
     } catch (err) {
       const error = err instanceof Error ? err : new Error(String(err));
@@ -83,6 +196,12 @@ export function useTasks({
     }
   }, [loadTasks, autoLoad]);
 
+  // Local reminders follow every change to deadlines, reminders and completion
+  useEffect(() => {
+    if (!syncReminders || !userId || loadedUserIdRef.current !== userId) return;
+    void syncTaskReminders(tasks);
+  }, [tasks, userId, syncReminders]);
+
   const handleCreateTask = useCallback(
     async (payload: {
       title: string;
@@ -91,6 +210,10 @@ export function useTasks({
       status?: TaskStatus;
       loggedSeconds?: number;
       scheduledFor?: string | null;
+      dueAt?: string | null;
+      priority?: TaskPriority;
+      reminderMinutes?: number | null;
+      recurrence?: TaskRecurrence | null;
     }): Promise<Task | null> => {
       if (!userId) {
         throw new Error("User not authenticated");
@@ -102,6 +225,10 @@ export function useTasks({
           scheduledFor: payload.scheduledFor ?? getTodayIso(),
         });
         setTasks((prev) => [saved, ...prev]);
+        // A new series starting today gets its first instance right away
+        if (saved.recurrence && (await generateRecurringTaskInstances(getTodayIso())) > 0) {
+          setTasks(await fetchTasks(userId));
+        }
         return saved;
       } catch (err) {
         console.error("Error creating task", err);
@@ -121,6 +248,10 @@ export function useTasks({
         status: TaskStatus;
         loggedSeconds: number;
         scheduledFor: string | null;
+        dueAt: string | null;
+        priority: TaskPriority;
+        reminderMinutes: number | null;
+        recurrence: TaskRecurrence | null;
       }>
     ): Promise<Task | null> => {
       if (!userId) {
@@ -161,6 +292,7 @@ export function useTasks({
 
       try {
         await deleteTask(taskId);
+        void cancelTaskReminder(taskId);
       } catch (err) {
         console.error("Error deleting task", err);
         // Rollback on error
@@ -171,6 +303,29 @@ export function useTasks({
     [userId]
   );
 
+  const handleSetSubtasks = useCallback(
+    async (
+      taskId: string,
+      subtasks: { id?: string | null; title: string; done: boolean }[]
+    ): Promise<TaskSubtask[]> => {
+      if (!userId) {
+        throw new Error("User not authenticated");
+      }
+
+      try {
+        const saved = await replaceTaskSubtasks(taskId, subtasks);
+        setTasks((current) =>
+          current.map((t) => (t.id === taskId ? { ...t, subtasks: saved } : t))
+        );
+        return saved;
+      } catch (err) {
+        console.error("Error saving subtasks", err);
+        throw err;
+      }
+    },
+    [userId]
+  );
+
   const handleResumeTask = useCallback(
     async (task: Task): Promise<void> => {
       if (!userId) {
@@ -233,6 +388,7 @@ export function useTasks({
           status: "done",
           loggedSeconds: targetSeconds,
         });
+        void cancelTaskReminder(task.id);
 
         if (saved) {
           setTasks((current) =>
@@ -252,32 +408,36 @@ export function useTasks({
     [userId]
   );
 
+  const { workTasks, templates } = useMemo(
+    () => ({
+      workTasks: tasks.filter((t) => !t.recurrence),
+      templates: tasks.filter((t) => !!t.recurrence),
+    }),
+    [tasks]
+  );
+
   // Filtered and ordered tasks
   const orderedTasks = useMemo(() => {
-    let filtered = tasks;
+    let filtered = workTasks;
 
     // Apply status filter if provided
     if (filterStatus && filterStatus.length > 0) {
       filtered = filtered.filter((t) => filterStatus.includes(t.status));
     }
 
-    // Order by status priority: in-progress > planned > done
-    const priority: Record<TaskStatus, number> = {
-      "in-progress": 0,
-      planned: 1,
-      done: 2,
-    };
-
-    return filtered.sort((a, b) => priority[a.status] - priority[b.status]);
-  }, [tasks, filterStatus]);
+    const now = Date.now();
+    return [...filtered].sort((a, b) => compareTasks(a, b, now));
+  }, [workTasks, filterStatus]);
 
   return {
-    tasks,
+    tasks: workTasks,
+    templates,
     loading,
     error,
     createTask: handleCreateTask,
     updateTask: handleUpdateTask,
     deleteTask: handleDeleteTask,
+    setSubtasks: handleSetSubtasks,
     resumeTask: handleResumeTask,
     completeTask: handleCompleteTask,
     refetch: loadTasks,
@@ -1,68 +1,205 @@
-import { logSession } from "@/utils/queries";
+import {
+  clearActiveTimerSession,
+  LONG_SESSION_RESTORE_SECONDS,
+  loadActiveTimerSession,
+  MAX_SESSION_SECONDS,
+  persistedSessionActiveSince,
+  persistedSessionActiveUntil,
+  persistedSessionElapsedSeconds,
+  saveActiveTimerSession,
+  type PersistedTimerSession,
+  type TimerBreak,
+  type TimerSessionMode,
+} from "@/utils/activeTimerSession";
+import { logSession, type SessionBreak } from "@/utils/queries";
+import {
+  enqueueSession,
+  flushSessionOutbox,
+  generateClientId,
+  isPermanentSessionError,
+} from "@/utils/sessionOutbox";
 import { formatTime as formatTimeUtil } from "@/utils/time";
 import { useCallback, useEffect, useRef, useState } from "react";
+import { AppState } from "react-native";
+
+/** How often the running session's `lastSeenAt` is written to device storage. */
+const PERSIST_HEARTBEAT_MS = 30_000;
+
+export type TimerRestoreChoice = "save" | "trim" | "discard";
+
+/** Long session found on device at mount; nothing is logged until the user picks a choice. */
+export interface PendingTimerRestore {
+  session: PersistedTimerSession;
+  /** Active seconds up to now. */
+  elapsedSeconds: number;
+  /** Active seconds up to the last heartbeat before the app went away. */
+  trimmedSeconds: number;
+}
+
+export interface TimerStopResult {
+  saved: boolean;
+  /** Save failed but the session is in the offline outbox and will be retried. */
+  queued?: boolean;
+  reason?: string;
+}
+
+export interface TimerStartOptions {
+  /** Stored with the running session so a restore brings back the same timer. */
+  mode?: TimerSessionMode;
+  intervalCycle?: number | null;
+  /** Phase length in active seconds; a restore never logs more than this. */
+  maxSeconds?: number | null;
+}
+
+export interface TimerStopOptions {
+  /** Cap on logged active seconds (e.g. an interval phase overrun while the app was in background). */
+  maxSeconds?: number;
+  /** Stored on the session (`study_sessions.notes`). */
+  notes?: string;
+}
 
 export interface UseTimerOptions {
   userId: string | null;
-  onSessionComplete?: (sessionId: string, seconds: number) => void;
+  onSessionComplete?: (
+    sessionId: string,
+    seconds: number,
+    subjectId: string,
+    taskId: string | null
+  ) => void;
   onError?: (error: Error) => void;
 }
 
 export interface UseTimerReturn {
   seconds: number;
+  /** A session is in progress (counting or paused). */
   isRunning: boolean;
-  start: () => Promise<boolean>;
-  stop: (subjectId: string, taskId?: string | null) => Promise<{ saved: boolean; reason?: string }>;
+  isPaused: boolean;
+  /** Epoch ms such that `now - activeSince` is the active time; null when idle or paused. */
+  activeSince: number | null;
+  /** Subject / task of the running session (also set after a silent restore); null when idle. */
+  activeSession: PersistedTimerSession | null;
+  pendingRestore: PendingTimerRestore | null;
+  start: (
+    subjectId: string,
+    taskId?: string | null,
+    options?: TimerStartOptions
+  ) => Promise<boolean>;
+  pause: () => boolean;
+  resume: () => boolean;
+  stop: (
+    subjectId: string,
+    taskId?: string | null,
+    options?: TimerStopOptions
+  ) => Promise<TimerStopResult>;
+  resolveRestore: (choice: TimerRestoreChoice) => Promise<TimerStopResult>;
   reset: () => void;
   formattedTime: { hours: string; mins: string; secs: string };
 }
 
+const toSessionBreaks = (breaks: TimerBreak[]): SessionBreak[] =>
+  breaks.map((b) => ({
+    startedAt: new Date(b.startedAt),
+    endedAt: new Date(b.endedAt),
+  }));
+
 export function useTimer({
   userId,
   onSessionComplete,
   onError,
 }: UseTimerOptions): UseTimerReturn {
   const [isRunning, setIsRunning] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
   const [seconds, setSeconds] = useState(0);
-  const startTimeRef = useRef<number | null>(null);
+  const [activeSession, setActiveSession] = useState<PersistedTimerSession | null>(null);
+  const [pendingRestore, setPendingRestore] = useState<PendingTimerRestore | null>(null);
+  const sessionRef = useRef<PersistedTimerSession | null>(null);
+
+  // Restore a session that was running when the app was killed / reloaded
+  useEffect(() => {
+    if (!userId) return;
+    let cancelled = false;
+
+    (async () => {
+      const stored = await loadActiveTimerSession(userId);
+      if (cancelled || !stored || sessionRef.current) return;
+
+      const now = Date.now();
+      const elapsed = persistedSessionElapsedSeconds(stored, now);
+      if (elapsed >= LONG_SESSION_RESTORE_SECONDS) {
+        setPendingRestore({
+          session: stored,
+          elapsedSeconds: elapsed,
+          trimmedSeconds: persistedSessionElapsedSeconds(stored, stored.lastSeenAt),
+        });
+        return;
+      }
+
+      const resumed = { ...stored, lastSeenAt: now };
+      sessionRef.current = resumed;
+      void saveActiveTimerSession(userId, resumed);
+      setActiveSession(resumed);
+      setSeconds(elapsed);
+      setIsPaused(resumed.pausedAt != null);
+      setIsRunning(true);
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
 
   // Timer engine: sync elapsed time every second when running
   useEffect(() => {
     let interval: ReturnType<typeof setInterval> | null = null;
 
     const syncElapsed = () => {
-      if (!startTimeRef.current) return;
-      const elapsed = Math.max(0, Math.floor((Date.now() - startTimeRef.current) / 1000));
-      setSeconds(elapsed);
+      if (!sessionRef.current) return;
+      setSeconds(persistedSessionElapsedSeconds(sessionRef.current));
     };
 
-    if (isRunning && startTimeRef.current) {
+    if (isRunning && !isPaused && sessionRef.current) {
       syncElapsed();
       interval = setInterval(syncElapsed, 1000);
     }
     return () => {
       if (interval) clearInterval(interval);
     };
-  }, [isRunning]);
+  }, [isRunning, isPaused]);
 
-  const start = useCallback(async (): Promise<boolean> => {
-    if (isRunning) return false;
+  // Keep `lastSeenAt` fresh on device so a restore can trim to the last known activity
+  useEffect(() => {
+    if (!isRunning || !userId) return;
 
-    startTimeRef.current = Date.now();
-    setSeconds(0);
-    setIsRunning(true);
-    return true;
-  }, [isRunning]);
+    const touch = () => {
+      const current = sessionRef.current;
+      if (!current) return;
+      const next = { ...current, lastSeenAt: Date.now() };
+      sessionRef.current = next;
+      void saveActiveTimerSession(userId, next);
+    };
 
-  const stop = useCallback(
-    async (subjectId: string, taskId?: string | null): Promise<{ saved: boolean; reason?: string }> => {
-      const finalSeconds = seconds;
-      const safeSeconds = Math.max(finalSeconds, 1);
-      const endTime = new Date();
-      const startTime = new Date(endTime.getTime() - safeSeconds * 1000);
+    const interval = setInterval(touch, PERSIST_HEARTBEAT_MS);
+    const subscription = AppState.addEventListener("change", (nextState) => {
+      if (nextState !== "active") touch();
+    });
+
+    return () => {
+      clearInterval(interval);
+      subscription.remove();
+    };
+  }, [isRunning, userId]);
 
-      setIsRunning(false);
-      startTimeRef.current = null;
+  const saveSession = useCallback(
+    async (
+      subjectId: string,
+      taskId: string | null,
+      activeSeconds: number,
+      endTime: Date,
+      breaks: TimerBreak[],
+      notes = ""
+    ): Promise<TimerStopResult> => {
+      const safeSeconds = Math.max(activeSeconds, 1);
+      const startTime = new Date(endTime.getTime() - safeSeconds * 1000);
 
       if (!userId) {
         const error = new Error("User not authenticated");
@@ -73,9 +210,13 @@ export function useTimer({
         };
       }
 
+      const clientId = generateClientId();
       try {
         const saved = await logSession(userId, subjectId, startTime, endTime, {
-          taskId: taskId ?? null,
+          clientId,
+          taskId,
+          notes,
+          breaks: toSessionBreaks(breaks),
         });
 
         console.log("Session saved", {
@@ -86,36 +227,216 @@ export function useTimer({
         });
 
         if (saved?.id) {
-          onSessionComplete?.(saved.id, safeSeconds);
+          onSessionComplete?.(saved.id, safeSeconds, subjectId, taskId);
         }
 
+        // We are online again: send anything left from earlier failures
+        void flushSessionOutbox(userId);
+
         return { saved: true };
       } catch (err) {
         const error = err instanceof Error ? err : new Error(String(err));
-        console.error("Error saving session", error);
-        onError?.(error);
-        return {
-          saved: false,
-          reason: "save_failed",
-        };
+        // The server rejected the session itself: queueing it would only drop it on the next flush
+        if (isPermanentSessionError(err)) {
+          console.error("Session rejected by server", err);
+          return {
+            saved: false,
+            reason: "rejected",
+          };
+        }
+        console.warn("Error saving session, queued for retry", error);
+        try {
+          await enqueueSession(
+            userId,
+            {
+              clientId,
+              subjectId,
+              taskId,
+              startedAt: startTime.toISOString(),
+              endedAt: endTime.toISOString(),
+              notes,
+              breaks: breaks.map((b) => ({
+                startedAt: new Date(b.startedAt).toISOString(),
+                endedAt: new Date(b.endedAt).toISOString(),
+              })),
+            },
+            error.message
+          );
+          return { saved: true, queued: true, reason: "queued" };
+        } catch (queueErr) {
+          console.error("Error saving session", queueErr);
+          onError?.(error);
+          return {
+            saved: false,
+            reason: "save_failed",
+          };
+        }
       }
     },
-    [userId, seconds, onSessionComplete, onError]
+    [userId, onSessionComplete, onError]
   );
 
-  const reset = useCallback(() => {
+  const clearSession = useCallback(() => {
+    sessionRef.current = null;
+    setActiveSession(null);
     setIsRunning(false);
-    startTimeRef.current = null;
+    setIsPaused(false);
+    if (userId) void clearActiveTimerSession(userId);
+  }, [userId]);
+
+  const start = useCallback(
+    async (
+      subjectId: string,
+      taskId?: string | null,
+      options?: TimerStartOptions
+    ): Promise<boolean> => {
+      if (isRunning || pendingRestore) return false;
+
+      const now = Date.now();
+      const session: PersistedTimerSession = {
+        startedAt: now,
+        subjectId,
+        taskId: taskId ?? null,
+        pausedSeconds: 0,
+        pausedAt: null,
+        breaks: [],
+        lastSeenAt: now,
+        mode: options?.mode ?? "stopwatch",
+        intervalCycle: options?.intervalCycle ?? null,
+        maxSeconds: options?.maxSeconds ?? null,
+      };
+      sessionRef.current = session;
+      if (userId) void saveActiveTimerSession(userId, session);
+      setActiveSession(session);
+      setSeconds(0);
+      setIsRunning(true);
+      return true;
+    },
+    [isRunning, pendingRestore, userId]
+  );
+
+  const pause = useCallback((): boolean => {
+    const current = sessionRef.current;
+    if (!current || current.pausedAt != null) return false;
+
+    const now = Date.now();
+    const next = { ...current, pausedAt: now, lastSeenAt: now };
+    sessionRef.current = next;
+    if (userId) void saveActiveTimerSession(userId, next);
+    setActiveSession(next);
+    setSeconds(persistedSessionElapsedSeconds(next));
+    setIsPaused(true);
+    return true;
+  }, [userId]);
+
+  const resume = useCallback((): boolean => {
+    const current = sessionRef.current;
+    if (!current || current.pausedAt == null) return false;
+
+    const now = Date.now();
+    const pauseSeconds = Math.max(0, Math.floor((now - current.pausedAt) / 1000));
+    const next: PersistedTimerSession = {
+      ...current,
+      pausedSeconds: current.pausedSeconds + pauseSeconds,
+      pausedAt: null,
+      breaks: [...current.breaks, { startedAt: current.pausedAt, endedAt: now }],
+      lastSeenAt: now,
+    };
+    sessionRef.current = next;
+    if (userId) void saveActiveTimerSession(userId, next);
+    setActiveSession(next);
+    setIsPaused(false);
+    return true;
+  }, [userId]);
+
+  const stop = useCallback(
+    async (
+      subjectId: string,
+      taskId?: string | null,
+      options?: TimerStopOptions
+    ): Promise<TimerStopResult> => {
+      const current = sessionRef.current;
+      const elapsed = current ? persistedSessionElapsedSeconds(current) : seconds;
+      const finalSeconds =
+        options?.maxSeconds != null ? Math.min(elapsed, options.maxSeconds) : elapsed;
+      // Stopping during a break ends the session where the break began; a capped session
+      // ends when it reached the cap, not when the app noticed
+      const endTime =
+        current && finalSeconds < elapsed
+          ? persistedSessionActiveUntil(current, finalSeconds)
+          : (current?.pausedAt ?? Date.now());
+
+      clearSession();
+      return saveSession(
+        subjectId,
+        taskId ?? null,
+        finalSeconds,
+        new Date(endTime),
+        (current?.breaks ?? []).filter((b) => b.endedAt <= endTime),
+        options?.notes
+      );
+    },
+    [seconds, clearSession, saveSession]
+  );
+
+  const resolveRestore = useCallback(
+    async (choice: TimerRestoreChoice): Promise<TimerStopResult> => {
+      const pending = pendingRestore;
+      if (!pending) return { saved: false, reason: "nothing_to_restore" };
+
+      setPendingRestore(null);
+      clearSession();
+      setSeconds(0);
+
+      if (choice === "discard") {
+        return { saved: false, reason: "discarded" };
+      }
+
+      const { session } = pending;
+      const pausedAt = session.pausedAt ?? Number.POSITIVE_INFINITY;
+      const lastActiveAt =
+        choice === "trim"
+          ? Math.min(session.lastSeenAt, pausedAt)
+          : Math.min(Date.now(), pausedAt);
+      const elapsed = choice === "trim" ? pending.trimmedSeconds : pending.elapsedSeconds;
+      // The server refuses sessions over 24h (the UI only offers choices that fit) and an
+      // interval work phase never lasts longer than its length
+      const seconds = Math.min(elapsed, MAX_SESSION_SECONDS, session.maxSeconds ?? elapsed);
+      const endTime =
+        seconds < elapsed ? persistedSessionActiveUntil(session, seconds) : lastActiveAt;
+      return saveSession(
+        session.subjectId,
+        session.taskId,
+        seconds,
+        new Date(endTime),
+        session.breaks.filter((b) => b.endedAt <= endTime)
+      );
+    },
+    [pendingRestore, clearSession, saveSession]
+  );
+
+  const reset = useCallback(() => {
+    clearSession();
     setSeconds(0);
-  }, []);
+  }, [clearSession]);
 
   const formattedTime = formatTimeUtil(seconds);
 
+  const activeSince =
+    activeSession && !isPaused ? persistedSessionActiveSince(activeSession) : null;
+
   return {
     seconds,
     isRunning,
+    isPaused,
+    activeSince,
+    activeSession,
+    pendingRestore,
     start,
+    pause,
+    resume,
     stop,
+    resolveRestore,
     reset,
     formattedTime,
   };
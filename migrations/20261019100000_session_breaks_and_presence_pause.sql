@@ -0,0 +1,32 @@
+-- Pause / resume in the Focus timer.
+-- study_sessions.breaks: wall-clock pauses taken inside a single session. started_at / ended_at
+-- still span active time only (duration_seconds is generated from them), so totals, XP and
+-- streaks are unchanged; breaks are kept for history.
+-- user_study_presence.paused_at: set while the timer is paused so peers see "on break".
+
+BEGIN;
+
+-- ---------------------------------------------------------------------------
+-- 1) Session breaks
+-- ---------------------------------------------------------------------------
+ALTER TABLE public.study_sessions
+  ADD COLUMN IF NOT EXISTS breaks jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE public.study_sessions
+  DROP CONSTRAINT IF EXISTS study_sessions_breaks_is_array;
+ALTER TABLE public.study_sessions
+  ADD CONSTRAINT study_sessions_breaks_is_array CHECK (jsonb_typeof(breaks) = 'array');
+
+COMMENT ON COLUMN public.study_sessions.breaks IS
+  'Pauses inside the session: [{ "started_at": timestamptz, "ended_at": timestamptz }]. Not counted in duration_seconds.';
+
+-- ---------------------------------------------------------------------------
+-- 2) Presence: on break
+-- ---------------------------------------------------------------------------
+ALTER TABLE public.user_study_presence
+  ADD COLUMN IF NOT EXISTS paused_at timestamptz;
+
+COMMENT ON COLUMN public.user_study_presence.paused_at IS
+  'Set while the timer is paused (is_studying stays true). session_started_at is shifted by past breaks.';
+
+COMMIT;
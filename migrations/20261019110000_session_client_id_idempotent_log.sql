@@ -0,0 +1,94 @@
+-- Offline session outbox.
+-- Sessions that could not be saved are queued on device and retried later. Each one carries a
+-- client-generated id (study_sessions.client_id); log_study_session inserts the row and adds the
+-- time to the linked task in one transaction, and a retry of an already-stored session returns
+-- the existing row without counting the task seconds twice.
+
+BEGIN;
+
+-- ---------------------------------------------------------------------------
+-- 1) Idempotency key
+-- ---------------------------------------------------------------------------
+ALTER TABLE public.study_sessions
+  ADD COLUMN IF NOT EXISTS client_id uuid;
+
+CREATE UNIQUE INDEX IF NOT EXISTS study_sessions_user_client_id_key
+  ON public.study_sessions (user_id, client_id)
+  WHERE client_id IS NOT NULL;
+
+COMMENT ON COLUMN public.study_sessions.client_id IS
+  'Generated on device before the first save attempt; retries from the offline outbox reuse it.';
+
+-- ---------------------------------------------------------------------------
+-- 2) log_study_session: insert + task seconds, idempotent on client_id
+-- ---------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.log_study_session(
+  p_client_id uuid,
+  p_subject_id uuid,
+  p_task_id uuid,
+  p_started_at timestamptz,
+  p_ended_at timestamptz,
+  p_notes text DEFAULT '',
+  p_breaks jsonb DEFAULT '[]'::jsonb
+)
+RETURNS public.study_sessions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_user uuid := auth.uid();
+  v_row public.study_sessions;
+BEGIN
+  IF v_user IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_client_id IS NULL THEN
+    RAISE EXCEPTION 'client_id is required' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_ended_at <= p_started_at THEN
+    RAISE EXCEPTION 'Session must end after it starts' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.study_sessions (
+    user_id, subject_id, task_id, started_at, ended_at, notes, breaks, client_id
+  )
+  VALUES (
+    v_user, p_subject_id, p_task_id, p_started_at, p_ended_at,
+    COALESCE(p_notes, ''), COALESCE(p_breaks, '[]'::jsonb), p_client_id
+  )
+  ON CONFLICT (user_id, client_id) WHERE client_id IS NOT NULL DO NOTHING
+  RETURNING * INTO v_row;
+
+  -- Already stored by an earlier attempt: return it, task seconds were counted then
+  IF v_row.id IS NULL THEN
+    SELECT * INTO v_row
+    FROM public.study_sessions
+    WHERE user_id = v_user AND client_id = p_client_id;
+    RETURN v_row;
+  END IF;
+
+  IF p_task_id IS NOT NULL THEN
+    UPDATE public.tasks
+    SET
+      logged_seconds = logged_seconds + v_row.duration_seconds,
+      status = CASE
+        WHEN status = 'done'::public.task_status THEN status
+        ELSE 'in-progress'::public.task_status
+      END,
+      updated_at = now()
+    WHERE id = p_task_id
+      AND user_id = v_user
+      AND deleted_at IS NULL;
+  END IF;
+
+  RETURN v_row;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.log_study_session(uuid, uuid, uuid, timestamptz, timestamptz, text, jsonb)
+  TO authenticated;
+
+COMMIT;
@@ -0,0 +1,233 @@
+-- Manual entry, editing and deleting of past study sessions.
+-- handle_session_completed only ever added to daily_summaries / XP and assumed the new session
+-- was the latest one for its streak step. Sessions can now be logged for a past day, edited or
+-- deleted, so:
+--   - daily_summaries rows are recomputed from study_sessions for every touched UTC day;
+--   - current_streak / longest_streak are recomputed from daily_summaries;
+--   - XP and the linked task's logged_seconds are adjusted by the duration difference.
+-- Inserts still add the task seconds through log_study_session / increment_task_seconds.
+
+BEGIN;
+
+-- ---------------------------------------------------------------------------
+-- 1) Helpers
+-- ---------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.recompute_daily_summary(p_user_id uuid, p_date date)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_total bigint;
+BEGIN
+  SELECT COALESCE(SUM(duration_seconds), 0) INTO v_total
+  FROM public.study_sessions
+  WHERE user_id = p_user_id
+    AND (started_at AT TIME ZONE 'UTC')::date = p_date;
+
+  IF v_total <= 0 THEN
+    DELETE FROM public.daily_summaries
+    WHERE user_id = p_user_id AND date = p_date;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.daily_summaries (user_id, date, total_seconds)
+  VALUES (p_user_id, p_date, v_total)
+  ON CONFLICT (user_id, date)
+  DO UPDATE SET
+    total_seconds = excluded.total_seconds,
+    updated_at = now();
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.recompute_user_streaks(p_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_longest int;
+  v_latest_len int;
+  v_latest_day date;
+BEGIN
+  -- Consecutive study days form runs (date minus row number is constant inside a run)
+  WITH days AS (
+    SELECT date
+    FROM public.daily_summaries
+    WHERE user_id = p_user_id AND total_seconds > 0
+  ),
+  runs AS (
+    SELECT MAX(date) AS last_day, COUNT(*)::int AS len
+    FROM (
+      SELECT date, date - (ROW_NUMBER() OVER (ORDER BY date))::int AS grp
+      FROM days
+    ) grouped
+    GROUP BY grp
+  )
+  SELECT
+    COALESCE((SELECT MAX(len) FROM runs), 0),
+    (SELECT len FROM runs ORDER BY last_day DESC LIMIT 1),
+    (SELECT MAX(last_day) FROM runs)
+  INTO v_longest, v_latest_len, v_latest_day;
+
+  UPDATE public.profiles
+  SET
+    -- Same rule as apply_streak_expiry_for_me: the run must reach today or yesterday (UTC)
+    current_streak = CASE
+      WHEN v_latest_day >= (now() AT TIME ZONE 'UTC')::date - 1 THEN v_latest_len
+      ELSE 0
+    END,
+    longest_streak = v_longest
+  WHERE id = p_user_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.adjust_session_xp(p_user_id uuid, p_xp_delta bigint)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF p_xp_delta = 0 THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.profiles
+  SET
+    xp_total = GREATEST(0, xp_total + p_xp_delta),
+    level = (1 + FLOOR(GREATEST(0, xp_total + p_xp_delta) / 100))::int
+  WHERE id = p_user_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.adjust_task_logged_seconds(
+  p_task_id uuid,
+  p_user_id uuid,
+  p_seconds_delta bigint
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF p_task_id IS NULL OR p_seconds_delta = 0 THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.tasks
+  SET
+    logged_seconds = GREATEST(0, logged_seconds + p_seconds_delta),
+    status = CASE
+      WHEN p_seconds_delta > 0 AND status = 'planned'::public.task_status
+        THEN 'in-progress'::public.task_status
+      ELSE status
+    END,
+    updated_at = now()
+  WHERE id = p_task_id
+    AND user_id = p_user_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.recompute_daily_summary(uuid, date) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.recompute_user_streaks(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.adjust_session_xp(uuid, bigint) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.adjust_task_logged_seconds(uuid, uuid, bigint) FROM PUBLIC, anon, authenticated;
+
+-- ---------------------------------------------------------------------------
+-- 2) Insert: streak from history (a past-day session is not "today")
+-- ---------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.handle_session_completed()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  PERFORM public.adjust_session_xp(new.user_id, GREATEST(0, new.duration_seconds::bigint / 60));
+  PERFORM public.recompute_daily_summary(new.user_id, (new.started_at AT TIME ZONE 'UTC')::date);
+  PERFORM public.recompute_user_streaks(new.user_id);
+  RETURN new;
+END;
+$$;
+
+-- ---------------------------------------------------------------------------
+-- 3) Update: move time between days / tasks, XP by difference
+-- ---------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.handle_session_updated()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  old_date date := (old.started_at AT TIME ZONE 'UTC')::date;
+  new_date date := (new.started_at AT TIME ZONE 'UTC')::date;
+BEGIN
+  PERFORM public.adjust_session_xp(
+    new.user_id,
+    GREATEST(0, new.duration_seconds::bigint / 60) - GREATEST(0, old.duration_seconds::bigint / 60)
+  );
+
+  PERFORM public.recompute_daily_summary(new.user_id, new_date);
+  IF old_date <> new_date THEN
+    PERFORM public.recompute_daily_summary(new.user_id, old_date);
+  END IF;
+  PERFORM public.recompute_user_streaks(new.user_id);
+
+  IF old.task_id IS NOT DISTINCT FROM new.task_id THEN
+    PERFORM public.adjust_task_logged_seconds(
+      new.task_id, new.user_id, new.duration_seconds::bigint - old.duration_seconds::bigint
+    );
+  ELSE
+    PERFORM public.adjust_task_logged_seconds(old.task_id, old.user_id, -old.duration_seconds::bigint);
+    PERFORM public.adjust_task_logged_seconds(new.task_id, new.user_id, new.duration_seconds::bigint);
+  END IF;
+
+  RETURN new;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_session_updated ON public.study_sessions;
+CREATE TRIGGER on_session_updated
+  AFTER UPDATE OF started_at, ended_at, task_id ON public.study_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_session_updated();
+
+-- ---------------------------------------------------------------------------
+-- 4) Delete: take the time back out
+-- ---------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.handle_session_deleted()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  PERFORM public.adjust_session_xp(old.user_id, -GREATEST(0, old.duration_seconds::bigint / 60));
+  PERFORM public.recompute_daily_summary(old.user_id, (old.started_at AT TIME ZONE 'UTC')::date);
+  PERFORM public.recompute_user_streaks(old.user_id);
+  PERFORM public.adjust_task_logged_seconds(old.task_id, old.user_id, -old.duration_seconds::bigint);
+  RETURN old;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_session_deleted ON public.study_sessions;
+CREATE TRIGGER on_session_deleted
+  AFTER DELETE ON public.study_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_session_deleted();
+
+-- ---------------------------------------------------------------------------
+-- 5) Guard rails for hand-entered sessions
+-- ---------------------------------------------------------------------------
+ALTER TABLE public.study_sessions
+  DROP CONSTRAINT IF EXISTS study_sessions_max_duration;
+ALTER TABLE public.study_sessions
+  ADD CONSTRAINT study_sessions_max_duration
+  CHECK (ended_at IS NULL OR ended_at - started_at <= interval '24 hours') NOT VALID;
+
+COMMIT;
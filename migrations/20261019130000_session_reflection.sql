@@ -0,0 +1,23 @@
+-- Post-session reflection.
+-- After stopping the timer the user can say what they worked on, rate their focus from 1 to 5
+-- and leave a note (the existing study_sessions.notes column). The dashboard averages the
+-- rating per subject and per time of day.
+
+BEGIN;
+
+ALTER TABLE public.study_sessions
+  ADD COLUMN IF NOT EXISTS focus_rating smallint,
+  ADD COLUMN IF NOT EXISTS worked_on text NOT NULL DEFAULT '';
+
+ALTER TABLE public.study_sessions
+  DROP CONSTRAINT IF EXISTS study_sessions_focus_rating_range;
+ALTER TABLE public.study_sessions
+  ADD CONSTRAINT study_sessions_focus_rating_range
+  CHECK (focus_rating IS NULL OR focus_rating BETWEEN 1 AND 5);
+
+COMMENT ON COLUMN public.study_sessions.focus_rating IS
+  'Self-reported focus, 1 (distracted) to 5 (deep focus); NULL when the reflection was skipped.';
+COMMENT ON COLUMN public.study_sessions.worked_on IS
+  'Short answer to "what did you work on?" from the post-session reflection.';
+
+COMMIT;
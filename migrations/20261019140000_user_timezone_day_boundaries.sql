@@ -0,0 +1,426 @@
+-- Timezone-correct study days.
+-- Until now a "day" was the UTC date of started_at: a French user studying from 00:30 to 02:00
+-- local time got the session on the previous day, and streak expiry used the UTC "today".
+--   - profiles.timezone holds the user's IANA zone (sent by the app, 'UTC' until then);
+--   - daily_summaries are computed per local day, and a session that crosses local midnight
+--     is split between the two days by its overlap with each;
+--   - current streak, apply_streak_expiry_for_me and the leaderboard windows use the local today.
+-- Changing zone rebuilds the user's daily_summaries so past days follow the new boundaries.
+
+BEGIN;
+
+-- ---------------------------------------------------------------------------
+-- 1) profiles.timezone
+-- ---------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.is_valid_timezone(p_timezone text)
+RETURNS boolean
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF p_timezone IS NULL OR btrim(p_timezone) = '' THEN
+    RETURN false;
+  END IF;
+  PERFORM '2000-01-01 00:00:00+00'::timestamptz AT TIME ZONE p_timezone;
+  RETURN true;
+EXCEPTION
+  WHEN invalid_parameter_value THEN
+    RETURN false;
+END;
+$$;
+
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS timezone text NOT NULL DEFAULT 'UTC';
+
+ALTER TABLE public.profiles
+  DROP CONSTRAINT IF EXISTS profiles_timezone_valid;
+ALTER TABLE public.profiles
+  ADD CONSTRAINT profiles_timezone_valid CHECK (public.is_valid_timezone(timezone));
+
+COMMENT ON COLUMN public.profiles.timezone IS
+  'IANA time zone (e.g. Europe/Paris) that defines the user''s study days. Set through set_my_timezone.';
+
+CREATE OR REPLACE FUNCTION public.user_timezone(p_user_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT COALESCE((SELECT timezone FROM public.profiles WHERE id = p_user_id), 'UTC');
+$$;
+
+-- ---------------------------------------------------------------------------
+-- 2) Day summaries on local days, split at midnight
+-- ---------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.recompute_daily_summary(p_user_id uuid, p_date date)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_tz text := public.user_timezone(p_user_id);
+  v_day_start timestamptz := p_date::timestamp AT TIME ZONE v_tz;
+  v_day_end timestamptz := (p_date + 1)::timestamp AT TIME ZONE v_tz;
+  v_total bigint;
+BEGIN
+  -- started_at / ended_at span active time only, so the overlap is studied time
+  SELECT COALESCE(
+    ROUND(SUM(EXTRACT(EPOCH FROM LEAST(ended_at, v_day_end) - GREATEST(started_at, v_day_start)))),
+    0
+  )::bigint
+  INTO v_total
+  FROM public.study_sessions
+  WHERE user_id = p_user_id
+    AND ended_at IS NOT NULL
+    AND started_at < v_day_end
+    AND ended_at > v_day_start;
+
+  IF v_total <= 0 THEN
+    DELETE FROM public.daily_summaries
+    WHERE user_id = p_user_id AND date = p_date;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.daily_summaries (user_id, date, total_seconds)
+  VALUES (p_user_id, p_date, v_total)
+  ON CONFLICT (user_id, date)
+  DO UPDATE SET
+    total_seconds = excluded.total_seconds,
+    updated_at = now();
+END;
+$$;
+
+-- Every local day a session touches (two at most with the 24 h cap)
+CREATE OR REPLACE FUNCTION public.recompute_session_days(
+  p_user_id uuid,
+  p_started_at timestamptz,
+  p_ended_at timestamptz
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_tz text := public.user_timezone(p_user_id);
+  v_day date;
+  v_last date;
+BEGIN
+  IF p_started_at IS NULL THEN
+    RETURN;
+  END IF;
+
+  v_day := (p_started_at AT TIME ZONE v_tz)::date;
+  v_last := (COALESCE(p_ended_at, p_started_at) AT TIME ZONE v_tz)::date;
+  WHILE v_day <= v_last LOOP
+    PERFORM public.recompute_daily_summary(p_user_id, v_day);
+    v_day := v_day + 1;
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.rebuild_daily_summaries(p_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_tz text := public.user_timezone(p_user_id);
+BEGIN
+  DELETE FROM public.daily_summaries WHERE user_id = p_user_id;
+
+  INSERT INTO public.daily_summaries (user_id, date, total_seconds)
+  SELECT
+    p_user_id,
+    d.day,
+    ROUND(SUM(EXTRACT(EPOCH FROM LEAST(s.ended_at, d.day_end) - GREATEST(s.started_at, d.day_start))))::bigint
+  FROM public.study_sessions s
+  CROSS JOIN LATERAL (
+    SELECT
+      g::date AS day,
+      g::date::timestamp AT TIME ZONE v_tz AS day_start,
+      (g::date + 1)::timestamp AT TIME ZONE v_tz AS day_end
+    FROM generate_series(
+      (s.started_at AT TIME ZONE v_tz)::date,
+      (s.ended_at AT TIME ZONE v_tz)::date,
+      interval '1 day'
+    ) AS g
+  ) d
+  WHERE s.user_id = p_user_id
+    AND s.ended_at IS NOT NULL
+    AND s.ended_at > s.started_at
+  GROUP BY d.day
+  HAVING SUM(EXTRACT(EPOCH FROM LEAST(s.ended_at, d.day_end) - GREATEST(s.started_at, d.day_start))) >= 1;
+
+  PERFORM public.recompute_user_streaks(p_user_id);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.user_timezone(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.recompute_session_days(uuid, timestamptz, timestamptz) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.rebuild_daily_summaries(uuid) FROM PUBLIC, anon, authenticated;
+
+-- ---------------------------------------------------------------------------
+-- 3) Session triggers: recompute every local day the old / new row covers
+-- ---------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.handle_session_completed()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  PERFORM public.adjust_session_xp(new.user_id, GREATEST(0, new.duration_seconds::bigint / 60));
+  PERFORM public.recompute_session_days(new.user_id, new.started_at, new.ended_at);
+  PERFORM public.recompute_user_streaks(new.user_id);
+  RETURN new;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.handle_session_updated()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  PERFORM public.adjust_session_xp(
+    new.user_id,
+    GREATEST(0, new.duration_seconds::bigint / 60) - GREATEST(0, old.duration_seconds::bigint / 60)
+  );
+
+  PERFORM public.recompute_session_days(old.user_id, old.started_at, old.ended_at);
+  PERFORM public.recompute_session_days(new.user_id, new.started_at, new.ended_at);
+  PERFORM public.recompute_user_streaks(new.user_id);
+
+  IF old.task_id IS NOT DISTINCT FROM new.task_id THEN
+    PERFORM public.adjust_task_logged_seconds(
+      new.task_id, new.user_id, new.duration_seconds::bigint - old.duration_seconds::bigint
+    );
+  ELSE
+    PERFORM public.adjust_task_logged_seconds(old.task_id, old.user_id, -old.duration_seconds::bigint);
+    PERFORM public.adjust_task_logged_seconds(new.task_id, new.user_id, new.duration_seconds::bigint);
+  END IF;
+
+  RETURN new;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.handle_session_deleted()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  PERFORM public.adjust_session_xp(old.user_id, -GREATEST(0, old.duration_seconds::bigint / 60));
+  PERFORM public.recompute_session_days(old.user_id, old.started_at, old.ended_at);
+  PERFORM public.recompute_user_streaks(old.user_id);
+  PERFORM public.adjust_task_logged_seconds(old.task_id, old.user_id, -old.duration_seconds::bigint);
+  RETURN old;
+END;
+$$;
+
+-- ---------------------------------------------------------------------------
+-- 4) Streaks against the local today
+-- ---------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.recompute_user_streaks(p_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_today date := (now() AT TIME ZONE public.user_timezone(p_user_id))::date;
+  v_longest int;
+  v_latest_len int;
+  v_latest_day date;
+BEGIN
+  -- Consecutive study days form runs (date minus row number is constant inside a run)
+  WITH days AS (
+    SELECT date
+    FROM public.daily_summaries
+    WHERE user_id = p_user_id AND total_seconds > 0
+  ),
+  runs AS (
+    SELECT MAX(date) AS last_day, COUNT(*)::int AS len
+    FROM (
+      SELECT date, date - (ROW_NUMBER() OVER (ORDER BY date))::int AS grp
+      FROM days
+    ) grouped
+    GROUP BY grp
+  )
+  SELECT
+    COALESCE((SELECT MAX(len) FROM runs), 0),
+    (SELECT len FROM runs ORDER BY last_day DESC LIMIT 1),
+    (SELECT MAX(last_day) FROM runs)
+  INTO v_longest, v_latest_len, v_latest_day;
+
+  UPDATE public.profiles
+  SET
+    -- Same rule as apply_streak_expiry_for_me: the run must reach today or yesterday
+    current_streak = CASE
+      WHEN v_latest_day >= v_today - 1 THEN v_latest_len
+      ELSE 0
+    END,
+    longest_streak = v_longest
+  WHERE id = p_user_id;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS public.apply_streak_expiry_for_me();
+
+CREATE FUNCTION public.apply_streak_expiry_for_me()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_user uuid := auth.uid();
+  v_today date;
+BEGIN
+  IF v_user IS NULL THEN
+    RETURN;
+  END IF;
+
+  v_today := (now() AT TIME ZONE public.user_timezone(v_user))::date;
+
+  UPDATE public.profiles
+  SET current_streak = 0
+  WHERE id = v_user
+    AND current_streak > 0
+    AND NOT EXISTS (
+      SELECT 1
+      FROM public.daily_summaries
+      WHERE user_id = v_user
+        AND date >= v_today - 1
+        AND total_seconds > 0
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.apply_streak_expiry_for_me() TO authenticated;
+
+-- ---------------------------------------------------------------------------
+-- 5) set_my_timezone: called by the app with the device zone
+-- ---------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.set_my_timezone(p_timezone text)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_user uuid := auth.uid();
+  v_current text;
+BEGIN
+  IF v_user IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT public.is_valid_timezone(p_timezone) THEN
+    RAISE EXCEPTION 'Unknown time zone: %', p_timezone USING ERRCODE = '22023';
+  END IF;
+
+  SELECT timezone INTO v_current FROM public.profiles WHERE id = v_user;
+  IF v_current = p_timezone THEN
+    RETURN v_current;
+  END IF;
+
+  UPDATE public.profiles SET timezone = p_timezone WHERE id = v_user;
+  -- Existing rows were bucketed on the old zone's midnights
+  PERFORM public.rebuild_daily_summaries(v_user);
+
+  RETURN p_timezone;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_my_timezone(text) TO authenticated;
+
+-- ---------------------------------------------------------------------------
+-- 6) Leaderboards: windows end on each user's local today
+-- ---------------------------------------------------------------------------
+DROP MATERIALIZED VIEW IF EXISTS public.weekly_leaderboard;
+
+CREATE MATERIALIZED VIEW public.weekly_leaderboard AS
+SELECT
+  p.id AS user_id,
+  p.username,
+  p.avatar_url,
+  p.level,
+  COALESCE(SUM(ds.total_seconds), 0) AS weekly_seconds
+FROM public.profiles p
+LEFT JOIN public.daily_summaries ds
+  ON ds.user_id = p.id
+ AND ds.date >= (now() AT TIME ZONE p.timezone)::date - 7
+WHERE p.show_in_leaderboard = true
+GROUP BY p.id, p.username, p.avatar_url, p.level
+ORDER BY weekly_seconds DESC;
+
+CREATE UNIQUE INDEX weekly_leaderboard_user_id_idx
+  ON public.weekly_leaderboard(user_id);
+
+DROP MATERIALIZED VIEW IF EXISTS public.monthly_leaderboard;
+
+CREATE MATERIALIZED VIEW public.monthly_leaderboard AS
+SELECT
+  p.id AS user_id,
+  p.username,
+  p.avatar_url,
+  p.level,
+  COALESCE(SUM(ds.total_seconds), 0) AS total_seconds
+FROM public.profiles p
+LEFT JOIN public.daily_summaries ds
+  ON ds.user_id = p.id
+ AND ds.date >= (now() AT TIME ZONE p.timezone)::date - 30
+WHERE p.show_in_leaderboard = true
+GROUP BY p.id, p.username, p.avatar_url, p.level
+ORDER BY total_seconds DESC;
+
+CREATE UNIQUE INDEX monthly_leaderboard_user_id_idx
+  ON public.monthly_leaderboard(user_id);
+
+DROP MATERIALIZED VIEW IF EXISTS public.yearly_leaderboard;
+
+CREATE MATERIALIZED VIEW public.yearly_leaderboard AS
+SELECT
+  p.id AS user_id,
+  p.username,
+  p.avatar_url,
+  p.level,
+  COALESCE(SUM(ds.total_seconds), 0) AS total_seconds
+FROM public.profiles p
+LEFT JOIN public.daily_summaries ds
+  ON ds.user_id = p.id
+ AND ds.date >= (now() AT TIME ZONE p.timezone)::date - 365
+WHERE p.show_in_leaderboard = true
+GROUP BY p.id, p.username, p.avatar_url, p.level
+ORDER BY total_seconds DESC;
+
+CREATE UNIQUE INDEX yearly_leaderboard_user_id_idx
+  ON public.yearly_leaderboard(user_id);
+
+REVOKE ALL ON TABLE public.weekly_leaderboard FROM anon;
+REVOKE ALL ON TABLE public.monthly_leaderboard FROM anon;
+REVOKE ALL ON TABLE public.yearly_leaderboard FROM anon;
+GRANT SELECT ON TABLE public.weekly_leaderboard TO authenticated;
+GRANT SELECT ON TABLE public.monthly_leaderboard TO authenticated;
+GRANT SELECT ON TABLE public.yearly_leaderboard TO authenticated;
+
+-- ---------------------------------------------------------------------------
+-- 7) Backfill: split sessions that already cross midnight (every zone is still UTC here)
+-- ---------------------------------------------------------------------------
+SELECT public.rebuild_daily_summaries(crossing.user_id)
+FROM (
+  SELECT DISTINCT user_id
+  FROM public.study_sessions
+  WHERE ended_at IS NOT NULL
+    AND (started_at AT TIME ZONE 'UTC')::date <> (ended_at AT TIME ZONE 'UTC')::date
+) crossing;
+
+COMMIT;
@@ -0,0 +1,93 @@
+-- Leaderboard scoped to one group.
+-- The global leaderboards are materialized views over every opted-in profile; a group ranking
+-- has to be computed on demand for its approved members, so it is an RPC:
+--   - only approved members of the group can call it, and only approved members are ranked;
+--   - members with show_in_leaderboard = false are left out, like in the global views;
+--   - windows are the same as the global views (7 / 30 / 365 local days, see user timezones).
+
+BEGIN;
+
+-- ---------------------------------------------------------------------------
+-- 1) Period -> window length, shared by leaderboard RPCs
+-- ---------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.leaderboard_period_days(p_period text)
+RETURNS integer
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path TO 'public'
+AS $$
+BEGIN
+  RETURN CASE p_period
+    WHEN 'week' THEN 7
+    WHEN 'month' THEN 30
+    WHEN 'year' THEN 365
+    ELSE NULL
+  END;
+END;
+$$;
+
+-- ---------------------------------------------------------------------------
+-- 2) get_group_leaderboard
+-- ---------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.get_group_leaderboard(p_group_id uuid, p_period text)
+RETURNS TABLE (
+  user_id uuid,
+  username text,
+  avatar_url text,
+  level integer,
+  total_seconds bigint,
+  rank bigint
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_days integer := public.leaderboard_period_days(p_period);
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF v_days IS NULL THEN
+    RAISE EXCEPTION 'Unknown leaderboard period: %', p_period USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT public.rls_current_user_is_approved_group_member(p_group_id) THEN
+    RAISE EXCEPTION 'Not a member of this group' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    totals.user_id,
+    totals.username,
+    totals.avatar_url,
+    totals.level,
+    totals.total_seconds,
+    RANK() OVER (ORDER BY totals.total_seconds DESC) AS rank
+  FROM (
+    SELECT
+      p.id AS user_id,
+      p.username,
+      p.avatar_url,
+      p.level,
+      COALESCE(SUM(ds.total_seconds), 0)::bigint AS total_seconds
+    FROM public.group_members gm
+    JOIN public.profiles p
+      ON p.id = gm.user_id
+    LEFT JOIN public.daily_summaries ds
+      ON ds.user_id = p.id
+     AND ds.date >= (now() AT TIME ZONE p.timezone)::date - v_days
+    WHERE gm.group_id = p_group_id
+      AND gm.status = 'approved'::public.membership_status
+      AND p.show_in_leaderboard = true
+    GROUP BY p.id, p.username, p.avatar_url, p.level
+  ) totals
+  ORDER BY totals.total_seconds DESC, totals.username;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_group_leaderboard(uuid, text) TO authenticated;
+
+COMMIT;
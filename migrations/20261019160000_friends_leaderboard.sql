@@ -0,0 +1,86 @@
+-- Friends leaderboard: the caller and their accepted friends, computed live from daily_summaries
+-- (the global materialized views lag until refresh_leaderboards() runs).
+-- Friends who turned show_in_leaderboard off are left out; the caller always sees their own row.
+-- previous_rank is the rank over the same window shifted back 7 days, so the app can show the
+-- rank change since last week without keeping its own history.
+
+BEGIN;
+
+CREATE OR REPLACE FUNCTION public.get_friends_leaderboard(p_period text)
+RETURNS TABLE (
+  user_id uuid,
+  username text,
+  avatar_url text,
+  level integer,
+  total_seconds bigint,
+  rank bigint,
+  previous_rank bigint
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_uid uuid := auth.uid();
+  v_days integer := public.leaderboard_period_days(p_period);
+BEGIN
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF v_days IS NULL THEN
+    RAISE EXCEPTION 'Unknown leaderboard period: %', p_period USING ERRCODE = '22023';
+  END IF;
+
+  RETURN QUERY
+  WITH members AS (
+    SELECT v_uid AS user_id
+    UNION
+    SELECT CASE
+      WHEN uf.requester_id = v_uid THEN uf.addressee_id
+      ELSE uf.requester_id
+    END
+    FROM public.user_friends uf
+    WHERE (uf.requester_id = v_uid OR uf.addressee_id = v_uid)
+      AND uf.status = 'accepted'
+  ),
+  totals AS (
+    SELECT
+      p.id AS user_id,
+      p.username,
+      p.avatar_url,
+      p.level,
+      COALESCE(SUM(ds.total_seconds) FILTER (
+        WHERE ds.date >= (now() AT TIME ZONE p.timezone)::date - v_days
+      ), 0)::bigint AS total_seconds,
+      COALESCE(SUM(ds.total_seconds) FILTER (
+        WHERE ds.date <= (now() AT TIME ZONE p.timezone)::date - 7
+      ), 0)::bigint AS previous_seconds
+    FROM members m
+    JOIN public.profiles p
+      ON p.id = m.user_id
+    LEFT JOIN public.daily_summaries ds
+      ON ds.user_id = p.id
+     AND ds.date >= (now() AT TIME ZONE p.timezone)::date - v_days - 7
+    WHERE p.id = v_uid
+       OR p.show_in_leaderboard = true
+    GROUP BY p.id, p.username, p.avatar_url, p.level
+  )
+  SELECT
+    totals.user_id,
+    totals.username,
+    totals.avatar_url,
+    totals.level,
+    totals.total_seconds,
+    RANK() OVER (ORDER BY totals.total_seconds DESC) AS rank,
+    RANK() OVER (ORDER BY totals.previous_seconds DESC) AS previous_rank
+  FROM totals
+  ORDER BY totals.total_seconds DESC, totals.username;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_friends_leaderboard(text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_friends_leaderboard(text) TO authenticated;
+
+COMMIT;
@@ -0,0 +1,113 @@
+-- Cohort and subject leaderboards.
+-- A 6e student ranked against prépa students is not motivating, so the global ranking can be
+-- narrowed to an academic cohort (profiles.academic_category / academic_year_key) and/or to one
+-- subject of the catalogue (subjects.bank_key, shared by every user's own copy of the subject).
+--   - Cohort only: totals come from daily_summaries, same windows as the global views.
+--   - With a subject: totals are the overlap of that subject's sessions with the window
+--     (local days, like daily_summaries).
+-- Returns the top p_limit rows plus the caller's own row when it falls below the cut.
+
+BEGIN;
+
+CREATE OR REPLACE FUNCTION public.get_filtered_leaderboard(
+  p_period text,
+  p_academic_category text DEFAULT NULL,
+  p_academic_year_key text DEFAULT NULL,
+  p_bank_key text DEFAULT NULL,
+  p_limit integer DEFAULT 50
+)
+RETURNS TABLE (
+  user_id uuid,
+  username text,
+  avatar_url text,
+  level integer,
+  total_seconds bigint,
+  rank bigint
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_uid uuid := auth.uid();
+  v_days integer := public.leaderboard_period_days(p_period);
+  v_lim integer := LEAST(200, GREATEST(1, COALESCE(p_limit, 50)));
+BEGIN
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF v_days IS NULL THEN
+    RAISE EXCEPTION 'Unknown leaderboard period: %', p_period USING ERRCODE = '22023';
+  END IF;
+
+  RETURN QUERY
+  WITH cohort AS (
+    SELECT
+      p.id,
+      p.username,
+      p.avatar_url,
+      p.level,
+      ((now() AT TIME ZONE p.timezone)::date - v_days) AS from_date,
+      ((now() AT TIME ZONE p.timezone)::date - v_days)::timestamp AT TIME ZONE p.timezone AS from_ts
+    FROM public.profiles p
+    WHERE p.show_in_leaderboard = true
+      AND (p_academic_category IS NULL OR p.academic_category = p_academic_category)
+      AND (p_academic_year_key IS NULL OR p.academic_year_key = p_academic_year_key)
+  ),
+  totals AS (
+    SELECT
+      c.id AS user_id,
+      c.username,
+      c.avatar_url,
+      c.level,
+      CASE
+        WHEN p_bank_key IS NULL THEN (
+          SELECT COALESCE(SUM(ds.total_seconds), 0)
+          FROM public.daily_summaries ds
+          WHERE ds.user_id = c.id
+            AND ds.date >= c.from_date
+        )
+        ELSE (
+          SELECT COALESCE(
+            ROUND(SUM(EXTRACT(EPOCH FROM ss.ended_at - GREATEST(ss.started_at, c.from_ts)))),
+            0
+          )
+          FROM public.study_sessions ss
+          JOIN public.subjects s
+            ON s.id = ss.subject_id
+          WHERE ss.user_id = c.id
+            AND s.bank_key = p_bank_key
+            AND ss.ended_at IS NOT NULL
+            AND ss.ended_at > c.from_ts
+        )
+      END::bigint AS total_seconds
+    FROM cohort c
+  ),
+  ranked AS (
+    SELECT
+      totals.*,
+      RANK() OVER (ORDER BY totals.total_seconds DESC) AS total_rank,
+      ROW_NUMBER() OVER (ORDER BY totals.total_seconds DESC, totals.username) AS position
+    FROM totals
+  )
+  SELECT
+    ranked.user_id,
+    ranked.username,
+    ranked.avatar_url,
+    ranked.level,
+    ranked.total_seconds,
+    ranked.total_rank
+  FROM ranked
+  WHERE ranked.position <= v_lim
+     OR ranked.user_id = v_uid
+  ORDER BY ranked.position;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_filtered_leaderboard(text, text, text, text, integer) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_filtered_leaderboard(text, text, text, text, integer)
+  TO authenticated;
+
+COMMIT;
@@ -0,0 +1,139 @@
+-- Global leaderboards: ranked snapshots on a schedule.
+-- The materialized views only changed when someone ran refresh_leaderboards(), so the app patched
+-- the viewer's own row with live totals and everyone else stayed stale. Now:
+--   - each view carries rank (ties share a rank) and refreshed_at, so any page of the list shows
+--     correct ranks and the app can say how fresh the snapshot is;
+--   - pg_cron refreshes them every 5 minutes (skipped where the extension is unavailable;
+--     schedule refresh_leaderboards() from the dashboard there);
+--   - refresh_leaderboards() is no longer callable by clients.
+
+BEGIN;
+
+-- ---------------------------------------------------------------------------
+-- 1) Views with rank + refreshed_at
+-- ---------------------------------------------------------------------------
+DROP MATERIALIZED VIEW IF EXISTS public.weekly_leaderboard;
+
+CREATE MATERIALIZED VIEW public.weekly_leaderboard AS
+SELECT
+  totals.*,
+  RANK() OVER (ORDER BY totals.weekly_seconds DESC) AS rank,
+  now() AS refreshed_at
+FROM (
+  SELECT
+    p.id AS user_id,
+    p.username,
+    p.avatar_url,
+    p.level,
+    COALESCE(SUM(ds.total_seconds), 0) AS weekly_seconds
+  FROM public.profiles p
+  LEFT JOIN public.daily_summaries ds
+    ON ds.user_id = p.id
+   AND ds.date >= (now() AT TIME ZONE p.timezone)::date - 7
+  WHERE p.show_in_leaderboard = true
+  GROUP BY p.id, p.username, p.avatar_url, p.level
+) totals;
+
+CREATE UNIQUE INDEX weekly_leaderboard_user_id_idx
+  ON public.weekly_leaderboard(user_id);
+CREATE INDEX weekly_leaderboard_rank_idx
+  ON public.weekly_leaderboard(rank, user_id);
+
+DROP MATERIALIZED VIEW IF EXISTS public.monthly_leaderboard;
+
+CREATE MATERIALIZED VIEW public.monthly_leaderboard AS
+SELECT
+  totals.*,
+  RANK() OVER (ORDER BY totals.total_seconds DESC) AS rank,
+  now() AS refreshed_at
+FROM (
+  SELECT
+    p.id AS user_id,
+    p.username,
+    p.avatar_url,
+    p.level,
+    COALESCE(SUM(ds.total_seconds), 0) AS total_seconds
+  FROM public.profiles p
+  LEFT JOIN public.daily_summaries ds
+    ON ds.user_id = p.id
+   AND ds.date >= (now() AT TIME ZONE p.timezone)::date - 30
+  WHERE p.show_in_leaderboard = true
+  GROUP BY p.id, p.username, p.avatar_url, p.level
+) totals;
+
+CREATE UNIQUE INDEX monthly_leaderboard_user_id_idx
+  ON public.monthly_leaderboard(user_id);
+CREATE INDEX monthly_leaderboard_rank_idx
+  ON public.monthly_leaderboard(rank, user_id);
+
+DROP MATERIALIZED VIEW IF EXISTS public.yearly_leaderboard;
+
+CREATE MATERIALIZED VIEW public.yearly_leaderboard AS
+SELECT
+  totals.*,
+  RANK() OVER (ORDER BY totals.total_seconds DESC) AS rank,
+  now() AS refreshed_at
+FROM (
+  SELECT
+    p.id AS user_id,
+    p.username,
+    p.avatar_url,
+    p.level,
+    COALESCE(SUM(ds.total_seconds), 0) AS total_seconds
+  FROM public.profiles p
+  LEFT JOIN public.daily_summaries ds
+    ON ds.user_id = p.id
+   AND ds.date >= (now() AT TIME ZONE p.timezone)::date - 365
+  WHERE p.show_in_leaderboard = true
+  GROUP BY p.id, p.username, p.avatar_url, p.level
+) totals;
+
+CREATE UNIQUE INDEX yearly_leaderboard_user_id_idx
+  ON public.yearly_leaderboard(user_id);
+CREATE INDEX yearly_leaderboard_rank_idx
+  ON public.yearly_leaderboard(rank, user_id);
+
+REVOKE ALL ON TABLE public.weekly_leaderboard FROM anon;
+REVOKE ALL ON TABLE public.monthly_leaderboard FROM anon;
+REVOKE ALL ON TABLE public.yearly_leaderboard FROM anon;
+GRANT SELECT ON TABLE public.weekly_leaderboard TO authenticated;
+GRANT SELECT ON TABLE public.monthly_leaderboard TO authenticated;
+GRANT SELECT ON TABLE public.yearly_leaderboard TO authenticated;
+
+-- ---------------------------------------------------------------------------
+-- 2) refresh_leaderboards: server-side only
+-- ---------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.refresh_leaderboards()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  REFRESH MATERIALIZED VIEW CONCURRENTLY public.weekly_leaderboard;
+  REFRESH MATERIALIZED VIEW CONCURRENTLY public.monthly_leaderboard;
+  REFRESH MATERIALIZED VIEW CONCURRENTLY public.yearly_leaderboard;
+END;
+$$;
+
+COMMENT ON FUNCTION public.refresh_leaderboards() IS
+  'Refreshes the global leaderboard views (scheduled every 5 minutes by pg_cron).';
+
+REVOKE ALL ON FUNCTION public.refresh_leaderboards() FROM PUBLIC, anon, authenticated;
+
+-- ---------------------------------------------------------------------------
+-- 3) Schedule
+-- ---------------------------------------------------------------------------
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.unschedule(jobid) FROM cron.job WHERE jobname = 'refresh-leaderboards';
+    PERFORM cron.schedule(
+      'refresh-leaderboards',
+      '*/5 * * * *',
+      'SELECT public.refresh_leaderboards()'
+    );
+  END IF;
+END $$;
+
+COMMIT;
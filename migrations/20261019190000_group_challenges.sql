@@ -0,0 +1,190 @@
+-- Group challenges: shared objectives set by group admins.
+--   - group_total: the approved members together reach target_seconds between starts_on and ends_on
+--     (e.g. 100h this month);
+--   - daily_minimum: every approved member studies at least target_seconds on each day of the
+--     window (e.g. 30 min a day for 14 days).
+-- Progress is read from daily_summaries (study_sessions split on each member's local days).
+-- Challenges are never deleted so the group keeps its history; completed_at is stamped the first
+-- time get_group_challenges sees the goal reached.
+
+BEGIN;
+
+-- ---------------------------------------------------------------------------
+-- 1) Table
+-- ---------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.group_challenges (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_id uuid NOT NULL REFERENCES public.groups (id) ON DELETE CASCADE,
+  created_by uuid REFERENCES public.profiles (id) ON DELETE SET NULL,
+  title text NOT NULL,
+  kind text NOT NULL CHECK (kind IN ('group_total', 'daily_minimum')),
+  target_seconds integer NOT NULL CHECK (target_seconds > 0),
+  starts_on date NOT NULL,
+  ends_on date NOT NULL,
+  completed_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT group_challenges_title_len CHECK (char_length(btrim(title)) BETWEEN 1 AND 80),
+  CONSTRAINT group_challenges_window CHECK (ends_on >= starts_on AND ends_on - starts_on < 366)
+);
+
+COMMENT ON TABLE public.group_challenges IS
+  'Shared study objective of a group; progress is computed by get_group_challenges.';
+
+CREATE INDEX IF NOT EXISTS idx_group_challenges_group_window
+  ON public.group_challenges (group_id, ends_on DESC);
+
+ALTER TABLE public.group_challenges ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS group_challenges_select_members ON public.group_challenges;
+CREATE POLICY group_challenges_select_members
+  ON public.group_challenges
+  FOR SELECT
+  TO authenticated
+  USING (public.rls_current_user_is_approved_group_member(group_id));
+
+DROP POLICY IF EXISTS group_challenges_insert_admins ON public.group_challenges;
+CREATE POLICY group_challenges_insert_admins
+  ON public.group_challenges
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    created_by = (SELECT auth.uid())
+    AND completed_at IS NULL
+    AND public.rls_current_user_is_approved_group_admin(group_id)
+  );
+
+GRANT SELECT, INSERT ON public.group_challenges TO authenticated;
+
+-- ---------------------------------------------------------------------------
+-- 2) Progress (internal)
+-- ---------------------------------------------------------------------------
+-- group_total:   progress / goal in seconds, my_progress = my seconds.
+-- daily_minimum: progress / goal in member-days, my_progress = my days at or above the minimum.
+CREATE OR REPLACE FUNCTION public.group_challenge_progress(p_group_id uuid, p_user_id uuid)
+RETURNS TABLE (
+  challenge_id uuid,
+  progress bigint,
+  goal bigint,
+  my_progress bigint
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  WITH members AS (
+    SELECT gm.user_id
+    FROM public.group_members gm
+    WHERE gm.group_id = p_group_id
+      AND gm.status = 'approved'::public.membership_status
+  ),
+  days AS (
+    SELECT c.id AS challenge_id, c.kind, c.target_seconds, ds.user_id, ds.total_seconds
+    FROM public.group_challenges c
+    JOIN public.daily_summaries ds
+      ON ds.date BETWEEN c.starts_on AND c.ends_on
+    JOIN members m
+      ON m.user_id = ds.user_id
+    WHERE c.group_id = p_group_id
+  )
+  SELECT
+    c.id,
+    CASE c.kind
+      WHEN 'group_total' THEN (
+        SELECT COALESCE(SUM(d.total_seconds), 0) FROM days d WHERE d.challenge_id = c.id
+      )
+      ELSE (
+        SELECT COUNT(*) FROM days d
+        WHERE d.challenge_id = c.id AND d.total_seconds >= c.target_seconds
+      )
+    END::bigint,
+    CASE c.kind
+      WHEN 'group_total' THEN c.target_seconds
+      ELSE (SELECT COUNT(*) FROM members) * (c.ends_on - c.starts_on + 1)
+    END::bigint,
+    CASE c.kind
+      WHEN 'group_total' THEN (
+        SELECT COALESCE(SUM(d.total_seconds), 0) FROM days d
+        WHERE d.challenge_id = c.id AND d.user_id = p_user_id
+      )
+      ELSE (
+        SELECT COUNT(*) FROM days d
+        WHERE d.challenge_id = c.id
+          AND d.user_id = p_user_id
+          AND d.total_seconds >= c.target_seconds
+      )
+    END::bigint
+  FROM public.group_challenges c
+  WHERE c.group_id = p_group_id;
+$$;
+
+REVOKE ALL ON FUNCTION public.group_challenge_progress(uuid, uuid)
+  FROM PUBLIC, anon, authenticated;
+
+-- ---------------------------------------------------------------------------
+-- 3) get_group_challenges: every challenge of the group with its progress
+-- ---------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.get_group_challenges(p_group_id uuid)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  kind text,
+  target_seconds integer,
+  starts_on date,
+  ends_on date,
+  created_by uuid,
+  created_at timestamptz,
+  completed_at timestamptz,
+  progress bigint,
+  goal bigint,
+  my_progress bigint
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_uid uuid := auth.uid();
+BEGIN
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT public.rls_current_user_is_approved_group_member(p_group_id) THEN
+    RAISE EXCEPTION 'Not a member of this group' USING ERRCODE = '42501';
+  END IF;
+
+  -- Completion sticks once reached, even if members leave or sessions are edited later
+  UPDATE public.group_challenges c
+  SET completed_at = now()
+  FROM public.group_challenge_progress(p_group_id, v_uid) pr
+  WHERE c.id = pr.challenge_id
+    AND c.completed_at IS NULL
+    AND pr.goal > 0
+    AND pr.progress >= pr.goal;
+
+  RETURN QUERY
+  SELECT
+    c.id,
+    c.title,
+    c.kind,
+    c.target_seconds,
+    c.starts_on,
+    c.ends_on,
+    c.created_by,
+    c.created_at,
+    c.completed_at,
+    pr.progress,
+    pr.goal,
+    pr.my_progress
+  FROM public.group_challenges c
+  JOIN public.group_challenge_progress(p_group_id, v_uid) pr
+    ON pr.challenge_id = c.id
+  ORDER BY c.ends_on DESC, c.created_at DESC;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_group_challenges(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_group_challenges(uuid) TO authenticated;
+
+COMMIT;
@@ -0,0 +1,151 @@
+-- Group message wall: short text posts between approved members.
+--   - Only approved members read and post (RLS); authors delete their own posts, admins any post.
+--   - mentions holds the mentioned user ids; a trigger keeps only approved members of the group.
+--   - Pinning goes through set_group_message_pinned (admins only); posts are never edited.
+--   - The table is in the supabase_realtime publication so open walls update live.
+
+BEGIN;
+
+-- ---------------------------------------------------------------------------
+-- 1) Table
+-- ---------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.group_messages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_id uuid NOT NULL REFERENCES public.groups (id) ON DELETE CASCADE,
+  author_id uuid NOT NULL REFERENCES public.profiles (id) ON DELETE CASCADE,
+  body text NOT NULL,
+  mentions uuid[] NOT NULL DEFAULT '{}',
+  pinned_at timestamptz,
+  pinned_by uuid REFERENCES public.profiles (id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT group_messages_body_len CHECK (char_length(btrim(body)) BETWEEN 1 AND 2000)
+);
+
+COMMENT ON TABLE public.group_messages IS
+  'Per-group message wall; readable and writable by approved members only.';
+
+CREATE INDEX IF NOT EXISTS idx_group_messages_group_created
+  ON public.group_messages (group_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_group_messages_group_pinned
+  ON public.group_messages (group_id, pinned_at DESC)
+  WHERE pinned_at IS NOT NULL;
+
+-- ---------------------------------------------------------------------------
+-- 2) Mentions: approved members of the group only, no duplicates
+-- ---------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.sanitize_group_message_mentions()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  NEW.body := btrim(NEW.body);
+  NEW.pinned_at := NULL;
+  NEW.pinned_by := NULL;
+  NEW.mentions := COALESCE(
+    (
+      SELECT array_agg(DISTINCT gm.user_id)
+      FROM public.group_members gm
+      WHERE gm.group_id = NEW.group_id
+        AND gm.status = 'approved'::public.membership_status
+        AND gm.user_id = ANY (NEW.mentions)
+    ),
+    '{}'
+  );
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS group_messages_sanitize ON public.group_messages;
+CREATE TRIGGER group_messages_sanitize
+  BEFORE INSERT ON public.group_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sanitize_group_message_mentions();
+
+-- ---------------------------------------------------------------------------
+-- 3) RLS
+-- ---------------------------------------------------------------------------
+ALTER TABLE public.group_messages ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS group_messages_select_members ON public.group_messages;
+CREATE POLICY group_messages_select_members
+  ON public.group_messages
+  FOR SELECT
+  TO authenticated
+  USING (public.rls_current_user_is_approved_group_member(group_id));
+
+DROP POLICY IF EXISTS group_messages_insert_members ON public.group_messages;
+CREATE POLICY group_messages_insert_members
+  ON public.group_messages
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    author_id = (SELECT auth.uid())
+    AND public.rls_current_user_is_approved_group_member(group_id)
+  );
+
+DROP POLICY IF EXISTS group_messages_delete_author_or_admin ON public.group_messages;
+CREATE POLICY group_messages_delete_author_or_admin
+  ON public.group_messages
+  FOR DELETE
+  TO authenticated
+  USING (
+    author_id = (SELECT auth.uid())
+    OR public.rls_current_user_is_approved_group_admin(group_id)
+  );
+
+GRANT SELECT, INSERT, DELETE ON public.group_messages TO authenticated;
+
+-- ---------------------------------------------------------------------------
+-- 4) Pin / unpin (admins)
+-- ---------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.set_group_message_pinned(p_message_id uuid, p_pinned boolean)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_uid uuid := auth.uid();
+  v_group_id uuid;
+BEGIN
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT group_id INTO v_group_id FROM public.group_messages WHERE id = p_message_id;
+  IF v_group_id IS NULL THEN
+    RAISE EXCEPTION 'Message not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT public.rls_current_user_is_approved_group_admin(v_group_id) THEN
+    RAISE EXCEPTION 'Only group admins can pin messages' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.group_messages
+  SET pinned_at = CASE WHEN p_pinned THEN now() ELSE NULL END,
+      pinned_by = CASE WHEN p_pinned THEN v_uid ELSE NULL END
+  WHERE id = p_message_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.set_group_message_pinned(uuid, boolean) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.set_group_message_pinned(uuid, boolean) TO authenticated;
+
+-- ---------------------------------------------------------------------------
+-- 5) Realtime
+-- ---------------------------------------------------------------------------
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+    BEGIN
+      EXECUTE 'ALTER PUBLICATION supabase_realtime ADD TABLE public.group_messages';
+    EXCEPTION
+      WHEN duplicate_object THEN NULL;
+    END;
+  END IF;
+END $$;
+
+COMMIT;
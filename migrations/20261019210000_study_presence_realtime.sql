@@ -0,0 +1,33 @@
+-- Group live view driven by Realtime instead of polling.
+--   - group_members joins the supabase_realtime publication so rosters update when members
+--     are approved, leave or are removed (user_study_presence is already published).
+--   - REPLICA IDENTITY FULL on user_study_presence so UPDATE/DELETE payloads carry the whole
+--     row and clients can patch presence without refetching.
+
+BEGIN;
+
+-- ---------------------------------------------------------------------------
+-- 1) Full row images for presence changes
+-- ---------------------------------------------------------------------------
+ALTER TABLE public.user_study_presence REPLICA IDENTITY FULL;
+
+-- ---------------------------------------------------------------------------
+-- 2) Realtime
+-- ---------------------------------------------------------------------------
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+    BEGIN
+      EXECUTE 'ALTER PUBLICATION supabase_realtime ADD TABLE public.group_members';
+    EXCEPTION
+      WHEN duplicate_object THEN NULL;
+    END;
+    BEGIN
+      EXECUTE 'ALTER PUBLICATION supabase_realtime ADD TABLE public.user_study_presence';
+    EXCEPTION
+      WHEN duplicate_object THEN NULL;
+    END;
+  END IF;
+END $$;
+
+COMMIT;
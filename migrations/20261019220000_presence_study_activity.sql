@@ -0,0 +1,101 @@
+-- What a member is studying, shown on group live tiles.
+--   - user_study_presence gains subject name / color / icon and the task title of the running
+--     session; cleared whenever the timer is idle.
+--   - profiles.share_study_activity (default true = opt-out) controls it. When false, a trigger
+--     strips the columns on write, and turning the flag off clears the current row at once.
+--   - Presence stays readable by approved group peers only (existing RLS).
+
+BEGIN;
+
+-- ---------------------------------------------------------------------------
+-- 1) Privacy flag
+-- ---------------------------------------------------------------------------
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS share_study_activity boolean NOT NULL DEFAULT true;
+
+COMMENT ON COLUMN public.profiles.share_study_activity IS
+  'Whether group peers see the subject and task of a running session. Default true (opt-out).';
+
+-- ---------------------------------------------------------------------------
+-- 2) Presence activity columns
+-- ---------------------------------------------------------------------------
+ALTER TABLE public.user_study_presence
+  ADD COLUMN IF NOT EXISTS subject_name text,
+  ADD COLUMN IF NOT EXISTS subject_color text,
+  ADD COLUMN IF NOT EXISTS subject_icon text,
+  ADD COLUMN IF NOT EXISTS task_title text;
+
+COMMENT ON COLUMN public.user_study_presence.subject_name IS
+  'Display name of the subject being studied; null when hidden (profiles.share_study_activity) or idle.';
+COMMENT ON COLUMN public.user_study_presence.task_title IS
+  'Title of the task being studied, if any; same visibility rules as subject_name.';
+
+-- ---------------------------------------------------------------------------
+-- 3) Enforce the flag on write
+-- ---------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.sanitize_study_presence_activity()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_share boolean;
+BEGIN
+  SELECT p.share_study_activity INTO v_share FROM public.profiles p WHERE p.id = NEW.user_id;
+
+  IF NOT NEW.is_studying OR NOT COALESCE(v_share, false) THEN
+    NEW.subject_name := NULL;
+    NEW.subject_color := NULL;
+    NEW.subject_icon := NULL;
+    NEW.task_title := NULL;
+    RETURN NEW;
+  END IF;
+
+  NEW.subject_name := NULLIF(left(btrim(NEW.subject_name), 100), '');
+  NEW.subject_color := NULLIF(left(btrim(NEW.subject_color), 32), '');
+  NEW.subject_icon := NULLIF(left(btrim(NEW.subject_icon), 64), '');
+  NEW.task_title := NULLIF(left(btrim(NEW.task_title), 200), '');
+  RETURN NEW;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.sanitize_study_presence_activity() FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS user_study_presence_sanitize_activity ON public.user_study_presence;
+CREATE TRIGGER user_study_presence_sanitize_activity
+  BEFORE INSERT OR UPDATE ON public.user_study_presence
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sanitize_study_presence_activity();
+
+-- ---------------------------------------------------------------------------
+-- 4) Hiding takes effect immediately
+-- ---------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.clear_study_presence_activity_on_opt_out()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF OLD.share_study_activity AND NOT NEW.share_study_activity THEN
+    UPDATE public.user_study_presence
+    SET subject_name = NULL,
+        subject_color = NULL,
+        subject_icon = NULL,
+        task_title = NULL
+    WHERE user_id = NEW.id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.clear_study_presence_activity_on_opt_out() FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS profiles_clear_study_presence_activity ON public.profiles;
+CREATE TRIGGER profiles_clear_study_presence_activity
+  AFTER UPDATE OF share_study_activity ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.clear_study_presence_activity_on_opt_out();
+
+COMMIT;
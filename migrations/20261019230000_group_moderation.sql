@@ -0,0 +1,292 @@
+-- Group admin moderation.
+--   - Admins list pending join requests and approve or reject them, remove members and
+--     promote / demote admins (RPCs below; all check the caller is an approved admin).
+--   - The owner (groups.created_by) can hand the group to another approved member; the owner
+--     cannot leave, be removed or be demoted until ownership is transferred.
+--   - A trigger on group_members keeps at least one approved admin per group, so direct
+--     deletes / updates allowed by RLS cannot orphan a group either. Cascades from deleting
+--     the group or the account are let through.
+
+BEGIN;
+
+-- ---------------------------------------------------------------------------
+-- 1) Guard: owner stays, last admin stays
+-- ---------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.guard_group_admin_membership()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_owner uuid;
+BEGIN
+  IF OLD.role IS DISTINCT FROM 'group_admin'::public.group_role
+     OR OLD.status IS DISTINCT FROM 'approved'::public.membership_status THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+     AND NEW.role = 'group_admin'::public.group_role
+     AND NEW.status = 'approved'::public.membership_status THEN
+    RETURN NEW;
+  END IF;
+
+  -- Group or account being deleted: nothing left to protect
+  SELECT g.created_by INTO v_owner FROM public.groups g WHERE g.id = OLD.group_id;
+  IF NOT FOUND OR NOT EXISTS (SELECT 1 FROM auth.users u WHERE u.id = OLD.user_id) THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  IF v_owner = OLD.user_id THEN
+    RAISE EXCEPTION 'Transfer ownership of the group first' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM public.group_members gm
+    WHERE gm.group_id = OLD.group_id
+      AND gm.user_id <> OLD.user_id
+      AND gm.role = 'group_admin'::public.group_role
+      AND gm.status = 'approved'::public.membership_status
+  ) THEN
+    RAISE EXCEPTION 'A group needs at least one admin' USING ERRCODE = 'P0001';
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.guard_group_admin_membership() FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS group_members_guard_admins ON public.group_members;
+CREATE TRIGGER group_members_guard_admins
+  BEFORE UPDATE OR DELETE ON public.group_members
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_group_admin_membership();
+
+-- ---------------------------------------------------------------------------
+-- 2) Pending join requests (profiles of non-members are not readable otherwise)
+-- ---------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.get_group_join_requests(p_group_id uuid)
+RETURNS TABLE (
+  user_id uuid,
+  username text,
+  avatar_url text,
+  requested_at timestamptz
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT public.rls_current_user_is_approved_group_admin(p_group_id) THEN
+    RAISE EXCEPTION 'Only group admins can do this' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT gm.user_id, p.username, p.avatar_url, gm.created_at
+  FROM public.group_members gm
+  LEFT JOIN public.profiles p ON p.id = gm.user_id
+  WHERE gm.group_id = p_group_id
+    AND gm.status = 'pending'::public.membership_status
+  ORDER BY gm.created_at ASC;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_group_join_requests(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_group_join_requests(uuid) TO authenticated;
+
+-- ---------------------------------------------------------------------------
+-- 3) Approve / reject
+-- ---------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.respond_to_group_join_request(
+  p_group_id uuid,
+  p_user_id uuid,
+  p_approve boolean
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT public.rls_current_user_is_approved_group_admin(p_group_id) THEN
+    RAISE EXCEPTION 'Only group admins can do this' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_approve THEN
+    UPDATE public.group_members
+    SET status = 'approved'::public.membership_status
+    WHERE group_id = p_group_id
+      AND user_id = p_user_id
+      AND status = 'pending'::public.membership_status;
+  ELSE
+    DELETE FROM public.group_members
+    WHERE group_id = p_group_id
+      AND user_id = p_user_id
+      AND status = 'pending'::public.membership_status;
+  END IF;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Join request not found' USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.respond_to_group_join_request(uuid, uuid, boolean) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.respond_to_group_join_request(uuid, uuid, boolean) TO authenticated;
+
+-- ---------------------------------------------------------------------------
+-- 4) Remove a member
+-- ---------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.remove_group_member(p_group_id uuid, p_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT public.rls_current_user_is_approved_group_admin(p_group_id) THEN
+    RAISE EXCEPTION 'Only group admins can do this' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_user_id = auth.uid() THEN
+    RAISE EXCEPTION 'Use leave_group to leave a group' USING ERRCODE = '22023';
+  END IF;
+
+  DELETE FROM public.group_members
+  WHERE group_id = p_group_id
+    AND user_id = p_user_id
+    AND status = 'approved'::public.membership_status;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Not a member of this group' USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.remove_group_member(uuid, uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.remove_group_member(uuid, uuid) TO authenticated;
+
+-- ---------------------------------------------------------------------------
+-- 5) Promote / demote
+-- ---------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.set_group_member_role(
+  p_group_id uuid,
+  p_user_id uuid,
+  p_role public.group_role
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT public.rls_current_user_is_approved_group_admin(p_group_id) THEN
+    RAISE EXCEPTION 'Only group admins can do this' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.group_members
+  SET role = p_role
+  WHERE group_id = p_group_id
+    AND user_id = p_user_id
+    AND status = 'approved'::public.membership_status;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Not a member of this group' USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.set_group_member_role(uuid, uuid, public.group_role) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.set_group_member_role(uuid, uuid, public.group_role) TO authenticated;
+
+-- ---------------------------------------------------------------------------
+-- 6) Transfer ownership (owner only; new owner becomes admin)
+-- ---------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.transfer_group_ownership(p_group_id uuid, p_new_owner_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_uid uuid := auth.uid();
+BEGIN
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.groups g WHERE g.id = p_group_id AND g.created_by = v_uid
+  ) THEN
+    RAISE EXCEPTION 'Only the group owner can transfer ownership' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_new_owner_id = v_uid THEN
+    RAISE EXCEPTION 'You already own this group' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.group_members
+  SET role = 'group_admin'::public.group_role
+  WHERE group_id = p_group_id
+    AND user_id = p_new_owner_id
+    AND status = 'approved'::public.membership_status;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Not a member of this group' USING ERRCODE = 'P0002';
+  END IF;
+
+  UPDATE public.groups SET created_by = p_new_owner_id WHERE id = p_group_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.transfer_group_ownership(uuid, uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.transfer_group_ownership(uuid, uuid) TO authenticated;
+
+-- ---------------------------------------------------------------------------
+-- 7) Leave (also cancels a pending request); the guard trigger blocks the owner / last admin
+-- ---------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.leave_group(p_group_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  DELETE FROM public.group_members
+  WHERE group_id = p_group_id
+    AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Not a member of this group' USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.leave_group(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.leave_group(uuid) TO authenticated;
+
+COMMIT;
@@ -0,0 +1,213 @@
+-- Invite links (tymii://group/join/<code> and the web URL) and their limits.
+--   - groups.invite_expires_at / invite_max_uses (both optional) bound an invite code;
+--     invite_use_count counts joins through it and resets when the code or limits change.
+--   - get_group_invite_preview: what the join screen shows for a code, private groups included
+--     (holding the code is the invitation).
+--   - join_group_by_invite: validates the code and limits, then joins like request_join_group
+--     (password and admin approval still apply). Errors use the same codes as request_join_group
+--     plus INVITE_EXPIRED / INVITE_EXHAUSTED.
+--   - set_group_invite_limits / regenerate_invite_code: admins only.
+
+BEGIN;
+
+-- ---------------------------------------------------------------------------
+-- 1) Columns
+-- ---------------------------------------------------------------------------
+ALTER TABLE public.groups
+  ADD COLUMN IF NOT EXISTS invite_expires_at timestamptz,
+  ADD COLUMN IF NOT EXISTS invite_max_uses integer,
+  ADD COLUMN IF NOT EXISTS invite_use_count integer NOT NULL DEFAULT 0;
+
+ALTER TABLE public.groups DROP CONSTRAINT IF EXISTS groups_invite_max_uses_positive;
+ALTER TABLE public.groups
+  ADD CONSTRAINT groups_invite_max_uses_positive CHECK (invite_max_uses IS NULL OR invite_max_uses > 0);
+
+COMMENT ON COLUMN public.groups.invite_expires_at IS
+  'Invite code stops working after this instant; null = never expires.';
+COMMENT ON COLUMN public.groups.invite_max_uses IS
+  'Joins allowed through the current invite code; null = unlimited.';
+
+-- ---------------------------------------------------------------------------
+-- 2) Preview for the join screen
+-- ---------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.get_group_invite_preview(p_code text)
+RETURNS TABLE (
+  id uuid,
+  name text,
+  description text,
+  visibility public.group_visibility,
+  member_count integer,
+  requires_admin_approval boolean,
+  has_password boolean,
+  invite_expired boolean,
+  invite_exhausted boolean,
+  membership public.membership_status
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    g.id,
+    g.name,
+    g.description,
+    g.visibility,
+    g.member_count::integer,
+    g.requires_admin_approval,
+    g.has_password,
+    (g.invite_expires_at IS NOT NULL AND g.invite_expires_at <= now()),
+    (g.invite_max_uses IS NOT NULL AND g.invite_use_count >= g.invite_max_uses),
+    gm.status
+  FROM public.groups g
+  LEFT JOIN public.group_members gm
+    ON gm.group_id = g.id
+   AND gm.user_id = auth.uid()
+  WHERE lower(g.invite_code) = lower(btrim(p_code));
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_group_invite_preview(text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_group_invite_preview(text) TO authenticated;
+
+-- ---------------------------------------------------------------------------
+-- 3) Join through an invite
+-- ---------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.join_group_by_invite(p_code text, p_password text DEFAULT NULL)
+RETURNS public.group_members
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  g record;
+  result public.group_members%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Row lock keeps the use counter exact under concurrent joins
+  SELECT * INTO g
+  FROM public.groups
+  WHERE lower(invite_code) = lower(btrim(p_code))
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'GROUP_NOT_FOUND';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.group_members gm
+    WHERE gm.group_id = g.id AND gm.user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'ALREADY_MEMBER';
+  END IF;
+
+  IF g.invite_expires_at IS NOT NULL AND g.invite_expires_at <= now() THEN
+    RAISE EXCEPTION 'INVITE_EXPIRED';
+  END IF;
+
+  IF g.invite_max_uses IS NOT NULL AND g.invite_use_count >= g.invite_max_uses THEN
+    RAISE EXCEPTION 'INVITE_EXHAUSTED';
+  END IF;
+
+  IF g.join_password IS NOT NULL AND (p_password IS NULL OR p_password <> g.join_password) THEN
+    RAISE EXCEPTION 'INVALID_PASSWORD';
+  END IF;
+
+  INSERT INTO public.group_members (group_id, user_id, role, status)
+  VALUES (
+    g.id,
+    auth.uid(),
+    'group_member'::public.group_role,
+    CASE
+      WHEN g.requires_admin_approval THEN 'pending'::public.membership_status
+      ELSE 'approved'::public.membership_status
+    END
+  )
+  RETURNING * INTO result;
+
+  UPDATE public.groups
+  SET invite_use_count = invite_use_count + 1
+  WHERE id = g.id;
+
+  RETURN result;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.join_group_by_invite(text, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.join_group_by_invite(text, text) TO authenticated;
+
+-- ---------------------------------------------------------------------------
+-- 4) Admin controls
+-- ---------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.set_group_invite_limits(
+  p_group_id uuid,
+  p_expires_at timestamptz,
+  p_max_uses integer
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT public.rls_current_user_is_approved_group_admin(p_group_id) THEN
+    RAISE EXCEPTION 'Only group admins can do this' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_max_uses IS NOT NULL AND p_max_uses < 1 THEN
+    RAISE EXCEPTION 'Use limit must be at least 1' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.groups
+  SET invite_expires_at = p_expires_at,
+      invite_max_uses = p_max_uses,
+      invite_use_count = 0
+  WHERE id = p_group_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.set_group_invite_limits(uuid, timestamptz, integer) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.set_group_invite_limits(uuid, timestamptz, integer) TO authenticated;
+
+-- A new code starts a fresh count; limits are kept
+CREATE OR REPLACE FUNCTION public.regenerate_invite_code(p_group_id uuid)
+RETURNS TABLE (invite_code text)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  new_code text;
+BEGIN
+  IF NOT public.rls_current_user_is_approved_group_admin(p_group_id) THEN
+    RAISE EXCEPTION 'Only group admins can do this' USING ERRCODE = '42501';
+  END IF;
+
+  new_code := lower(encode(gen_random_bytes(4), 'hex'));
+
+  UPDATE public.groups g
+  SET invite_code = new_code,
+      invite_use_count = 0
+  WHERE g.id = p_group_id;
+
+  RETURN QUERY SELECT new_code;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.regenerate_invite_code(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.regenerate_invite_code(uuid) TO authenticated;
+
+COMMIT;
@@ -0,0 +1,302 @@
+-- Scheduled group study sessions ("library hour, Tuesday 18:00").
+--   - group_events: a start time, a duration and optional subject labels; any approved member can
+--     schedule one, the author or a group admin can delete it.
+--   - group_event_rsvps: going / maybe / declined, written through set_group_event_rsvp until the
+--     event ends.
+--   - Attendance: the part of each approved member's study sessions that falls inside the event
+--     window is credited to the event, breaks excluded (see 20261020060000_group_event_credit_breaks).
+--     Subjects are shown to members but do not filter the credit.
+
+BEGIN;
+
+-- ---------------------------------------------------------------------------
+-- 1) Tables
+-- ---------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.group_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_id uuid NOT NULL REFERENCES public.groups (id) ON DELETE CASCADE,
+  created_by uuid REFERENCES public.profiles (id) ON DELETE SET NULL,
+  title text NOT NULL,
+  starts_at timestamptz NOT NULL,
+  duration_minutes integer NOT NULL,
+  subjects text[] NOT NULL DEFAULT '{}',
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT group_events_title_len CHECK (char_length(btrim(title)) BETWEEN 1 AND 80),
+  CONSTRAINT group_events_duration CHECK (duration_minutes BETWEEN 5 AND 720),
+  CONSTRAINT group_events_subjects CHECK (
+    cardinality(subjects) <= 5
+    AND array_position(subjects, NULL) IS NULL
+  )
+);
+
+COMMENT ON TABLE public.group_events IS
+  'Scheduled group study session; attendance is computed by get_group_events / get_group_event_attendance.';
+COMMENT ON COLUMN public.group_events.subjects IS
+  'Subject names suggested for the session (labels only: subjects are per user).';
+
+CREATE INDEX IF NOT EXISTS idx_group_events_group_start
+  ON public.group_events (group_id, starts_at DESC);
+
+CREATE TABLE IF NOT EXISTS public.group_event_rsvps (
+  event_id uuid NOT NULL REFERENCES public.group_events (id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES public.profiles (id) ON DELETE CASCADE,
+  status text NOT NULL CHECK (status IN ('going', 'maybe', 'declined')),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (event_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_group_event_rsvps_user
+  ON public.group_event_rsvps (user_id);
+
+ALTER TABLE public.group_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.group_event_rsvps ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS group_events_select_members ON public.group_events;
+CREATE POLICY group_events_select_members
+  ON public.group_events
+  FOR SELECT
+  TO authenticated
+  USING (public.rls_current_user_is_approved_group_member(group_id));
+
+DROP POLICY IF EXISTS group_events_insert_members ON public.group_events;
+CREATE POLICY group_events_insert_members
+  ON public.group_events
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    created_by = (SELECT auth.uid())
+    AND public.rls_current_user_is_approved_group_member(group_id)
+  );
+
+DROP POLICY IF EXISTS group_events_delete_author_or_admin ON public.group_events;
+CREATE POLICY group_events_delete_author_or_admin
+  ON public.group_events
+  FOR DELETE
+  TO authenticated
+  USING (
+    created_by = (SELECT auth.uid())
+    OR public.rls_current_user_is_approved_group_admin(group_id)
+  );
+
+DROP POLICY IF EXISTS group_event_rsvps_select_members ON public.group_event_rsvps;
+CREATE POLICY group_event_rsvps_select_members
+  ON public.group_event_rsvps
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.group_events e
+      WHERE e.id = event_id
+        AND public.rls_current_user_is_approved_group_member(e.group_id)
+    )
+  );
+
+GRANT SELECT, INSERT, DELETE ON public.group_events TO authenticated;
+GRANT SELECT ON public.group_event_rsvps TO authenticated;
+
+-- ---------------------------------------------------------------------------
+-- 2) Credit (internal): seconds each approved member studied inside the window
+-- ---------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.group_event_credit(p_event_id uuid)
+RETURNS TABLE (
+  user_id uuid,
+  studied_seconds bigint
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT
+    ss.user_id,
+    SUM(
+      EXTRACT(EPOCH FROM (
+        LEAST(ss.ended_at, e.starts_at + make_interval(mins => e.duration_minutes))
+        - GREATEST(ss.started_at, e.starts_at)
+      ))
+    )::bigint
+  FROM public.group_events e
+  JOIN public.group_members gm
+    ON gm.group_id = e.group_id
+   AND gm.status = 'approved'::public.membership_status
+  JOIN public.study_sessions ss
+    ON ss.user_id = gm.user_id
+   AND ss.started_at < e.starts_at + make_interval(mins => e.duration_minutes)
+   AND ss.ended_at > e.starts_at
+  WHERE e.id = p_event_id
+  GROUP BY ss.user_id;
+$$;
+
+REVOKE ALL ON FUNCTION public.group_event_credit(uuid) FROM PUBLIC, anon, authenticated;
+
+-- ---------------------------------------------------------------------------
+-- 3) get_group_events: every event of the group with RSVP counts and credited time
+-- ---------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.get_group_events(p_group_id uuid)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  starts_at timestamptz,
+  duration_minutes integer,
+  subjects text[],
+  created_by uuid,
+  created_at timestamptz,
+  going_count integer,
+  maybe_count integer,
+  my_rsvp text,
+  attendee_count integer,
+  studied_seconds bigint,
+  my_studied_seconds bigint
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_uid uuid := auth.uid();
+BEGIN
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT public.rls_current_user_is_approved_group_member(p_group_id) THEN
+    RAISE EXCEPTION 'Not a member of this group' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    e.id,
+    e.title,
+    e.starts_at,
+    e.duration_minutes,
+    e.subjects,
+    e.created_by,
+    e.created_at,
+    (SELECT COUNT(*) FROM public.group_event_rsvps r
+      WHERE r.event_id = e.id AND r.status = 'going')::integer,
+    (SELECT COUNT(*) FROM public.group_event_rsvps r
+      WHERE r.event_id = e.id AND r.status = 'maybe')::integer,
+    (SELECT r.status FROM public.group_event_rsvps r
+      WHERE r.event_id = e.id AND r.user_id = v_uid),
+    COALESCE(credit.attendees, 0)::integer,
+    COALESCE(credit.total, 0)::bigint,
+    COALESCE(credit.mine, 0)::bigint
+  FROM public.group_events e
+  LEFT JOIN LATERAL (
+    SELECT
+      COUNT(*) FILTER (WHERE c.studied_seconds > 0) AS attendees,
+      SUM(c.studied_seconds) AS total,
+      SUM(c.studied_seconds) FILTER (WHERE c.user_id = v_uid) AS mine
+    FROM public.group_event_credit(e.id) c
+  ) credit ON e.starts_at <= now()
+  WHERE e.group_id = p_group_id
+  ORDER BY e.starts_at DESC;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_group_events(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_group_events(uuid) TO authenticated;
+
+-- ---------------------------------------------------------------------------
+-- 4) get_group_event_attendance: members who answered or studied during the event
+-- ---------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.get_group_event_attendance(p_event_id uuid)
+RETURNS TABLE (
+  user_id uuid,
+  username text,
+  avatar_url text,
+  rsvp text,
+  studied_seconds bigint
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_group_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT e.group_id INTO v_group_id FROM public.group_events e WHERE e.id = p_event_id;
+
+  IF v_group_id IS NULL OR NOT public.rls_current_user_is_approved_group_member(v_group_id) THEN
+    RAISE EXCEPTION 'Not a member of this group' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    gm.user_id,
+    p.username,
+    p.avatar_url,
+    r.status,
+    COALESCE(c.studied_seconds, 0)::bigint
+  FROM public.group_members gm
+  JOIN public.profiles p
+    ON p.id = gm.user_id
+  LEFT JOIN public.group_event_rsvps r
+    ON r.event_id = p_event_id
+   AND r.user_id = gm.user_id
+  LEFT JOIN public.group_event_credit(p_event_id) c
+    ON c.user_id = gm.user_id
+  WHERE gm.group_id = v_group_id
+    AND gm.status = 'approved'::public.membership_status
+    AND (r.status IS NOT NULL OR c.studied_seconds > 0)
+  ORDER BY COALESCE(c.studied_seconds, 0) DESC, p.username;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_group_event_attendance(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_group_event_attendance(uuid) TO authenticated;
+
+-- ---------------------------------------------------------------------------
+-- 5) set_group_event_rsvp: answer (or clear with null) until the event ends
+-- ---------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.set_group_event_rsvp(p_event_id uuid, p_status text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_uid uuid := auth.uid();
+  e public.group_events%ROWTYPE;
+BEGIN
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO e FROM public.group_events WHERE id = p_event_id;
+
+  IF NOT FOUND OR NOT public.rls_current_user_is_approved_group_member(e.group_id) THEN
+    RAISE EXCEPTION 'Not a member of this group' USING ERRCODE = '42501';
+  END IF;
+
+  IF e.starts_at + make_interval(mins => e.duration_minutes) <= now() THEN
+    RAISE EXCEPTION 'This event is over' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_status IS NULL THEN
+    DELETE FROM public.group_event_rsvps
+    WHERE event_id = p_event_id AND user_id = v_uid;
+    RETURN;
+  END IF;
+
+  IF p_status NOT IN ('going', 'maybe', 'declined') THEN
+    RAISE EXCEPTION 'Invalid RSVP status' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.group_event_rsvps (event_id, user_id, status)
+  VALUES (p_event_id, v_uid, p_status)
+  ON CONFLICT (event_id, user_id)
+  DO UPDATE SET status = EXCLUDED.status, updated_at = now();
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.set_group_event_rsvp(uuid, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.set_group_event_rsvp(uuid, text) TO authenticated;
+
+COMMIT;
@@ -0,0 +1,206 @@
+-- Co-study rooms: one member starts a synchronized session (focus or Pomodoro) that other
+-- members join from the Focus tab.
+--   - group_study_rooms: at most one open room per group. The phase schedule is derived from
+--     started_at, the interval settings and paused_seconds, so every client computes the same
+--     boundaries; the row streams over Realtime when the host pauses, resumes or ends it.
+--   - Who is in the room is Realtime presence (not stored). Each participant logs their own
+--     study_sessions with their own subject, as with a solo timer.
+--   - Rooms left open for more than 12 hours are closed when a new one is started.
+
+BEGIN;
+
+-- ---------------------------------------------------------------------------
+-- 1) Table
+-- ---------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.group_study_rooms (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_id uuid NOT NULL REFERENCES public.groups (id) ON DELETE CASCADE,
+  host_id uuid REFERENCES public.profiles (id) ON DELETE SET NULL,
+  mode text NOT NULL CHECK (mode IN ('focus', 'pomodoro')),
+  work_minutes integer NOT NULL CHECK (work_minutes BETWEEN 1 AND 240),
+  break_minutes integer NOT NULL CHECK (break_minutes BETWEEN 1 AND 120),
+  long_break_minutes integer NOT NULL CHECK (long_break_minutes BETWEEN 1 AND 120),
+  cycles integer NOT NULL CHECK (cycles BETWEEN 1 AND 24),
+  long_break_every integer NOT NULL CHECK (long_break_every BETWEEN 0 AND 24),
+  started_at timestamptz NOT NULL DEFAULT now(),
+  paused_at timestamptz,
+  paused_seconds integer NOT NULL DEFAULT 0 CHECK (paused_seconds >= 0),
+  ended_at timestamptz
+);
+
+COMMENT ON TABLE public.group_study_rooms IS
+  'Synchronized group timer; phases = f(started_at, settings, paused_seconds). Written through RPCs only.';
+COMMENT ON COLUMN public.group_study_rooms.paused_seconds IS
+  'Host pauses already over; the schedule clock is now - started_at - paused_seconds.';
+
+CREATE UNIQUE INDEX IF NOT EXISTS group_study_rooms_one_open
+  ON public.group_study_rooms (group_id)
+  WHERE ended_at IS NULL;
+
+ALTER TABLE public.group_study_rooms ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS group_study_rooms_select_members ON public.group_study_rooms;
+CREATE POLICY group_study_rooms_select_members
+  ON public.group_study_rooms
+  FOR SELECT
+  TO authenticated
+  USING (public.rls_current_user_is_approved_group_member(group_id));
+
+GRANT SELECT ON public.group_study_rooms TO authenticated;
+
+-- ---------------------------------------------------------------------------
+-- 2) start_group_study_room
+-- ---------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.start_group_study_room(
+  p_group_id uuid,
+  p_mode text,
+  p_work_minutes integer,
+  p_break_minutes integer,
+  p_long_break_minutes integer,
+  p_cycles integer,
+  p_long_break_every integer
+)
+RETURNS public.group_study_rooms
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_uid uuid := auth.uid();
+  result public.group_study_rooms%ROWTYPE;
+BEGIN
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT public.rls_current_user_is_approved_group_member(p_group_id) THEN
+    RAISE EXCEPTION 'Not a member of this group' USING ERRCODE = '42501';
+  END IF;
+
+  -- Forgotten rooms do not block the group forever
+  UPDATE public.group_study_rooms
+  SET ended_at = now()
+  WHERE group_id = p_group_id
+    AND ended_at IS NULL
+    AND started_at < now() - interval '12 hours';
+
+  IF EXISTS (
+    SELECT 1 FROM public.group_study_rooms
+    WHERE group_id = p_group_id AND ended_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'A study room is already open in this group' USING ERRCODE = '23505';
+  END IF;
+
+  INSERT INTO public.group_study_rooms (
+    group_id, host_id, mode, work_minutes, break_minutes, long_break_minutes, cycles, long_break_every
+  )
+  VALUES (
+    p_group_id, v_uid, p_mode, p_work_minutes, p_break_minutes, p_long_break_minutes, p_cycles,
+    p_long_break_every
+  )
+  RETURNING * INTO result;
+
+  RETURN result;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.start_group_study_room(uuid, text, integer, integer, integer, integer, integer)
+  FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.start_group_study_room(uuid, text, integer, integer, integer, integer, integer)
+  TO authenticated;
+
+-- ---------------------------------------------------------------------------
+-- 3) Host controls
+-- ---------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.set_group_study_room_paused(p_room_id uuid, p_paused boolean)
+RETURNS public.group_study_rooms
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_uid uuid := auth.uid();
+  room public.group_study_rooms%ROWTYPE;
+BEGIN
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO room FROM public.group_study_rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND OR room.host_id IS DISTINCT FROM v_uid THEN
+    RAISE EXCEPTION 'Only the room host can do this' USING ERRCODE = '42501';
+  END IF;
+
+  IF room.ended_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This study room has ended' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_paused AND room.paused_at IS NULL THEN
+    UPDATE public.group_study_rooms
+    SET paused_at = now()
+    WHERE id = p_room_id
+    RETURNING * INTO room;
+  ELSIF NOT p_paused AND room.paused_at IS NOT NULL THEN
+    UPDATE public.group_study_rooms
+    SET paused_seconds = paused_seconds + floor(EXTRACT(EPOCH FROM (now() - paused_at)))::integer,
+        paused_at = NULL
+    WHERE id = p_room_id
+    RETURNING * INTO room;
+  END IF;
+
+  RETURN room;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.set_group_study_room_paused(uuid, boolean) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.set_group_study_room_paused(uuid, boolean) TO authenticated;
+
+-- The host, or a group admin when the host is gone
+CREATE OR REPLACE FUNCTION public.end_group_study_room(p_room_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_uid uuid := auth.uid();
+  room public.group_study_rooms%ROWTYPE;
+BEGIN
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO room FROM public.group_study_rooms WHERE id = p_room_id;
+
+  IF NOT FOUND OR NOT (
+    room.host_id IS NOT DISTINCT FROM v_uid
+    OR public.rls_current_user_is_approved_group_admin(room.group_id)
+  ) THEN
+    RAISE EXCEPTION 'Only the room host can do this' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.group_study_rooms
+  SET ended_at = now()
+  WHERE id = p_room_id AND ended_at IS NULL;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.end_group_study_room(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.end_group_study_room(uuid) TO authenticated;
+
+-- ---------------------------------------------------------------------------
+-- 4) Realtime
+-- ---------------------------------------------------------------------------
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+    BEGIN
+      EXECUTE 'ALTER PUBLICATION supabase_realtime ADD TABLE public.group_study_rooms';
+    EXCEPTION
+      WHEN duplicate_object THEN NULL;
+    END;
+  END IF;
+END $$;
+
+COMMIT;
@@ -0,0 +1,39 @@
+-- Task due dates, priorities and reminders.
+--   - scheduled_for stays the day the task is planned for; due_at is the deadline, with a time
+--     so reminders can fire before it.
+--   - priority (low / medium / high) orders the to-do list together with due_at.
+--   - reminder_minutes is how long before due_at the device notifies the user. Reminders are
+--     local notifications scheduled on the device from these columns; nothing is sent by the server.
+
+BEGIN;
+
+ALTER TABLE public.tasks
+  ADD COLUMN IF NOT EXISTS due_at timestamptz,
+  ADD COLUMN IF NOT EXISTS priority text NOT NULL DEFAULT 'medium',
+  ADD COLUMN IF NOT EXISTS reminder_minutes integer;
+
+ALTER TABLE public.tasks
+  DROP CONSTRAINT IF EXISTS tasks_priority_check;
+ALTER TABLE public.tasks
+  ADD CONSTRAINT tasks_priority_check
+  CHECK (priority IN ('low', 'medium', 'high'));
+
+ALTER TABLE public.tasks
+  DROP CONSTRAINT IF EXISTS tasks_reminder_minutes_range;
+ALTER TABLE public.tasks
+  ADD CONSTRAINT tasks_reminder_minutes_range
+  CHECK (reminder_minutes IS NULL OR reminder_minutes BETWEEN 0 AND 10080);
+
+COMMENT ON COLUMN public.tasks.due_at IS
+  'Deadline; NULL when the task has none. Past due_at on a task not done = overdue.';
+COMMENT ON COLUMN public.tasks.priority IS
+  'low | medium | high; orders the task list together with due_at.';
+COMMENT ON COLUMN public.tasks.reminder_minutes IS
+  'Minutes before due_at for the local reminder (0 = at the deadline); NULL = no reminder.';
+
+-- Open tasks by deadline (overdue / upcoming lists)
+CREATE INDEX IF NOT EXISTS idx_tasks_user_due_open
+  ON public.tasks (user_id, due_at)
+  WHERE status <> 'done' AND due_at IS NOT NULL;
+
+COMMIT;
@@ -0,0 +1,121 @@
+-- Task checklists.
+--   - task_subtasks: ordered steps of a task ("Fiche", "Exercices 1 à 5"...) with a done flag.
+--     Readable by the task owner and embedded in the tasks select.
+--   - replace_task_subtasks saves the whole checklist from the task edit form in one go: rows
+--     missing from the list are deleted, the rest take their position from the array order.
+
+BEGIN;
+
+-- ---------------------------------------------------------------------------
+-- 1) Table
+-- ---------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.task_subtasks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id uuid NOT NULL REFERENCES public.tasks (id) ON DELETE CASCADE,
+  title text NOT NULL CHECK (char_length(btrim(title)) BETWEEN 1 AND 200),
+  done boolean NOT NULL DEFAULT false,
+  position integer NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE public.task_subtasks IS
+  'Checklist of a task, ordered by position. Written through replace_task_subtasks only.';
+
+CREATE INDEX IF NOT EXISTS idx_task_subtasks_task_position
+  ON public.task_subtasks (task_id, position);
+
+ALTER TABLE public.task_subtasks ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS task_subtasks_select_own ON public.task_subtasks;
+CREATE POLICY task_subtasks_select_own
+  ON public.task_subtasks
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.tasks t
+      WHERE t.id = task_subtasks.task_id
+        AND t.user_id = (SELECT auth.uid())
+    )
+  );
+
+GRANT SELECT ON public.task_subtasks TO authenticated;
+
+-- ---------------------------------------------------------------------------
+-- 2) replace_task_subtasks
+-- ---------------------------------------------------------------------------
+-- p_subtasks: [{ "id": uuid | null, "title": text, "done": boolean }, ...] in display order.
+-- Unknown or foreign ids are inserted as new rows rather than trusted.
+CREATE OR REPLACE FUNCTION public.replace_task_subtasks(p_task_id uuid, p_subtasks jsonb)
+RETURNS SETOF public.task_subtasks
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_uid uuid := auth.uid();
+  item jsonb;
+  idx integer := 0;
+  v_id uuid;
+  v_title text;
+BEGIN
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.tasks WHERE id = p_task_id AND user_id = v_uid) THEN
+    RAISE EXCEPTION 'Task not found' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_subtasks IS NULL OR jsonb_typeof(p_subtasks) <> 'array' THEN
+    RAISE EXCEPTION 'Subtasks must be an array' USING ERRCODE = '22023';
+  END IF;
+
+  IF jsonb_array_length(p_subtasks) > 50 THEN
+    RAISE EXCEPTION 'A task can have at most 50 subtasks' USING ERRCODE = '22023';
+  END IF;
+
+  DELETE FROM public.task_subtasks s
+  WHERE s.task_id = p_task_id
+    AND s.id NOT IN (
+      SELECT (e ->> 'id')::uuid
+      FROM jsonb_array_elements(p_subtasks) e
+      WHERE COALESCE(e ->> 'id', '') <> ''
+    );
+
+  FOR item IN SELECT value FROM jsonb_array_elements(p_subtasks)
+  LOOP
+    v_title := btrim(COALESCE(item ->> 'title', ''));
+    IF v_title = '' THEN
+      CONTINUE;
+    END IF;
+
+    v_id := NULLIF(item ->> 'id', '')::uuid;
+
+    UPDATE public.task_subtasks
+    SET title = v_title,
+        done = COALESCE((item ->> 'done')::boolean, false),
+        position = idx,
+        updated_at = now()
+    WHERE id = v_id AND task_id = p_task_id;
+
+    IF v_id IS NULL OR NOT FOUND THEN
+      INSERT INTO public.task_subtasks (task_id, title, done, position)
+      VALUES (p_task_id, v_title, COALESCE((item ->> 'done')::boolean, false), idx);
+    END IF;
+
+    idx := idx + 1;
+  END LOOP;
+
+  RETURN QUERY
+  SELECT * FROM public.task_subtasks
+  WHERE task_id = p_task_id
+  ORDER BY position, created_at;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.replace_task_subtasks(uuid, jsonb) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.replace_task_subtasks(uuid, jsonb) TO authenticated;
+
+COMMIT;
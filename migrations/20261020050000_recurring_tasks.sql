@@ -0,0 +1,193 @@
+-- Recurring tasks.
+--   - A template is a task with a recurrence rule: every day, on given weekdays or every N days,
+--     counted from its scheduled_for, optionally until a date. Templates are never worked on.
+--   - Instances are ordinary tasks linked to their template by parent_task_id, one per day
+--     (scheduled_for = that day), so status, logged_seconds, checklist and session history stay
+--     per instance. Completing one does not touch the template or the other instances.
+--   - generate_recurring_task_instances is called by the app when it loads the task list and
+--     creates the instances due since the last run, up to today (at most 31 days back), so an
+--     occurrence on a day the app was not opened still shows up. Each template records the last
+--     day it was generated for, so a deleted instance does not come back.
+--   - A template's due_at is the deadline of its first occurrence (scheduled_for); each instance
+--     gets it moved by the days between the two, with the same reminder_minutes.
+--   - Deleting a template ends the series; its instances stay (parent_task_id set to NULL).
+
+BEGIN;
+
+-- ---------------------------------------------------------------------------
+-- 1) Columns
+-- ---------------------------------------------------------------------------
+ALTER TABLE public.tasks
+  ADD COLUMN IF NOT EXISTS recurrence_kind text,
+  ADD COLUMN IF NOT EXISTS recurrence_weekdays smallint[],
+  ADD COLUMN IF NOT EXISTS recurrence_interval_days integer,
+  ADD COLUMN IF NOT EXISTS recurrence_until date,
+  ADD COLUMN IF NOT EXISTS recurrence_generated_through date,
+  ADD COLUMN IF NOT EXISTS parent_task_id uuid REFERENCES public.tasks (id) ON DELETE SET NULL;
+
+ALTER TABLE public.tasks
+  DROP CONSTRAINT IF EXISTS tasks_recurrence_rule_check;
+ALTER TABLE public.tasks
+  ADD CONSTRAINT tasks_recurrence_rule_check
+  CHECK (
+    recurrence_kind IS NULL
+    OR (recurrence_kind = 'daily')
+    OR (
+      recurrence_kind = 'weekdays'
+      AND cardinality(recurrence_weekdays) BETWEEN 1 AND 7
+      AND recurrence_weekdays <@ ARRAY[1, 2, 3, 4, 5, 6, 7]::smallint[]
+    )
+    OR (
+      recurrence_kind = 'interval'
+      AND recurrence_interval_days BETWEEN 1 AND 365
+    )
+  );
+
+-- An instance is never itself a template
+ALTER TABLE public.tasks
+  DROP CONSTRAINT IF EXISTS tasks_recurrence_instance_check;
+ALTER TABLE public.tasks
+  ADD CONSTRAINT tasks_recurrence_instance_check
+  CHECK (recurrence_kind IS NULL OR parent_task_id IS NULL);
+
+COMMENT ON COLUMN public.tasks.recurrence_kind IS
+  'daily | weekdays | interval on a recurring task template; NULL on regular tasks and instances.';
+COMMENT ON COLUMN public.tasks.recurrence_weekdays IS
+  'ISO weekdays (1 = Monday .. 7 = Sunday) for recurrence_kind = weekdays.';
+COMMENT ON COLUMN public.tasks.recurrence_interval_days IS
+  'Days between occurrences for recurrence_kind = interval, counted from scheduled_for.';
+COMMENT ON COLUMN public.tasks.recurrence_until IS
+  'Last day the template can produce an instance (inclusive); NULL = no end.';
+COMMENT ON COLUMN public.tasks.recurrence_generated_through IS
+  'Last day generate_recurring_task_instances ran for this template.';
+COMMENT ON COLUMN public.tasks.parent_task_id IS
+  'Template this task is an instance of; scheduled_for is the occurrence day.';
+
+-- One instance per template and day
+CREATE UNIQUE INDEX IF NOT EXISTS uq_tasks_parent_occurrence
+  ON public.tasks (parent_task_id, scheduled_for)
+  WHERE parent_task_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_user_recurring
+  ON public.tasks (user_id)
+  WHERE recurrence_kind IS NOT NULL;
+
+-- ---------------------------------------------------------------------------
+-- 2) task_recurs_on (internal)
+-- ---------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.task_recurs_on(p_task public.tasks, p_day date)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT CASE
+    WHEN p_task.recurrence_kind IS NULL THEN false
+    WHEN p_day < COALESCE(p_task.scheduled_for, p_task.created_at::date) THEN false
+    WHEN p_task.recurrence_until IS NOT NULL AND p_day > p_task.recurrence_until THEN false
+    WHEN p_task.recurrence_kind = 'daily' THEN true
+    WHEN p_task.recurrence_kind = 'weekdays' THEN
+      EXTRACT(ISODOW FROM p_day)::smallint = ANY (p_task.recurrence_weekdays)
+    WHEN p_task.recurrence_kind = 'interval' THEN
+      (p_day - COALESCE(p_task.scheduled_for, p_task.created_at::date))
+        % p_task.recurrence_interval_days = 0
+    ELSE false
+  END;
+$$;
+
+REVOKE ALL ON FUNCTION public.task_recurs_on(public.tasks, date) FROM PUBLIC;
+
+-- ---------------------------------------------------------------------------
+-- 3) generate_recurring_task_instances
+-- ---------------------------------------------------------------------------
+-- p_today: the user's local date (the server's current_date can be a day off).
+-- Returns how many instances were created.
+CREATE OR REPLACE FUNCTION public.generate_recurring_task_instances(p_today date)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  c_max_catch_up_days CONSTANT integer := 31;
+  v_uid uuid := auth.uid();
+  tpl public.tasks;
+  v_first_day date;
+  v_day date;
+  v_instance_id uuid;
+  v_created integer := 0;
+BEGIN
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_today IS NULL OR p_today NOT BETWEEN current_date - 1 AND current_date + 1 THEN
+    RAISE EXCEPTION 'Invalid day' USING ERRCODE = '22023';
+  END IF;
+
+  FOR tpl IN
+    SELECT * FROM public.tasks
+    WHERE user_id = v_uid
+      AND recurrence_kind IS NOT NULL
+      AND deleted_at IS NULL
+      AND (recurrence_generated_through IS NULL OR recurrence_generated_through < p_today)
+    FOR UPDATE
+  LOOP
+    UPDATE public.tasks
+    SET recurrence_generated_through = p_today
+    WHERE id = tpl.id;
+
+    v_first_day := COALESCE(tpl.scheduled_for, tpl.created_at::date);
+
+    -- Every day since the last run (task_recurs_on skips those before the first occurrence)
+    FOR v_day IN
+      SELECT d::date
+      FROM generate_series(
+        GREATEST(
+          COALESCE(tpl.recurrence_generated_through + 1, v_first_day),
+          p_today - (c_max_catch_up_days - 1)
+        ),
+        p_today,
+        interval '1 day'
+      ) AS d
+    LOOP
+      IF NOT public.task_recurs_on(tpl, v_day) THEN
+        CONTINUE;
+      END IF;
+
+      v_instance_id := NULL;
+      INSERT INTO public.tasks (
+        user_id, title, subject_id, planned_minutes, status, logged_seconds,
+        scheduled_for, priority, due_at, reminder_minutes, parent_task_id
+      )
+      VALUES (
+        v_uid, tpl.title, tpl.subject_id, tpl.planned_minutes, 'planned', 0,
+        v_day, tpl.priority,
+        tpl.due_at + (v_day - v_first_day) * interval '1 day',
+        CASE WHEN tpl.due_at IS NOT NULL THEN tpl.reminder_minutes END,
+        tpl.id
+      )
+      ON CONFLICT (parent_task_id, scheduled_for) WHERE parent_task_id IS NOT NULL DO NOTHING
+      RETURNING id INTO v_instance_id;
+
+      IF v_instance_id IS NULL THEN
+        CONTINUE;
+      END IF;
+
+      -- Fresh copy of the template checklist
+      INSERT INTO public.task_subtasks (task_id, title, done, position)
+      SELECT v_instance_id, s.title, false, s.position
+      FROM public.task_subtasks s
+      WHERE s.task_id = tpl.id;
+
+      v_created := v_created + 1;
+    END LOOP;
+  END LOOP;
+
+  RETURN v_created;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.generate_recurring_task_instances(date) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.generate_recurring_task_instances(date) TO authenticated;
+
+COMMIT;
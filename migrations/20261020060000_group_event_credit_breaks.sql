@@ -0,0 +1,79 @@
+-- Group event credit ignores breaks.
+-- A session with breaks stores started_at = ended_at - active time, so its stored span sits at the
+-- end of the real one: a long break before the event window made earlier study look like event
+-- time. The credit now rebuilds the wall-clock span (started_at moved back by the total of the
+-- breaks) and subtracts the part of each break that falls inside the event window.
+
+BEGIN;
+
+-- ---------------------------------------------------------------------------
+-- 1) group_event_credit
+-- ---------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.group_event_credit(p_event_id uuid)
+RETURNS TABLE (
+  user_id uuid,
+  studied_seconds bigint
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  WITH ev AS (
+    SELECT
+      e.group_id,
+      e.starts_at AS window_start,
+      e.starts_at + make_interval(mins => e.duration_minutes) AS window_end
+    FROM public.group_events e
+    WHERE e.id = p_event_id
+  ),
+  spans AS (
+    SELECT
+      ss.user_id,
+      ss.breaks,
+      ss.ended_at,
+      ss.started_at - COALESCE(b.total, interval '0') AS wall_started_at,
+      ev.window_start,
+      ev.window_end
+    FROM ev
+    JOIN public.group_members gm
+      ON gm.group_id = ev.group_id
+     AND gm.status = 'approved'::public.membership_status
+    JOIN public.study_sessions ss
+      ON ss.user_id = gm.user_id
+     AND ss.ended_at > ev.window_start
+    CROSS JOIN LATERAL (
+      SELECT SUM((br->>'ended_at')::timestamptz - (br->>'started_at')::timestamptz) AS total
+      FROM jsonb_array_elements(ss.breaks) br
+    ) b
+  )
+  SELECT
+    s.user_id,
+    SUM(
+      GREATEST(
+        0,
+        EXTRACT(EPOCH FROM (
+          LEAST(s.ended_at, s.window_end) - GREATEST(s.wall_started_at, s.window_start)
+        ))
+        - COALESCE((
+          SELECT SUM(
+            GREATEST(
+              0,
+              EXTRACT(EPOCH FROM (
+                LEAST((br->>'ended_at')::timestamptz, s.ended_at, s.window_end)
+                - GREATEST((br->>'started_at')::timestamptz, s.wall_started_at, s.window_start)
+              ))
+            )
+          )
+          FROM jsonb_array_elements(s.breaks) br
+        ), 0)
+      )
+    )::bigint
+  FROM spans s
+  WHERE s.wall_started_at < s.window_end
+  GROUP BY s.user_id;
+$$;
+
+REVOKE ALL ON FUNCTION public.group_event_credit(uuid) FROM PUBLIC, anon, authenticated;
+
+COMMIT;
@@ -0,0 +1,126 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+const STORAGE_PREFIX = "@tymii/active_timer_session";
+
+/** Sessions older than this when the app comes back ask the user before anything is logged. */
+export const LONG_SESSION_RESTORE_SECONDS = 3 * 3600;
+
+/** Longest session the server accepts (`study_sessions_max_duration`). */
+export const MAX_SESSION_SECONDS = 24 * 3600;
+
+/** Timer the session was started with, so a restore brings back the same one. */
+export type TimerSessionMode = "stopwatch" | "interval" | "countdown";
+
+const TIMER_SESSION_MODES: TimerSessionMode[] = ["stopwatch", "interval", "countdown"];
+
+/** One pause inside a session (epoch milliseconds). */
+export interface TimerBreak {
+  startedAt: number;
+  endedAt: number;
+}
+
+/**
+ * Running timer snapshot kept on device so a process kill / JS reload does not lose the session.
+ * Times are epoch milliseconds.
+ */
+export interface PersistedTimerSession {
+  startedAt: number;
+  subjectId: string;
+  taskId: string | null;
+  /** Total time of the completed `breaks`, excluded from the session. */
+  pausedSeconds: number;
+  /** Set while the timer is paused (the open break). */
+  pausedAt: number | null;
+  breaks: TimerBreak[];
+  /** Last moment the app was known to be alive with the timer running (used to trim). */
+  lastSeenAt: number;
+  mode: TimerSessionMode;
+  /** 1-based work phase of an interval run; null in the other modes. */
+  intervalCycle: number | null;
+  /** Length of the phase (interval work phase), in active seconds; null = open-ended. */
+  maxSeconds: number | null;
+}
+
+const storageKey = (userId: string) => `${STORAGE_PREFIX}:${userId}`;
+
+/** Active seconds between `startedAt` and `at` (frozen at `pausedAt` while paused), minus breaks. */
+export function persistedSessionElapsedSeconds(
+  session: PersistedTimerSession,
+  at: number = Date.now()
+): number {
+  const end = session.pausedAt != null ? Math.min(at, session.pausedAt) : at;
+  const raw = Math.floor((end - session.startedAt) / 1000) - session.pausedSeconds;
+  return Math.max(0, raw);
+}
+
+/** Epoch ms at which the session had been active for `activeSeconds` (breaks skipped). */
+export function persistedSessionActiveUntil(
+  session: PersistedTimerSession,
+  activeSeconds: number
+): number {
+  let at = session.startedAt + activeSeconds * 1000;
+  for (const b of session.breaks) {
+    if (b.startedAt >= at) break;
+    at += b.endedAt - b.startedAt;
+  }
+  return at;
+}
+
+/** Epoch ms such that `now - activeSince` is the active time of a running (not paused) session. */
+export function persistedSessionActiveSince(session: PersistedTimerSession): number {
+  return session.startedAt + session.pausedSeconds * 1000;
+}
+
+function isPersistedTimerSession(value: unknown): value is PersistedTimerSession {
+  if (!value || typeof value !== "object") return false;
+  const v = value as Record<string, unknown>;
+  return (
+    typeof v.startedAt === "number" &&
+    typeof v.subjectId === "string" &&
+    (v.taskId === null || typeof v.taskId === "string") &&
+    typeof v.pausedSeconds === "number" &&
+    typeof v.lastSeenAt === "number"
+  );
+}
+
+export async function loadActiveTimerSession(
+  userId: string
+): Promise<PersistedTimerSession | null> {
+  try {
+    const raw = await AsyncStorage.getItem(storageKey(userId));
+    if (!raw) return null;
+    const parsed: unknown = JSON.parse(raw);
+    if (!isPersistedTimerSession(parsed)) return null;
+    // Snapshots written before pause / mode support lack those fields
+    return {
+      ...parsed,
+      pausedAt: typeof parsed.pausedAt === "number" ? parsed.pausedAt : null,
+      breaks: Array.isArray(parsed.breaks) ? parsed.breaks : [],
+      mode: TIMER_SESSION_MODES.includes(parsed.mode) ? parsed.mode : "stopwatch",
+      intervalCycle: typeof parsed.intervalCycle === "number" ? parsed.intervalCycle : null,
+      maxSeconds: typeof parsed.maxSeconds === "number" ? parsed.maxSeconds : null,
+    };
+  } catch (err) {
+    console.warn("active timer session: load failed", err);
+    return null;
+  }
+}
+
+export async function saveActiveTimerSession(
+  userId: string,
+  session: PersistedTimerSession
+): Promise<void> {
+  try {
+    await AsyncStorage.setItem(storageKey(userId), JSON.stringify(session));
+  } catch (err) {
+    console.warn("active timer session: save failed", err);
+  }
+}
+
+export async function clearActiveTimerSession(userId: string): Promise<void> {
+  try {
+    await AsyncStorage.removeItem(storageKey(userId));
+  } catch (err) {
+    console.warn("active timer session: clear failed", err);
+  }
+}
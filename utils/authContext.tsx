@@ -1,5 +1,6 @@
 import { isProfileOnboardingComplete } from "@/utils/queries";
 import { supabase } from "@/utils/supabase";
+import { cancelTaskReminders } from "@/utils/taskReminders";
 import type { Session, User } from "@supabase/supabase-js";
 import * as AppleAuthentication from "expo-apple-authentication";
 import { makeRedirectUri } from "expo-auth-session";
@@ -190,6 +191,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     setIsLoading(true);
     try {
       await supabase.auth.signOut();
+      await cancelTaskReminders();
       setUser(null);
       setProfileStore(null);
     } finally {
@@ -0,0 +1,41 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+const APP_SCHEME = "tymii";
+const PENDING_INVITE_KEY = "@tymii/pending_group_invite";
+
+/** Public site serving the web build; links fall back to the app scheme when unset. */
+const WEB_URL = process.env.EXPO_PUBLIC_WEB_URL?.replace(/\/+$/, "") || null;
+
+export interface GroupInviteLinks {
+  /** Opens the installed app: tymii://group/join/<code> */
+  appUrl: string;
+  /** Same route on the web build; null when EXPO_PUBLIC_WEB_URL is not configured. */
+  webUrl: string | null;
+}
+
+const invitePath = (code: string) => `group/join/${encodeURIComponent(code.trim())}`;
+
+export function buildGroupInviteLinks(code: string): GroupInviteLinks {
+  return {
+    appUrl: `${APP_SCHEME}://${invitePath(code)}`,
+    webUrl: WEB_URL ? `${WEB_URL}/${invitePath(code)}` : null,
+  };
+}
+
+/** Invite code from a /group/join/<code> path, or null. */
+export function parseGroupInvitePath(pathname: string): string | null {
+  const match = /^\/?group\/join\/([^/?#]+)/.exec(pathname);
+  return match ? decodeURIComponent(match[1]) : null;
+}
+
+/** Keeps an invite opened while signed out so it can resume after sign-in. */
+export async function rememberPendingGroupInvite(code: string): Promise<void> {
+  await AsyncStorage.setItem(PENDING_INVITE_KEY, code);
+}
+
+/** Returns and clears the remembered invite code. */
+export async function takePendingGroupInvite(): Promise<string | null> {
+  const code = await AsyncStorage.getItem(PENDING_INVITE_KEY);
+  if (code) await AsyncStorage.removeItem(PENDING_INVITE_KEY);
+  return code;
+}
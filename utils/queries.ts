@@ -1,5 +1,5 @@
-import { getTodayIso } from "@/utils/time";
-import type { GroupMemberWithPresence } from "./queries/types";
+import { getLocalDayBounds, splitAtLocalMidnights } from "@/utils/time";
+import type { GroupMemberWithPresence, StudyPresenceActivity } from "./queries/types";
 import { supabase } from "./supabase";
 
 // Shared query types
@@ -14,8 +14,12 @@ export interface Profile {
   weekly_goal_minutes: number;
   is_public: boolean;
   show_in_leaderboard: boolean;
+  /** Group peers see the subject and task of a running session */
+  share_study_activity: boolean;
   language_preference?: string | null; // 'en' | 'fr' | null
   theme_preference?: string | null; // 'light' | 'dark' | null
+  /** IANA zone that defines study days (daily summaries, streaks, leaderboards). */
+  timezone?: string | null;
   onboarding_completed?: boolean | null;
   academic_category?: string | null;
   academic_year_key?: string | null;
@@ -52,12 +56,31 @@ export interface SubjectNode extends Subject {
 
 export type LeaderboardPeriod = "week" | "month" | "year";
 
+export interface LeaderboardPage {
+  entries: LeaderboardEntry[];
+  /** When the global snapshot was computed; null when the page is empty. */
+  refreshedAt: string | null;
+  hasMore: boolean;
+}
+
+/** Narrows the global leaderboard; unset fields do not filter. */
+export interface LeaderboardFilters {
+  academicCategory?: string | null;
+  academicYearKey?: string | null;
+  /** Catalogue subject (`subjects.bank_key`), e.g. "mathematics". */
+  bankKey?: string | null;
+}
+
 export interface LeaderboardEntry {
   userId: string;
   username: string;
   avatarUrl: string;
   level: number;
   totalSeconds: number;
+  /** Server-side rank (ties share a rank). */
+  rank?: number;
+  /** Rank over the same window a week earlier (friends leaderboard only). */
+  previousRank?: number | null;
 }
 
 export interface DailySummary {
@@ -113,6 +136,28 @@ export interface ProfileOverview {
 
 export type TaskStatus = "planned" | "in-progress" | "done";
 
+export type TaskPriority = "low" | "medium" | "high";
+
+export type TaskRecurrenceKind = "daily" | "weekdays" | "interval";
+
+/** Recurrence rule of a task template, counted from its `scheduledFor`. */
+export interface TaskRecurrence {
+  kind: TaskRecurrenceKind;
+  /** ISO weekdays (1 = Monday .. 7 = Sunday) for `weekdays`. */
+  weekdays: number[];
+  /** Days between occurrences for `interval`. */
+  intervalDays: number | null;
+  /** Last day of the series (YYYY-MM-DD, inclusive); null = no end. */
+  until: string | null;
+}
+
+export interface TaskSubtask {
+  id: string;
+  title: string;
+  done: boolean;
+  position: number;
+}
+
 export interface Task {
   id: string;
   user_id?: string;
@@ -123,6 +168,17 @@ export interface Task {
   plannedMinutes?: number | null;
   status: TaskStatus;
   loggedSeconds: number;
+  /** Deadline (ISO timestamp); `scheduledFor` is the day the task is planned for. */
+  dueAt?: string | null;
+  priority: TaskPriority;
+  /** Minutes before `dueAt` for the local reminder; null = no reminder. */
+  reminderMinutes?: number | null;
+  /** Checklist steps, in order. */
+  subtasks: TaskSubtask[];
+  /** Set on recurring task templates; instances are generated from it each day. */
+  recurrence?: TaskRecurrence | null;
+  /** Template this task is an instance of; `scheduledFor` is the occurrence day. */
+  parentTaskId?: string | null;
   createdAt?: string;
   updatedAt?: string;
 }
@@ -514,6 +570,33 @@ export const restoreSubject = async (subjectId: string) => {
 
 // TASK QUERIES
 // CRUD helpers for user tasks (planning, tracking progress).
+// Every task read embeds its checklist so the list and the edit modal share one shape
+const TASK_SELECT = "*, subtasks:task_subtasks(id, title, done, position)";
+
+const mapTaskSubtaskRow = (row: any): TaskSubtask => ({
+  id: row.id,
+  title: row.title,
+  done: !!row.done,
+  position: row.position ?? 0,
+});
+
+const mapTaskRecurrence = (row: any): TaskRecurrence | null =>
+  row.recurrence_kind
+    ? {
+        kind: row.recurrence_kind as TaskRecurrenceKind,
+        weekdays: ((row.recurrence_weekdays ?? []) as number[]).map(Number),
+        intervalDays: row.recurrence_interval_days ?? null,
+        until: row.recurrence_until ?? null,
+      }
+    : null;
+
+const taskRecurrenceColumns = (recurrence: TaskRecurrence | null) => ({
+  recurrence_kind: recurrence?.kind ?? null,
+  recurrence_weekdays: recurrence?.kind === "weekdays" ? recurrence.weekdays : null,
+  recurrence_interval_days: recurrence?.kind === "interval" ? recurrence.intervalDays : null,
+  recurrence_until: recurrence?.until ?? null,
+});
+
 const mapTaskRow = (row: any): Task => ({
   id: row.id,
   user_id: row.user_id,
@@ -524,6 +607,14 @@ const mapTaskRow = (row: any): Task => ({
   plannedMinutes: row.planned_minutes ?? null,
   status: (row.status as TaskStatus) ?? "planned",
   loggedSeconds: row.logged_seconds ?? 0,
+  dueAt: row.due_at ?? null,
+  priority: (row.priority as TaskPriority) ?? "medium",
+  reminderMinutes: row.reminder_minutes ?? null,
+  subtasks: ((row.subtasks ?? []) as any[])
+    .map(mapTaskSubtaskRow)
+    .sort((a, b) => a.position - b.position),
+  recurrence: mapTaskRecurrence(row),
+  parentTaskId: row.parent_task_id ?? null,
   createdAt: row.created_at,
   updatedAt: row.updated_at,
 });
@@ -531,7 +622,7 @@ const mapTaskRow = (row: any): Task => ({
 export const fetchTasks = async (userId: string) => {
   const { data, error } = await supabase
     .from("tasks")
-    .select("*")
+    .select(TASK_SELECT)
     .eq("user_id", userId)
     .order("created_at", { ascending: false });
 
@@ -548,6 +639,10 @@ export const createTask = async (
     status?: TaskStatus;
     loggedSeconds?: number;
     scheduledFor?: string | null;
+    dueAt?: string | null;
+    priority?: TaskPriority;
+    reminderMinutes?: number | null;
+    recurrence?: TaskRecurrence | null;
   }
 ) => {
   const { data, error } = await supabase
@@ -560,8 +655,12 @@ export const createTask = async (
       status: payload.status ?? "planned",
       logged_seconds: payload.loggedSeconds ?? 0,
       scheduled_for: payload.scheduledFor ?? null,
+      due_at: payload.dueAt ?? null,
+      priority: payload.priority ?? "medium",
+      reminder_minutes: payload.reminderMinutes ?? null,
+      ...taskRecurrenceColumns(payload.recurrence ?? null),
     })
-    .select()
+    .select(TASK_SELECT)
     .single();
 
   if (error) throw error;
@@ -578,6 +677,10 @@ export const updateTask = async (
     status: TaskStatus;
     loggedSeconds: number;
     scheduledFor: string | null;
+    dueAt: string | null;
+    priority: TaskPriority;
+    reminderMinutes: number | null;
+    recurrence: TaskRecurrence | null;
   }>
 ) => {
   const updates: Record<string, any> = {};
@@ -591,6 +694,12 @@ export const updateTask = async (
     updates.logged_seconds = payload.loggedSeconds;
   if (payload.scheduledFor !== undefined)
     updates.scheduled_for = payload.scheduledFor;
+  if (payload.dueAt !== undefined) updates.due_at = payload.dueAt;
+  if (payload.priority !== undefined) updates.priority = payload.priority;
+  if (payload.reminderMinutes !== undefined)
+    updates.reminder_minutes = payload.reminderMinutes;
+  if (payload.recurrence !== undefined)
+    Object.assign(updates, taskRecurrenceColumns(payload.recurrence));
 
   if (Object.keys(updates).length === 0) return null;
 
@@ -599,7 +708,7 @@ export const updateTask = async (
     .update(updates)
     .eq("id", taskId)
     .eq("user_id", userId)
-    .select()
+    .select(TASK_SELECT)
     .single();
 
   if (error) throw error;
@@ -611,15 +720,74 @@ export const deleteTask = async (taskId: string) => {
   if (error) throw error;
 };
 
+/** Saves the whole checklist in display order; items without an id are created. */
+export const replaceTaskSubtasks = async (
+  taskId: string,
+  subtasks: { id?: string | null; title: string; done: boolean }[]
+): Promise<TaskSubtask[]> => {
+  const { data, error } = await supabase.rpc("replace_task_subtasks", {
+    p_task_id: taskId,
+    p_subtasks: subtasks.map((s) => ({ id: s.id ?? null, title: s.title, done: s.done })),
+  });
+
+  if (error) throw error;
+  return ((data ?? []) as any[]).map(mapTaskSubtaskRow);
+};
+
+/** Creates today's instances of the user's recurring tasks; returns how many were created. */
+export const generateRecurringTaskInstances = async (todayIso: string): Promise<number> => {
+  const { data, error } = await supabase.rpc("generate_recurring_task_instances", {
+    p_today: todayIso,
+  });
+
+  if (error) throw error;
+  return Number(data ?? 0);
+};
+
 // SESSION QUERIES
 // Logging, reading, and aggregating study sessions for totals/graphs/history.
+
+/** Pause taken inside a timed session (wall-clock; not counted in `duration_seconds`). */
+export interface SessionBreak {
+  startedAt: Date;
+  endedAt: Date;
+}
+
 export const logSession = async (
   userId: string,
   subjectId: string,
   startTime: Date,
   endTime: Date,
-  options?: { notes?: string; taskId?: string | null }
+  options?: {
+    notes?: string;
+    taskId?: string | null;
+    breaks?: SessionBreak[];
+    /** Idempotency key; pass the same value when retrying so the session is stored once. */
+    clientId?: string;
+  }
 ) => {
+  const breaks = (options?.breaks ?? []).map((b) => ({
+    started_at: b.startedAt.toISOString(),
+    ended_at: b.endedAt.toISOString(),
+  }));
+
+  // With a client id the RPC is the only path: it inserts the session and task seconds together,
+  // once per id. A plain insert here would log a retried session twice.
+  if (options?.clientId) {
+    const { data, error } = await supabase.rpc("log_study_session", {
+      p_client_id: options.clientId,
+      p_subject_id: subjectId,
+      p_task_id: options.taskId ?? null,
+      p_started_at: startTime.toISOString(),
+      p_ended_at: endTime.toISOString(),
+      p_notes: options.notes ?? "",
+      p_breaks: breaks,
+    });
+
+    if (error) throw error;
+    return data;
+  }
+
   const { data, error } = await supabase
     .from("study_sessions")
     .insert({
@@ -629,6 +797,7 @@ export const logSession = async (
       started_at: startTime.toISOString(),
       ended_at: endTime.toISOString(),
       notes: options?.notes ?? "",
+      breaks,
     })
     .select()
     .single();
@@ -672,30 +841,237 @@ export const logSession = async (
   return data;
 };
 
+/** A recorded session as shown in history / the edit form. */
+export interface StudySession {
+  id: string;
+  subjectId: string;
+  taskId: string | null;
+  startedAt: string;
+  endedAt: string;
+  durationSeconds: number;
+  notes: string;
+  /** Post-session reflection; null / empty when it was skipped. */
+  focusRating: number | null;
+  workedOn: string;
+  breaks: SessionBreak[];
+}
+
+const mapStudySessionRow = (row: any): StudySession => ({
+  id: row.id,
+  subjectId: row.subject_id,
+  taskId: row.task_id ?? null,
+  startedAt: row.started_at,
+  endedAt: row.ended_at,
+  durationSeconds: row.duration_seconds ?? 0,
+  notes: row.notes ?? "",
+  focusRating: row.focus_rating ?? null,
+  workedOn: row.worked_on ?? "",
+  breaks: Array.isArray(row.breaks)
+    ? row.breaks.map((b: { started_at: string; ended_at: string }) => ({
+        startedAt: new Date(b.started_at),
+        endedAt: new Date(b.ended_at),
+      }))
+    : [],
+});
+
+const STUDY_SESSION_COLUMNS =
+  "id, subject_id, task_id, started_at, ended_at, duration_seconds, notes, focus_rating, worked_on, breaks";
+
+/** Latest finished sessions, newest first. */
+export const fetchRecentSessions = async (
+  userId: string,
+  limit = 5
+): Promise<StudySession[]> => {
+  const { data, error } = await supabase
+    .from("study_sessions")
+    .select(STUDY_SESSION_COLUMNS)
+    .eq("user_id", userId)
+    .not("ended_at", "is", null)
+    .order("started_at", { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return (data ?? []).map(mapStudySessionRow);
+};
+
+export interface SessionHistoryFilters {
+  subjectId?: string | null;
+  taskId?: string | null;
+  /** Inclusive bounds on `started_at`. */
+  from?: Date | null;
+  to?: Date | null;
+  minDurationSeconds?: number;
+}
+
+/** Position after the last row of a history page: its `startedAt` and `id`. */
+export interface SessionHistoryCursor {
+  startedAt: string;
+  id: string;
+}
+
+/**
+ * One page of session history, newest first (ties on `started_at` ordered by id). Pass the
+ * last row's `startedAt` and `id` as `before` to get the next page.
+ */
+export const fetchSessionHistory = async (
+  userId: string,
+  filters: SessionHistoryFilters,
+  options: { before?: SessionHistoryCursor | null; limit?: number } = {}
+): Promise<StudySession[]> => {
+  let query = supabase
+    .from("study_sessions")
+    .select(STUDY_SESSION_COLUMNS)
+    .eq("user_id", userId)
+    .not("ended_at", "is", null);
+
+  if (filters.subjectId) query = query.eq("subject_id", filters.subjectId);
+  if (filters.taskId) query = query.eq("task_id", filters.taskId);
+  if (filters.from) query = query.gte("started_at", filters.from.toISOString());
+  if (filters.to) query = query.lte("started_at", filters.to.toISOString());
+  if (filters.minDurationSeconds && filters.minDurationSeconds > 0) {
+    query = query.gte("duration_seconds", filters.minDurationSeconds);
+  }
+  if (options.before) {
+    // Sessions sharing the cursor's start time are split by id, so none is skipped
+    const { startedAt, id } = options.before;
+    query = query.or(
+      `started_at.lt."${startedAt}",and(started_at.eq."${startedAt}",id.lt.${id})`
+    );
+  }
+
+  const { data, error } = await query
+    .order("started_at", { ascending: false })
+    .order("id", { ascending: false })
+    .limit(options.limit ?? 20);
+
+  if (error) throw error;
+  return (data ?? []).map(mapStudySessionRow);
+};
+
+/**
+ * Edit a past session. Day totals, XP, streaks and task `logged_seconds` follow through the
+ * `on_session_updated` trigger.
+ */
+export const updateStudySession = async (
+  sessionId: string,
+  userId: string,
+  payload: Partial<{
+    subjectId: string;
+    taskId: string | null;
+    startedAt: Date;
+    endedAt: Date;
+    notes: string;
+  }>
+): Promise<StudySession | null> => {
+  const updates: Record<string, any> = {};
+  if (payload.subjectId !== undefined) updates.subject_id = payload.subjectId;
+  if (payload.taskId !== undefined) updates.task_id = payload.taskId;
+  if (payload.startedAt !== undefined) updates.started_at = payload.startedAt.toISOString();
+  if (payload.endedAt !== undefined) updates.ended_at = payload.endedAt.toISOString();
+  if (payload.notes !== undefined) updates.notes = payload.notes;
+
+  if (Object.keys(updates).length === 0) return null;
+
+  const { data, error } = await supabase
+    .from("study_sessions")
+    .update(updates)
+    .eq("id", sessionId)
+    .eq("user_id", userId)
+    .select(STUDY_SESSION_COLUMNS)
+    .single();
+
+  if (error) throw error;
+  return mapStudySessionRow(data);
+};
+
+export interface SessionReflection {
+  workedOn: string;
+  /** 1–5, or null when the user did not rate the session. */
+  focusRating: number | null;
+  notes: string;
+}
+
+/** Store the post-session reflection on a just-logged session. */
+export const saveSessionReflection = async (
+  sessionId: string,
+  userId: string,
+  reflection: SessionReflection
+) => {
+  const { error } = await supabase
+    .from("study_sessions")
+    .update({
+      worked_on: reflection.workedOn.trim(),
+      focus_rating: reflection.focusRating,
+      notes: reflection.notes.trim(),
+    })
+    .eq("id", sessionId)
+    .eq("user_id", userId);
+
+  if (error) throw error;
+};
+
+/** Delete a session; totals are taken back out by the `on_session_deleted` trigger. */
+export const deleteStudySession = async (sessionId: string, userId: string) => {
+  const { error } = await supabase
+    .from("study_sessions")
+    .delete()
+    .eq("id", sessionId)
+    .eq("user_id", userId);
+
+  if (error) throw error;
+};
+
 export interface WeeklySessionRow {
   subject_id: string;
   duration_seconds: number;
+  started_at: string;
   ended_at: string;
+  focus_rating: number | null;
 }
 
-/** Fetch study sessions for a date range (for weekly stats). */
+/**
+ * Study sessions for a range of local days (both inclusive). A session that crosses midnight
+ * comes back as one row per day, with `started_at` / `ended_at` / `duration_seconds` cut to that
+ * day, so bucketing rows by `started_at` gives correct day totals.
+ */
 export const fetchSessionsInRange = async (
   userId: string,
   fromDateIso: string,
   toDateIso: string
 ): Promise<WeeklySessionRow[]> => {
-  const fromStart = `${fromDateIso}T00:00:00.000Z`;
-  const toEnd = `${toDateIso}T23:59:59.999Z`;
+  const rangeStart = getLocalDayBounds(fromDateIso).start;
+  const rangeEnd = getLocalDayBounds(toDateIso).end;
   const { data, error } = await supabase
     .from("study_sessions")
-    .select("subject_id, duration_seconds, ended_at")
+    .select("subject_id, duration_seconds, started_at, ended_at, focus_rating")
     .eq("user_id", userId)
     .not("ended_at", "is", null)
-    .gte("ended_at", fromStart)
-    .lte("ended_at", toEnd);
+    .lt("started_at", rangeEnd.toISOString())
+    .gt("ended_at", rangeStart.toISOString());
 
   if (error) throw error;
-  return (data ?? []) as WeeklySessionRow[];
+
+  const rows: WeeklySessionRow[] = [];
+  for (const row of (data ?? []) as WeeklySessionRow[]) {
+    const start = new Date(row.started_at);
+    const end = new Date(row.ended_at);
+    const pieces = splitAtLocalMidnights(start, end);
+    if (pieces.length <= 1) {
+      rows.push(row);
+      continue;
+    }
+    // started_at / ended_at span active time only, so wall-clock overlap is studied time
+    for (const piece of pieces) {
+      if (piece.end <= rangeStart || piece.start >= rangeEnd) continue;
+      rows.push({
+        ...row,
+        started_at: piece.start.toISOString(),
+        ended_at: piece.end.toISOString(),
+        duration_seconds: Math.round((piece.end.getTime() - piece.start.getTime()) / 1000),
+      });
+    }
+  }
+  return rows;
 };
 
 /** Sum session minutes on a given calendar day (YYYY-MM-DD) for one subject. */
@@ -737,147 +1113,118 @@ export const fetchLongestSessionSeconds = async (
 // that gathers profile + subjects + sessions + leaderboard in one call.
 //---------------------------------------------------------------
 
-/** Calendar shift for YYYY-MM-DD (local) — matches leaderboard MV window logic. */
-function shiftCalendarDaysFromIso(iso: string, deltaDays: number): string {
-  const parts = iso.split("-").map((p) => parseInt(p, 10));
-  if (parts.length !== 3 || parts.some((n) => Number.isNaN(n))) return iso;
-  const [y, m, d] = parts;
-  const dt = new Date(y, m - 1, d + deltaDays);
-  const pad = (n: number) => String(n).padStart(2, "0");
-  return `${dt.getFullYear()}-${pad(dt.getMonth() + 1)}-${pad(dt.getDate())}`;
-}
+const LEADERBOARD_VIEWS: Record<LeaderboardPeriod, { table: string; totalColumn: string }> = {
+  week: { table: "weekly_leaderboard", totalColumn: "weekly_seconds" },
+  month: { table: "monthly_leaderboard", totalColumn: "total_seconds" },
+  year: { table: "yearly_leaderboard", totalColumn: "total_seconds" },
+};
 
-/** Live seconds for the same windows as materialized leaderboards (week: sessions; month/year: daily_summaries). */
-async function fetchLiveLeaderboardSecondsForUser(
-  period: LeaderboardPeriod,
-  userId: string
-): Promise<number> {
-  const todayIso = getTodayIso();
-  if (period === "week") {
-    const fromIso = shiftCalendarDaysFromIso(todayIso, -7);
-    const rows = await fetchSessionsInRange(userId, fromIso, todayIso);
-    return rows.reduce((acc, r) => acc + (r.duration_seconds ?? 0), 0);
-  }
-  const daysBack = period === "month" ? 30 : 365;
-  const fromIso = shiftCalendarDaysFromIso(todayIso, -daysBack);
-  const { data, error } = await supabase
-    .from("daily_summaries")
-    .select("total_seconds")
-    .eq("user_id", userId)
-    .gte("date", fromIso)
-    .lte("date", todayIso);
-  if (error) throw error;
-  let sum = 0;
-  for (const row of data ?? []) {
-    sum += (row as { total_seconds?: number | null }).total_seconds ?? 0;
-  }
-  return sum;
-}
+/** Maps a leaderboard view row or a leaderboard RPC row (`total_seconds`). */
+const mapLeaderboardRow = (row: any, totalColumn = "total_seconds"): LeaderboardEntry => ({
+  userId: row.user_id,
+  username: row.username ?? "Utilisateur",
+  avatarUrl: row.avatar_url ?? "",
+  level: row.level ?? 1,
+  totalSeconds: Number(row[totalColumn] ?? 0),
+  rank: row.rank != null ? Number(row.rank) : undefined,
+});
 
 /**
- * Materialized leaderboard views can lag until `refresh_leaderboards()` runs.
- * If the viewer opted in but is missing from the snapshot, merge using live aggregates.
+ * One page of the global leaderboard. The views are ranked snapshots refreshed every few
+ * minutes by `refresh_leaderboards()`; `refreshedAt` tells the UI how old the page is.
  */
-async function mergeMissingViewerIntoLeaderboard(
+export const fetchLeaderboardByPeriod = async (
   period: LeaderboardPeriod,
-  entries: LeaderboardEntry[],
-  currentUserId: string | null | undefined
-): Promise<LeaderboardEntry[]> {
-  if (!currentUserId || entries.some((e) => e.userId === currentUserId)) {
-    return entries;
-  }
+  options?: { offset?: number; limit?: number }
+): Promise<LeaderboardPage> => {
+  const { table, totalColumn } = LEADERBOARD_VIEWS[period];
+  const offset = options?.offset ?? 0;
+  const limit = options?.limit ?? 50;
 
-  const { data: profile, error } = await supabase
-    .from("profiles")
-    .select("username, avatar_url, level, show_in_leaderboard")
-    .eq("id", currentUserId)
-    .maybeSingle();
+  const { data, error } = await supabase
+    .from(table)
+    .select("*")
+    .order("rank", { ascending: true })
+    .order("user_id", { ascending: true })
+    .range(offset, offset + limit - 1);
 
-  if (error || !profile || profile.show_in_leaderboard === false) {
-    return entries;
-  }
+  if (error) throw error;
 
-  try {
-    const totalSeconds = await fetchLiveLeaderboardSecondsForUser(period, currentUserId);
-    const selfEntry: LeaderboardEntry = {
-      userId: currentUserId,
-      username: profile.username ?? "Utilisateur",
-      avatarUrl: profile.avatar_url ?? "",
-      level: profile.level ?? 1,
-      totalSeconds,
-    };
-    return [...entries, selfEntry].sort((a, b) => b.totalSeconds - a.totalSeconds);
-  } catch {
-    return entries;
-  }
-}
+  const rows = data ?? [];
+  return {
+    entries: rows.map((row: any) => mapLeaderboardRow(row, totalColumn)),
+    refreshedAt: rows[0]?.refreshed_at ?? null,
+    hasMore: rows.length === limit,
+  };
+};
 
-/** MV rows can carry stale `username` from before the last `refresh_leaderboards()`. RLS allows
- *  reading only your own private profile, so we patch the current user's row from live `profiles`.
- */
-async function applyLiveProfileToCurrentUserEntry(
-  entries: LeaderboardEntry[],
-  currentUserId: string | null | undefined
-): Promise<LeaderboardEntry[]> {
-  if (!currentUserId) return entries;
-  const idx = entries.findIndex((e) => e.userId === currentUserId);
-  if (idx < 0) return entries;
-
-  const { data: profile, error } = await supabase
-    .from("profiles")
-    .select("username, avatar_url, level")
-    .eq("id", currentUserId)
+/** The user's own row in the global snapshot (null when they opted out or are not in it yet). */
+export const fetchLeaderboardEntryForUser = async (
+  period: LeaderboardPeriod,
+  userId: string
+): Promise<LeaderboardEntry | null> => {
+  const { table, totalColumn } = LEADERBOARD_VIEWS[period];
+  const { data, error } = await supabase
+    .from(table)
+    .select("*")
+    .eq("user_id", userId)
     .maybeSingle();
 
-  if (error || !profile) return entries;
+  if (error) throw error;
+  return data ? mapLeaderboardRow(data, totalColumn) : null;
+};
 
-  const next = [...entries];
-  next[idx] = {
-    ...next[idx],
-    username: profile.username ?? next[idx].username,
-    avatarUrl: profile.avatar_url ?? next[idx].avatarUrl,
-    level: profile.level ?? next[idx].level,
-  };
-  return next;
-}
+/** Ranking of one group's approved members (RPC; the caller must be an approved member). */
+export const fetchGroupLeaderboardByPeriod = async (
+  groupId: string,
+  period: LeaderboardPeriod
+): Promise<LeaderboardEntry[]> => {
+  const { data, error } = await supabase.rpc("get_group_leaderboard", {
+    p_group_id: groupId,
+    p_period: period,
+  });
 
-export const fetchLeaderboardByPeriod = async (
+  if (error) throw error;
+
+  return (data ?? []).map((row: any) => mapLeaderboardRow(row));
+};
+
+/** Global ranking restricted to a cohort and/or a subject; computed live by an RPC. */
+export const fetchFilteredLeaderboardByPeriod = async (
   period: LeaderboardPeriod,
-  currentUserId?: string | null
+  filters: LeaderboardFilters
 ): Promise<LeaderboardEntry[]> => {
-  const tableByPeriod: Record<LeaderboardPeriod, string> = {
-    week: "weekly_leaderboard",
-    month: "monthly_leaderboard",
-    year: "yearly_leaderboard",
-  };
+  const { data, error } = await supabase.rpc("get_filtered_leaderboard", {
+    p_period: period,
+    p_academic_category: filters.academicCategory ?? null,
+    p_academic_year_key: filters.academicYearKey ?? null,
+    p_bank_key: filters.bankKey ?? null,
+  });
 
-  const columnByPeriod: Record<LeaderboardPeriod, string> = {
-    week: "weekly_seconds",
-    month: "total_seconds",
-    year: "total_seconds",
-  };
+  if (error) throw error;
 
-  const table = tableByPeriod[period];
-  const totalColumn = columnByPeriod[period];
+  return (data ?? []).map((row: any) => mapLeaderboardRow(row));
+};
 
-  const { data, error } = await supabase.from(table).select("*").limit(50);
+/** Caller + accepted friends, live from daily_summaries, with last week's rank for each. */
+export const fetchFriendsLeaderboardByPeriod = async (
+  period: LeaderboardPeriod
+): Promise<LeaderboardEntry[]> => {
+  const { data, error } = await supabase.rpc("get_friends_leaderboard", {
+    p_period: period,
+  });
 
   if (error) throw error;
 
-  const entries = (data ?? []).map((row: any) => ({
-    userId: row.user_id,
-    username: row.username ?? "Utilisateur",
-    avatarUrl: row.avatar_url ?? "",
-    level: row.level ?? 1,
-    totalSeconds: row[totalColumn] ?? 0,
+  return (data ?? []).map((row: any) => ({
+    ...mapLeaderboardRow(row),
+    previousRank: row.previous_rank != null ? Number(row.previous_rank) : null,
   }));
-
-  const merged = await mergeMissingViewerIntoLeaderboard(period, entries, currentUserId);
-  return applyLiveProfileToCurrentUserEntry(merged, currentUserId);
 };
 
-export const fetchLeaderboard = async (currentUserId?: string | null) => {
-  return fetchLeaderboardByPeriod("week", currentUserId);
+export const fetchLeaderboard = async () => {
+  const page = await fetchLeaderboardByPeriod("week");
+  return page.entries;
 };
 
 export const fetchUserProfile = async (userId: string) => {
@@ -902,6 +1249,7 @@ export const updateUserProfile = async (
     academic_year_key?: string | null;
     specialty_keys?: string[] | null;
     language_keys?: string[] | null;
+    share_study_activity?: boolean;
   }
 ) => {
   const row: Record<string, unknown> = {};
@@ -925,6 +1273,9 @@ export const updateUserProfile = async (
   if (updates.language_keys !== undefined) {
     row.language_keys = updates.language_keys ?? [];
   }
+  if (updates.share_study_activity !== undefined) {
+    row.share_study_activity = updates.share_study_activity;
+  }
 
   const { data, error } = await supabase
     .from("profiles")
@@ -934,14 +1285,7 @@ export const updateUserProfile = async (
     .single();
 
   if (error) throw error;
-
-  if (updates.username !== undefined || updates.avatar_url !== undefined) {
-    const { error: refreshError } = await supabase.rpc("refresh_leaderboards");
-    if (refreshError) {
-      console.warn("refresh_leaderboards after profile update:", refreshError.message);
-    }
-  }
-
+  // New usernames / avatars reach the leaderboards with the next scheduled refresh
   return data as Profile;
 };
 
@@ -1008,7 +1352,7 @@ export const isProfileOnboardingComplete = async (userId: string): Promise<boole
   return data.onboarding_completed === true;
 };
 
-/** Reset streak when user had no study yesterday or today (UTC). Best-effort; ignore errors. */
+/** Reset streak when user had no study yesterday or today (profile timezone). Best-effort; ignore errors. */
 export const applyStreakExpiryForCurrentUser = async (): Promise<void> => {
   const { error } = await supabase.rpc("apply_streak_expiry_for_me");
   if (error) console.warn("apply_streak_expiry_for_me", error.message);
@@ -1026,6 +1370,44 @@ export const fetchDailyStats = async (userId: string) => {
   return data as DailySummary[];
 };
 
+// Per account: after switching accounts in the same run the new one still sends its zone
+const syncedTimezoneByUser = new Map<string, string>();
+
+/**
+ * Store the device zone on the profile so the server cuts days at the user's midnight. No-op when
+ * it was already sent this run; the server rebuilds day totals when the zone actually changes.
+ */
+export const syncMyTimezone = async (userId: string, timeZone: string): Promise<void> => {
+  if (syncedTimezoneByUser.get(userId) === timeZone) return;
+  const { error } = await supabase.rpc("set_my_timezone", { p_timezone: timeZone });
+  if (error) {
+    console.warn("set_my_timezone", error.message);
+    return;
+  }
+  syncedTimezoneByUser.set(userId, timeZone);
+};
+
+/** Day totals (YYYY-MM-DD → seconds) between two dates, both inclusive. */
+export const fetchDailySummariesInRange = async (
+  userId: string,
+  fromDateIso: string,
+  toDateIso: string
+): Promise<Record<string, number>> => {
+  const { data, error } = await supabase
+    .from("daily_summaries")
+    .select("date, total_seconds")
+    .eq("user_id", userId)
+    .gte("date", fromDateIso)
+    .lte("date", toDateIso);
+
+  if (error) throw error;
+  const totals: Record<string, number> = {};
+  for (const row of (data ?? []) as Pick<DailySummary, "date" | "total_seconds">[]) {
+    totals[row.date] = row.total_seconds ?? 0;
+  }
+  return totals;
+};
+
 export const fetchProfileOverview = async (
   userId: string
 ): Promise<ProfileOverview> => {
@@ -1033,14 +1415,14 @@ export const fetchProfileOverview = async (
     userProfile,
     userVisible,
     allUserSubjects,
-    leaderboard,
+    leaderboardEntry,
     overviewResponse,
     subjectTotalsResponse,
   ] = await Promise.all([
     fetchUserProfile(userId),
     fetchUserSubjects(userId),
     fetchAllUserSubjects(userId), // Fetch ALL user_subjects (including hidden) for custom colors
-    fetchLeaderboardByPeriod("week", userId),
+    fetchLeaderboardEntryForUser("week", userId),
     supabase
       .from("session_overview")
       .select("*")
@@ -1087,8 +1469,7 @@ export const fetchProfileOverview = async (
 
   subjectTotals.sort((a, b) => b.totalSeconds - a.totalSeconds);
 
-  const idx = leaderboard.findIndex((entry) => entry.userId === userId);
-  const leaderboardRank = idx >= 0 ? `#${idx + 1}` : "-";
+  const leaderboardRank = leaderboardEntry?.rank != null ? `#${leaderboardEntry.rank}` : "-";
 
   const hiddenSubjects = (allUserSubjects ?? []).filter((s) => s.is_hidden === true);
 
@@ -1275,12 +1656,9 @@ export const deleteGroup = async (groupId: string): Promise<void> => {
   if (error) throw error;
 };
 
-export const leaveGroup = async (userId: string, groupId: string): Promise<void> => {
-  const { error } = await supabase
-    .from("group_members")
-    .delete()
-    .eq("group_id", groupId)
-    .eq("user_id", userId);
+/** Also cancels a pending request. Fails for the owner and for the last admin. */
+export const leaveGroup = async (groupId: string): Promise<void> => {
+  const { error } = await supabase.rpc("leave_group", { p_group_id: groupId });
   if (error) throw error;
 };
 
@@ -1299,21 +1677,48 @@ export const findGroupByInviteCode = async (code: string): Promise<Group | null>
 };
 
 export const STUDY_PRESENCE_STALE_MS = 120_000;
+/** Group live view refetch interval while its Realtime channel is down. */
+export const STUDY_PRESENCE_POLL_MS = 30_000;
 
-export async function markStudySessionActive(userId: string): Promise<void> {
+/**
+ * `activeSince` shifts the start forward by the breaks already taken, so peers can show
+ * `now - session_started_at` as active time without knowing about pauses.
+ * `activity` is dropped server-side when the profile hides it (`share_study_activity`).
+ */
+export async function markStudySessionActive(
+  userId: string,
+  activeSince?: Date,
+  activity?: StudyPresenceActivity | null
+): Promise<void> {
   const now = new Date().toISOString();
   const { error } = await supabase.from("user_study_presence").upsert(
     {
       user_id: userId,
       is_studying: true,
-      session_started_at: now,
+      session_started_at: activeSince?.toISOString() ?? now,
+      paused_at: null,
       updated_at: now,
+      subject_name: activity?.subjectName ?? null,
+      subject_color: activity?.subjectColor ?? null,
+      subject_icon: activity?.subjectIcon ?? null,
+      task_title: activity?.taskTitle ?? null,
     },
     { onConflict: "user_id" }
   );
   if (error) throw error;
 }
 
+/** Timer paused: stays "in session" for peers, shown as on break. */
+export async function markStudySessionPaused(userId: string): Promise<void> {
+  const now = new Date().toISOString();
+  const { error } = await supabase
+    .from("user_study_presence")
+    .update({ paused_at: now, updated_at: now })
+    .eq("user_id", userId)
+    .eq("is_studying", true);
+  if (error) throw error;
+}
+
 export async function touchStudyPresence(userId: string): Promise<void> {
   const { error } = await supabase
     .from("user_study_presence")
@@ -1330,20 +1735,51 @@ export async function markStudySessionIdle(userId: string): Promise<void> {
       user_id: userId,
       is_studying: false,
       session_started_at: null,
+      paused_at: null,
       updated_at: now,
+      subject_name: null,
+      subject_color: null,
+      subject_icon: null,
+      task_title: null,
     },
     { onConflict: "user_id" }
   );
   if (error) throw error;
 }
 
+type StudyPresenceFields = Pick<
+  GroupMemberWithPresence,
+  "isStudying" | "studyingSince" | "pausedAt" | "presenceUpdatedAt" | "activity"
+>;
+
+/** Presence fields of a `user_study_presence` row (also used for Realtime payloads). */
+export const mapStudyPresenceRow = (row: any): StudyPresenceFields => {
+  const subjectName = (row?.subject_name as string | null | undefined) ?? null;
+  const taskTitle = (row?.task_title as string | null | undefined) ?? null;
+  return {
+    isStudying: Boolean(row?.is_studying),
+    studyingSince: (row?.session_started_at as string | null | undefined) ?? null,
+    pausedAt: (row?.paused_at as string | null | undefined) ?? null,
+    presenceUpdatedAt: (row?.updated_at as string | null | undefined) ?? null,
+    activity:
+      subjectName || taskTitle
+        ? {
+            subjectName,
+            subjectColor: (row?.subject_color as string | null | undefined) ?? null,
+            subjectIcon: (row?.subject_icon as string | null | undefined) ?? null,
+            taskTitle,
+          }
+        : null,
+  };
+};
+
 /** Approved members + profile + live timer row (if any). */
 export async function fetchGroupMembersWithPresence(
   groupId: string
 ): Promise<GroupMemberWithPresence[]> {
   const { data: members, error: membersError } = await supabase
     .from("group_members")
-    .select("user_id, role")
+    .select("id, user_id, role")
     .eq("group_id", groupId)
     .eq("status", "approved");
 
@@ -1362,7 +1798,9 @@ export async function fetchGroupMembersWithPresence(
 
   const { data: presenceRows, error: presenceError } = await supabase
     .from("user_study_presence")
-    .select("user_id, is_studying, session_started_at, updated_at")
+    .select(
+      "user_id, is_studying, session_started_at, paused_at, updated_at, subject_name, subject_color, subject_icon, task_title"
+    )
     .in("user_id", ids);
 
   if (presenceError) throw presenceError;
@@ -1375,18 +1813,17 @@ export async function fetchGroupMembersWithPresence(
     const p = profileById.get(uid);
     const pr = presenceById.get(uid);
     return {
+      membershipId: m.id as string,
       userId: uid,
       username: (p?.username as string | null | undefined) ?? null,
       avatarUrl: (p?.avatar_url as string | null | undefined) ?? null,
       role: m.role as GroupRole,
-      isStudying: Boolean(pr?.is_studying),
-      studyingSince: (pr?.session_started_at as string | null | undefined) ?? null,
-      presenceUpdatedAt: (pr?.updated_at as string | null | undefined) ?? null,
+      ...mapStudyPresenceRow(pr),
     };
   });
 }
 
-export type { GroupMemberWithPresence };
+export type { GroupMemberWithPresence, StudyPresenceActivity };
 
 export const requestJoinGroup = async (
   groupId: string,
@@ -1411,6 +1848,574 @@ export const regenerateInviteCode = async (groupId: string): Promise<string> =>
   return result?.invite_code ?? "";
 };
 
+// GROUP INVITES
+// Deep links carry the invite code; limits are optional and reset with a new code
+export interface GroupInvitePreview {
+  id: string;
+  name: string;
+  description: string | null;
+  visibility: GroupVisibility;
+  memberCount: number;
+  requiresAdminApproval: boolean;
+  hasPassword: boolean;
+  inviteExpired: boolean;
+  inviteExhausted: boolean;
+  /** The viewer's membership, if any. */
+  membership: MembershipStatus | null;
+}
+
+export interface GroupInviteSettings {
+  inviteCode: string;
+  expiresAt: string | null;
+  maxUses: number | null;
+  useCount: number;
+}
+
+export const fetchGroupInvitePreview = async (
+  code: string
+): Promise<GroupInvitePreview | null> => {
+  const { data, error } = await supabase.rpc("get_group_invite_preview", { p_code: code });
+
+  if (error) throw error;
+  const row = Array.isArray(data) ? data[0] : data;
+  if (!row) return null;
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description ?? null,
+    visibility: row.visibility,
+    memberCount: Number(row.member_count ?? 0),
+    requiresAdminApproval: Boolean(row.requires_admin_approval),
+    hasPassword: Boolean(row.has_password),
+    inviteExpired: Boolean(row.invite_expired),
+    inviteExhausted: Boolean(row.invite_exhausted),
+    membership: row.membership ?? null,
+  };
+};
+
+/** Same errors as `requestJoinGroup`, plus INVITE_EXPIRED / INVITE_EXHAUSTED. */
+export const joinGroupByInvite = async (
+  code: string,
+  password?: string | null
+): Promise<GroupMember> => {
+  const { data, error } = await supabase.rpc("join_group_by_invite", {
+    p_code: code,
+    p_password: password ?? null,
+  });
+
+  if (error) throw error;
+  return (Array.isArray(data) ? data[0] : data) as GroupMember;
+};
+
+export const fetchGroupInviteSettings = async (groupId: string): Promise<GroupInviteSettings> => {
+  const { data, error } = await supabase
+    .from("groups")
+    .select("invite_code, invite_expires_at, invite_max_uses, invite_use_count")
+    .eq("id", groupId)
+    .single();
+
+  if (error) throw error;
+  return {
+    inviteCode: data.invite_code,
+    expiresAt: data.invite_expires_at ?? null,
+    maxUses: data.invite_max_uses ?? null,
+    useCount: data.invite_use_count ?? 0,
+  };
+};
+
+export const setGroupInviteLimits = async (
+  groupId: string,
+  limits: { expiresAt: string | null; maxUses: number | null }
+): Promise<void> => {
+  const { error } = await supabase.rpc("set_group_invite_limits", {
+    p_group_id: groupId,
+    p_expires_at: limits.expiresAt,
+    p_max_uses: limits.maxUses,
+  });
+  if (error) throw error;
+};
+
+// GROUP MODERATION
+// Admin-only RPCs; the server keeps the owner and at least one admin in every group
+export interface GroupJoinRequest {
+  userId: string;
+  username: string | null;
+  avatarUrl: string | null;
+  requestedAt: string;
+}
+
+export const fetchGroupJoinRequests = async (groupId: string): Promise<GroupJoinRequest[]> => {
+  const { data, error } = await supabase.rpc("get_group_join_requests", {
+    p_group_id: groupId,
+  });
+
+  if (error) throw error;
+  return (data ?? []).map((row: any) => ({
+    userId: row.user_id,
+    username: row.username ?? null,
+    avatarUrl: row.avatar_url ?? null,
+    requestedAt: row.requested_at,
+  }));
+};
+
+export const respondToGroupJoinRequest = async (
+  groupId: string,
+  userId: string,
+  approve: boolean
+): Promise<void> => {
+  const { error } = await supabase.rpc("respond_to_group_join_request", {
+    p_group_id: groupId,
+    p_user_id: userId,
+    p_approve: approve,
+  });
+  if (error) throw error;
+};
+
+export const removeGroupMember = async (groupId: string, userId: string): Promise<void> => {
+  const { error } = await supabase.rpc("remove_group_member", {
+    p_group_id: groupId,
+    p_user_id: userId,
+  });
+  if (error) throw error;
+};
+
+export const setGroupMemberRole = async (
+  groupId: string,
+  userId: string,
+  role: GroupRole
+): Promise<void> => {
+  const { error } = await supabase.rpc("set_group_member_role", {
+    p_group_id: groupId,
+    p_user_id: userId,
+    p_role: role,
+  });
+  if (error) throw error;
+};
+
+export const transferGroupOwnership = async (
+  groupId: string,
+  newOwnerId: string
+): Promise<void> => {
+  const { error } = await supabase.rpc("transfer_group_ownership", {
+    p_group_id: groupId,
+    p_new_owner_id: newOwnerId,
+  });
+  if (error) throw error;
+};
+
+// GROUP CHALLENGES
+/** group_total: seconds summed over members; daily_minimum: seconds each member needs per day. */
+export type GroupChallengeKind = "group_total" | "daily_minimum";
+
+export interface GroupChallenge {
+  id: string;
+  title: string;
+  kind: GroupChallengeKind;
+  targetSeconds: number;
+  /** Local dates (YYYY-MM-DD), inclusive. */
+  startsOn: string;
+  endsOn: string;
+  createdBy: string | null;
+  createdAt: string;
+  completedAt: string | null;
+  /** Seconds (group_total) or member-days at the minimum (daily_minimum). */
+  progress: number;
+  goal: number;
+  /** The viewer's share: their seconds, or their days at the minimum. */
+  myProgress: number;
+}
+
+export interface GroupChallengeInput {
+  title: string;
+  kind: GroupChallengeKind;
+  targetSeconds: number;
+  startsOn: string;
+  endsOn: string;
+}
+
+const mapGroupChallengeRow = (row: any): GroupChallenge => ({
+  id: row.id,
+  title: row.title ?? "",
+  kind: row.kind as GroupChallengeKind,
+  targetSeconds: row.target_seconds ?? 0,
+  startsOn: row.starts_on,
+  endsOn: row.ends_on,
+  createdBy: row.created_by ?? null,
+  createdAt: row.created_at,
+  completedAt: row.completed_at ?? null,
+  progress: Number(row.progress ?? 0),
+  goal: Number(row.goal ?? 0),
+  myProgress: Number(row.my_progress ?? 0),
+});
+
+/** Every challenge of the group (newest window first) with live progress. */
+export const fetchGroupChallenges = async (groupId: string): Promise<GroupChallenge[]> => {
+  const { data, error } = await supabase.rpc("get_group_challenges", {
+    p_group_id: groupId,
+  });
+
+  if (error) throw error;
+  return (data ?? []).map(mapGroupChallengeRow);
+};
+
+/** Admins only (RLS). Progress is filled in on the next `fetchGroupChallenges`. */
+export const createGroupChallenge = async (
+  groupId: string,
+  userId: string,
+  input: GroupChallengeInput
+): Promise<void> => {
+  const { error } = await supabase.from("group_challenges").insert({
+    group_id: groupId,
+    created_by: userId,
+    title: input.title.trim(),
+    kind: input.kind,
+    target_seconds: input.targetSeconds,
+    starts_on: input.startsOn,
+    ends_on: input.endsOn,
+  });
+
+  if (error) throw error;
+};
+
+// GROUP MESSAGES
+export interface GroupMessage {
+  id: string;
+  groupId: string;
+  authorId: string;
+  body: string;
+  /** Mentioned user ids (approved members at posting time). */
+  mentions: string[];
+  pinnedAt: string | null;
+  createdAt: string;
+}
+
+const GROUP_MESSAGE_COLUMNS = "id, group_id, author_id, body, mentions, pinned_at, created_at";
+
+/** Also maps Realtime payloads, which carry raw table rows. */
+export const mapGroupMessageRow = (row: any): GroupMessage => ({
+  id: row.id,
+  groupId: row.group_id,
+  authorId: row.author_id,
+  body: row.body ?? "",
+  mentions: row.mentions ?? [],
+  pinnedAt: row.pinned_at ?? null,
+  createdAt: row.created_at,
+});
+
+/** Position after the oldest loaded message: its `createdAt` and `id`. */
+export interface GroupMessageCursor {
+  createdAt: string;
+  id: string;
+}
+
+/**
+ * Newest first (ties on `created_at` ordered by id); pass the oldest loaded message's
+ * `createdAt` and `id` as `before` for the next page.
+ */
+export const fetchGroupMessages = async (
+  groupId: string,
+  options?: { before?: GroupMessageCursor | null; limit?: number }
+): Promise<GroupMessage[]> => {
+  let query = supabase
+    .from("group_messages")
+    .select(GROUP_MESSAGE_COLUMNS)
+    .eq("group_id", groupId)
+    .order("created_at", { ascending: false })
+    .order("id", { ascending: false })
+    .limit(options?.limit ?? 30);
+
+  if (options?.before) {
+    // Messages sharing the cursor's timestamp are split by id, so none is skipped
+    const { createdAt, id } = options.before;
+    query = query.or(
+      `created_at.lt."${createdAt}",and(created_at.eq."${createdAt}",id.lt.${id})`
+    );
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data ?? []).map(mapGroupMessageRow);
+};
+
+export const fetchPinnedGroupMessages = async (groupId: string): Promise<GroupMessage[]> => {
+  const { data, error } = await supabase
+    .from("group_messages")
+    .select(GROUP_MESSAGE_COLUMNS)
+    .eq("group_id", groupId)
+    .not("pinned_at", "is", null)
+    .order("pinned_at", { ascending: false });
+
+  if (error) throw error;
+  return (data ?? []).map(mapGroupMessageRow);
+};
+
+export const postGroupMessage = async (
+  groupId: string,
+  userId: string,
+  body: string,
+  mentions: string[]
+): Promise<GroupMessage> => {
+  const { data, error } = await supabase
+    .from("group_messages")
+    .insert({ group_id: groupId, author_id: userId, body: body.trim(), mentions })
+    .select(GROUP_MESSAGE_COLUMNS)
+    .single();
+
+  if (error) throw error;
+  return mapGroupMessageRow(data);
+};
+
+/** Authors delete their own posts; admins any post (RLS). */
+export const deleteGroupMessage = async (messageId: string): Promise<void> => {
+  const { error } = await supabase.from("group_messages").delete().eq("id", messageId);
+  if (error) throw error;
+};
+
+export const setGroupMessagePinned = async (messageId: string, pinned: boolean): Promise<void> => {
+  const { error } = await supabase.rpc("set_group_message_pinned", {
+    p_message_id: messageId,
+    p_pinned: pinned,
+  });
+  if (error) throw error;
+};
+
+// GROUP EVENTS
+// Scheduled study sessions; time studied inside the window is credited to the event
+export type GroupEventRsvpStatus = "going" | "maybe" | "declined";
+
+export interface GroupEvent {
+  id: string;
+  title: string;
+  startsAt: string;
+  durationMinutes: number;
+  /** Subject names suggested for the session (labels only). */
+  subjects: string[];
+  createdBy: string | null;
+  createdAt: string;
+  goingCount: number;
+  maybeCount: number;
+  myRsvp: GroupEventRsvpStatus | null;
+  /** Members who studied inside the window (0 until the event starts). */
+  attendeeCount: number;
+  studiedSeconds: number;
+  myStudiedSeconds: number;
+}
+
+export interface GroupEventInput {
+  title: string;
+  startsAt: string;
+  durationMinutes: number;
+  subjects: string[];
+}
+
+export interface GroupEventAttendee {
+  userId: string;
+  username: string | null;
+  avatarUrl: string | null;
+  rsvp: GroupEventRsvpStatus | null;
+  studiedSeconds: number;
+}
+
+const mapGroupEventRow = (row: any): GroupEvent => ({
+  id: row.id,
+  title: row.title ?? "",
+  startsAt: row.starts_at,
+  durationMinutes: row.duration_minutes ?? 0,
+  subjects: row.subjects ?? [],
+  createdBy: row.created_by ?? null,
+  createdAt: row.created_at,
+  goingCount: Number(row.going_count ?? 0),
+  maybeCount: Number(row.maybe_count ?? 0),
+  myRsvp: (row.my_rsvp as GroupEventRsvpStatus | null) ?? null,
+  attendeeCount: Number(row.attendee_count ?? 0),
+  studiedSeconds: Number(row.studied_seconds ?? 0),
+  myStudiedSeconds: Number(row.my_studied_seconds ?? 0),
+});
+
+/** Every event of the group, latest start first, with RSVP counts and credited time. */
+export const fetchGroupEvents = async (groupId: string): Promise<GroupEvent[]> => {
+  const { data, error } = await supabase.rpc("get_group_events", {
+    p_group_id: groupId,
+  });
+
+  if (error) throw error;
+  return (data ?? []).map(mapGroupEventRow);
+};
+
+/** Any approved member (RLS). */
+export const createGroupEvent = async (
+  groupId: string,
+  userId: string,
+  input: GroupEventInput
+): Promise<void> => {
+  const { error } = await supabase.from("group_events").insert({
+    group_id: groupId,
+    created_by: userId,
+    title: input.title.trim(),
+    starts_at: input.startsAt,
+    duration_minutes: input.durationMinutes,
+    subjects: input.subjects,
+  });
+
+  if (error) throw error;
+};
+
+/** The author or a group admin (RLS). */
+export const deleteGroupEvent = async (eventId: string): Promise<void> => {
+  const { error } = await supabase.from("group_events").delete().eq("id", eventId);
+  if (error) throw error;
+};
+
+/** `null` clears the answer. Rejected once the event is over. */
+export const setGroupEventRsvp = async (
+  eventId: string,
+  status: GroupEventRsvpStatus | null
+): Promise<void> => {
+  const { error } = await supabase.rpc("set_group_event_rsvp", {
+    p_event_id: eventId,
+    p_status: status,
+  });
+  if (error) throw error;
+};
+
+/** RSVPs of one event, keyed by user. */
+export const fetchGroupEventRsvps = async (
+  eventId: string
+): Promise<Record<string, GroupEventRsvpStatus>> => {
+  const { data, error } = await supabase
+    .from("group_event_rsvps")
+    .select("user_id, status")
+    .eq("event_id", eventId);
+
+  if (error) throw error;
+  const result: Record<string, GroupEventRsvpStatus> = {};
+  for (const row of data ?? []) {
+    result[row.user_id as string] = row.status as GroupEventRsvpStatus;
+  }
+  return result;
+};
+
+/** Members who answered or studied during the event, most time first. */
+export const fetchGroupEventAttendance = async (
+  eventId: string
+): Promise<GroupEventAttendee[]> => {
+  const { data, error } = await supabase.rpc("get_group_event_attendance", {
+    p_event_id: eventId,
+  });
+
+  if (error) throw error;
+  return (data ?? []).map((row: any) => ({
+    userId: row.user_id,
+    username: row.username ?? null,
+    avatarUrl: row.avatar_url ?? null,
+    rsvp: (row.rsvp as GroupEventRsvpStatus | null) ?? null,
+    studiedSeconds: Number(row.studied_seconds ?? 0),
+  }));
+};
+
+// GROUP STUDY ROOMS
+// One synchronized timer per group; every client derives the phases from the row
+export type GroupStudyRoomMode = "focus" | "pomodoro";
+
+export interface GroupStudyRoom {
+  id: string;
+  groupId: string;
+  hostId: string | null;
+  mode: GroupStudyRoomMode;
+  workMinutes: number;
+  breakMinutes: number;
+  longBreakMinutes: number;
+  cycles: number;
+  longBreakEvery: number;
+  startedAt: string;
+  pausedAt: string | null;
+  /** Host pauses already over, excluded from the schedule clock. */
+  pausedSeconds: number;
+  endedAt: string | null;
+}
+
+export interface GroupStudyRoomSettings {
+  mode: GroupStudyRoomMode;
+  workMinutes: number;
+  breakMinutes: number;
+  longBreakMinutes: number;
+  cycles: number;
+  longBreakEvery: number;
+}
+
+/** Same cut-off as start_group_study_room: older open rooms are treated as ended. */
+export const STUDY_ROOM_MAX_AGE_MS = 12 * 60 * 60 * 1000;
+
+/** Also used for Realtime payloads. */
+export const mapGroupStudyRoomRow = (row: any): GroupStudyRoom => ({
+  id: row.id,
+  groupId: row.group_id,
+  hostId: row.host_id ?? null,
+  mode: row.mode as GroupStudyRoomMode,
+  workMinutes: row.work_minutes,
+  breakMinutes: row.break_minutes,
+  longBreakMinutes: row.long_break_minutes,
+  cycles: row.cycles,
+  longBreakEvery: row.long_break_every,
+  startedAt: row.started_at,
+  pausedAt: row.paused_at ?? null,
+  pausedSeconds: row.paused_seconds ?? 0,
+  endedAt: row.ended_at ?? null,
+});
+
+/** The group's open room, if any. */
+export const fetchOpenGroupStudyRoom = async (groupId: string): Promise<GroupStudyRoom | null> => {
+  const { data, error } = await supabase
+    .from("group_study_rooms")
+    .select("*")
+    .eq("group_id", groupId)
+    .is("ended_at", null)
+    .gt("started_at", new Date(Date.now() - STUDY_ROOM_MAX_AGE_MS).toISOString())
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? mapGroupStudyRoomRow(data) : null;
+};
+
+/** Fails with 23505 when the group already has an open room. */
+export const startGroupStudyRoom = async (
+  groupId: string,
+  settings: GroupStudyRoomSettings
+): Promise<GroupStudyRoom> => {
+  const { data, error } = await supabase.rpc("start_group_study_room", {
+    p_group_id: groupId,
+    p_mode: settings.mode,
+    p_work_minutes: settings.workMinutes,
+    p_break_minutes: settings.breakMinutes,
+    p_long_break_minutes: settings.longBreakMinutes,
+    p_cycles: settings.cycles,
+    p_long_break_every: settings.longBreakEvery,
+  });
+
+  if (error) throw error;
+  return mapGroupStudyRoomRow(Array.isArray(data) ? data[0] : data);
+};
+
+/** Host only. */
+export const setGroupStudyRoomPaused = async (
+  roomId: string,
+  paused: boolean
+): Promise<GroupStudyRoom> => {
+  const { data, error } = await supabase.rpc("set_group_study_room_paused", {
+    p_room_id: roomId,
+    p_paused: paused,
+  });
+
+  if (error) throw error;
+  return mapGroupStudyRoomRow(Array.isArray(data) ? data[0] : data);
+};
+
+/** The host, or a group admin. */
+export const endGroupStudyRoom = async (roomId: string): Promise<void> => {
+  const { error } = await supabase.rpc("end_group_study_room", { p_room_id: roomId });
+  if (error) throw error;
+};
+
 export type FriendStatus = "pending" | "accepted";
 
 export interface UserFriendRow {
@@ -11,8 +11,12 @@ export interface Profile {
   weekly_goal_minutes: number;
   is_public: boolean;
   show_in_leaderboard: boolean;
+  /** Group peers see the subject and task of a running session */
+  share_study_activity: boolean;
   language_preference?: string | null;
   theme_preference?: string | null;
+  /** IANA zone that defines study days (daily summaries, streaks, leaderboards). */
+  timezone?: string | null;
   onboarding_completed?: boolean | null;
   academic_category?: string | null;
   academic_year_key?: string | null;
@@ -47,12 +51,31 @@ export interface SubjectNode extends Subject {
 
 export type LeaderboardPeriod = "week" | "month" | "year";
 
+export interface LeaderboardPage {
+  entries: LeaderboardEntry[];
+  /** When the global snapshot was computed; null when the page is empty. */
+  refreshedAt: string | null;
+  hasMore: boolean;
+}
+
+/** Narrows the global leaderboard; unset fields do not filter. */
+export interface LeaderboardFilters {
+  academicCategory?: string | null;
+  academicYearKey?: string | null;
+  /** Catalogue subject (`subjects.bank_key`), e.g. "mathematics". */
+  bankKey?: string | null;
+}
+
 export interface LeaderboardEntry {
   userId: string;
   username: string;
   avatarUrl: string;
   level: number;
   totalSeconds: number;
+  /** Server-side rank (ties share a rank). */
+  rank?: number;
+  /** Rank over the same window a week earlier (friends leaderboard only). */
+  previousRank?: number | null;
 }
 
 export interface DailySummary {
@@ -105,6 +128,28 @@ export interface ProfileOverview {
 
 export type TaskStatus = "planned" | "in-progress" | "done";
 
+export type TaskPriority = "low" | "medium" | "high";
+
+export type TaskRecurrenceKind = "daily" | "weekdays" | "interval";
+
+/** Recurrence rule of a task template, counted from its `scheduledFor`. */
+export interface TaskRecurrence {
+  kind: TaskRecurrenceKind;
+  /** ISO weekdays (1 = Monday .. 7 = Sunday) for `weekdays`. */
+  weekdays: number[];
+  /** Days between occurrences for `interval`. */
+  intervalDays: number | null;
+  /** Last day of the series (YYYY-MM-DD, inclusive); null = no end. */
+  until: string | null;
+}
+
+export interface TaskSubtask {
+  id: string;
+  title: string;
+  done: boolean;
+  position: number;
+}
+
 export interface Task {
   id: string;
   user_id?: string;
@@ -115,6 +160,17 @@ export interface Task {
   plannedMinutes?: number | null;
   status: TaskStatus;
   loggedSeconds: number;
+  /** Deadline (ISO timestamp); `scheduledFor` is the day the task is planned for. */
+  dueAt?: string | null;
+  priority: TaskPriority;
+  /** Minutes before `dueAt` for the local reminder; null = no reminder. */
+  reminderMinutes?: number | null;
+  /** Checklist steps, in order. */
+  subtasks: TaskSubtask[];
+  /** Set on recurring task templates; instances are generated from it each day. */
+  recurrence?: TaskRecurrence | null;
+  /** Template this task is an instance of; `scheduledFor` is the occurrence day. */
+  parentTaskId?: string | null;
   createdAt?: string;
   updatedAt?: string;
 }
@@ -130,7 +186,35 @@ export interface SubjectWeeklyGoal {
 export interface WeeklySessionRow {
   subject_id: string;
   duration_seconds: number;
+  started_at: string;
   ended_at: string;
+  focus_rating: number | null;
+}
+
+export interface SessionBreak {
+  startedAt: Date;
+  endedAt: Date;
+}
+
+export interface StudySession {
+  id: string;
+  subjectId: string;
+  taskId: string | null;
+  startedAt: string;
+  endedAt: string;
+  durationSeconds: number;
+  notes: string;
+  /** Post-session reflection; null / empty when it was skipped. */
+  focusRating: number | null;
+  workedOn: string;
+  breaks: SessionBreak[];
+}
+
+export interface SessionReflection {
+  workedOn: string;
+  /** 1–5, or null when the user did not rate the session. */
+  focusRating: number | null;
+  notes: string;
 }
 
 export type GroupVisibility = "public" | "private";
@@ -159,13 +243,159 @@ export interface GroupMember {
   created_at: string;
 }
 
+/** Subject and task of a running session, when the member shares them. */
+export interface StudyPresenceActivity {
+  subjectName: string | null;
+  subjectColor: string | null;
+  /** Catalog icon name (lucide, kebab-case) */
+  subjectIcon: string | null;
+  taskTitle: string | null;
+}
+
 export interface GroupMemberWithPresence {
+  /** group_members row id */
+  membershipId: string;
   userId: string;
   username: string | null;
   avatarUrl: string | null;
   role: GroupRole;
   isStudying: boolean;
   studyingSince: string | null;
+  /** Set while the member's timer is paused (on break) */
+  pausedAt: string | null;
   /** Server heartbeat; used to treat presence as stale without clearing the row */
   presenceUpdatedAt: string | null;
+  /** Null while idle or when the member hides what they study */
+  activity: StudyPresenceActivity | null;
+}
+
+/** group_total: seconds summed over members; daily_minimum: seconds each member needs per day. */
+export type GroupChallengeKind = "group_total" | "daily_minimum";
+
+export interface GroupChallenge {
+  id: string;
+  title: string;
+  kind: GroupChallengeKind;
+  targetSeconds: number;
+  /** Local dates (YYYY-MM-DD), inclusive. */
+  startsOn: string;
+  endsOn: string;
+  createdBy: string | null;
+  createdAt: string;
+  completedAt: string | null;
+  /** Seconds (group_total) or member-days at the minimum (daily_minimum). */
+  progress: number;
+  goal: number;
+  /** The viewer's share: their seconds, or their days at the minimum. */
+  myProgress: number;
+}
+
+export interface GroupChallengeInput {
+  title: string;
+  kind: GroupChallengeKind;
+  targetSeconds: number;
+  startsOn: string;
+  endsOn: string;
+}
+
+export type GroupEventRsvpStatus = "going" | "maybe" | "declined";
+
+export interface GroupEvent {
+  id: string;
+  title: string;
+  startsAt: string;
+  durationMinutes: number;
+  /** Subject names suggested for the session (labels only). */
+  subjects: string[];
+  createdBy: string | null;
+  createdAt: string;
+  goingCount: number;
+  maybeCount: number;
+  myRsvp: GroupEventRsvpStatus | null;
+  /** Members who studied inside the window (0 until the event starts). */
+  attendeeCount: number;
+  studiedSeconds: number;
+  myStudiedSeconds: number;
+}
+
+export interface GroupEventInput {
+  title: string;
+  startsAt: string;
+  durationMinutes: number;
+  subjects: string[];
+}
+
+export interface GroupEventAttendee {
+  userId: string;
+  username: string | null;
+  avatarUrl: string | null;
+  rsvp: GroupEventRsvpStatus | null;
+  studiedSeconds: number;
+}
+
+export type GroupStudyRoomMode = "focus" | "pomodoro";
+
+export interface GroupStudyRoom {
+  id: string;
+  groupId: string;
+  hostId: string | null;
+  mode: GroupStudyRoomMode;
+  workMinutes: number;
+  breakMinutes: number;
+  longBreakMinutes: number;
+  cycles: number;
+  longBreakEvery: number;
+  startedAt: string;
+  pausedAt: string | null;
+  /** Host pauses already over, excluded from the schedule clock. */
+  pausedSeconds: number;
+  endedAt: string | null;
+}
+
+export interface GroupStudyRoomSettings {
+  mode: GroupStudyRoomMode;
+  workMinutes: number;
+  breakMinutes: number;
+  longBreakMinutes: number;
+  cycles: number;
+  longBreakEvery: number;
+}
+
+export interface GroupMessage {
+  id: string;
+  groupId: string;
+  authorId: string;
+  body: string;
+  /** Mentioned user ids (approved members at posting time). */
+  mentions: string[];
+  pinnedAt: string | null;
+  createdAt: string;
+}
+
+export interface GroupJoinRequest {
+  userId: string;
+  username: string | null;
+  avatarUrl: string | null;
+  requestedAt: string;
+}
+
+export interface GroupInvitePreview {
+  id: string;
+  name: string;
+  description: string | null;
+  visibility: GroupVisibility;
+  memberCount: number;
+  requiresAdminApproval: boolean;
+  hasPassword: boolean;
+  inviteExpired: boolean;
+  inviteExhausted: boolean;
+  /** The viewer's membership, if any. */
+  membership: MembershipStatus | null;
+}
+
+export interface GroupInviteSettings {
+  inviteCode: string;
+  expiresAt: string | null;
+  maxUses: number | null;
+  useCount: number;
 }
@@ -0,0 +1,185 @@
+import { logSession } from "@/utils/queries";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+const STORAGE_PREFIX = "@tymii/session_outbox";
+
+const BASE_RETRY_MS = 5_000;
+const MAX_RETRY_MS = 15 * 60_000;
+
+/**
+ * Session that could not be saved, kept on device until `log_study_session` accepts it.
+ * The linked task's seconds are added by the same RPC, so they are queued with it.
+ */
+export interface QueuedSession {
+  /** Idempotency key sent with every attempt (`study_sessions.client_id`). */
+  clientId: string;
+  subjectId: string;
+  taskId: string | null;
+  startedAt: string;
+  endedAt: string;
+  notes: string;
+  breaks: { startedAt: string; endedAt: string }[];
+  queuedAt: number;
+  attempts: number;
+  /** Epoch ms; the entry is skipped by `flushSessionOutbox` until then. */
+  nextAttemptAt: number;
+  lastError?: string;
+}
+
+type OutboxListener = (userId: string, pendingCount: number) => void;
+
+const listeners = new Set<OutboxListener>();
+const flushing = new Map<string, Promise<number>>();
+// Serializes read-modify-write cycles on the stored queue
+let writeChain: Promise<unknown> = Promise.resolve();
+
+const storageKey = (userId: string) => `${STORAGE_PREFIX}:${userId}`;
+
+/** RFC 4122 v4 id; good enough as an idempotency key. */
+export function generateClientId(): string {
+  return "xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx".replace(/[xy]/g, (c) => {
+    const r = (Math.random() * 16) | 0;
+    return (c === "x" ? r : (r & 0x3) | 0x8).toString(16);
+  });
+}
+
+export function sessionOutboxRetryDelayMs(attempts: number): number {
+  return Math.min(MAX_RETRY_MS, BASE_RETRY_MS * 2 ** Math.max(0, attempts - 1));
+}
+
+/**
+ * Errors the server will keep returning for this session (bad data, missing subject…):
+ * retrying cannot help. 42xxx (permissions, RPC not deployed yet) stays queued.
+ */
+export function isPermanentSessionError(err: unknown): boolean {
+  const code = (err as { code?: unknown })?.code;
+  return typeof code === "string" && /^(22|23)/.test(code);
+}
+
+export async function loadSessionOutbox(userId: string): Promise<QueuedSession[]> {
+  try {
+    const raw = await AsyncStorage.getItem(storageKey(userId));
+    if (!raw) return [];
+    const parsed: unknown = JSON.parse(raw);
+    return Array.isArray(parsed) ? (parsed as QueuedSession[]) : [];
+  } catch (err) {
+    console.warn("session outbox: load failed", err);
+    return [];
+  }
+}
+
+function updateSessionOutbox(
+  userId: string,
+  update: (queue: QueuedSession[]) => QueuedSession[]
+): Promise<QueuedSession[]> {
+  const run = writeChain.then(async () => {
+    const next = update(await loadSessionOutbox(userId));
+    try {
+      if (next.length > 0) {
+        await AsyncStorage.setItem(storageKey(userId), JSON.stringify(next));
+      } else {
+        await AsyncStorage.removeItem(storageKey(userId));
+      }
+    } catch (err) {
+      console.warn("session outbox: save failed", err);
+    }
+    listeners.forEach((listener) => listener(userId, next.length));
+    return next;
+  });
+  writeChain = run.catch(() => undefined);
+  return run;
+}
+
+export function subscribeSessionOutbox(listener: OutboxListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export async function enqueueSession(
+  userId: string,
+  session: Omit<QueuedSession, "queuedAt" | "attempts" | "nextAttemptAt">,
+  lastError?: string
+): Promise<void> {
+  const now = Date.now();
+  await updateSessionOutbox(userId, (queue) => [
+    ...queue.filter((q) => q.clientId !== session.clientId),
+    {
+      ...session,
+      queuedAt: now,
+      attempts: 1,
+      nextAttemptAt: now + sessionOutboxRetryDelayMs(1),
+      lastError,
+    },
+  ]);
+}
+
+/**
+ * Sends queued sessions whose retry time has come (all of them with `force`), oldest first.
+ * Concurrent calls for the same user share one run. Resolves with the number still pending.
+ */
+export function flushSessionOutbox(
+  userId: string,
+  options?: { force?: boolean }
+): Promise<number> {
+  const running = flushing.get(userId);
+  if (running) return running;
+
+  const run = (async () => {
+    const queue = await loadSessionOutbox(userId);
+    const now = Date.now();
+    const due = queue
+      .filter((q) => options?.force || q.nextAttemptAt <= now)
+      .sort((a, b) => a.queuedAt - b.queuedAt);
+
+    for (const entry of due) {
+      try {
+        await logSession(
+          userId,
+          entry.subjectId,
+          new Date(entry.startedAt),
+          new Date(entry.endedAt),
+          {
+            clientId: entry.clientId,
+            taskId: entry.taskId,
+            notes: entry.notes,
+            breaks: entry.breaks.map((b) => ({
+              startedAt: new Date(b.startedAt),
+              endedAt: new Date(b.endedAt),
+            })),
+          }
+        );
+        await updateSessionOutbox(userId, (q) => q.filter((e) => e.clientId !== entry.clientId));
+      } catch (err) {
+        if (isPermanentSessionError(err)) {
+          console.warn("session outbox: dropping session rejected by server", entry.clientId, err);
+          await updateSessionOutbox(userId, (q) => q.filter((e) => e.clientId !== entry.clientId));
+          continue;
+        }
+        const message = err instanceof Error ? err.message : String(err);
+        await updateSessionOutbox(userId, (q) =>
+          q.map((e) =>
+            e.clientId === entry.clientId
+              ? {
+                  ...e,
+                  attempts: e.attempts + 1,
+                  nextAttemptAt: Date.now() + sessionOutboxRetryDelayMs(e.attempts + 1),
+                  lastError: message,
+                }
+              : e
+          )
+        );
+        // Still offline: leave the rest for the next run
+        break;
+      }
+    }
+
+    return (await loadSessionOutbox(userId)).length;
+  })().finally(() => {
+    flushing.delete(userId);
+  });
+
+  flushing.set(userId, run);
+  return run;
+}
@@ -0,0 +1,190 @@
+import i18n from "@/i18n";
+import type { Task } from "@/utils/queries";
+import * as Notifications from "expo-notifications";
+import { Platform } from "react-native";
+
+const IDENTIFIER_PREFIX = "task-reminder:";
+const ANDROID_CHANNEL_ID = "task-reminders";
+
+/** Reminder choices offered by the task forms, in minutes before the deadline. */
+export const TASK_REMINDER_OPTIONS = [0, 60, 24 * 60] as const;
+
+/** When the reminder of a task fires; null without a deadline or a reminder. */
+export function getTaskReminderAt(
+  task: Pick<Task, "dueAt" | "reminderMinutes">
+): Date | null {
+  if (!task.dueAt || task.reminderMinutes == null) return null;
+  const due = new Date(task.dueAt).getTime();
+  if (Number.isNaN(due)) return null;
+  return new Date(due - task.reminderMinutes * 60_000);
+}
+
+const isSupported = () => Platform.OS !== "web";
+
+let channelReady: Promise<unknown> | null = null;
+
+function ensureAndroidChannel() {
+  if (Platform.OS !== "android") return Promise.resolve();
+  if (!channelReady) {
+    channelReady = Notifications.setNotificationChannelAsync(ANDROID_CHANNEL_ID, {
+      name: i18n.t("tasks.reminders.channel"),
+      importance: Notifications.AndroidImportance.HIGH,
+    });
+  }
+  return channelReady;
+}
+
+/** Asks for notification permission when the user sets a reminder; false when not granted. */
+export async function requestTaskReminderPermission(): Promise<boolean> {
+  if (!isSupported()) return false;
+  const current = await Notifications.getPermissionsAsync();
+  if (current.granted) return true;
+  if (!current.canAskAgain) return false;
+  const next = await Notifications.requestPermissionsAsync();
+  return next.granted;
+}
+
+// Serializes every change to the scheduled reminders
+let syncChain: Promise<unknown> = Promise.resolve();
+
+function enqueueReminderWork(work: () => Promise<void>): Promise<void> {
+  const run = syncChain.then(work).catch((err) => {
+    console.error("Error syncing task reminders", err);
+  });
+  syncChain = run;
+  return run;
+}
+
+/**
+ * Makes the device's scheduled reminders match `tasks`: one per open task whose reminder is
+ * still ahead. Reminders of tasks that were completed, deleted or lost their deadline are
+ * cancelled; unchanged ones keep their schedule. `tasks` must be the user's whole, freshly
+ * loaded list: only one `useTasks` owns the sync (see `syncReminders`).
+ */
+export function syncTaskReminders(tasks: Task[]): Promise<void> {
+  return enqueueReminderWork(() => applyTaskReminders(tasks));
+}
+
+/** Drops the reminder of one task (completed or deleted from any screen). */
+export function cancelTaskReminder(taskId: string): Promise<void> {
+  return enqueueReminderWork(async () => {
+    if (!isSupported()) return;
+    await Notifications.cancelScheduledNotificationAsync(`${IDENTIFIER_PREFIX}${taskId}`);
+  });
+}
+
+/** Signing out: nothing of the previous account should fire on this device. */
+export function cancelTaskReminders(): Promise<void> {
+  return syncTaskReminders([]);
+}
+
+async function applyTaskReminders(tasks: Task[]) {
+  if (!isSupported()) return;
+  const permissions = await Notifications.getPermissionsAsync();
+  if (!permissions.granted) return;
+
+  const now = Date.now();
+  const wanted = new Map<string, { task: Task; remindAt: Date }>();
+  for (const task of tasks) {
+    // Templates only hold the deadline their instances are given
+    if (task.status === "done" || task.recurrence) continue;
+    const remindAt = getTaskReminderAt(task);
+    if (!remindAt || remindAt.getTime() <= now) continue;
+    wanted.set(`${IDENTIFIER_PREFIX}${task.id}`, { task, remindAt });
+  }
+
+  const scheduled = (await Notifications.getAllScheduledNotificationsAsync()).filter((request) =>
+    request.identifier.startsWith(IDENTIFIER_PREFIX)
+  );
+  const existing = new Map(scheduled.map((request) => [request.identifier, request]));
+
+  for (const identifier of existing.keys()) {
+    if (!wanted.has(identifier)) {
+      await Notifications.cancelScheduledNotificationAsync(identifier);
+    }
+  }
+
+  if (wanted.size > 0) await ensureAndroidChannel();
+
+  for (const [identifier, { task, remindAt }] of wanted) {
+    const current = existing.get(identifier);
+    if (
+      current &&
+      current.content.title === task.title &&
+      current.content.data?.remindAt === remindAt.toISOString() &&
+      current.content.data?.dueAt === task.dueAt
+    ) {
+      continue;
+    }
+
+    const due = new Date(task.dueAt!);
+    const time = due.toLocaleTimeString(i18n.language, { hour: "2-digit", minute: "2-digit" });
+    const sameDay = due.toDateString() === remindAt.toDateString();
+    // Scheduling with an existing identifier replaces that reminder
+    await Notifications.scheduleNotificationAsync({
+      identifier,
+      content: {
+        title: task.title,
+        body:
+          task.reminderMinutes === 0
+            ? i18n.t("tasks.reminders.bodyNow")
+            : sameDay
+              ? i18n.t("tasks.reminders.bodyToday", { time })
+              : i18n.t("tasks.reminders.bodyLater", {
+                  date: due.toLocaleDateString(i18n.language, {
+                    weekday: "long",
+                    day: "numeric",
+                    month: "long",
+                  }),
+                  time,
+                }),
+        data: { taskId: task.id, remindAt: remindAt.toISOString(), dueAt: task.dueAt },
+      },
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.DATE,
+        date: remindAt,
+        channelId: ANDROID_CHANNEL_ID,
+      },
+    });
+  }
+}
+
+/** Reminders due while the app is open are still shown. Call once at startup. */
+export function configureTaskReminderHandler() {
+  if (!isSupported()) return;
+  Notifications.setNotificationHandler({
+    handleNotification: async () => ({
+      shouldShowBanner: true,
+      shouldShowList: true,
+      shouldPlaySound: true,
+      shouldSetBadge: false,
+    }),
+  });
+}
+
+const reminderTaskId = (response: Notifications.NotificationResponse) => {
+  const taskId = response.notification.request.content.data?.taskId;
+  return typeof taskId === "string" ? taskId : null;
+};
+
+/**
+ * Calls `onOpen` with the task id when the user taps a reminder; returns the unsubscribe.
+ * A tap that launched the app from a killed state happened before any listener existed, so it is
+ * read back once (then cleared, so it does not reopen the list on the next subscribe).
+ */
+export function addTaskReminderOpenListener(onOpen: (taskId: string) => void): () => void {
+  if (!isSupported()) return () => {};
+
+  const launchResponse = Notifications.getLastNotificationResponse();
+  const launchTaskId = launchResponse ? reminderTaskId(launchResponse) : null;
+  if (launchTaskId) {
+    Notifications.clearLastNotificationResponse();
+    onOpen(launchTaskId);
+  }
+
+  const subscription = Notifications.addNotificationResponseReceivedListener((response) => {
+    const taskId = reminderTaskId(response);
+    if (taskId) onOpen(taskId);
+  });
+  return () => subscription.remove();
+}
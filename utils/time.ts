@@ -1,3 +1,5 @@
+import * as Localization from "expo-localization";
+
 /**
  * Time formatting utilities for consistent time display across the app.
  */
@@ -102,6 +104,20 @@ export const getTodayIso = (): string => {
   return local.toISOString().slice(0, 10);
 };
 
+/** Local YYYY-MM-DD + HH:MM as a Date, or null when either part is malformed. */
+export const parseLocalDateTime = (dateIso: string, time: string): Date | null => {
+  const dateMatch = /^(\d{4})-(\d{2})-(\d{2})$/.exec(dateIso.trim());
+  const timeMatch = /^(\d{1,2}):(\d{2})$/.exec(time.trim());
+  if (!dateMatch || !timeMatch) return null;
+  const [, y, m, d] = dateMatch.map(Number);
+  const [, hh, mm] = timeMatch.map(Number);
+  if (hh > 23 || mm > 59) return null;
+  const date = new Date(y, m - 1, d, hh, mm);
+  // Reject dates JS rolled over (e.g. 2024-02-31)
+  if (date.getDate() !== d || date.getMonth() !== m - 1) return null;
+  return date;
+};
+
 /**
  * Gets Monday and Sunday of the current week (local timezone).
  * Monday = 1, Sunday = 0 in JS getDay().
@@ -113,7 +129,9 @@ export const getCurrentWeekRange = (): { mondayIso: string; sundayIso: string }
   return { mondayIso: fromIso, sundayIso: toIso };
 };
 
-const toIso = (d: Date) => d.toISOString().slice(0, 10);
+/** Local calendar date (YYYY-MM-DD); `toISOString` would give the UTC date. */
+const toIso = (d: Date) =>
+  `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
 
 /** Single calendar day in the user's local timezone (YYYY-MM-DD). */
 export const getDayRangeForDate = (
@@ -158,6 +176,42 @@ export const getYearRangeForDate = (
   return { fromIso: toIso(first), toIso: toIso(last) };
 };
 
+/** IANA zone of the device (e.g. "Europe/Paris"); stored on the profile to define study days. */
+export const getDeviceTimeZone = (): string => {
+  const fromCalendar = Localization.getCalendars?.()[0]?.timeZone;
+  if (fromCalendar) return fromCalendar;
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+  } catch {
+    return "UTC";
+  }
+};
+
+/** Local midnight that starts a YYYY-MM-DD day, and the next one. */
+export const getLocalDayBounds = (dayIso: string): { start: Date; end: Date } => {
+  const [y, m, d] = dayIso.split("-").map((p) => parseInt(p, 10));
+  return { start: new Date(y, m - 1, d), end: new Date(y, m - 1, d + 1) };
+};
+
+/**
+ * Cuts `[start, end)` at each local midnight so a session that runs past midnight counts on both
+ * days. Pieces are in order; each one lies inside a single local day.
+ */
+export const splitAtLocalMidnights = (
+  start: Date,
+  end: Date
+): { dayIso: string; start: Date; end: Date }[] => {
+  const pieces: { dayIso: string; start: Date; end: Date }[] = [];
+  let cursor = start;
+  while (cursor < end) {
+    const nextMidnight = new Date(cursor.getFullYear(), cursor.getMonth(), cursor.getDate() + 1);
+    const pieceEnd = nextMidnight < end ? nextMidnight : end;
+    pieces.push({ dayIso: toIso(cursor), start: cursor, end: pieceEnd });
+    cursor = pieceEnd;
+  }
+  return pieces;
+};
+
 /** Number of days in the month (28–31). */
 export const getDaysInMonth = (date: Date): number => {
   return new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();